@@ -0,0 +1,74 @@
+import request from 'supertest';
+import express from 'express';
+import spreadsheetRoutes from '../../routes/spreadsheetRoutes';
+import { errorHandler } from '../../middleware/errorHandler';
+
+// Create a test app with the real routes, so sharing goes through authentication
+const app = express();
+app.use(express.json());
+app.use(spreadsheetRoutes);
+app.use(errorHandler);
+
+describe('AccessController', () => {
+  const tokens: Record<string, string> = {};
+  let workbookId: string;
+  let sheetId: string;
+
+  const as = (username: string) => ({ Authorization: `Bearer ${tokens[username]}` });
+
+  beforeAll(async () => {
+    for (const username of ['ada', 'linus']) {
+      const response = await request(app).post('/auth/register').send({ username, password: 'correct-horse' });
+      tokens[username] = response.body.token;
+    }
+
+    const response = await request(app).post('/workbooks').set(as('ada')).send({ name: 'Payroll' });
+    workbookId = response.body.workbook.id;
+    sheetId = response.body.workbook.sheets[0].id;
+  });
+
+  it('should share a sheet by username and show it with names', async () => {
+    const response = await request(app)
+      .put(`/workbooks/${workbookId}/sheets/${sheetId}/access`)
+      .set(as('ada'))
+      .send({ members: [{ username: 'Linus', role: 'viewer' }], protectedRanges: [{ range: 'A:A', editors: ['ada'] }] });
+
+    expect(response.status).toBe(200);
+    expect(response.body.access).toMatchObject({
+      owner: { username: 'ada' },
+      defaultRole: null,
+      members: [{ username: 'linus', role: 'viewer' }],
+      protectedRanges: [{ range: 'A:A', editors: [{ username: 'ada' }] }]
+    });
+
+    const unknown = await request(app)
+      .put(`/workbooks/${workbookId}/sheets/${sheetId}/access`)
+      .set(as('ada'))
+      .send({ members: [{ username: 'nobody', role: 'editor' }] });
+    expect(unknown.status).toBe(400);
+    expect(unknown.body.error).toBe('Unknown user: nobody');
+  });
+
+  it('should let members see the sheet but not change or share it', async () => {
+    const listing = await request(app).get('/workbooks').set(as('linus'));
+    const payroll = listing.body.workbooks.find((workbook: { id: string }) => workbook.id === workbookId);
+    expect(payroll.sheets).toEqual([{ id: sheetId, name: 'Sheet1', role: 'viewer' }]);
+
+    const message = await request(app)
+      .post(`/workbooks/${workbookId}/sheets/${sheetId}/message`)
+      .set(as('linus'))
+      .send({ message: 'B1 5' });
+    expect(message.status).toBe(403);
+    expect(message.body.success).toBe(false);
+
+    expect((await request(app).get(`/workbooks/${workbookId}/sheets/${sheetId}/state`).set(as('linus'))).status).toBe(200);
+    expect((await request(app).get(`/workbooks/${workbookId}/sheets/${sheetId}/access`).set(as('linus'))).status).toBe(403);
+  });
+
+  it('should hide the sheet from everyone else', async () => {
+    const listing = await request(app).get('/workbooks');
+    expect(listing.body.workbooks.some((workbook: { id: string }) => workbook.id === workbookId)).toBe(false);
+
+    expect((await request(app).get(`/workbooks/${workbookId}/sheets/${sheetId}/state`)).status).toBe(404);
+  });
+});
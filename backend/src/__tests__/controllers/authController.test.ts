@@ -0,0 +1,68 @@
+import request from 'supertest';
+import express from 'express';
+import { register, login, getCurrentUser } from '../../controllers/authController';
+import { sendMessage } from '../../controllers/spreadsheetController';
+import { authenticate } from '../../middleware/auth';
+
+// Create a test app
+const app = express();
+app.use(express.json());
+
+app.post('/auth/register', register);
+app.post('/auth/login', login);
+app.use(authenticate);
+app.get('/auth/me', getCurrentUser);
+app.post('/message', sendMessage);
+
+describe('AuthController', () => {
+  let token: string;
+  let userId: string;
+
+  beforeAll(async () => {
+    const response = await request(app)
+      .post('/auth/register')
+      .send({ username: 'grace', password: 'hopper-1906' });
+
+    expect(response.status).toBe(201);
+    expect(response.body.success).toBe(true);
+    token = response.body.token;
+    userId = response.body.user.id;
+  });
+
+  it('should log in and return the current user', async () => {
+    const loginResponse = await request(app)
+      .post('/auth/login')
+      .send({ username: 'grace', password: 'hopper-1906' });
+    expect(loginResponse.status).toBe(200);
+
+    const response = await request(app)
+      .get('/auth/me')
+      .set('Authorization', `Bearer ${loginResponse.body.token}`);
+
+    expect(response.status).toBe(200);
+    expect(response.body.user).toMatchObject({ id: userId, username: 'grace' });
+  });
+
+  it('should reject missing credentials, wrong passwords and bad tokens', async () => {
+    expect((await request(app).post('/auth/login').send({ username: 'grace' })).status).toBe(400);
+    expect((await request(app).post('/auth/login').send({ username: 'grace', password: 'nope-nope' })).status).toBe(401);
+    expect((await request(app).get('/auth/me')).status).toBe(401);
+
+    const response = await request(app).get('/auth/me').set('Authorization', 'Bearer not-a-token');
+    expect(response.status).toBe(401);
+    expect(response.body).toEqual({ success: false, error: 'Invalid token: malformed' });
+  });
+
+  it('should record messages under the authenticated user, not the body', async () => {
+    const response = await request(app)
+      .post('/message')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ message: 'A1 signed', userId: 'someone-else' });
+
+    expect(response.status).toBe(200);
+    expect(response.body.userEvent.userId).toBe(userId);
+
+    const anonymous = await request(app).post('/message').send({ message: 'A2 guest', userId: 'someone-else' });
+    expect(anonymous.body.userEvent.userId).toBe('anonymous');
+  });
+});
@@ -0,0 +1,61 @@
+import request from 'supertest';
+import express from 'express';
+import spreadsheetRoutes from '../../routes/spreadsheetRoutes';
+import { errorHandler } from '../../middleware/errorHandler';
+
+// Create a test app with the real routes so range addresses go through the router
+const app = express();
+app.use(express.json());
+app.use(spreadsheetRoutes);
+app.use(errorHandler);
+
+describe('CellController', () => {
+  let workbookId: string;
+  let path: string;
+
+  beforeAll(async () => {
+    const response = await request(app).post('/workbooks').send({ name: 'Cells' });
+    workbookId = response.body.workbook.id;
+    path = `/workbooks/${workbookId}/sheets/${response.body.workbook.sheets[0].id}`;
+  });
+
+  it('should write a 2D array body and read it back as a range', async () => {
+    const put = await request(app).put(`${path}/ranges/A1:B2`).send([['Item', 'Price'], ['Apple', 1.5]]);
+    expect(put.status).toBe(200);
+    expect(put.body.cellsUpdated).toBe(4);
+    expect(put.body.actionEvent.action).toBe('UPDATE_CELL');
+
+    const range = await request(app).get(`${path}/ranges/A1:B2`);
+    expect(range.status).toBe(200);
+    expect(range.body.values).toEqual([['Item', 'Price'], ['Apple', '1.5']]);
+    expect(range.body.formulas).toEqual([[null, null], [null, null]]);
+
+    const patch = await request(app).patch(`${path}/cells/C2`).send({ value: '=B2*2', format: { bold: true } });
+    expect(patch.status).toBe(200);
+
+    const cell = await request(app).get(`${path}/cells/c2`);
+    expect(cell.body.cell).toMatchObject({ id: 'C2', row: 1, col: 2, value: '3', formula: '=B2*2', format: { bold: true } });
+
+    const cleared = await request(app).delete(`${path}/ranges/A:A`);
+    expect(cleared.body.cellsUpdated).toBe(2);
+    expect((await request(app).get(`${path}/cells/A1`)).body.cell.value).toBe('');
+  });
+
+  it('should reject malformed bodies and addresses', async () => {
+    const badValues = await request(app).put('/ranges/A1:B1').send({ values: [['a', { nested: true }]] });
+    expect(badValues.status).toBe(400);
+    expect(badValues.body.error).toBe('Values may only be strings, numbers, booleans or null');
+
+    const badFormats = await request(app).put('/ranges/A1').send({ values: [['x']], formats: 'bold' });
+    expect(badFormats.status).toBe(400);
+    expect(badFormats.body.error).toMatch(/^formats must be an array of rows/);
+
+    const missing = await request(app).put('/cells/A1').send({ format: { bold: true } });
+    expect(missing.status).toBe(400);
+    expect(missing.body.error).toBe('value is required');
+
+    expect((await request(app).get('/cells/A1:B2')).status).toBe(400);
+    expect((await request(app).get('/ranges/nonsense')).status).toBe(400);
+    expect((await request(app).get(`/workbooks/${workbookId}/sheets/missing/cells/A1`)).status).toBe(404);
+  });
+});
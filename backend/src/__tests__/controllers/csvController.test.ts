@@ -0,0 +1,62 @@
+import request from 'supertest';
+import express from 'express';
+import spreadsheetRoutes from '../../routes/spreadsheetRoutes';
+import { errorHandler } from '../../middleware/errorHandler';
+import { config } from '../../config';
+
+// Create a test app with the real routes so the CSV body parser is covered
+const app = express();
+app.use(express.json({ limit: '10mb' }));
+app.use(spreadsheetRoutes);
+app.use(errorHandler);
+
+describe('CsvController', () => {
+  it('should import a text/csv body with query options', async () => {
+    const response = await request(app)
+      .post('/import?anchor=P1&delimiter=;&headerRow=true')
+      .set('Content-Type', 'text/csv')
+      .send('City;Note\nParis;"multi\nline"\n');
+
+    expect(response.status).toBe(200);
+    expect(response.body.success).toBe(true);
+    expect(response.body.rows).toBe(1);
+    expect(response.body.cellsUpdated).toBe(2);
+    expect(response.body.actionEvent.action).toBe('IMPORT_CSV');
+  });
+
+  it('should import CSV sent as JSON', async () => {
+    const response = await request(app)
+      .post('/workbooks/default/sheets/sheet1/import')
+      .send({ csv: 'x,y', anchor: 'R5' });
+
+    expect(response.status).toBe(200);
+    expect(response.body.sheetId).toBe('sheet1');
+  });
+
+  it('should return 400 without CSV data', async () => {
+    const response = await request(app).post('/import').send({});
+
+    expect(response.status).toBe(400);
+    expect(response.body.success).toBe(false);
+  });
+
+  it('should reject CSV over the size limit with 413', async () => {
+    const oversized = 'a,'.repeat(config.import.maxBytes / 2 + 1);
+
+    const raw = await request(app).post('/import').set('Content-Type', 'text/csv').send(oversized);
+    expect(raw.status).toBe(413);
+    expect(raw.body.error).toContain('CSV file is too large');
+
+    const json = await request(app).post('/import').send({ csv: oversized });
+    expect(json.status).toBe(413);
+  });
+
+  it('should export CSV as a download', async () => {
+    const response = await request(app).get('/export.csv?range=P1:Q2&headers=true');
+
+    expect(response.status).toBe(200);
+    expect(response.headers['content-type']).toContain('text/csv');
+    expect(response.headers['content-disposition']).toBe('attachment; filename="Sheet1.csv"');
+    expect(response.text).toBe('City,Note\r\nParis,"multi\nline"\r\n,');
+  });
+});
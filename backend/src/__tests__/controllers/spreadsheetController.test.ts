@@ -1,15 +1,27 @@
 import request from 'supertest';
 import express from 'express';
-import { sendMessage, getActions, getState, getHealth } from '../../controllers/spreadsheetController';
+import { sendMessage, sendBatch, undo, redo, getActions, getState, getChanges, getHealth } from '../../controllers/spreadsheetController';
 
 // Create a test app
 const app = express();
 app.use(express.json());
+// Stands in for the auth middleware: requests name their signed-in user in a header
+app.use((req, _res, next) => {
+  const userId = req.header('x-test-user');
+  if (userId) {
+    req.user = { id: userId, username: userId };
+  }
+  next();
+});
 
 // Add routes for testing
 app.post('/message', sendMessage);
+app.post('/batch', sendBatch);
+app.post('/undo', undo);
+app.post('/redo', redo);
 app.get('/action', getActions);
 app.get('/state', getState);
+app.get('/changes', getChanges);
 app.get('/health', getHealth);
 
 describe('SpreadsheetController', () => {
@@ -53,6 +65,69 @@ describe('SpreadsheetController', () => {
     });
   });
 
+  describe('POST /batch', () => {
+    it('should apply all commands as one action', async () => {
+      const response = await request(app)
+        .post('/batch')
+        .send({ commands: ['D9 one', 'E9 two'], sessionId: 'batch-session' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.actionEvent.action).toBe('BATCH');
+      expect(response.body.actionEvent.data.commands).toEqual(['D9 one', 'E9 two']);
+    });
+
+    it('should apply nothing when one command fails', async () => {
+      const response = await request(app).post('/batch').send({ commands: ['D10 one', 'nonsense'] });
+      expect(response.status).toBe(400);
+
+      const state = await request(app).get('/state');
+      expect(state.body.state.cells.find((cell: any) => cell.row === 9 && cell.col === 3).value).toBe('Row 10 Col D');
+    });
+
+    it('should return 400 without a list of commands', async () => {
+      const response = await request(app).post('/batch').send({ commands: 'D9 one' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.success).toBe(false);
+    });
+  });
+
+  describe('POST /undo and /redo', () => {
+    it('should undo and redo the last edit of the session', async () => {
+      const session = { sessionId: 'undo-session' };
+      await request(app).post('/message').set('x-test-user', 'test-user').send({ message: 'C7 before', ...session });
+      await request(app).post('/message').set('x-test-user', 'test-user').send({ message: 'C7 after', ...session });
+
+      const undone = await request(app).post('/undo').set('x-test-user', 'test-user').send(session);
+      expect(undone.status).toBe(200);
+      expect(undone.body.success).toBe(true);
+      expect(undone.body.actionEvent.action).toBe('UNDO');
+      expect(undone.body.message).toBe('Undid: Updated cell C7');
+
+      const state = await request(app).get('/state');
+      expect(state.body.state.cells.find((cell: any) => cell.row === 6 && cell.col === 2).value).toBe('before');
+
+      const redone = await request(app).post('/redo').set('x-test-user', 'test-user').send(session);
+      expect(redone.status).toBe(200);
+      expect(redone.body.actionEvent.action).toBe('REDO');
+    });
+
+    it('should only undo the edits of the signed-in user, whatever the body says', async () => {
+      const d9 = (response: request.Response) => response.body.state.cells.find((cell: any) => cell.row === 8 && cell.col === 3);
+      const before = d9(await request(app).get('/state'));
+      await request(app).post('/message').set('x-test-user', 'alice').send({ message: 'D9 mine', sessionId: 'shared' });
+
+      const other = await request(app).post('/undo').set('x-test-user', 'bob').send({ userId: 'alice', sessionId: 'shared' });
+      expect(other.status).toBe(400);
+      expect(other.body.message ?? other.text).toContain('Nothing to undo');
+      expect(d9(await request(app).get('/state')).value).toBe('mine');
+
+      const own = await request(app).post('/undo').set('x-test-user', 'alice').send({ sessionId: 'shared' });
+      expect(own.status).toBe(200);
+      expect(d9(await request(app).get('/state'))).toEqual(before);
+    });
+  });
+
   describe('GET /action', () => {
     it('should return action events', async () => {
       const response = await request(app).get('/action');
@@ -76,6 +151,28 @@ describe('SpreadsheetController', () => {
     });
   });
 
+  describe('GET /changes', () => {
+    it('should return the deltas after a sequence number', async () => {
+      const { body: { state } } = await request(app).get('/state');
+      await request(app).post('/message').send({ message: 'M1 delta', userId: 'test-user' });
+
+      const response = await request(app).get('/changes').query({ since: state.version });
+
+      expect(response.status).toBe(200);
+      expect(response.body.success).toBe(true);
+      expect(response.body.version).toBe(state.version + 1);
+      expect(response.body.deltas).toHaveLength(1);
+      expect(response.body.deltas[0].patches[0].cells[0]).toMatchObject({ row: 0, col: 12, value: 'delta' });
+    });
+
+    it('should return 400 without a valid since', async () => {
+      const response = await request(app).get('/changes').query({ since: 'abc' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.success).toBe(false);
+    });
+  });
+
   describe('GET /health', () => {
     it('should return health status', async () => {
       const response = await request(app).get('/health');
@@ -0,0 +1,85 @@
+import request from 'supertest';
+import express from 'express';
+import spreadsheetRoutes from '../../routes/spreadsheetRoutes';
+import { errorHandler } from '../../middleware/errorHandler';
+
+// Create a test app with the real routes so sheet-scoped URLs are covered
+const app = express();
+app.use(express.json());
+app.use(spreadsheetRoutes);
+app.use(errorHandler);
+
+describe('WorkbookController', () => {
+  let workbookId: string;
+  let sheetId: string;
+
+  it('should list the default workbook', async () => {
+    const response = await request(app).get('/workbooks');
+
+    expect(response.status).toBe(200);
+    expect(response.body.success).toBe(true);
+    expect(response.body.workbooks[0].id).toBe('default');
+    expect(response.body.workbooks[0].sheets[0].name).toBe('Sheet1');
+  });
+
+  it('should create a workbook', async () => {
+    const response = await request(app).post('/workbooks').send({ name: 'Team plan' });
+
+    expect(response.status).toBe(201);
+    expect(response.body.workbook.name).toBe('Team plan');
+    workbookId = response.body.workbook.id;
+    sheetId = response.body.workbook.sheets[0].id;
+  });
+
+  it('should scope messages and state to a sheet', async () => {
+    const message = await request(app)
+      .post(`/workbooks/${workbookId}/sheets/${sheetId}/message`)
+      .send({ message: 'A1 Scoped' });
+    expect(message.status).toBe(200);
+    expect(message.body.sheetId).toBe(sheetId);
+
+    const state = await request(app).get(`/workbooks/${workbookId}/sheets/${sheetId}/state`);
+    expect(state.body.state.cells).toHaveLength(1);
+    expect(state.body.state.cells[0].value).toBe('Scoped');
+
+    const legacy = await request(app).get('/state').query({ workbookId, sheetId });
+    expect(legacy.body.state.cells[0].value).toBe('Scoped');
+  });
+
+  it('should add, rename, duplicate and delete sheets', async () => {
+    const created = await request(app).post(`/workbooks/${workbookId}/sheets`).send({});
+    expect(created.status).toBe(201);
+    expect(created.body.sheet.name).toBe('Sheet2');
+
+    const renamed = await request(app)
+      .patch(`/workbooks/${workbookId}/sheets/${created.body.sheet.id}`)
+      .send({ name: 'Totals' });
+    expect(renamed.body.sheet.name).toBe('Totals');
+
+    const duplicated = await request(app).post(`/workbooks/${workbookId}/sheets/${created.body.sheet.id}/duplicate`);
+    expect(duplicated.body.workbook.sheets.map((sheet: { name: string }) => sheet.name))
+      .toEqual(['Sheet1', 'Totals', 'Totals (2)']);
+
+    const deleted = await request(app).delete(`/workbooks/${workbookId}/sheets/${created.body.sheet.id}`);
+    expect(deleted.body.workbook.sheets).toHaveLength(2);
+  });
+
+  it('should return 400 when renaming without a name', async () => {
+    const response = await request(app).patch(`/workbooks/${workbookId}`).send({});
+
+    expect(response.status).toBe(400);
+    expect(response.body.success).toBe(false);
+  });
+
+  it('should return 404 for unknown workbooks and sheets', async () => {
+    expect((await request(app).get('/workbooks/missing')).status).toBe(404);
+    expect((await request(app).get(`/workbooks/${workbookId}/sheets/missing/state`)).status).toBe(404);
+  });
+
+  it('should delete a workbook', async () => {
+    const response = await request(app).delete(`/workbooks/${workbookId}`);
+
+    expect(response.status).toBe(200);
+    expect((await request(app).get('/workbooks')).body.count).toBe(1);
+  });
+});
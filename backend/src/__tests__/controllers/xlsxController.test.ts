@@ -0,0 +1,51 @@
+import request from 'supertest';
+import express from 'express';
+import spreadsheetRoutes from '../../routes/spreadsheetRoutes';
+import { errorHandler } from '../../middleware/errorHandler';
+import { XLSX_MIME_TYPE, readXlsx } from '../../utils/xlsx';
+
+// Create a test app with the real routes so the XLSX body parser is covered
+const app = express();
+app.use(express.json({ limit: '10mb' }));
+app.use(spreadsheetRoutes);
+app.use(errorHandler);
+
+// Collect a binary response into a Buffer
+const binary = (res: any, callback: (error: Error | null, body: Buffer) => void) => {
+  const chunks: Buffer[] = [];
+  res.on('data', (chunk: Buffer) => chunks.push(chunk));
+  res.on('end', () => callback(null, Buffer.concat(chunks)));
+};
+
+describe('XlsxController', () => {
+  it('should export a workbook and import it again', async () => {
+    const exported = await request(app).get('/workbooks/default/export.xlsx').buffer(true).parse(binary);
+
+    expect(exported.status).toBe(200);
+    expect(exported.headers['content-type']).toBe(XLSX_MIME_TYPE);
+    expect(exported.headers['content-disposition']).toBe('attachment; filename="My Workbook.xlsx"');
+    expect(readXlsx(exported.body)[0].name).toBe('Sheet1');
+
+    const imported = await request(app)
+      .post('/workbooks/import?name=Round%20trip')
+      .set('Content-Type', 'application/octet-stream')
+      .send(exported.body);
+
+    expect(imported.status).toBe(201);
+    expect(imported.body.workbook.name).toBe('Round trip');
+    expect(imported.body.workbook.sheets).toHaveLength(1);
+  });
+
+  it('should return 400 without an XLSX body', async () => {
+    const response = await request(app).post('/workbooks/import').send({ file: 'nope' });
+
+    expect(response.status).toBe(400);
+    expect(response.body.success).toBe(false);
+  });
+
+  it('should return 404 for an unknown workbook', async () => {
+    const response = await request(app).get('/workbooks/missing/export.xlsx');
+
+    expect(response.status).toBe(404);
+  });
+});
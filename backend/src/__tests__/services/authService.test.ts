@@ -0,0 +1,68 @@
+import { AuthService } from '../../services/authService';
+import { MemoryStorage } from '../../storage';
+import * as password from '../../utils/password';
+
+describe('AuthService', () => {
+  let storage: MemoryStorage;
+  let service: AuthService;
+
+  beforeEach(async () => {
+    storage = new MemoryStorage();
+    service = new AuthService(storage, 'test-secret', 3600);
+    await service.initialize();
+  });
+
+  it('should register users and verify their tokens', async () => {
+    const { user, token } = await service.register('ada', 'correct horse');
+
+    expect(user).toEqual({ id: expect.stringMatching(/^user_/), username: 'ada', createdAt: expect.any(Date) });
+    expect(user).not.toHaveProperty('passwordHash');
+    expect(service.verify(token)).toEqual({ id: user.id, username: 'ada' });
+
+    // Only the hash is stored
+    const [stored] = await storage.loadUsers();
+    expect(stored.passwordHash).toMatch(/^scrypt\$/);
+    expect(stored.passwordHash).not.toContain('correct horse');
+  });
+
+  it('should log in with the right password only', async () => {
+    const { user } = await service.register('ada', 'correct horse');
+
+    const session = await service.login('ada', 'correct horse');
+    expect(session.user.id).toBe(user.id);
+    await expect(service.login('ada', 'wrong horse')).rejects.toMatchObject({ statusCode: 401 });
+    await expect(service.login('nobody', 'correct horse')).rejects.toMatchObject({ statusCode: 401 });
+  });
+
+  it('should check a password for unknown usernames too, so they are not told apart by timing', async () => {
+    const verify = jest.spyOn(password, 'verifyPassword');
+    try {
+      await expect(service.login('nobody', 'correct horse')).rejects.toMatchObject({ statusCode: 401 });
+      expect(verify).toHaveBeenCalledTimes(1);
+      await expect(verify.mock.results[0].value).resolves.toBe(false);
+    } finally {
+      verify.mockRestore();
+    }
+  });
+
+  it('should reject invalid and duplicate registrations', async () => {
+    await service.register('ada', 'correct horse');
+
+    await expect(service.register('Ada', 'another password')).rejects.toMatchObject({ statusCode: 409 });
+    await expect(service.register('a d', 'correct horse')).rejects.toMatchObject({ statusCode: 400 });
+    await expect(service.register('linus', 'short')).rejects.toMatchObject({ statusCode: 400 });
+  });
+
+  it('should keep accounts across restarts and reject tokens from another secret', async () => {
+    const { token } = await service.register('ada', 'correct horse');
+
+    const restarted = new AuthService(storage, 'test-secret', 3600);
+    await restarted.initialize();
+    expect(restarted.verify(token).username).toBe('ada');
+    await expect(restarted.login('ada', 'correct horse')).resolves.toBeDefined();
+
+    const otherSecret = new AuthService(storage, 'other-secret', 3600);
+    await otherSecret.initialize();
+    expect(() => otherSecret.verify(token)).toThrow('Invalid token');
+  });
+});
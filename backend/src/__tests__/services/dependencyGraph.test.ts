@@ -0,0 +1,92 @@
+import { DependencyGraph } from '../../services/dependencyGraph';
+
+describe('DependencyGraph', () => {
+  let graph: DependencyGraph;
+
+  beforeEach(() => {
+    graph = new DependencyGraph();
+  });
+
+  it('should collect transitive dependents', () => {
+    graph.setPrecedents('B', ['A']);
+    graph.setPrecedents('C', ['B']);
+    graph.setPrecedents('D', ['A', 'C']);
+
+    expect(Array.from(graph.collectAffected(['A'])).sort()).toEqual(['A', 'B', 'C', 'D']);
+    expect(Array.from(graph.collectAffected(['C'])).sort()).toEqual(['C', 'D']);
+  });
+
+  it('should order cells after the cells they read from', () => {
+    graph.setPrecedents('D', ['A', 'C']);
+    graph.setPrecedents('C', ['B']);
+    graph.setPrecedents('B', ['A']);
+
+    const { order, circular } = graph.getEvaluationOrder(graph.collectAffected(['A']));
+
+    expect(circular.size).toBe(0);
+    expect(order.indexOf('A')).toBeLessThan(order.indexOf('B'));
+    expect(order.indexOf('B')).toBeLessThan(order.indexOf('C'));
+    expect(order.indexOf('C')).toBeLessThan(order.indexOf('D'));
+  });
+
+  it('should order long chains without running out of stack', () => {
+    const cells = Array.from({ length: 100000 }, (_, index) => `A${index}`);
+    cells.slice(1).forEach((cell, index) => graph.setPrecedents(cell, [cells[index]]));
+
+    const { order, circular } = graph.getEvaluationOrder(graph.collectAffected(['A0']));
+
+    expect(circular.size).toBe(0);
+    expect(order).toEqual(cells);
+  });
+
+  it('should report every member of a cycle', () => {
+    // C is only part of the cycle through a cross edge (C -> B -> A -> C)
+    graph.setPrecedents('A', ['B', 'C']);
+    graph.setPrecedents('B', ['A']);
+    graph.setPrecedents('C', ['B']);
+    graph.setPrecedents('D', ['C']);
+
+    const { order, circular } = graph.getEvaluationOrder(graph.collectAffected(['A']));
+
+    expect(Array.from(circular).sort()).toEqual(['A', 'B', 'C']);
+    expect(order[order.length - 1]).toBe('D');
+  });
+
+  it('should treat self references as circular', () => {
+    graph.setPrecedents('A', ['A']);
+
+    expect(graph.getEvaluationOrder(new Set(['A'])).circular.has('A')).toBe(true);
+  });
+
+  it('should find dependents through range references', () => {
+    graph.setPrecedents('s:0:5', [], [{ sheetId: 's', top: 0, left: 0, bottom: 1048575, right: 0 }]);
+
+    expect(graph.getDependents('s:500000:0')).toEqual(['s:0:5']);
+    expect(graph.getDependents('s:0:1')).toEqual([]);
+    expect(graph.getDependents('t:0:0')).toEqual([]);
+  });
+
+  it('should order range members before the formula reading the range', () => {
+    graph.setPrecedents('s:2:0', ['s:0:1']);
+    graph.setPrecedents('s:0:5', [], [{ sheetId: 's', top: 0, left: 0, bottom: 9, right: 0 }]);
+
+    const { order, circular } = graph.getEvaluationOrder(graph.collectAffected(['s:0:1']));
+
+    expect(circular.size).toBe(0);
+    expect(order).toEqual(['s:0:1', 's:2:0', 's:0:5']);
+  });
+
+  it('should treat ranges containing their own cell as circular', () => {
+    graph.setPrecedents('s:3:0', [], [{ sheetId: 's', top: 0, left: 0, bottom: 9, right: 0 }]);
+
+    expect(graph.getEvaluationOrder(new Set(['s:3:0'])).circular.has('s:3:0')).toBe(true);
+  });
+
+  it('should drop old references when precedents are replaced', () => {
+    graph.setPrecedents('B', ['A']);
+    graph.setPrecedents('B', []);
+
+    expect(graph.getDependents('A')).toEqual([]);
+    expect(graph.getRangePrecedents('B')).toEqual([]);
+  });
+});
@@ -0,0 +1,219 @@
+import {
+  adjustFormulaForStructureChange,
+  evaluateFormula,
+  extractReferences,
+  renameSheetInFormula,
+  tokenize,
+  translateFormula,
+  FormulaContext
+} from '../../services/formulaEngine';
+
+// Build a context backed by a simple A1 -> value map
+const createContext = (values: Record<string, string>): FormulaContext => {
+  const cells = new Map<string, string>();
+  Object.entries(values).forEach(([id, value]) => {
+    const match = id.match(/^([A-Z]+)(\d+)$/)!;
+    const col = match[1].split('').reduce((acc, char) => acc * 26 + char.charCodeAt(0) - 64, 0) - 1;
+    cells.set(`${parseInt(match[2], 10) - 1}:${col}`, value);
+  });
+  return {
+    getCellValue: (row, col) => cells.get(`${row}:${col}`),
+    maxRows: 100,
+    maxColumns: 26
+  };
+};
+
+describe('formulaEngine', () => {
+  const context = createContext({
+    A1: '10',
+    A2: '20',
+    A3: '30',
+    B1: 'hello',
+    B2: '',
+    C1: '#DIV/0!'
+  });
+
+  describe('arithmetic', () => {
+    it('should respect operator precedence', () => {
+      expect(evaluateFormula('=1+2*3', context)).toBe('7');
+      expect(evaluateFormula('=(1+2)*3', context)).toBe('9');
+      expect(evaluateFormula('=2^3^2', context)).toBe('64');
+      expect(evaluateFormula('=-2^2', context)).toBe('4');
+      expect(evaluateFormula('=50%', context)).toBe('0.5');
+    });
+
+    it('should trim floating point noise', () => {
+      expect(evaluateFormula('=0.1+0.2', context)).toBe('0.3');
+    });
+
+    it('should concatenate and compare values', () => {
+      expect(evaluateFormula('="a"&"b"&1', context)).toBe('ab1');
+      expect(evaluateFormula('=A1>5', context)).toBe('TRUE');
+      expect(evaluateFormula('="abc"="ABC"', context)).toBe('TRUE');
+    });
+  });
+
+  describe('references', () => {
+    it('should resolve cell and range references', () => {
+      expect(evaluateFormula('=A1+A2', context)).toBe('30');
+      expect(evaluateFormula('=$A$1*2', context)).toBe('20');
+      expect(evaluateFormula('=SUM(A1:A3)', context)).toBe('60');
+    });
+
+    it('should treat blank cells as zero', () => {
+      expect(evaluateFormula('=B2+1', context)).toBe('1');
+      expect(evaluateFormula('=Z99', context)).toBe('0');
+    });
+
+    it('should return #REF! for references outside the sheet', () => {
+      expect(evaluateFormula('=AA1', context)).toBe('#REF!');
+      expect(evaluateFormula('=SUM(A1:A200)', context)).toBe('#REF!');
+    });
+
+    it('should propagate errors from referenced cells', () => {
+      expect(evaluateFormula('=C1+1', context)).toBe('#DIV/0!');
+    });
+  });
+
+  describe('functions', () => {
+    it('should aggregate ranges and skip text', () => {
+      expect(evaluateFormula('=SUM(A1:B3)', context)).toBe('60');
+      expect(evaluateFormula('=AVERAGE(A1:A3)', context)).toBe('20');
+      expect(evaluateFormula('=MIN(A1:A3, 5)', context)).toBe('5');
+      expect(evaluateFormula('=MAX(A1:A3)', context)).toBe('30');
+      expect(evaluateFormula('=COUNT(A1:B3)', context)).toBe('3');
+    });
+
+    it('should evaluate IF lazily', () => {
+      expect(evaluateFormula('=IF(A1>5, "big", 1/0)', context)).toBe('big');
+      expect(evaluateFormula('=IF(A1>50, "big")', context)).toBe('FALSE');
+    });
+
+    it('should concatenate with CONCAT', () => {
+      expect(evaluateFormula('=CONCAT(B1, " ", A1:A2)', context)).toBe('hello 1020');
+    });
+
+    it('should round half away from zero', () => {
+      expect(evaluateFormula('=ROUND(2.5)', context)).toBe('3');
+      expect(evaluateFormula('=ROUND(-2.5)', context)).toBe('-3');
+      expect(evaluateFormula('=ROUND(1.005, 2)', context)).toBe('1.01');
+      expect(evaluateFormula('=ROUND(1234, -2)', context)).toBe('1200');
+    });
+  });
+
+  describe('errors', () => {
+    it('should return #DIV/0! for division by zero', () => {
+      expect(evaluateFormula('=A1/0', context)).toBe('#DIV/0!');
+      expect(evaluateFormula('=AVERAGE(B1:B2)', context)).toBe('#DIV/0!');
+    });
+
+    it('should return #NAME? for unknown functions', () => {
+      expect(evaluateFormula('=NOPE(A1)', context)).toBe('#NAME?');
+      expect(evaluateFormula('=foo+1', context)).toBe('#NAME?');
+    });
+
+    it('should return #VALUE! for text in arithmetic', () => {
+      expect(evaluateFormula('=B1+1', context)).toBe('#VALUE!');
+    });
+
+    it('should return #ERROR! for malformed formulas', () => {
+      expect(evaluateFormula('=SUM(A1', context)).toBe('#ERROR!');
+      expect(evaluateFormula('=1+', context)).toBe('#ERROR!');
+    });
+  });
+
+  describe('adjustFormulaForStructureChange', () => {
+    it('should shift references after inserted rows', () => {
+      const change = { type: 'insert' as const, axis: 'row' as const, index: 2, count: 2 };
+      expect(adjustFormulaForStructureChange('=A1+A3*$B$5', change)).toBe('=A1+A5*$B$7');
+      expect(adjustFormulaForStructureChange('=SUM(A1:A4)', change)).toBe('=SUM(A1:A6)');
+    });
+
+    it('should shrink ranges and invalidate references to deleted rows', () => {
+      const change = { type: 'delete' as const, axis: 'row' as const, index: 1, count: 2 };
+      expect(adjustFormulaForStructureChange('=SUM(A1:A5)', change)).toBe('=SUM(A1:A3)');
+      expect(adjustFormulaForStructureChange('=SUM(A2:A5)', change)).toBe('=SUM(A2:A3)');
+      expect(adjustFormulaForStructureChange('=SUM(A2:A3)+1', change)).toBe('=SUM(#REF!)+1');
+      expect(adjustFormulaForStructureChange('=A2+A4', change)).toBe('=#REF!+A2');
+    });
+
+    it('should shift column references', () => {
+      expect(adjustFormulaForStructureChange('=B1&"C1"&C1', { type: 'insert', axis: 'col', index: 1, count: 1 }))
+        .toBe('=C1&"C1"&D1');
+      expect(adjustFormulaForStructureChange('=SUM(A1:D1)', { type: 'delete', axis: 'col', index: 2, count: 1 }))
+        .toBe('=SUM(A1:C1)');
+    });
+  });
+
+  describe('translateFormula', () => {
+    it('should move relative references and keep absolute ones', () => {
+      expect(translateFormula('=A1+$B1+C$1+$D$1', 2, 1)).toBe('=B3+$B3+D$1+$D$1');
+      expect(translateFormula("=SUM(Sheet2!A1:A3)&\"A1\"", 1, 0)).toBe('=SUM(Sheet2!A2:A4)&"A1"');
+    });
+
+    it('should return #REF! for references moved off the grid', () => {
+      expect(translateFormula('=A1+Sheet2!B2', -1, -1)).toBe('=#REF!+Sheet2!A1');
+      expect(translateFormula('=Sheet2!A1', 0, -1)).toBe('=#REF!');
+    });
+  });
+
+  describe('sheet references', () => {
+    const sheets: Record<string, Record<string, string>> = {
+      sheet2: { A1: '5', A2: '7' },
+      'q1 sales': { B2: '100' }
+    };
+    const crossSheetContext: FormulaContext = {
+      ...context,
+      getCellValue: (row, col, sheet) => sheet === undefined
+        ? context.getCellValue(row, col)
+        : createContext(sheets[sheet.toLowerCase()]).getCellValue(row, col),
+      hasSheet: sheet => sheet.toLowerCase() in sheets
+    };
+
+    it('should read cells and ranges on other sheets', () => {
+      expect(evaluateFormula('=Sheet2!A1*2', crossSheetContext)).toBe('10');
+      expect(evaluateFormula('=SUM(Sheet2!A1:A2)+A1', crossSheetContext)).toBe('22');
+      expect(evaluateFormula("='Q1 Sales'!B2", crossSheetContext)).toBe('100');
+    });
+
+    it('should return #REF! for unknown sheets', () => {
+      expect(evaluateFormula('=Missing!A1', crossSheetContext)).toBe('#REF!');
+    });
+
+    it('should report the sheet of extracted references', () => {
+      expect(extractReferences('=A1+Sheet2!B1', 100, 26)).toEqual([
+        { row: 0, col: 0 },
+        { row: 0, col: 1, sheet: 'Sheet2' }
+      ]);
+    });
+
+    it('should extract ranges as bounds clamped to the sheet', () => {
+      expect(extractReferences('=SUM(A1:A1048576)+B2:B2', 100, 26)).toEqual([
+        { row: 0, col: 0, endRow: 99, endCol: 0 },
+        { row: 1, col: 1 }
+      ]);
+    });
+
+    it('should only adjust references to the changed sheet', () => {
+      const change = { type: 'insert' as const, axis: 'row' as const, index: 0, count: 1 };
+      const onSheet2 = (sheet: string | undefined) => sheet === 'Sheet2';
+      expect(adjustFormulaForStructureChange('=A1+Sheet2!A1+SUM(Sheet2!A1:A2)', change, onSheet2))
+        .toBe('=A1+Sheet2!A2+SUM(Sheet2!A2:A3)');
+      expect(adjustFormulaForStructureChange('=Sheet2!A1+A1', { ...change, type: 'delete' }, onSheet2))
+        .toBe('=#REF!+A1');
+    });
+
+    it('should rename sheet prefixes and quote names when needed', () => {
+      expect(renameSheetInFormula('=Sheet2!A1+sheet2!B1+A1', 'Sheet2', 'Q1 Sales'))
+        .toBe("='Q1 Sales'!A1+'Q1 Sales'!B1+A1");
+      expect(renameSheetInFormula("='Q1 Sales'!B2", 'q1 sales', 'Data')).toBe('=Data!B2');
+    });
+  });
+
+  describe('tokenize', () => {
+    it('should tell function names apart from references', () => {
+      const tokens = tokenize('LOG10(A1)');
+      expect(tokens.map(token => token.type)).toEqual(['ident', 'lparen', 'ref', 'rparen']);
+    });
+  });
+});
@@ -1,5 +1,7 @@
-import spreadsheetService from '../../services/spreadsheetService';
+import spreadsheetService, { SpreadsheetDataStore, DEFAULT_WORKBOOK_ID } from '../../services/spreadsheetService';
 import { CustomError } from '../../middleware/errorHandler';
+import { readXlsx, writeXlsx } from '../../utils/xlsx';
+import { SpreadsheetState } from '../../types';
 
 describe('SpreadsheetService', () => {
   beforeEach(() => {
@@ -46,6 +48,86 @@ describe('SpreadsheetService', () => {
       ).rejects.toThrow(CustomError);
     });
 
+    it('should grow the sheet for cells past the initial rows and columns', async () => {
+      const store = new SpreadsheetDataStore();
+      await store.processUserMessage('AB1 1');
+      await store.processUserMessage('change column AB to Total');
+      await store.processUserMessage('A500 x');
+      await store.processUserMessage('AD2 y');
+
+      const state = await store.getSpreadsheetState();
+      expect(state.rows).toBe(500);
+      expect(state.columns).toBe(30);
+      expect(state.headers[27]).toBe('Total');
+      expect(state.cells.find(cell => cell.row === 499 && cell.col === 0)?.value).toBe('x');
+    });
+
+    it('should reject cells outside the sheet limits', async () => {
+      await expect(spreadsheetService.processUserMessage('A2000000 x'))
+        .rejects.toThrow('Cell A2000000 is outside the sheet: rows are limited to 1048576');
+      await expect(spreadsheetService.processUserMessage('AAA1 x'))
+        .rejects.toThrow('Cell AAA1 is outside the sheet: columns are limited to 702 (A-ZZ)');
+      await expect(spreadsheetService.processUserMessage('B1-B1048577 x')).rejects.toThrow('outside the sheet');
+    });
+
+    it('should fill and sum large ranges', async () => {
+      const store = new SpreadsheetDataStore();
+      const fill = await store.processUserMessage('C1-C50000 2');
+      await store.processUserMessage('D1 = SUM(C1:C50000)');
+
+      expect(fill.actionEvent.data.cellsUpdated).toBe(50000);
+      const state = await store.getSpreadsheetState();
+      expect(state.rows).toBe(50000);
+      expect(state.cells.find(cell => cell.row === 0 && cell.col === 3)?.value).toBe('100000');
+    });
+
+    it('should sum whole columns over the filled cells only', async () => {
+      const store = new SpreadsheetDataStore();
+      await store.processUserMessage('A3 4');
+      await store.processUserMessage('A900000 6');
+
+      const started = Date.now();
+      await store.processUserMessage('K1 =SUM(A1:A1048576)');
+      await store.processUserMessage('A5 10');
+
+      expect(Date.now() - started).toBeLessThan(2000);
+      const state = await store.getSpreadsheetState();
+      expect(state.cells.find(cell => cell.row === 0 && cell.col === 10)?.value).toBe('20');
+    });
+
+    it('should reject range commands over the range size limit', async () => {
+      const store = new SpreadsheetDataStore();
+      await store.processUserMessage('A200000 end');
+
+      await expect(store.processUserMessage('A1-B60000 x'))
+        .rejects.toThrow('Range A1-B60000 has 120000 cells; at most 100000 can be written at once');
+      await expect(store.processUserMessage('A:A x'))
+        .rejects.toThrow('Range A:A has 200000 cells; at most 100000 can be written at once');
+      await expect(store.processUserMessage('A1-A60000 x')).resolves.toBeDefined();
+    });
+
+    it('should fill a range written the way the grid selects it', async () => {
+      const store = new SpreadsheetDataStore();
+      const result = await store.processUserMessage('b2:c3 x');
+
+      expect(result.parsedCommand).toMatchObject({ type: 'RANGE', startRow: 2, startCol: 1, endRow: 3, endCol: 2 });
+      expect(result.actionEvent.data.cellsUpdated).toBe(4);
+    });
+
+    it('should fill whole columns and rows across the current grid', async () => {
+      const store = new SpreadsheetDataStore();
+      await store.processUserMessage('insert 2 columns before A');
+      await store.processUserMessage('A150 end');
+
+      const column = await store.processUserMessage('c:c x');
+      expect(column.parsedCommand).toMatchObject({ type: 'RANGE', startRow: 1, endRow: 150, startCol: 2, endCol: 2 });
+      expect(column.actionEvent.data.cellsUpdated).toBe(150);
+
+      const row = await store.processUserMessage('2:2 y');
+      expect(row.parsedCommand).toMatchObject({ startRow: 2, endRow: 2, startCol: 0, endCol: 27 });
+      expect(row.actionEvent.data.cellsUpdated).toBe(28);
+    });
+
     it('should include userId and sessionId', async () => {
       const result = await spreadsheetService.processUserMessage(
         'A1 Test',
@@ -58,6 +140,1003 @@ describe('SpreadsheetService', () => {
     });
   });
 
+  describe('formulas', () => {
+    it('should store the formula and its computed value', async () => {
+      await spreadsheetService.processUserMessage('T1 4');
+      await spreadsheetService.processUserMessage('T2 6');
+      const result = await spreadsheetService.processUserMessage('T3 =SUM(T1:T2)*2');
+
+      expect(result.stateEvent.cellData?.formula).toBe('=SUM(T1:T2)*2');
+      expect(result.stateEvent.cellData?.value).toBe('20');
+
+      const state = await spreadsheetService.getSpreadsheetState();
+      const cell = state.cells.find(c => c.row === 2 && c.col === 19);
+      expect(cell?.formula).toBe('=SUM(T1:T2)*2');
+      expect(cell?.value).toBe('20');
+    });
+
+    it('should store formula errors as cell values', async () => {
+      const result = await spreadsheetService.processUserMessage('T4 = T1/0');
+
+      expect(result.stateEvent.cellData?.formula).toBe('=T1/0');
+      expect(result.stateEvent.cellData?.value).toBe('#DIV/0!');
+    });
+
+    it('should store plain values without a formula', async () => {
+      const result = await spreadsheetService.processUserMessage('T5 plain text');
+
+      expect(result.stateEvent.cellData?.formula).toBeUndefined();
+      expect(result.stateEvent.cellData?.value).toBe('plain text');
+    });
+  });
+
+  describe('recalculation', () => {
+    it('should recompute dependent cells transitively', async () => {
+      await spreadsheetService.processUserMessage('U1 1');
+      await spreadsheetService.processUserMessage('U2 =U1*10');
+      await spreadsheetService.processUserMessage('U3 =U2+U1');
+
+      const result = await spreadsheetService.processUserMessage('U1 2');
+
+      const updates = result.dependentStateEvents.map(event => event.cellData);
+      expect(updates).toEqual([
+        { row: 1, col: 20, value: '20', formula: '=U1*10' },
+        { row: 2, col: 20, value: '22', formula: '=U2+U1' }
+      ]);
+    });
+
+    it('should mark circular references with #CIRC!', async () => {
+      await spreadsheetService.processUserMessage('V1 =V2+1');
+      await spreadsheetService.processUserMessage('V3 =V1*2');
+      const result = await spreadsheetService.processUserMessage('V2 =V1+1');
+
+      expect(result.stateEvent.cellData?.value).toBe('#CIRC!');
+      const values = result.dependentStateEvents.map(event => event.cellData?.value);
+      expect(values).toEqual(['#CIRC!', '#CIRC!']);
+
+      // Breaking the cycle recovers the values
+      const fixed = await spreadsheetService.processUserMessage('V2 5');
+      expect(fixed.dependentStateEvents.map(event => event.cellData?.value)).toEqual(['6', '12']);
+    });
+  });
+
+  describe('row and column commands', () => {
+    it('should insert and delete rows, shifting cells and formulas', async () => {
+      await spreadsheetService.processUserMessage('W1 5');
+      await spreadsheetService.processUserMessage('W2 =W1*2');
+      await spreadsheetService.processUserMessage('X1 =SUM(W1:W2)');
+
+      const inserted = await spreadsheetService.processUserMessage('insert row after 1');
+      expect(inserted.actionEvent.action).toBe('INSERT_ROW');
+      expect(inserted.stateEvent.type).toBe('ROW_INSERT');
+      expect(inserted.stateEvent.rowData).toEqual({ rowIndex: 1, count: 1, cells: [] });
+
+      let state = await spreadsheetService.getSpreadsheetState();
+      expect(state.rows).toBe(101);
+      expect(state.cells.find(c => c.row === 2 && c.col === 22)?.formula).toBe('=W1*2');
+      expect(state.cells.find(c => c.row === 0 && c.col === 23)?.formula).toBe('=SUM(W1:W3)');
+      expect(state.cells.find(c => c.row === 1 && c.col === 22)).toBeUndefined();
+
+      await spreadsheetService.processUserMessage('Y1 =W3');
+      const deleted = await spreadsheetService.processUserMessage('delete rows 2-3');
+      expect(deleted.stateEvent.type).toBe('ROW_DELETE');
+
+      state = await spreadsheetService.getSpreadsheetState();
+      expect(state.rows).toBe(99);
+      const total = state.cells.find(c => c.row === 0 && c.col === 23);
+      expect(total?.formula).toBe('=SUM(W1:W1)');
+      expect(total?.value).toBe('5');
+      expect(state.cells.find(c => c.row === 0 && c.col === 24)?.value).toBe('#REF!');
+
+      await spreadsheetService.processUserMessage('insert row after 99');
+      state = await spreadsheetService.getSpreadsheetState();
+      expect(state.rows).toBe(100);
+    });
+
+    it('should insert and delete columns, keeping custom header names', async () => {
+      await spreadsheetService.processUserMessage('change column Y to Total');
+
+      const inserted = await spreadsheetService.processUserMessage('insert column before X');
+      expect(inserted.stateEvent.type).toBe('COLUMN_INSERT');
+      expect(inserted.stateEvent.columnData).toEqual({ colIndex: 23, count: 1, header: 'X' });
+
+      let state = await spreadsheetService.getSpreadsheetState();
+      expect(state.headers.slice(22, 26)).toEqual(['W', 'X', 'Y', 'Total']);
+      expect(state.cells.find(c => c.row === 0 && c.col === 24)?.formula).toBe('=SUM(W1:W1)');
+
+      const deleted = await spreadsheetService.processUserMessage('delete column X');
+      expect(deleted.stateEvent.type).toBe('COLUMN_DELETE');
+
+      state = await spreadsheetService.getSpreadsheetState();
+      expect(state.headers.slice(22, 25)).toEqual(['W', 'X', 'Total']);
+    });
+
+    it('should reject rows outside the sheet', async () => {
+      await expect(
+        spreadsheetService.processUserMessage('delete row 5000')
+      ).rejects.toThrow('Invalid row: 5000');
+    });
+  });
+
+  describe('format commands', () => {
+    it('should merge formats into a range and broadcast FORMAT_CHANGE', async () => {
+      await spreadsheetService.processUserMessage('format K1-L2 bold');
+      const result = await spreadsheetService.processUserMessage('format K1:L2 color #ff0000 background #ffff00');
+
+      expect(result.actionEvent.action).toBe('FORMAT_CELL');
+      expect(result.actionEvent.data.cellsUpdated).toBe(4);
+      expect(result.stateEvent.type).toBe('FORMAT_CHANGE');
+      expect(result.stateEvent.formatData).toEqual({
+        startRow: 0,
+        startCol: 10,
+        endRow: 1,
+        endCol: 11,
+        format: { color: '#ff0000', backgroundColor: '#ffff00' }
+      });
+
+      const state = await spreadsheetService.getSpreadsheetState();
+      const cell = state.cells.find(c => c.row === 1 && c.col === 11);
+      expect(cell?.format).toEqual({ bold: true, italic: false, color: '#ff0000', backgroundColor: '#ffff00' });
+    });
+
+    it('should reject formatting more cells than a range may write', async () => {
+      const store = new SpreadsheetDataStore();
+      await store.processUserMessage('A200000 end');
+
+      await expect(store.processUserMessage('format A:A bold'))
+        .rejects.toThrow('Range A:A has 200000 cells; at most 100000 can be written at once');
+      await expect(store.processUserMessage('format A1-ZZ1048576 bold')).rejects.toThrow('at most 100000');
+    });
+
+    it('should preserve formats when values are updated', async () => {
+      await spreadsheetService.processUserMessage('format K3 italic size 16');
+      await spreadsheetService.processUserMessage('K3 new value');
+
+      const state = await spreadsheetService.getSpreadsheetState();
+      const cell = state.cells.find(c => c.row === 2 && c.col === 10);
+      expect(cell?.value).toBe('new value');
+      expect(cell?.format?.italic).toBe(true);
+      expect(cell?.format?.fontSize).toBe(16);
+    });
+
+    it('should format whole columns', async () => {
+      const result = await spreadsheetService.processUserMessage('format M:M italic');
+
+      expect(result.actionEvent.data.cellsUpdated).toBe(100);
+      const state = await spreadsheetService.getSpreadsheetState();
+      expect(state.cells.find(c => c.row === 99 && c.col === 12)?.format?.italic).toBe(true);
+    });
+
+    it('should reject invalid format commands', async () => {
+      await expect(spreadsheetService.processUserMessage('format A1 sparkly')).rejects.toThrow('Unknown format option: sparkly');
+      await expect(spreadsheetService.processUserMessage('format A2000000 bold')).rejects.toThrow('outside the sheet');
+    });
+  });
+
+  describe('fill commands', () => {
+    let store: SpreadsheetDataStore;
+
+    beforeEach(() => {
+      store = new SpreadsheetDataStore();
+    });
+
+    const valuesIn = async (col: number, rows: number[]) => {
+      const state = await store.getSpreadsheetState();
+      return rows.map(row => state.cells.find(cell => cell.row === row && cell.col === col)?.value);
+    };
+
+    it('should extend each column of the source down as a series', async () => {
+      await store.processUserMessage('K1 1');
+      await store.processUserMessage('K2 3');
+      await store.processUserMessage('L1 Monday');
+      await store.processUserMessage('format L1 bold');
+      const result = await store.processUserMessage('fill K1:L2 down to L5');
+
+      expect(result.actionEvent.message).toBe('Filled K3-L5 from K1-L2 (6 cells)');
+      expect(result.stateEvent.cellData).toMatchObject({ row: 2, col: 10, value: '5' });
+      expect(await valuesIn(10, [2, 3, 4])).toEqual(['5', '7', '9']);
+      // The empty L2 clears the cells it continues to
+      expect(await valuesIn(11, [2, 3, 4])).toEqual(['Monday', undefined, 'Monday']);
+      const state = await store.getSpreadsheetState();
+      expect(state.cells.find(cell => cell.row === 4 && cell.col === 11)?.format?.bold).toBe(true);
+    });
+
+    it('should copy formulas with their references moved and fill up and left', async () => {
+      await store.processUserMessage('K10 2');
+      await store.processUserMessage('K11 = K10 * 2');
+      const down = await store.processUserMessage('fill K11 down to 13');
+
+      expect(down.actionEvent.data.cellsUpdated).toBe(2);
+      expect(await valuesIn(10, [11, 12])).toEqual(['8', '16']);
+
+      await store.processUserMessage('fill K10 up to K8');
+      expect(await valuesIn(10, [7, 8])).toEqual(['2', '2']);
+
+      await store.processUserMessage('M20 Item 3');
+      await store.processUserMessage('fill M20 left to K');
+      const state = await store.getSpreadsheetState();
+      expect([10, 11].map(col => state.cells.find(cell => cell.row === 19 && cell.col === col)?.value)).toEqual(['Item 5', 'Item 4']);
+    });
+
+    it('should undo a fill in one step', async () => {
+      await store.processUserMessage('fill A1 down to A3');
+      expect(await valuesIn(0, [2])).toEqual(['Row 1 Col A']);
+
+      await store.processUserMessage('undo');
+      expect(await valuesIn(0, [1, 2])).toEqual(['Row 2 Col A', 'Row 3 Col A']);
+    });
+
+    it('should reject targets that are not past the source', async () => {
+      await expect(store.processUserMessage('fill A5:A6 down to A4')).rejects.toThrow('Fill target A4 is not below A5:A6');
+      await expect(store.processUserMessage('fill B1 left to C1')).rejects.toThrow('Fill target C1 is not left of B1');
+      await expect(store.processUserMessage('fill A1 right to 5')).rejects.toThrow('Invalid fill target: 5');
+      await expect(store.processUserMessage('fill A1 down to A2000000')).rejects.toThrow('outside the sheet');
+    });
+  });
+
+  describe('resize commands', () => {
+    let store: SpreadsheetDataStore;
+
+    beforeEach(() => {
+      store = new SpreadsheetDataStore();
+    });
+
+    it('should store column widths and row heights and send them in the delta', async () => {
+      const result = await store.processUserMessage('resize columns B-C to 180');
+      await store.processUserMessage('resize row 3 to 48px');
+
+      expect(result.actionEvent).toMatchObject({ action: 'RESIZE_COLUMN', message: 'Resized columns B-C to 180px' });
+      expect(result.stateEvent.dimensionData).toEqual({ axis: 'col', start: 1, end: 2, size: 180 });
+      const state = await store.getSpreadsheetState();
+      expect(state.columnWidths).toEqual({ 1: 180, 2: 180 });
+      expect(state.rowHeights).toEqual({ 2: 48 });
+
+      const { deltas } = await store.getChanges(0);
+      expect(deltas![1]).toMatchObject({ patches: [], columnWidths: { 1: 180, 2: 180 }, rowHeights: { 2: 48 } });
+
+      await store.processUserMessage('K1 x');
+      expect((await store.getChanges(2)).deltas![0].columnWidths).toBeUndefined();
+    });
+
+    it('should reset sizes to the default and undo resizes', async () => {
+      await store.processUserMessage('resize column B to 200', 'u1', 's1');
+      await store.processUserMessage('resize columns A:B to default', 'u1', 's1');
+      expect((await store.getSpreadsheetState()).columnWidths).toEqual({});
+
+      await store.processUserMessage('undo', 'u1', 's1');
+      expect((await store.getSpreadsheetState()).columnWidths).toEqual({ 1: 200 });
+      await store.processUserMessage('undo', 'u1', 's1');
+      expect((await store.getSpreadsheetState()).columnWidths).toEqual({});
+    });
+
+    it('should move sizes with inserted and deleted rows and columns', async () => {
+      await store.processUserMessage('resize row 5 to 40', 'u1', 's1');
+      await store.processUserMessage('resize column C to 300', 'u1', 's1');
+      await store.processUserMessage('insert 2 rows before 1', 'u1', 's1');
+      await store.processUserMessage('delete column C', 'u1', 's1');
+
+      let state = await store.getSpreadsheetState();
+      expect(state.rowHeights).toEqual({ 6: 40 });
+      expect(state.columnWidths).toEqual({});
+
+      await store.processUserMessage('undo', 'u1', 's1');
+      state = await store.getSpreadsheetState();
+      expect(state.columnWidths).toEqual({ 2: 300 });
+    });
+
+    it('should reject sizes out of bounds and unknown targets', async () => {
+      await expect(store.processUserMessage('resize column A to 5')).rejects.toThrow('Column widths must be between 20 and 1000 pixels, got: 5');
+      await expect(store.processUserMessage('resize row 1 to 900')).rejects.toThrow('Row heights must be between 16 and 500 pixels');
+      await expect(store.processUserMessage('resize row 500 to 40')).rejects.toThrow('Invalid row: 500');
+    });
+
+    it('should limit how many rows one resize covers and name the axis that was resized', async () => {
+      await store.processUserMessage('A200000 x');
+      await expect(store.processUserMessage('resize rows 1-100001 to 40')).rejects.toThrow('At most 100000 rows can be resized at once');
+
+      // Sheets stop at 18278 columns (A-ZZZ), below the limit, so whole column spans resize
+      await store.processUserMessage('ZZ1 x');
+      const result = await store.processUserMessage('resize columns A:ZZ to 60');
+      expect(result.actionEvent.message).toBe('Resized columns A-ZZ to 60px');
+      expect(Object.keys((await store.getSpreadsheetState()).columnWidths!)).toHaveLength(702);
+    });
+  });
+
+  describe('freeze commands', () => {
+    let store: SpreadsheetDataStore;
+
+    beforeEach(() => {
+      store = new SpreadsheetDataStore();
+    });
+
+    it('should store frozen rows and columns and send them in the delta', async () => {
+      const result = await store.processUserMessage('freeze rows 2 columns 1');
+
+      expect(result.actionEvent).toMatchObject({ action: 'FREEZE_PANES', message: 'Froze 2 rows and 1 column' });
+      expect(result.stateEvent.freezeData).toEqual({ rows: 2, columns: 1 });
+      let state = await store.getSpreadsheetState();
+      expect(state).toMatchObject({ frozenRows: 2, frozenColumns: 1 });
+      expect((await store.getChanges(0)).deltas![0]).toMatchObject({ patches: [], frozenRows: 2, frozenColumns: 1 });
+
+      await store.processUserMessage('freeze columns 3');
+      state = await store.getSpreadsheetState();
+      expect(state).toMatchObject({ frozenRows: 2, frozenColumns: 3 });
+
+      await store.processUserMessage('unfreeze');
+      state = await store.getSpreadsheetState();
+      expect(state.frozenRows).toBeUndefined();
+      expect(state.frozenColumns).toBeUndefined();
+      expect((await store.getChanges(2)).deltas![0]).toMatchObject({ frozenRows: 0, frozenColumns: 0 });
+    });
+
+    it('should grow and shrink the panes with rows inserted and deleted inside them, and undo', async () => {
+      await store.processUserMessage('freeze rows 3', 'u1', 's1');
+      await store.processUserMessage('insert row before 2', 'u1', 's1');
+      expect((await store.getSpreadsheetState()).frozenRows).toBe(4);
+
+      await store.processUserMessage('insert row before 10', 'u1', 's1');
+      await store.processUserMessage('delete rows 3-6', 'u1', 's1');
+      expect((await store.getSpreadsheetState()).frozenRows).toBe(2);
+
+      await store.processUserMessage('undo', 'u1', 's1');
+      expect((await store.getSpreadsheetState()).frozenRows).toBe(4);
+      await store.processUserMessage('undo', 'u1', 's1');
+      await store.processUserMessage('undo', 'u1', 's1');
+      expect((await store.getSpreadsheetState()).frozenRows).toBe(3);
+      await store.processUserMessage('undo', 'u1', 's1');
+      expect((await store.getSpreadsheetState()).frozenRows).toBeUndefined();
+    });
+
+    it('should keep panes grown by inserts within the freeze limits', async () => {
+      await store.processUserMessage('freeze rows 48 columns 19', 'u1', 's1');
+      await store.processUserMessage('insert 5 rows before 1', 'u1', 's1');
+      await store.processUserMessage('insert 3 columns before A', 'u1', 's1');
+      expect(await store.getSpreadsheetState()).toMatchObject({ frozenRows: 50, frozenColumns: 20 });
+
+      await store.processUserMessage('undo', 'u1', 's1');
+      await store.processUserMessage('undo', 'u1', 's1');
+      expect(await store.getSpreadsheetState()).toMatchObject({ frozenRows: 48, frozenColumns: 19 });
+    });
+
+    it('should reject too many frozen rows or columns', async () => {
+      await expect(store.processUserMessage('freeze rows 51')).rejects.toThrow('At most 50 rows can be frozen, got: 51');
+      await expect(store.processUserMessage('freeze columns 30')).rejects.toThrow('columns can be frozen, got: 30');
+      await expect(store.processUserMessage('freeze')).rejects.toThrow('Say how many rows or columns to freeze');
+    });
+  });
+
+  describe('workbooks and sheets', () => {
+    // A separate store so these tests do not disturb the shared mock workbook
+    let store: SpreadsheetDataStore;
+
+    beforeEach(() => {
+      store = new SpreadsheetDataStore();
+    });
+
+    const valueAt = async (sheetId: string, row: number, col: number) => {
+      const state = await store.getSpreadsheetState({ sheetId });
+      return state.cells.find(cell => cell.row === row && cell.col === col)?.value;
+    };
+
+    it('should create, rename, duplicate and delete workbooks', async () => {
+      const created = await store.createWorkbook('Budget');
+      expect(created.sheets).toEqual([{ id: expect.any(String), name: 'Sheet1', role: 'owner' }]);
+      expect((await store.getSpreadsheetState({ workbookId: created.id })).cells).toEqual([]);
+
+      const renamed = await store.renameWorkbook(created.id, '  Budget 2025 ');
+      expect(renamed.name).toBe('Budget 2025');
+
+      await store.processUserMessage('A1 100', undefined, undefined, { workbookId: created.id });
+      const copy = await store.duplicateWorkbook(created.id);
+      expect(copy.name).toBe('Budget 2025 (copy)');
+      expect(copy.sheets[0].id).not.toBe(created.sheets[0].id);
+      expect((await store.getSpreadsheetState({ workbookId: copy.id })).cells[0].value).toBe('100');
+
+      await store.deleteWorkbook(created.id);
+      expect((await store.listWorkbooks()).map(workbook => workbook.name)).toEqual(['My Workbook', 'Budget 2025 (copy)']);
+      await expect(store.getWorkbook(created.id)).rejects.toMatchObject({ statusCode: 404 });
+    });
+
+    it('should keep sheets independent', async () => {
+      const { sheet } = await store.createSheet(DEFAULT_WORKBOOK_ID);
+      expect(sheet.name).toBe('Sheet2');
+
+      await store.processUserMessage('A1 Other sheet', undefined, undefined, { sheetId: sheet.id });
+      expect(await valueAt(sheet.id, 0, 0)).toBe('Other sheet');
+      expect(await valueAt('sheet1', 0, 0)).toBe('Row 1 Col A');
+      expect(await store.getActionEvents({ sheetId: sheet.id })).toHaveLength(1);
+    });
+
+    it('should validate sheet names and refuse to delete the last sheet', async () => {
+      await expect(store.createSheet(DEFAULT_WORKBOOK_ID, 'sheet1')).rejects.toMatchObject({ statusCode: 409 });
+      await expect(store.createSheet(DEFAULT_WORKBOOK_ID, 'Bad/Name')).rejects.toMatchObject({ statusCode: 400 });
+      await expect(store.deleteSheet(DEFAULT_WORKBOOK_ID, 'sheet1')).rejects.toThrow('Cannot delete the only sheet');
+      await expect(store.deleteWorkbook(DEFAULT_WORKBOOK_ID)).rejects.toThrow('Cannot delete the only workbook');
+    });
+
+    it('should evaluate and propagate cross-sheet references', async () => {
+      const { sheet } = await store.createSheet(DEFAULT_WORKBOOK_ID, 'Q1 Sales');
+      await store.processUserMessage("'Q1 Sales'!B2 40");
+      await store.processUserMessage("K1 ='Q1 Sales'!B2+2");
+      expect(await valueAt('sheet1', 0, 10)).toBe('42');
+
+      const result = await store.processUserMessage('B2 10', undefined, undefined, { sheetId: sheet.id });
+      expect(result.dependentStateEvents).toHaveLength(1);
+      expect(await valueAt('sheet1', 0, 10)).toBe('12');
+
+      await expect(store.processUserMessage('Missing!A1 1')).rejects.toThrow('Unknown sheet: Missing');
+    });
+
+    it('should rewrite references when sheets are renamed, shifted or deleted', async () => {
+      const { sheet } = await store.createSheet(DEFAULT_WORKBOOK_ID, 'Data');
+      await store.processUserMessage('Data!A1 7');
+      await store.processUserMessage('K1 =Data!A1*A1');
+      await store.processUserMessage('A1 2');
+
+      await store.renameSheet(DEFAULT_WORKBOOK_ID, sheet.id, 'Inputs');
+      let state = await store.getSpreadsheetState();
+      expect(state.cells.find(cell => cell.row === 0 && cell.col === 10)?.formula).toBe('=Inputs!A1*A1');
+
+      // Inserting a row on Inputs moves Inputs!A1 but not the local A1
+      await store.processUserMessage('insert row before 1', undefined, undefined, { sheetId: sheet.id });
+      state = await store.getSpreadsheetState();
+      const formulaCell = state.cells.find(cell => cell.row === 0 && cell.col === 10);
+      expect(formulaCell?.formula).toBe('=Inputs!A2*A1');
+      expect(formulaCell?.value).toBe('14');
+
+      await store.deleteSheet(DEFAULT_WORKBOOK_ID, sheet.id);
+      expect(await valueAt('sheet1', 0, 10)).toBe('#REF!');
+    });
+
+    it('should duplicate a sheet next to the original', async () => {
+      await store.createSheet(DEFAULT_WORKBOOK_ID, 'Last');
+      const { workbook, sheet } = await store.duplicateSheet(DEFAULT_WORKBOOK_ID, 'sheet1');
+      expect(sheet.name).toBe('Sheet1 (2)');
+      expect(workbook.sheets.map(entry => entry.name)).toEqual(['Sheet1', 'Sheet1 (2)', 'Last']);
+      expect(await valueAt(sheet.id, 99, 9)).toBe('Row 100 Col J');
+    });
+  });
+
+  describe('undo and redo', () => {
+    let store: SpreadsheetDataStore;
+
+    beforeEach(() => {
+      store = new SpreadsheetDataStore();
+    });
+
+    const cellAt = async (row: number, col: number) => {
+      const state = await store.getSpreadsheetState();
+      return state.cells.find(cell => cell.row === row && cell.col === col);
+    };
+
+    it('should keep undo operations out of returned and listed action events', async () => {
+      const result = await store.processUserMessage('A1 secret');
+      expect(result.actionEvent).not.toHaveProperty('undo');
+      expect((await store.getActionEvents())[0]).not.toHaveProperty('undo');
+
+      await store.processUserMessage('undo');
+      expect((await cellAt(0, 0))?.value).toBe('Row 1 Col A');
+    });
+
+    it('should restore values and formats overwritten by a range fill', async () => {
+      await store.processUserMessage('format A1 bold');
+      await store.processUserMessage('A1-A100 x');
+      expect((await cellAt(99, 0))?.value).toBe('x');
+
+      const undone = await store.processUserMessage('undo');
+      expect(undone.actionEvent.action).toBe('UNDO');
+      expect(undone.actionEvent.message).toBe('Undid: Updated range A1-A100 with "x" (100 cells)');
+      expect((await cellAt(0, 0))?.value).toBe('Row 1 Col A');
+      expect((await cellAt(0, 0))?.format?.bold).toBe(true);
+      expect((await cellAt(99, 0))?.value).toBe('Row 100 Col A');
+
+      await store.processUserMessage('redo');
+      expect((await cellAt(99, 0))?.value).toBe('x');
+      expect((await cellAt(0, 0))?.format?.bold).toBe(true);
+    });
+
+    it('should remove cells that did not exist and recalculate formulas', async () => {
+      await store.processUserMessage('K1 = 2');
+      await store.processUserMessage('L1 = K1 * 10');
+      await store.processUserMessage('K1 = 5');
+      expect((await cellAt(0, 11))?.value).toBe('50');
+
+      const undone = await store.processUserMessage('undo');
+      expect((await cellAt(0, 10))?.value).toBe('2');
+      expect(undone.dependentStateEvents[0].cellData?.value).toBe('20');
+
+      await store.processUserMessage('undo');
+      await store.processUserMessage('undo');
+      expect(await cellAt(0, 10)).toBeUndefined();
+      expect(await cellAt(0, 11)).toBeUndefined();
+    });
+
+    it('should bring back deleted rows and the references to them', async () => {
+      await store.processUserMessage('K5 = A3');
+      await store.processUserMessage('K6 = SUM(B3:B10)');
+      await store.processUserMessage('change column A to Name');
+      await store.processUserMessage('delete row 3');
+      expect((await cellAt(3, 10))?.formula).toBe('=#REF!');
+
+      await store.processUserMessage('undo');
+      expect((await cellAt(2, 0))?.value).toBe('Row 3 Col A');
+      expect((await cellAt(4, 10))?.formula).toBe('=A3');
+      expect((await cellAt(4, 10))?.value).toBe('Row 3 Col A');
+      expect((await cellAt(5, 10))?.formula).toBe('=SUM(B3:B10)');
+      expect((await store.getSpreadsheetState()).rows).toBe(100);
+
+      await store.processUserMessage('redo');
+      expect((await cellAt(3, 10))?.formula).toBe('=#REF!');
+      expect((await cellAt(4, 10))?.formula).toBe('=SUM(B3:B9)');
+
+      await store.processUserMessage('undo');
+      await store.processUserMessage('undo');
+      expect((await store.getSpreadsheetState()).headers[0]).toBe('A');
+    });
+
+    it('should restore custom headers of deleted columns', async () => {
+      await store.processUserMessage('change column B to Price');
+      await store.processUserMessage('delete column B');
+      await store.processUserMessage('undo');
+
+      const state = await store.getSpreadsheetState();
+      expect(state.headers.slice(0, 3)).toEqual(['A', 'Price', 'C']);
+      expect((await cellAt(0, 1))?.value).toBe('Row 1 Col B');
+    });
+
+    it('should keep a separate history per user and session', async () => {
+      await store.processUserMessage('A1 mine', 'alice', 'tab1');
+
+      await expect(store.processUserMessage('undo', 'bob', 'tab1')).rejects.toMatchObject({ statusCode: 400, message: 'Nothing to undo' });
+      await expect(store.processUserMessage('undo', 'alice', 'tab2')).rejects.toMatchObject({ statusCode: 400 });
+
+      await store.processUserMessage('B1 bob', 'bob', 'tab1');
+      await store.processUserMessage('undo', 'alice', 'tab1');
+      expect((await cellAt(0, 0))?.value).toBe('Row 1 Col A');
+      expect((await cellAt(0, 1))?.value).toBe('bob');
+    });
+
+    it('should clear the redo stack on a new edit', async () => {
+      await store.processUserMessage('A1 one');
+      await store.processUserMessage('undo');
+      await store.processUserMessage('A1 two');
+
+      await expect(store.processUserMessage('redo')).rejects.toMatchObject({ message: 'Nothing to redo' });
+      expect((await cellAt(0, 0))?.value).toBe('two');
+    });
+
+    it('should undo edits made on another sheet', async () => {
+      const { sheet } = await store.createSheet(DEFAULT_WORKBOOK_ID, 'Data');
+      await store.processUserMessage('Data!A1 42');
+
+      const undone = await store.processUserMessage('undo');
+      expect(undone.sheetId).toBe(sheet.id);
+      expect((await store.getSpreadsheetState({ sheetId: sheet.id })).cells).toEqual([]);
+    });
+  });
+
+  describe('batches', () => {
+    let store: SpreadsheetDataStore;
+
+    beforeEach(() => {
+      store = new SpreadsheetDataStore();
+    });
+
+    const valueAt = async (cell: string) => (await store.getRange(cell)).values[0][0];
+
+    it('should apply every command as one action that undo reverses at once', async () => {
+      const result = await store.processBatch(['A1 x', 'B2 x', 'insert row after 1', 'C1 = A1 & B3']);
+
+      expect(result.actionEvent.action).toBe('BATCH');
+      expect(result.actionEvent.data.actions.map((action: { action: string }) => action.action))
+        .toEqual(['UPDATE_CELL', 'UPDATE_CELL', 'INSERT_ROW', 'UPDATE_CELL']);
+      expect(result.stateEvent.batchData).toHaveLength(4);
+      expect(await valueAt('C1')).toBe('xx');
+      expect((await store.getActionEvents())[0].id).toBe(result.actionEvent.id);
+
+      await store.processUserMessage('undo');
+      expect(await valueAt('A1')).toBe('Row 1 Col A');
+      expect(await valueAt('B2')).toBe('Row 2 Col B');
+      expect(await valueAt('C1')).toBe('Row 1 Col C');
+    });
+
+    it('should leave the sheet as it was when a command fails', async () => {
+      const before = await store.getSpreadsheetState();
+
+      await expect(store.processBatch(['A1 x', 'AB500 far', 'delete row 0'])).rejects.toThrow(
+        'Command 3 (delete row 0) failed: Invalid row: 0. No command was applied'
+      );
+      const after = await store.getSpreadsheetState();
+      expect(after.cells).toEqual(before.cells);
+      expect([after.rows, after.columns, after.version]).toEqual([before.rows, before.columns, before.version]);
+      await expect(store.processUserMessage('undo')).rejects.toThrow('Nothing to undo');
+    });
+
+    it('should reject empty batches and history commands', async () => {
+      await expect(store.processBatch([])).rejects.toMatchObject({ statusCode: 400 });
+      await expect(store.processBatch(['A1 x', 'undo'])).rejects.toThrow('Undo and redo cannot be part of a batch');
+    });
+  });
+
+  describe('CSV import and export', () => {
+    let store: SpreadsheetDataStore;
+
+    beforeEach(() => {
+      store = new SpreadsheetDataStore();
+    });
+
+    const cellAt = async (row: number, col: number) => {
+      const state = await store.getSpreadsheetState();
+      return state.cells.find(cell => cell.row === row && cell.col === col);
+    };
+
+    it('should import rows at an anchor cell as one action', async () => {
+      const result = await store.importCsv('Item,Price\nApple,1.5\n"Pear, ripe",2\n', { anchor: 'K1', headerRow: true });
+
+      expect(result.rows).toBe(2);
+      expect(result.cellsUpdated).toBe(4);
+      expect(result.actionEvent.action).toBe('IMPORT_CSV');
+      expect(result.actionEvent.data.range).toBe('K1-L2');
+
+      const state = await store.getSpreadsheetState();
+      expect(state.headers.slice(10, 12)).toEqual(['Item', 'Price']);
+      expect((await cellAt(1, 10))?.value).toBe('Pear, ripe');
+      expect((await cellAt(0, 11))?.value).toBe('1.5');
+      expect((await store.getActionEvents())[0].id).toBe(result.actionEvent.id);
+    });
+
+    it('should recalculate dependents and evaluate imported formulas', async () => {
+      await store.processUserMessage('M1 = K1 + K2');
+      const result = await store.importCsv('2\n3\n=K1*10', { anchor: 'K1' });
+
+      expect(result.dependentStateEvents.map(event => event.cellData?.value)).toContain('5');
+      expect((await cellAt(0, 12))?.value).toBe('5');
+      expect((await cellAt(2, 10))?.value).toBe('20');
+    });
+
+    it('should be undone in one step', async () => {
+      await store.importCsv('a,b\nc,d', { headerRow: true });
+      expect((await cellAt(0, 0))?.value).toBe('c');
+      expect((await store.getSpreadsheetState()).headers[0]).toBe('a');
+
+      await store.processUserMessage('undo');
+      expect((await cellAt(0, 0))?.value).toBe('Row 1 Col A');
+      expect((await store.getSpreadsheetState()).headers[0]).toBe('A');
+    });
+
+    it('should clear existing values for empty fields without creating cells', async () => {
+      await store.importCsv(',x', { anchor: 'A1' });
+      expect((await cellAt(0, 0))?.value).toBe('');
+
+      await store.importCsv(',x', { anchor: 'Z1' });
+      expect(await cellAt(0, 25)).toBeUndefined();
+      expect((await cellAt(0, 26))?.value).toBe('x');
+    });
+
+    it('should reject data that does not fit or an invalid anchor', async () => {
+      await expect(store.importCsv('a\nb', { anchor: 'A1048576' })).rejects.toMatchObject({ statusCode: 400 });
+      await expect(store.importCsv('a', { anchor: 'A0' })).rejects.toMatchObject({ statusCode: 400 });
+      await expect(store.importCsv('\n\n')).rejects.toThrow('CSV contains no data');
+    });
+
+    it('should export the filled area, a range, headers and formulas', async () => {
+      const workbook = await store.createWorkbook('Export');
+      const target = { workbookId: workbook.id };
+      expect((await store.exportCsv(target)).csv).toBe('');
+
+      await store.processUserMessage('A1 Name', undefined, undefined, target);
+      await store.processUserMessage('B2 = 1 + 1', undefined, undefined, target);
+      await store.processUserMessage('C1 a, "b"', undefined, undefined, target);
+
+      expect((await store.exportCsv(target)).csv).toBe('Name,,"a, ""b"""\r\n,2,');
+      expect((await store.exportCsv(target, { range: 'B1:B2', formulas: true })).csv).toBe('\r\n=1 + 1');
+      expect((await store.exportCsv(target, { range: 'a1-b1', includeHeaders: true, delimiter: ';' })).csv).toBe('A;B\r\nName;');
+      expect((await store.exportCsv(target)).filename).toBe('Sheet1.csv');
+      await expect(store.exportCsv(target, { range: 'A1:A2000000' })).rejects.toMatchObject({ statusCode: 400 });
+    });
+
+    it('should limit export ranges and export sparse sheets row by row', async () => {
+      const workbook = await store.createWorkbook('Sparse');
+      const target = { workbookId: workbook.id };
+      await store.processUserMessage('B2 x', undefined, undefined, target);
+      await store.processUserMessage('C300000 y', undefined, undefined, target);
+
+      await expect(store.exportCsv(target, { range: 'A1:ZZ1000' }))
+        .rejects.toThrow('Export range A1:ZZ1000 has 702000 cells; at most 100000 can be exported at once');
+      const { csv, rows, columns } = await store.exportCsv(target);
+      expect(rows).toBe(300000);
+      expect(columns).toBe(3);
+      const lines = csv.split('\r\n');
+      expect(lines[1]).toBe(',x,');
+      expect(lines[299999]).toBe(',,y');
+    });
+  });
+
+  describe('cell and range API', () => {
+    let store: SpreadsheetDataStore;
+    const target = { workbookId: 'default', sheetId: 'sheet1' };
+
+    beforeEach(() => {
+      store = new SpreadsheetDataStore();
+    });
+
+    it('should read values, formulas and formats row by row', async () => {
+      await store.processUserMessage('B1 = A1 & "!"');
+      await store.processUserMessage('format A1 bold');
+
+      const contents = await store.getRange('a1:c2');
+      expect(contents.range).toBe('A1-C2');
+      expect(contents.values).toEqual([['Row 1 Col A', 'Row 1 Col A!', 'Row 1 Col C'], ['Row 2 Col A', 'Row 2 Col B', 'Row 2 Col C']]);
+      expect(contents.formulas[0]).toEqual([null, '=A1 & "!"', null]);
+      expect(contents.formats[0][0]?.bold).toBe(true);
+      expect((await store.getRange('Z500')).values).toEqual([['']]);
+      await expect(store.getRange('A:ZZ')).resolves.toBeDefined();
+      await expect(store.getRange('1:1048576')).rejects.toMatchObject({ statusCode: 400 });
+    });
+
+    it('should replace a range as one undoable action and recalculate dependents', async () => {
+      await store.processUserMessage('D1 = A1 + B2');
+      const result = await store.writeRange('A1:B2', { values: [['1', null], ['=A1*2', '5']], replace: true }, undefined, undefined, target);
+
+      expect(result.actionEvent.action).toBe('UPDATE_CELL');
+      expect(result.actionEvent.data).toEqual({ range: 'A1-B2', cellsUpdated: 4 });
+      expect(result.stateEvent.type).toBe('CELL_UPDATE');
+      expect((await store.getRange('A1:D2')).values).toEqual([['1', '', 'Row 1 Col C', '6'], ['2', '5', 'Row 2 Col C', 'Row 2 Col D']]);
+      expect((await store.getActionEvents())[0].id).toBe(result.actionEvent.id);
+
+      await store.processUserMessage('undo');
+      expect((await store.getRange('A1:B1')).values).toEqual([['Row 1 Col A', 'Row 1 Col B']]);
+      await expect(store.writeRange('A1:B2', { values: [['1']], replace: true })).rejects.toThrow('Range A1-B2 is 2x2 cells but the values are 1x1');
+    });
+
+    it('should patch given values and merge a format into the whole range', async () => {
+      const result = await store.writeRange('A1:B2', { values: [[null, 'x']], format: { italic: true } });
+
+      expect(result.cellsUpdated).toBe(4);
+      const contents = await store.getRange('A1:B2');
+      expect(contents.values).toEqual([['Row 1 Col A', 'x'], ['Row 2 Col A', 'Row 2 Col B']]);
+      expect(contents.formats.flat().every(format => format?.italic)).toBe(true);
+      await expect(store.writeRange('A1', { values: [['a', 'b']] })).rejects.toMatchObject({ statusCode: 400 });
+      await expect(store.writeRange('A1', { format: { sparkly: true } as never })).rejects.toThrow('Unknown format option: sparkly');
+    });
+
+    it('should paste a copied block with its formulas moved and its formats', async () => {
+      await store.writeRange('A1', { values: [['1']] });
+      await store.writeRange('C4:D4', { values: [['3', '4']] });
+      const result = await store.writeRange('D5:E5', {
+        values: [['=A1*2', '=$A$1+B1']],
+        formats: [[{ bold: true }, null]],
+        copiedFrom: 'B2',
+        replace: true
+      });
+
+      expect(result.cellsUpdated).toBe(2);
+      const contents = await store.getRange('D5:E5');
+      expect(contents.formulas).toEqual([['=C4*2', '=$A$1+D4']]);
+      expect(contents.values).toEqual([['6', '5']]);
+      expect(contents.formats[0][0]).toMatchObject({ bold: true });
+      expect(contents.formats[0][1]?.bold).toBe(false);
+      await expect(store.writeRange('A1', { values: [['=B2']], copiedFrom: 'C3', replace: true })).resolves
+        .toMatchObject({ cellsUpdated: 1 });
+      expect((await store.getRange('A1')).formulas).toEqual([['=#REF!']]);
+      await expect(store.writeRange('A1', { values: [['x']], copiedFrom: 'nowhere' })).rejects.toThrow('Invalid copiedFrom cell');
+    });
+
+    it('should clear the cells of a range', async () => {
+      const result = await store.clearRange('B:C');
+
+      expect(result.cellsUpdated).toBe(200);
+      expect((await store.getRange('A1:D1')).values).toEqual([['Row 1 Col A', '', '', 'Row 1 Col D']]);
+      expect((await store.getSpreadsheetState()).cells.some(cell => cell.col === 1)).toBe(false);
+    });
+  });
+
+  describe('XLSX import and export', () => {
+    let store: SpreadsheetDataStore;
+
+    beforeEach(() => {
+      store = new SpreadsheetDataStore();
+    });
+
+    const sheetState = (name: string, cells: SpreadsheetState['cells']): { name: string; state: SpreadsheetState } => ({
+      name,
+      state: { rows: 100, columns: 26, headers: [], cells }
+    });
+
+    it('should import every worksheet as a sheet of a new workbook', async () => {
+      const file = writeXlsx([
+        sheetState('Data', [{ row: 0, col: 0, value: '4', format: { bold: true } }]),
+        sheetState('Totals', [{ row: 0, col: 0, value: '0', formula: '=Data!A1*10' }])
+      ]);
+
+      const workbook = await store.importXlsx(file, { name: 'Imported' });
+      expect(workbook.name).toBe('Imported');
+      expect(workbook.sheets.map(sheet => sheet.name)).toEqual(['Data', 'Totals']);
+
+      const totals = await store.getSpreadsheetState({ workbookId: workbook.id, sheetId: workbook.sheets[1].id });
+      expect(totals.cells[0]).toMatchObject({ value: '40', formula: '=Data!A1*10' });
+
+      // Cross-sheet formulas stay live after the import
+      await store.processUserMessage('Data!A1 5', undefined, undefined, { workbookId: workbook.id });
+      expect((await store.getSpreadsheetState({ workbookId: workbook.id, sheetId: workbook.sheets[1].id })).cells[0].value).toBe('50');
+    });
+
+    it('should use the first row as column headers', async () => {
+      const file = writeXlsx([sheetState('Sheet1', [
+        { row: 0, col: 0, value: 'Price' },
+        { row: 1, col: 0, value: '3' },
+        { row: 2, col: 0, value: '', formula: '=A2*2' }
+      ])]);
+
+      const workbook = await store.importXlsx(file, { headerRow: true });
+      const state = await store.getSpreadsheetState({ workbookId: workbook.id });
+      expect(workbook.name).toBe('Workbook1');
+      expect(state.headers[0]).toBe('Price');
+      expect(state.cells.find(cell => cell.row === 1)).toMatchObject({ value: '6', formula: '=A1*2' });
+    });
+
+    it('should reject sheets that do not fit and files that are not XLSX', async () => {
+      const tall = writeXlsx([sheetState('Tall', [{ row: 1048576, col: 0, value: 'x' }])]);
+      await expect(store.importXlsx(tall)).rejects.toThrow('Sheet "Tall" has 1048577 rows');
+      await expect(store.importXlsx(Buffer.from('a,b'))).rejects.toMatchObject({ statusCode: 400 });
+      expect(await store.listWorkbooks()).toHaveLength(1);
+    });
+
+    it('should export all sheets of a workbook', async () => {
+      await store.createSheet(DEFAULT_WORKBOOK_ID, 'Notes');
+      const { file, filename } = await store.exportXlsx(DEFAULT_WORKBOOK_ID);
+      const sheets = readXlsx(file);
+
+      expect(filename).toBe('My Workbook.xlsx');
+      expect(sheets.map(sheet => sheet.name)).toEqual(['Sheet1', 'Notes']);
+      expect(sheets[0].cells.find(cell => cell.row === 0 && cell.col === 0)?.value).toBe('Row 1 Col A');
+    });
+  });
+
+  describe('deltas', () => {
+    let store: SpreadsheetDataStore;
+
+    beforeEach(() => {
+      store = new SpreadsheetDataStore();
+    });
+
+    it('should number the changes of a sheet and send only the cells they touched', async () => {
+      await store.processUserMessage('K1 5');
+      await store.processUserMessage('L1 =K1*2');
+      await store.processUserMessage('K1 7');
+
+      const { version, deltas } = await store.getChanges(0);
+      expect(version).toBe(3);
+      expect(deltas!.map(delta => delta.seq)).toEqual([1, 2, 3]);
+      expect(deltas![2].patches).toEqual([{
+        type: 'cells',
+        cells: [expect.objectContaining({ row: 0, col: 10, value: '7' }), expect.objectContaining({ row: 0, col: 11, value: '14' })],
+        removed: []
+      }]);
+      expect(deltas![2].headers).toBeUndefined();
+      expect((await store.getSpreadsheetState()).version).toBe(3);
+    });
+
+    it('should send structure changes before the formulas they rewrote', async () => {
+      await store.processUserMessage('L1 =K2*2');
+      await store.processUserMessage('insert row after 1');
+      await store.processUserMessage('insert column before B');
+
+      const { deltas } = await store.getChanges(1);
+      expect(deltas![0]).toMatchObject({ seq: 2, rows: 101 });
+      expect(deltas![0].patches).toEqual([
+        { type: 'structure', change: { type: 'insert', axis: 'row', index: 1, count: 1 } },
+        { type: 'cells', cells: [expect.objectContaining({ row: 0, col: 11, formula: '=K3*2' })], removed: [] }
+      ]);
+      expect(deltas![1].patches[0]).toEqual({ type: 'structure', change: { type: 'insert', axis: 'col', index: 1, count: 1 } });
+      expect(deltas![1].headers).toHaveLength(27);
+    });
+
+    it('should report removed cells when an edit is undone', async () => {
+      await store.processUserMessage('K1 5', 'u1', 's1');
+      await store.processUserMessage('undo', 'u1', 's1');
+
+      const { deltas } = await store.getChanges(1);
+      expect(deltas![0].patches).toEqual([{ type: 'cells', cells: [], removed: [{ row: 0, col: 10 }] }]);
+    });
+
+    it('should return the state when the missing deltas are not kept', async () => {
+      await store.processUserMessage('K1 5');
+
+      expect(await store.getChanges(1)).toEqual({ version: 1, deltas: [] });
+      const ahead = await store.getChanges(5);
+      expect(ahead.deltas).toBeUndefined();
+      expect(ahead.state?.version).toBe(1);
+      expect(ahead.state?.cells.find(cell => cell.row === 0 && cell.col === 10)?.value).toBe('5');
+    });
+  });
+
+  describe('access control', () => {
+    let store: SpreadsheetDataStore;
+    let workbookId: string;
+    let sheetId: string;
+
+    // A workbook owned by "owner" whose only sheet is shared with the given members
+    beforeEach(async () => {
+      store = new SpreadsheetDataStore();
+      const workbook = await store.createWorkbook('Finance', 'owner');
+      workbookId = workbook.id;
+      sheetId = workbook.sheets[0].id;
+      await store.updateSheetAccess({ workbookId, sheetId }, { members: { ed: 'editor', vic: 'viewer', cam: 'commenter' } }, 'owner');
+    });
+
+    it('should hide sheets from users they are not shared with', async () => {
+      const listed = async (userId?: string) =>
+        (await store.listWorkbooks(userId)).find(workbook => workbook.id === workbookId)?.sheets;
+
+      expect(await listed('vic')).toEqual([{ id: sheetId, name: 'Sheet1', role: 'viewer' }]);
+      expect(await listed('mallory')).toBeUndefined();
+      expect(await listed()).toBeUndefined();
+      await expect(store.getSpreadsheetState({ workbookId, sheetId }, 'mallory')).rejects.toMatchObject({ statusCode: 404 });
+
+      await store.updateSheetAccess({ workbookId, sheetId }, { defaultRole: 'viewer' }, 'owner');
+      expect(await listed()).toEqual([{ id: sheetId, name: 'Sheet1', role: 'viewer' }]);
+    });
+
+    it('should reject changes from viewers and commenters with a 403', async () => {
+      const target = { workbookId, sheetId };
+
+      await expect(store.processUserMessage('A1 5', 'vic', undefined, target)).rejects.toMatchObject({ statusCode: 403 });
+      await expect(store.processUserMessage('A1 5', 'cam', undefined, target)).rejects.toMatchObject({ statusCode: 403 });
+      await expect(store.importCsv('1,2', {}, 'vic', undefined, target)).rejects.toMatchObject({ statusCode: 403 });
+      await store.processUserMessage('A1 5', 'ed', undefined, target);
+      expect((await store.getSpreadsheetState(target, 'vic')).cells[0].value).toBe('5');
+
+      // Only owners may delete or share the sheet
+      await expect(store.deleteSheet(workbookId, sheetId, 'ed')).rejects.toMatchObject({ statusCode: 403 });
+      await expect(store.updateSheetAccess(target, { defaultRole: 'editor' }, 'ed')).rejects.toMatchObject({ statusCode: 403 });
+      await expect(store.renameWorkbook(workbookId, 'Mine', 'ed')).rejects.toMatchObject({ statusCode: 403 });
+    });
+
+    it('should keep protected ranges to the owner and their editors', async () => {
+      const target = { workbookId, sheetId };
+      await store.updateSheetAccess(target, { protectedRanges: [{ range: 'a:a', editors: ['cfo'] }], members: { ed: 'editor', cfo: 'editor' } }, 'owner');
+
+      await expect(store.processUserMessage('A2 100', 'ed', undefined, target)).rejects.toMatchObject({
+        statusCode: 403,
+        message: 'A:A is protected on Sheet1'
+      });
+      await expect(store.processUserMessage('insert row before 1', 'ed', undefined, target)).rejects.toMatchObject({ statusCode: 403 });
+      await store.processUserMessage('B2 100', 'ed', undefined, target);
+      await store.processUserMessage('A2 100', 'cfo', undefined, target);
+      await store.processUserMessage('A3 200', 'owner', undefined, target);
+
+      // An undo that would write into the range is refused and stays available
+      await store.updateSheetAccess(target, { protectedRanges: [{ range: 'B1-B5' }] }, 'owner');
+      await expect(store.processUserMessage('undo', 'ed', undefined, target)).rejects.toMatchObject({ statusCode: 403 });
+      await store.updateSheetAccess(target, { protectedRanges: [] }, 'owner');
+      await store.processUserMessage('undo', 'ed', undefined, target);
+    });
+
+    it('should not let formulas read sheets the user may not see', async () => {
+      const { sheet: secret } = await store.createSheet(workbookId, 'Salaries', 'owner');
+      await store.processUserMessage('A1 90000', 'owner', undefined, { workbookId, sheetId: secret.id });
+
+      await expect(store.processUserMessage('B1 =Salaries!A1', 'ed', undefined, { workbookId, sheetId }))
+        .rejects.toThrow(new CustomError('Unknown sheet: Salaries', 400));
+      await expect(store.processUserMessage('Salaries!A1 0', 'ed', undefined, { workbookId, sheetId }))
+        .rejects.toThrow(new CustomError('Unknown sheet: Salaries', 400));
+      await store.processUserMessage('B1 =Salaries!A1', 'owner', undefined, { workbookId, sheetId });
+    });
+
+    it('should give signed-in users their own copies and let them claim open sheets', async () => {
+      const copy = await store.duplicateWorkbook(workbookId, undefined, 'vic');
+      expect(copy.sheets[0].role).toBe('owner');
+      expect((await store.listWorkbooks('owner')).some(workbook => workbook.id === copy.id)).toBe(false);
+
+      await expect(store.updateSheetAccess({ sheetId: 'sheet1' }, { defaultRole: 'viewer' }))
+        .rejects.toMatchObject({ statusCode: 401 });
+      const claimed = await store.updateSheetAccess({ sheetId: 'sheet1' }, { defaultRole: 'viewer' }, 'ed');
+      expect(claimed).toMatchObject({ ownerId: 'ed', defaultRole: 'viewer' });
+      await expect(store.processUserMessage('A1 x', undefined, undefined, { sheetId: 'sheet1' })).rejects.toMatchObject({ statusCode: 403 });
+    });
+  });
+
   describe('getActionEvents', () => {
     it('should return action events', async () => {
       const events = await spreadsheetService.getActionEvents();
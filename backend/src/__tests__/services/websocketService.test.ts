@@ -0,0 +1,211 @@
+import { WebSocketService } from '../../services/websocketService';
+import { CustomError } from '../../middleware/errorHandler';
+
+// Socket stand-in that records handlers so events can be delivered directly
+const createSocket = (id = 'client-1', auth: Record<string, unknown> = {}) => {
+  const handlers = new Map<string, (...args: any[]) => any>();
+  return {
+    id,
+    handshake: { auth },
+    data: {} as Record<string, any>,
+    on: jest.fn((event: string, handler: (...args: any[]) => any) => handlers.set(event, handler)),
+    emit: jest.fn(),
+    receive: (event: string, ...args: any[]) => handlers.get(event)!(...args)
+  };
+};
+
+describe('WebSocketService', () => {
+  let service: WebSocketService;
+  let socket: ReturnType<typeof createSocket>;
+
+  beforeEach(() => {
+    service = new WebSocketService();
+    socket = createSocket();
+    (service as any).handleConnection(socket);
+  });
+
+  describe('handshake', () => {
+    it('should attach the user of a valid token', () => {
+      service.setTokenVerifier(token => {
+        if (token !== 'good') throw new CustomError('Invalid token: bad signature', 401);
+        return { id: 'user_1', username: 'ada' };
+      });
+      const next = jest.fn();
+      const signedIn = createSocket('client-2', { token: 'good' });
+
+      (service as any).authenticate(signedIn, next);
+      (service as any).authenticate(createSocket('client-3', { token: 'forged' }), next);
+
+      expect(signedIn.data.user).toEqual({ id: 'user_1', username: 'ada' });
+      expect(next.mock.calls).toEqual([[], [new Error('Invalid token: bad signature')]]);
+    });
+
+    it('should run commands and show presence as the socket\'s user', async () => {
+      const handler = jest.fn().mockResolvedValue({ success: true });
+      service.setCommandHandler(handler);
+      const signedIn = createSocket('client-2');
+      signedIn.data.user = { id: 'user_1', username: 'ada' };
+      (service as any).handleConnection(signedIn);
+
+      signedIn.receive('presence_update', { name: 'someone else' });
+      await signedIn.receive('send_message', { message: 'A1 42', userId: 'user_9' }, jest.fn());
+
+      expect(handler).toHaveBeenCalledWith(expect.objectContaining({ userId: 'user_1' }));
+      expect(service.getPresence().find(entry => entry.clientId === 'client-2')?.name).toBe('ada');
+    });
+  });
+
+  describe('resume', () => {
+    it('should answer with what the client missed', async () => {
+      const handler = jest.fn().mockResolvedValue({ version: 7, deltas: [] });
+      service.setResumeHandler(handler);
+      const ack = jest.fn();
+
+      await socket.receive('resume', { workbookId: 'w1', sheetId: 's1', since: 7 }, ack);
+
+      expect(handler).toHaveBeenCalledWith({ workbookId: 'w1', sheetId: 's1' }, 7, undefined);
+      expect(ack).toHaveBeenCalledWith({ success: true, version: 7, deltas: [] });
+    });
+
+    it('should reject invalid requests', async () => {
+      const handler = jest.fn();
+      service.setResumeHandler(handler);
+      const ack = jest.fn();
+
+      await socket.receive('resume', { workbookId: 'w1', sheetId: 's1', since: -1 }, ack);
+
+      expect(handler).not.toHaveBeenCalled();
+      expect(ack).toHaveBeenCalledWith(expect.objectContaining({ success: false }));
+    });
+
+    it('should report unknown sheets', async () => {
+      service.setResumeHandler(jest.fn().mockRejectedValue(new CustomError('Sheet not found: s9', 404)));
+      const ack = jest.fn();
+
+      await socket.receive('resume', { workbookId: 'w1', sheetId: 's9', since: 0 }, ack);
+
+      expect(ack).toHaveBeenCalledWith({ success: false, error: 'Sheet not found: s9', statusCode: 404 });
+    });
+  });
+
+  describe('send_message', () => {
+    it('should process commands and acknowledge the result', async () => {
+      const handler = jest.fn().mockResolvedValue({ success: true, sheetId: 's1' });
+      service.setCommandHandler(handler);
+      const ack = jest.fn();
+
+      await socket.receive('send_message', { message: 'A1 42', sessionId: 'tab-1', workbookId: 'w1', sheetId: 's1', userId: 7 }, ack);
+
+      expect(handler).toHaveBeenCalledWith({ message: 'A1 42', userId: undefined, sessionId: 'tab-1', workbookId: 'w1', sheetId: 's1' });
+      expect(ack).toHaveBeenCalledWith({ success: true, sheetId: 's1' });
+    });
+
+    it('should acknowledge invalid and failed commands with an error', async () => {
+      service.setCommandHandler(jest.fn()
+        .mockRejectedValueOnce(new CustomError('Invalid cell format. Use: A1, B5, etc.', 400))
+        .mockRejectedValueOnce(new Error('disk full')));
+      const ack = jest.fn();
+
+      await socket.receive('send_message', { message: 42 }, ack);
+      await socket.receive('send_message', { message: '?? x' }, ack);
+      await socket.receive('send_message', { message: 'A1 x' }, ack);
+
+      expect(ack.mock.calls.map(([response]) => response)).toEqual([
+        { success: false, error: 'Message is required and must be a string', statusCode: 400 },
+        { success: false, error: 'Invalid cell format. Use: A1, B5, etc.', statusCode: 400 },
+        { success: false, error: 'Failed to process user message', statusCode: 500 }
+      ]);
+    });
+
+    it('should only log messages sent without an acknowledgement', async () => {
+      const handler = jest.fn();
+      service.setCommandHandler(handler);
+
+      await socket.receive('send_message', { message: 'test' });
+
+      expect(handler).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('access', () => {
+    it('should only send sheet updates and whereabouts to clients that may see the sheet', () => {
+      (service as any).io = {};
+      const owner = createSocket('client-2');
+      owner.data.user = { id: 'user_1', username: 'ada' };
+      (service as any).handleConnection(owner);
+      service.setAccessChecker(userId => userId === 'user_1');
+
+      owner.receive('presence_update', { workbookId: 'w1', sheetId: 's1', selection: { cells: ['A1'] } });
+      service.broadcastSheetDelta({ workbookId: 'w1', sheetId: 's1', seq: 1, timestamp: new Date(), patches: [], rows: 1, columns: 1 });
+
+      expect(owner.emit).toHaveBeenCalledWith('sheet_delta', expect.objectContaining({ sheetId: 's1' }));
+      expect(socket.emit).not.toHaveBeenCalledWith('sheet_delta', expect.anything());
+      const seen = socket.emit.mock.calls.filter(([event]) => event === 'presence_update').pop()![1].users;
+      expect(seen[1]).toMatchObject({ clientId: 'client-2', name: 'ada', selection: { cells: [] } });
+      expect(seen[1]).not.toHaveProperty('sheetId');
+    });
+
+    it('should resume as the socket\'s user', async () => {
+      const handler = jest.fn().mockResolvedValue({ version: 0, deltas: [] });
+      service.setResumeHandler(handler);
+      const signedIn = createSocket('client-2');
+      signedIn.data.user = { id: 'user_1', username: 'ada' };
+      (service as any).handleConnection(signedIn);
+
+      await signedIn.receive('resume', { workbookId: 'w1', sheetId: 's1', since: 0 }, jest.fn());
+
+      expect(handler).toHaveBeenCalledWith({ workbookId: 'w1', sheetId: 's1' }, 0, 'user_1');
+    });
+  });
+
+  describe('presence', () => {
+    // The users in the most recent presence broadcast a client received
+    const lastPresence = (client = socket) => client.emit.mock.calls.filter(([event]) => event === 'presence_update').pop()![1].users;
+
+    beforeEach(() => {
+      (service as any).io = {};
+    });
+
+    it('should give each client its own color and broadcast what it reports', () => {
+      const other = createSocket('client-2');
+      (service as any).handleConnection(other);
+
+      other.receive('presence_update', {
+        name: '  Ada  ',
+        workbookId: 'w1',
+        sheetId: 's1',
+        selection: { cells: ['B4', 'C2:D9', 'not a cell'], columns: [], rows: [0, 3] },
+        editing: { row: 3, col: 1 }
+      });
+
+      const [first, second] = lastPresence(other);
+      expect(first).toMatchObject({ clientId: 'client-1', editing: null });
+      expect(second).toMatchObject({
+        clientId: 'client-2',
+        name: 'Ada',
+        workbookId: 'w1',
+        sheetId: 's1',
+        selection: { cells: ['B4', 'C2:D9'], columns: [], rows: [3] },
+        editing: { row: 3, col: 1 }
+      });
+      expect(second.color).not.toBe(first.color);
+      expect(other.emit).toHaveBeenCalledWith('connected', expect.objectContaining({ clientId: 'client-2', color: second.color }));
+    });
+
+    it('should keep fields a client leaves out and stop editing on request', () => {
+      socket.receive('presence_update', { name: 'Ada', workbookId: 'w1', sheetId: 's1', editing: { row: 0, col: 0 } });
+      socket.receive('presence_update', { editing: null });
+
+      expect(lastPresence()[0]).toMatchObject({ name: 'Ada', sheetId: 's1', editing: null });
+    });
+
+    it('should drop clients that disconnect', () => {
+      const other = createSocket('client-2');
+      (service as any).handleConnection(other);
+      socket.receive('disconnect', 'transport close');
+
+      expect(lastPresence(other)).toEqual([expect.objectContaining({ clientId: 'client-2' })]);
+      expect(service.getPresence()).toEqual([expect.objectContaining({ clientId: 'client-2' })]);
+    });
+  });
+});
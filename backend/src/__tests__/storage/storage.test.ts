@@ -0,0 +1,225 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { createStorage, SpreadsheetStorage, StorageDriver } from '../../storage';
+import { SpreadsheetDataStore, DEFAULT_WORKBOOK_ID } from '../../services/spreadsheetService';
+import { SpreadsheetState, StateEvent, User, UserEvent, Workbook } from '../../types';
+
+const createState = (value: string): SpreadsheetState => ({
+  cells: [
+    { row: 0, col: 0, value, format: { bold: true, color: '#000000', backgroundColor: '#ffffff' } },
+    { row: 1, col: 0, value: '2', formula: '=A1*2' }
+  ],
+  rows: 100,
+  columns: 26,
+  headers: ['Name', 'B', 'C']
+});
+
+const userEvent: UserEvent = {
+  id: 'user_1',
+  message: 'A1 1',
+  timestamp: new Date('2024-01-01T00:00:00.000Z'),
+  userId: 'anonymous',
+  sessionId: 'default'
+};
+
+const stateEvent: StateEvent = {
+  id: 'state_1',
+  timestamp: new Date('2024-01-01T00:00:01.000Z'),
+  type: 'CELL_UPDATE',
+  cellData: { row: 0, col: 0, value: '1' }
+};
+
+const workbook: Workbook = {
+  id: 'workbook_1',
+  name: 'Budget',
+  createdAt: new Date('2024-01-01T00:00:00.000Z'),
+  updatedAt: new Date('2024-01-02T00:00:00.000Z'),
+  sheets: [{ id: 'sheet_a', name: 'Sheet1' }, { id: 'sheet_b', name: 'Data' }]
+};
+
+const user: User = {
+  id: 'user_1',
+  username: 'ada',
+  passwordHash: 'scrypt$c2FsdA$aGFzaA',
+  createdAt: new Date('2024-01-01T00:00:00.000Z')
+};
+
+describe('storage drivers', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'spreadsheet-storage-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  describe.each<StorageDriver>(['memory', 'file', 'sqlite'])('%s', driver => {
+    // Memory storage only survives within the same instance
+    const reopen = (storage: SpreadsheetStorage): SpreadsheetStorage =>
+      driver === 'memory' ? storage : createStorage({ driver, directory });
+
+    it('should return null before anything is saved', async () => {
+      const storage = createStorage({ driver, directory });
+      expect(await storage.load()).toBeNull();
+      await storage.close();
+    });
+
+    it('should round-trip workbooks, sheet state and events', async () => {
+      const storage = createStorage({ driver, directory });
+      await storage.saveSheetState('sheet_a', createState('1'));
+      await storage.saveSheetState('sheet_b', createState('2'));
+      await storage.appendEvents('sheet_a', { userEvents: [userEvent], stateEvents: [stateEvent] });
+      await storage.saveSheetState('sheet_a', createState('5'));
+      await storage.saveWorkbooks([workbook]);
+      await storage.close();
+
+      const reopened = reopen(storage);
+      const snapshot = await reopened.load();
+      expect(snapshot!.workbooks).toEqual([workbook]);
+      expect(snapshot!.workbooks[0].createdAt).toBeInstanceOf(Date);
+      expect(snapshot!.sheets.sheet_a.state).toEqual(createState('5'));
+      expect(snapshot!.sheets.sheet_a.userEvents).toEqual([userEvent]);
+      expect(snapshot!.sheets.sheet_a.stateEvents).toEqual([stateEvent]);
+      expect(snapshot!.sheets.sheet_a.stateEvents[0].timestamp).toBeInstanceOf(Date);
+      expect(snapshot!.sheets.sheet_a.actionEvents).toEqual([]);
+      expect(snapshot!.sheets.sheet_b.state).toEqual(createState('2'));
+      expect(snapshot!.sheets.sheet_b.userEvents).toEqual([]);
+      await reopened.close();
+    });
+
+    it('should keep events in the order they were appended', async () => {
+      const storage = createStorage({ driver, directory });
+      await storage.saveSheetState('sheet_a', createState('1'));
+      await storage.saveWorkbooks([workbook]);
+      await Promise.all([1, 2, 3].map(n =>
+        storage.appendEvents('sheet_a', { stateEvents: [{ ...stateEvent, id: `state_${n}` }] })
+      ));
+      await storage.close();
+
+      const snapshot = await reopen(storage).load();
+      expect(snapshot!.sheets.sheet_a.stateEvents.map(event => event.id)).toEqual(['state_1', 'state_2', 'state_3']);
+    });
+
+    it('should delete a sheet with its events', async () => {
+      const storage = createStorage({ driver, directory });
+      await storage.saveSheetState('sheet_a', createState('1'));
+      await storage.saveSheetState('sheet_b', createState('2'));
+      await storage.appendEvents('sheet_b', { userEvents: [userEvent] });
+      await storage.saveWorkbooks([workbook]);
+      await storage.deleteSheet('sheet_b');
+      await storage.close();
+
+      const snapshot = await reopen(storage).load();
+      expect(Object.keys(snapshot!.sheets)).toEqual(['sheet_a']);
+    });
+
+    it('should round-trip user accounts', async () => {
+      const storage = createStorage({ driver, directory });
+      expect(await storage.loadUsers()).toEqual([]);
+      await storage.saveUsers([user, { ...user, id: 'user_2', username: 'linus' }]);
+      await storage.close();
+
+      const users = await reopen(storage).loadUsers();
+      expect(users.map(entry => entry.username)).toEqual(['ada', 'linus']);
+      expect(users[0]).toEqual(user);
+      expect(users[0].createdAt).toBeInstanceOf(Date);
+    });
+  });
+
+  it('should skip a truncated last line in the file event log', async () => {
+    const storage = createStorage({ driver: 'file', directory });
+    await storage.saveSheetState('sheet_a', createState('1'));
+    await storage.appendEvents('sheet_a', { userEvents: [userEvent] });
+    await storage.saveWorkbooks([workbook]);
+    await fs.appendFile(path.join(directory, 'sheets', 'sheet_a', 'events.log'), '{"stream":"user","ev');
+
+    const snapshot = await storage.load();
+    expect(snapshot!.sheets.sheet_a.userEvents).toEqual([userEvent]);
+  });
+
+  it('should update and delete only the changed sqlite cells', async () => {
+    const storage = createStorage({ driver: 'sqlite', directory });
+    await storage.saveSheetState('sheet_a', createState('1'));
+    await storage.saveWorkbooks([workbook]);
+    const state = createState('1');
+    await storage.saveSheetState('sheet_a', { ...state, cells: [{ ...state.cells[0], value: '7' }, { row: 4, col: 2, value: 'new' }] });
+    await storage.close();
+
+    const reopened = createStorage({ driver: 'sqlite', directory });
+    const snapshot = await reopened.load();
+    expect(snapshot!.sheets.sheet_a.state.cells).toEqual([
+      { ...state.cells[0], value: '7' },
+      { row: 4, col: 2, value: 'new' }
+    ]);
+    await reopened.close();
+  });
+
+  it('should write the sqlite file once for changes queued together', async () => {
+    const storage = createStorage({ driver: 'sqlite', directory });
+    await storage.load();
+    const writeFile = jest.spyOn(fs, 'writeFile');
+    try {
+      await Promise.all([
+        storage.saveSheetState('sheet_a', createState('1')),
+        storage.appendEvents('sheet_a', { userEvents: [userEvent] }),
+        storage.saveWorkbooks([workbook])
+      ]);
+      expect(writeFile).toHaveBeenCalledTimes(1);
+    } finally {
+      writeFile.mockRestore();
+    }
+    await storage.close();
+
+    const reopened = createStorage({ driver: 'sqlite', directory });
+    const snapshot = await reopened.load();
+    expect(snapshot!.workbooks).toEqual([workbook]);
+    expect(snapshot!.sheets.sheet_a.userEvents).toEqual([userEvent]);
+    await reopened.close();
+  });
+
+  it('should restore workbooks and sheets after a restart', async () => {
+    const first = new SpreadsheetDataStore(createStorage({ driver: 'sqlite', directory }));
+    await first.initialize();
+    const { sheet } = await first.createSheet(DEFAULT_WORKBOOK_ID, 'Data');
+    await first.processUserMessage('A1 21', undefined, undefined, { sheetId: sheet.id });
+    await first.processUserMessage('B1 =Data!A1*2');
+    await first.close();
+
+    const second = new SpreadsheetDataStore(createStorage({ driver: 'sqlite', directory }));
+    await second.initialize();
+    const [workbook] = await second.listWorkbooks();
+    expect(workbook.sheets.map(entry => entry.name)).toEqual(['Sheet1', 'Data']);
+    const state = await second.getSpreadsheetState();
+    expect(state.cells.find(cell => cell.row === 0 && cell.col === 1)?.value).toBe('42');
+    expect(await second.getStateEvents({ sheetId: sheet.id })).toHaveLength(1);
+
+    // Dependencies are rebuilt, so edits on the other sheet still propagate
+    const result = await second.processUserMessage('Data!A1 5');
+    expect(result.sheetId).toBe(sheet.id);
+    expect(result.dependentStateEvents[0].cellData?.value).toBe('10');
+    await second.close();
+  });
+
+  it('should rebuild the undo history after a restart', async () => {
+    const first = new SpreadsheetDataStore(createStorage({ driver: 'file', directory }));
+    await first.initialize();
+    await first.processUserMessage('A1 one');
+    await first.processUserMessage('A1 two');
+    await first.processUserMessage('undo');
+    await first.close();
+
+    const second = new SpreadsheetDataStore(createStorage({ driver: 'file', directory }));
+    await second.initialize();
+    const valueOfA1 = async () => (await second.getSpreadsheetState()).cells.find(cell => cell.row === 0 && cell.col === 0)?.value;
+
+    await second.processUserMessage('redo');
+    expect(await valueOfA1()).toBe('two');
+    await second.processUserMessage('undo');
+    await second.processUserMessage('undo');
+    expect(await valueOfA1()).toBe('Row 1 Col A');
+    await second.close();
+  });
+});
@@ -0,0 +1,81 @@
+import { mergeFormat, parseFormatObject, parseFormatOptions } from '../../utils/cellFormat';
+import { CustomError } from '../../middleware/errorHandler';
+
+describe('cellFormat', () => {
+  describe('parseFormatOptions', () => {
+    it('should parse toggles, colors, size and alignment', () => {
+      const { format, clear } = parseFormatOptions('bold no italic color #FF0000 background yellow size 14 align center wrap');
+
+      expect(clear).toBe(false);
+      expect(format).toEqual({
+        bold: true,
+        italic: false,
+        color: '#ff0000',
+        backgroundColor: 'yellow',
+        fontSize: 14,
+        textAlign: 'center',
+        wrap: true
+      });
+    });
+
+    it('should parse borders for specific sides', () => {
+      expect(parseFormatOptions('border bottom top #00f').format.borders).toEqual({
+        bottom: '1px solid #00f',
+        top: '1px solid #00f'
+      });
+      expect(parseFormatOptions('border').format.borders).toEqual({
+        top: '1px solid #000000',
+        right: '1px solid #000000',
+        bottom: '1px solid #000000',
+        left: '1px solid #000000'
+      });
+    });
+
+    it('should support clear', () => {
+      expect(parseFormatOptions('clear')).toEqual({ format: {}, clear: true });
+    });
+
+    it('should reject unknown options and invalid values', () => {
+      expect(() => parseFormatOptions('sparkly')).toThrow(CustomError);
+      expect(() => parseFormatOptions('color #12')).toThrow('Invalid color for color: #12');
+      expect(() => parseFormatOptions('size 200')).toThrow(CustomError);
+      expect(() => parseFormatOptions('align middle')).toThrow(CustomError);
+    });
+  });
+
+  describe('parseFormatObject', () => {
+    it('should accept the options of the format command as JSON', () => {
+      expect(parseFormatObject({ bold: true, color: '#FF0000', fontSize: 14, textAlign: 'center', borders: { bottom: 'none' } })).toEqual({
+        bold: true,
+        color: '#ff0000',
+        fontSize: 14,
+        textAlign: 'center',
+        borders: { bottom: 'none' }
+      });
+    });
+
+    it('should reject unknown keys and invalid values', () => {
+      expect(() => parseFormatObject('bold')).toThrow(CustomError);
+      expect(() => parseFormatObject({ sparkly: true })).toThrow('Unknown format option: sparkly');
+      expect(() => parseFormatObject({ bold: 'yes' })).toThrow('Format bold must be true or false');
+      expect(() => parseFormatObject({ fontSize: 200 })).toThrow(CustomError);
+      expect(() => parseFormatObject({ borders: { middle: 'none' } })).toThrow(CustomError);
+    });
+  });
+
+  describe('mergeFormat', () => {
+    it('should merge into the existing format', () => {
+      const merged = mergeFormat({ bold: true, color: '#ff0000' }, { italic: true });
+
+      expect(merged).toEqual({ bold: true, italic: true, color: '#ff0000', backgroundColor: '#ffffff' });
+    });
+
+    it('should merge borders per side and drop removed sides', () => {
+      const base = mergeFormat(undefined, { borders: { top: '1px solid #000', left: '1px solid #000' } });
+      const merged = mergeFormat(base, { borders: { top: 'none', bottom: '1px solid #f00' } });
+
+      expect(merged.borders).toEqual({ left: '1px solid #000', bottom: '1px solid #f00' });
+      expect(mergeFormat(merged, { borders: { left: 'none', bottom: 'none' } }).borders).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,59 @@
+import { formatCsv, parseCsv, resolveCsvOptions } from '../../utils/csv';
+import { CustomError } from '../../middleware/errorHandler';
+
+describe('csv', () => {
+  describe('parseCsv', () => {
+    it('should split rows and fields', () => {
+      expect(parseCsv('a,b,c\n1,2,3\n')).toEqual([['a', 'b', 'c'], ['1', '2', '3']]);
+      expect(parseCsv('a,b\r\n1,2')).toEqual([['a', 'b'], ['1', '2']]);
+      expect(parseCsv('a,,c\n,\n')).toEqual([['a', '', 'c'], ['', '']]);
+    });
+
+    it('should keep delimiters, line breaks and escaped quotes inside quoted fields', () => {
+      const csv = '"Name","Note"\n"Smith, Jane","said ""hi""\nthen left"\n';
+
+      expect(parseCsv(csv)).toEqual([
+        ['Name', 'Note'],
+        ['Smith, Jane', 'said "hi"\nthen left']
+      ]);
+    });
+
+    it('should support other delimiters and quote characters', () => {
+      expect(parseCsv("a;'b;c'\n1;'it''s'", { delimiter: ';', quote: "'" })).toEqual([
+        ['a', 'b;c'],
+        ['1', "it's"]
+      ]);
+      expect(parseCsv('a\tb', resolveCsvOptions('tab'))).toEqual([['a', 'b']]);
+    });
+
+    it('should ignore a byte order mark', () => {
+      expect(parseCsv('﻿a,b')).toEqual([['a', 'b']]);
+    });
+
+    it('should reject an unclosed quoted field', () => {
+      expect(() => parseCsv('a,"b\n1,2')).toThrow(CustomError);
+    });
+  });
+
+  describe('formatCsv', () => {
+    it('should quote fields only when needed', () => {
+      expect(formatCsv([['a', 'b, c', 'say "x"'], ['line\nbreak', ' padded', '']])).toBe(
+        'a,"b, c","say ""x"""\r\n"line\nbreak"," padded",'
+      );
+    });
+
+    it('should round-trip through parseCsv', () => {
+      const rows = [['x;y', "it's", ''], ['1', '2', '3']];
+      const options = resolveCsvOptions(';', "'");
+
+      expect(parseCsv(formatCsv(rows, options), options)).toEqual(rows);
+    });
+  });
+
+  describe('resolveCsvOptions', () => {
+    it('should reject invalid delimiters and quotes', () => {
+      expect(() => resolveCsvOptions(';;')).toThrow('Delimiter must be a single character');
+      expect(() => resolveCsvOptions(',', ',')).toThrow('must be different');
+    });
+  });
+});
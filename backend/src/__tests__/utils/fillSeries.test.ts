@@ -0,0 +1,47 @@
+import { extendSeries } from '../../utils/fillSeries';
+
+const DOWN = { rows: 1, cols: 0 };
+
+describe('fillSeries', () => {
+  describe('extendSeries', () => {
+    it('should continue the linear trend of numbers', () => {
+      expect(extendSeries(['1', '2'], 3, DOWN)).toEqual(['3', '4', '5']);
+      expect(extendSeries(['10', '7.5'], 2, DOWN)).toEqual(['5', '2.5']);
+      expect(extendSeries(['0.1', '0.2'], 1, DOWN)).toEqual(['0.3']);
+      expect(extendSeries(['1', '2', '4'], 1, DOWN)).toEqual(['5.33333333333']);
+    });
+
+    it('should repeat a single number, plain text and mixed runs', () => {
+      expect(extendSeries(['5'], 2, DOWN)).toEqual(['5', '5']);
+      expect(extendSeries(['a', 'b'], 3, DOWN)).toEqual(['a', 'b', 'a']);
+      expect(extendSeries(['1', 'x'], 2, DOWN)).toEqual(['1', 'x']);
+      expect(extendSeries([''], 2, DOWN)).toEqual(['', '']);
+    });
+
+    it('should step dates by days, or by months when they fall on the same day', () => {
+      expect(extendSeries(['2024-02-28'], 2, DOWN)).toEqual(['2024-02-29', '2024-03-01']);
+      expect(extendSeries(['1/1/2024', '1/8/2024'], 2, DOWN)).toEqual(['1/15/2024', '1/22/2024']);
+      expect(extendSeries(['2024-01-31', '2024-03-31'], 2, DOWN)).toEqual(['2024-05-31', '2024-07-31']);
+      expect(extendSeries(['2024-12-31', '2025-01-31'], 1, DOWN)).toEqual(['2025-02-28']);
+    });
+
+    it('should cycle weekday and month names in the case they were typed', () => {
+      expect(extendSeries(['Friday'], 3, DOWN)).toEqual(['Saturday', 'Sunday', 'Monday']);
+      expect(extendSeries(['jan', 'mar'], 2, DOWN)).toEqual(['may', 'jul']);
+      expect(extendSeries(['DEC'], 1, DOWN)).toEqual(['JAN']);
+      expect(extendSeries(['Wed', 'Tue'], 2, DOWN)).toEqual(['Mon', 'Sun']);
+    });
+
+    it('should count on numbered text', () => {
+      expect(extendSeries(['Item 1'], 2, DOWN)).toEqual(['Item 2', 'Item 3']);
+      expect(extendSeries(['Q01', 'Q03'], 2, DOWN)).toEqual(['Q05', 'Q07']);
+      expect(extendSeries(['Item 1', 'Part 2'], 2, DOWN)).toEqual(['Item 1', 'Part 2']);
+    });
+
+    it('should repeat formulas with their relative references moved along', () => {
+      expect(extendSeries(['=A1*2'], 2, DOWN)).toEqual(['=A2*2', '=A3*2']);
+      expect(extendSeries(['=A1+$B$1', '7'], 3, { rows: 0, cols: 1 })).toEqual(['=C1+$B$1', '7', '=E1+$B$1']);
+      expect(extendSeries(['=A2'], 2, { rows: -1, cols: 0 })).toEqual(['=A1', '=#REF!']);
+    });
+  });
+});
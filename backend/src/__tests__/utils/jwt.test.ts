@@ -0,0 +1,27 @@
+import { signToken, verifyToken } from '../../utils/jwt';
+
+describe('jwt', () => {
+  const now = Date.parse('2024-01-01T00:00:00.000Z');
+  const token = signToken({ sub: 'user_1', username: 'ada' }, 'secret', 60, now);
+
+  it('should round-trip claims', () => {
+    expect(verifyToken(token, 'secret', now)).toEqual({
+      sub: 'user_1',
+      username: 'ada',
+      iat: now / 1000,
+      exp: now / 1000 + 60
+    });
+  });
+
+  it('should reject expired, tampered and unsigned tokens', () => {
+    const [header, payload, signature] = token.split('.');
+    const forged = Buffer.from(JSON.stringify({ sub: 'user_2', username: 'root', iat: 0, exp: 9999999999 })).toString('base64url');
+    const none = Buffer.from(JSON.stringify({ alg: 'none', typ: 'JWT' })).toString('base64url');
+
+    expect(() => verifyToken(token, 'secret', now + 60 * 1000)).toThrow('expired');
+    expect(() => verifyToken(token, 'other', now)).toThrow('bad signature');
+    expect(() => verifyToken(`${header}.${forged}.${signature}`, 'secret', now)).toThrow('bad signature');
+    expect(() => verifyToken(`${none}.${payload}.`, 'secret', now)).toThrow('bad signature');
+    expect(() => verifyToken('not-a-token', 'secret', now)).toThrow('malformed');
+  });
+});
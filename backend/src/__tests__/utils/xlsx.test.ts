@@ -0,0 +1,181 @@
+import { readXlsx, writeXlsx } from '../../utils/xlsx';
+import { readZip, writeZip } from '../../utils/zip';
+import { parseXml } from '../../utils/xml';
+import { CustomError } from '../../middleware/errorHandler';
+import { SpreadsheetState } from '../../types';
+
+const NS = 'xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"';
+
+const EXCEL_SHEET_DATA =
+  '<row r="1"><c r="A1" t="s" s="1"><v>0</v></c><c r="B1" t="inlineStr"><is><t xml:space="preserve"> Price </t></is></c></row>' +
+  '<row r="2"><c r="A2" t="s"><v>1</v></c><c r="B2"><v>0.30000000000000004</v></c><c r="C2"><f t="shared" ref="C2:C3" si="0">B2*$B$2</f><v>0.09</v></c></row>' +
+  '<row r="3"><c r="B3" t="b"><v>1</v></c><c r="C3"><f t="shared" si="0"/><v>0</v></c><c r="D3" s="2"><v>45292</v></c>' +
+  '<c r="E3" t="e"><f>_xlfn.XLOOKUP(1,A1:A2,B1:B2)</f><v>#N/A</v></c><c r="F3" s="1"/></row>';
+
+// A package laid out the way Excel writes it: shared strings, shared formulas, styles and a chart sheet
+const excelFile = (sheetData = EXCEL_SHEET_DATA): Buffer => {
+  const text = (name: string, xml: string) => ({ name, data: Buffer.from(xml, 'utf8') });
+  return writeZip([
+    text('_rels/.rels', '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>'),
+    text('xl/workbook.xml', `<?xml version="1.0"?><workbook ${NS}><sheets>` +
+      '<sheet name="Q1 Sales" sheetId="1" r:id="rId1"/><sheet name="Chart" sheetId="2" r:id="rId2"/></sheets></workbook>'),
+    text('xl/_rels/workbook.xml.rels', '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+      '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/chartsheet" Target="/xl/chartsheets/sheet1.xml"/>' +
+      '<Relationship Id="rId3" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/sharedStrings" Target="sharedStrings.xml"/>' +
+      '<Relationship Id="rId4" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/></Relationships>'),
+    text('xl/sharedStrings.xml', `<sst ${NS}><si><t>Item</t></si><si><r><t>Fish </t></r><r><rPr><b/></rPr><t>&amp; chips</t></r></si></sst>`),
+    text('xl/styles.xml', `<styleSheet ${NS}>` +
+      '<fonts><font><sz val="11"/><color theme="1"/></font><font><b/><i val="0"/><sz val="14"/><color rgb="FFFF0000"/></font></fonts>' +
+      '<fills><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill>' +
+      '<fill><patternFill patternType="solid"><fgColor rgb="FFFFFF00"/></patternFill></fill></fills>' +
+      '<borders><border/><border><bottom style="medium"><color indexed="4"/></bottom></border></borders>' +
+      '<cellXfs><xf fontId="0" fillId="0" borderId="0"/><xf fontId="1" fillId="2" borderId="1"><alignment horizontal="center" wrapText="1"/></xf>' +
+      '<xf numFmtId="14" fontId="0" fillId="0" borderId="0"/></cellXfs></styleSheet>'),
+    text('xl/worksheets/sheet1.xml', `<worksheet ${NS}><sheetData>${sheetData}</sheetData></worksheet>`),
+    text('xl/chartsheets/sheet1.xml', `<chartsheet ${NS}/>`)
+  ]);
+};
+
+describe('xlsx', () => {
+  describe('zip', () => {
+    it('should round-trip entries', () => {
+      const files = readZip(writeZip([
+        { name: 'a.txt', data: Buffer.from('hello') },
+        { name: 'dir/b.xml', data: Buffer.from('<x>ü</x>') }
+      ]));
+
+      expect([...files.keys()]).toEqual(['a.txt', 'dir/b.xml']);
+      expect(files.get('dir/b.xml')!.toString('utf8')).toBe('<x>ü</x>');
+    });
+
+    it('should reject data that is not a ZIP archive', () => {
+      expect(() => readZip(Buffer.from('name,value\n'))).toThrow(CustomError);
+    });
+
+    it('should reject entries that together unpack to more than the limit, whatever sizes they declare', () => {
+      const entry = Buffer.alloc(25 * 1024 * 1024);
+      const archive = writeZip(['a', 'b', 'c'].map(name => ({ name, data: entry })));
+      // Declare every entry empty in the central directory
+      const end = archive.length - 22;
+      let offset = archive.readUInt32LE(end + 16);
+      for (let i = 0; i < 3; i++) {
+        archive.writeUInt32LE(0, offset + 24);
+        offset += 46 + archive.readUInt16LE(offset + 28);
+      }
+
+      expect(() => readZip(archive)).toThrow('the archive unpacks to more than 64 MB');
+      expect(readZip(writeZip([{ name: 'a', data: entry }, { name: 'b', data: entry }])).get('b')!.length).toBe(entry.length);
+    });
+  });
+
+  describe('parseXml', () => {
+    it('should decode entities, CDATA and namespace prefixes', () => {
+      const root = parseXml('<?xml version="1.0"?><!-- note --><x:root a=\'1 &lt; 2\'><x:v>A &amp; B &#65;</x:v><w><![CDATA[<raw>]]></w></x:root>');
+
+      expect(root.name).toBe('root');
+      expect(root.attributes.a).toBe('1 < 2');
+      expect(root.children[0].text).toBe('A & B A');
+      expect(root.children[1].text).toBe('<raw>');
+    });
+
+    it('should reject mismatched tags', () => {
+      expect(() => parseXml('<a><b></a>')).toThrow('Invalid XLSX file');
+    });
+
+    it('should reject character references that are not characters', () => {
+      expect(() => parseXml('<a>&#x110000;</a>')).toThrow('Invalid XLSX file: &#x110000; is not a valid character reference');
+      expect(() => parseXml('<a>&#55296;</a>')).toThrow(CustomError);
+      expect(parseXml('<a>&#x1F600;</a>').text).toBe('\u{1F600}');
+    });
+  });
+
+  describe('readXlsx', () => {
+    it('should read values, shared strings and shared formulas written by Excel', () => {
+      const [sheet, ...others] = readXlsx(excelFile());
+      const cell = (id: string) => sheet.cells.find(entry => `${String.fromCharCode(65 + entry.col)}${entry.row + 1}` === id);
+
+      expect(others).toHaveLength(0);
+      expect(sheet.name).toBe('Q1 Sales');
+      expect(cell('A1')?.value).toBe('Item');
+      expect(cell('B1')?.value).toBe(' Price ');
+      expect(cell('A2')?.value).toBe('Fish & chips');
+      expect(cell('B2')?.value).toBe('0.3');
+      expect(cell('B3')?.value).toBe('TRUE');
+      expect(cell('C2')?.formula).toBe('=B2*$B$2');
+      expect(cell('C3')?.formula).toBe('=B3*$B$2');
+      expect(cell('D3')?.value).toBe('2024-01-01');
+      expect(cell('E3')).toMatchObject({ value: '#N/A', formula: '=XLOOKUP(1,A1:A2,B1:B2)' });
+    });
+
+    it('should read the formats the cell model supports', () => {
+      const [sheet] = readXlsx(excelFile());
+      const a1 = sheet.cells.find(entry => entry.row === 0 && entry.col === 0);
+      const f3 = sheet.cells.find(entry => entry.row === 2 && entry.col === 5);
+
+      expect(a1?.format).toEqual({
+        bold: true,
+        italic: false,
+        color: '#ff0000',
+        backgroundColor: '#ffff00',
+        fontSize: 14,
+        textAlign: 'center',
+        wrap: true,
+        borders: { bottom: '2px solid #0000ff' }
+      });
+      // Styled cells without a value are kept for their format
+      expect(f3?.value).toBe('');
+    });
+
+    it('should reject rows and cells before the first position', () => {
+      expect(() => readXlsx(excelFile('<row r="0"><c><v>1</v></c></row>'))).toThrow('Invalid XLSX file: row 0 is not a valid row number');
+      expect(() => readXlsx(excelFile('<row r="-2"><c><v>1</v></c></row>'))).toThrow('not a valid row number');
+      expect(() => readXlsx(excelFile('<row r="x"><c><v>1</v></c></row>'))).toThrow('not a valid row number');
+      expect(() => readXlsx(excelFile('<row r="1"><c r="A0"><v>1</v></c></row>'))).toThrow('Invalid XLSX file: cell A0 is not a valid cell reference');
+      expect(() => readXlsx(excelFile('<row r="1"><c r="1A"><v>1</v></c></row>'))).toThrow('not a valid cell reference');
+    });
+  });
+
+  describe('writeXlsx', () => {
+    it('should round-trip values, formulas and formats', () => {
+      const state: SpreadsheetState = {
+        rows: 100,
+        columns: 26,
+        headers: [],
+        cells: [
+          { row: 0, col: 0, value: '007', format: { bold: true, underline: true, color: 'red', backgroundColor: '#ff0' } },
+          { row: 0, col: 1, value: '12.5' },
+          { row: 1, col: 0, value: '<a & "b">\nline', format: { textAlign: 'right', borders: { left: '1px dashed #00ff00', top: 'none' } } },
+          { row: 1, col: 1, value: '25', formula: '=B1*2', format: { strikethrough: true, fontSize: 9 } },
+          { row: 2, col: 1, value: '#DIV/0!', formula: '=1/0' }
+        ]
+      };
+
+      const [sheet] = readXlsx(writeXlsx([{ name: "Bob's sheet", state }]));
+      const byId = new Map(sheet.cells.map(cell => [`${cell.row}:${cell.col}`, cell]));
+
+      expect(sheet.name).toBe("Bob's sheet");
+      expect(byId.get('0:0')?.value).toBe('007');
+      expect(byId.get('0:0')?.format).toMatchObject({ bold: true, underline: true, color: '#ff0000', backgroundColor: '#ffff00' });
+      expect(byId.get('0:1')?.value).toBe('12.5');
+      expect(byId.get('1:0')?.value).toBe('<a & "b">\nline');
+      expect(byId.get('1:0')?.format).toMatchObject({ textAlign: 'right', borders: { left: '1px dashed #00ff00' } });
+      expect(byId.get('1:1')).toMatchObject({ value: '25', formula: '=B1*2', format: { strikethrough: true, fontSize: 9 } });
+      expect(byId.get('2:1')).toMatchObject({ value: '#DIV/0!', formula: '=1/0' });
+    });
+
+    it('should share one style between cells with the same format', () => {
+      const format = { bold: true };
+      const state: SpreadsheetState = {
+        rows: 1,
+        columns: 2,
+        headers: [],
+        cells: [{ row: 0, col: 0, value: 'a', format }, { row: 0, col: 1, value: 'b', format }]
+      };
+
+      const styles = readZip(writeXlsx([{ name: 'Sheet1', state }])).get('xl/styles.xml')!.toString('utf8');
+      expect(styles).toContain('<cellXfs count="2">');
+    });
+  });
+});
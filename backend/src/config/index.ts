@@ -1,4 +1,5 @@
 import dotenv from 'dotenv';
+import type { StorageDriver } from '../storage/types';
 
 // Load environment variables
 dotenv.config();
@@ -11,9 +12,30 @@ export const config = {
     nodeEnv: process.env.NODE_ENV || 'development',
   },
   
-  // Database configuration (for future use)
-  database: {
-    url: process.env.DATABASE_URL || 'mongodb://localhost:27017/spreadsheet-app',
+  // Storage configuration: memory, file (JSON snapshot + event log) or sqlite
+  storage: {
+    driver: (process.env.STORAGE_DRIVER || (process.env.NODE_ENV === 'test' ? 'memory' : 'file')) as StorageDriver,
+    directory: process.env.STORAGE_DIR || './data',
+  },
+  
+  // Sheet size limits; commands and imports that target cells outside them are rejected
+  sheet: {
+    maxRows: Number(process.env.SHEET_MAX_ROWS) || 1048576,
+    maxColumns: Math.min(Number(process.env.SHEET_MAX_COLUMNS) || 702, 18278), // A-ZZ by default, at most A-ZZZ
+  },
+  
+  // CSV import limits
+  import: {
+    maxBytes: Number(process.env.IMPORT_MAX_BYTES) || 1024 * 1024, // 1 MB
+  },
+  
+  // Authentication: local accounts with HS256 tokens. Without a secret a random one is
+  // generated at startup, so tokens stop working when the server restarts
+  auth: {
+    jwtSecret: process.env.JWT_SECRET || '',
+    tokenTtlSeconds: Number(process.env.AUTH_TOKEN_TTL) || 12 * 60 * 60, // 12 hours
+    // Reject requests and sockets without a token; when false they act as `anonymous`
+    required: process.env.AUTH_REQUIRED ? process.env.AUTH_REQUIRED === 'true' : process.env.NODE_ENV !== 'test',
   },
   
   // CORS configuration
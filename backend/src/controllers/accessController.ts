@@ -0,0 +1,87 @@
+import { Request, Response, NextFunction } from 'express';
+import spreadsheetService, { SheetAccessUpdate } from '../services/spreadsheetService';
+import { authService } from '../services/authService';
+import { asyncHandler } from '../middleware/errorHandler';
+import type { SheetAccess, SheetRole } from '../types';
+import logger from '../utils/logger';
+import { getSheetTarget } from './spreadsheetController';
+
+const describeUser = (userId: string): { id: string; username: string } => {
+  const { id, username } = authService.getUser(userId);
+  return { id, username };
+};
+
+// Sharing as the API shows it: users with their names instead of bare IDs
+const toAccessResponse = (access: SheetAccess) => ({
+  owner: describeUser(access.ownerId),
+  defaultRole: access.defaultRole,
+  members: Object.entries(access.members).map(([userId, role]) => ({ ...describeUser(userId), role })),
+  protectedRanges: access.protectedRanges.map(({ id, range, editors }) => ({ id, range, editors: editors.map(describeUser) }))
+});
+
+/**
+ * Turn a request body that names users into a service update with their IDs.
+ * Returns an error message for malformed bodies and unknown usernames.
+ */
+const parseAccessUpdate = (body: any): SheetAccessUpdate | string => {
+  const update: SheetAccessUpdate = {};
+  const unknown: string[] = [];
+  const toUserId = (username: unknown): string => {
+    const user = typeof username === 'string' ? authService.findUser(username.trim()) : undefined;
+    if (!user) {
+      unknown.push(String(username));
+    }
+    return user?.id ?? '';
+  };
+
+  if (body?.defaultRole !== undefined) {
+    update.defaultRole = body.defaultRole;
+  }
+  if (body?.members !== undefined) {
+    if (!Array.isArray(body.members) || body.members.some((member: any) => typeof member?.username !== 'string')) {
+      return 'members must be a list of { username, role }';
+    }
+    update.members = Object.fromEntries(body.members.map((member: { username: string; role: SheetRole }) =>
+      [toUserId(member.username), member.role]));
+  }
+  if (body?.protectedRanges !== undefined) {
+    const valid = Array.isArray(body.protectedRanges) && body.protectedRanges.every((entry: any) =>
+      typeof entry?.range === 'string' && (entry.editors === undefined || Array.isArray(entry.editors)));
+    if (!valid) {
+      return 'protectedRanges must be a list of { range, editors }';
+    }
+    update.protectedRanges = body.protectedRanges.map((entry: { range: string; editors?: unknown[] }) => ({
+      range: entry.range,
+      editors: (entry.editors ?? []).map(toUserId)
+    }));
+  }
+
+  return unknown.length > 0 ? `Unknown user: ${unknown.join(', ')}` : update;
+};
+
+// Who the sheet is shared with; null for sheets nobody has shared yet
+export const getSheetAccess = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const access = await spreadsheetService.getSheetAccess(getSheetTarget(req), req.user?.id);
+    res.json({ success: true, access: access && toAccessResponse(access) });
+  } catch (error) {
+    logger.error(`Error in getSheetAccess: ${error}`);
+    next(error);
+  }
+});
+
+// Replaces the default role, members and protected ranges given in the body
+export const updateSheetAccess = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  const update = parseAccessUpdate(req.body);
+  if (typeof update === 'string') {
+    return res.status(400).json({ success: false, error: update });
+  }
+
+  try {
+    const access = await spreadsheetService.updateSheetAccess(getSheetTarget(req), update, req.user?.id);
+    res.json({ success: true, access: toAccessResponse(access) });
+  } catch (error) {
+    logger.error(`Error in updateSheetAccess: ${error}`);
+    next(error);
+  }
+});
@@ -0,0 +1,57 @@
+import { Request, Response, NextFunction } from 'express';
+import { authService } from '../services/authService';
+import { asyncHandler } from '../middleware/errorHandler';
+import logger from '../utils/logger';
+
+// Username and password from the request body, or null when either is missing
+const getCredentials = (req: Request): { username: string; password: string } | null => {
+  const { username, password } = req.body ?? {};
+  return typeof username === 'string' && username && typeof password === 'string' && password
+    ? { username: username.trim(), password }
+    : null;
+};
+
+export const register = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  const credentials = getCredentials(req);
+  if (!credentials) {
+    return res.status(400).json({ success: false, error: 'Username and password are required' });
+  }
+
+  try {
+    const session = await authService.register(credentials.username, credentials.password);
+    res.status(201).json({ success: true, ...session });
+  } catch (error) {
+    logger.error(`Error in register: ${error}`);
+    next(error);
+  }
+});
+
+export const login = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  const credentials = getCredentials(req);
+  if (!credentials) {
+    return res.status(400).json({ success: false, error: 'Username and password are required' });
+  }
+
+  try {
+    const session = await authService.login(credentials.username, credentials.password);
+    logger.info(`User ${session.user.username} logged in`);
+    res.json({ success: true, ...session });
+  } catch (error) {
+    logger.error(`Error in login: ${error}`);
+    next(error);
+  }
+});
+
+// The user the request's token belongs to
+export const getCurrentUser = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  if (!req.user) {
+    return res.status(401).json({ success: false, error: 'Authentication required' });
+  }
+
+  try {
+    res.json({ success: true, user: authService.getUser(req.user.id) });
+  } catch (error) {
+    logger.error(`Error in getCurrentUser: ${error}`);
+    next(error);
+  }
+});
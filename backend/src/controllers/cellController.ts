@@ -0,0 +1,170 @@
+import { Request, Response, NextFunction } from 'express';
+import spreadsheetService, { CellInput, RangeWrite } from '../services/spreadsheetService';
+import { asyncHandler } from '../middleware/errorHandler';
+import logger from '../utils/logger';
+import { getSheetTarget } from './spreadsheetController';
+
+const CELL_ID = /^[A-Z]+[1-9]\d*$/i;
+
+type Source = 'cell' | 'range';
+
+const sessionOf = (req: Request): string | undefined => {
+  const sessionId = req.body?.sessionId ?? req.query.sessionId;
+  return typeof sessionId === 'string' ? sessionId : undefined;
+};
+
+// JSON values are written as text: numbers as they are, booleans as TRUE/FALSE
+const toInput = (value: unknown): CellInput | undefined => {
+  if (value === null || typeof value === 'string') {
+    return value;
+  }
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return String(value);
+  }
+  if (typeof value === 'boolean') {
+    return value ? 'TRUE' : 'FALSE';
+  }
+  return undefined;
+};
+
+/**
+ * Turn a write body into a service update. Ranges take a 2D array of values,
+ * either as the body itself or as `values` next to `format`, per-cell `formats`
+ * and `copiedFrom`; cells take `value` and `format`. Returns an error message
+ * for malformed bodies.
+ */
+const parseWrite = (source: Source, body: any, replace: boolean): RangeWrite | string => {
+  const { format, formats, copiedFrom } = Array.isArray(body) ? {} : body ?? {};
+  if (formats !== undefined && (!Array.isArray(formats) || !formats.every((row: unknown) => Array.isArray(row)))) {
+    return 'formats must be an array of rows like values, e.g. [[{ "bold": true }, null]]';
+  }
+  if (copiedFrom !== undefined && typeof copiedFrom !== 'string') {
+    return 'copiedFrom must be a cell such as A1';
+  }
+
+  let values: unknown;
+  if (source === 'cell') {
+    values = body?.value === undefined ? undefined : [[body.value]];
+  } else {
+    values = Array.isArray(body) ? body : body?.values;
+  }
+
+  if (values === undefined) {
+    if (replace || (format === undefined && formats === undefined)) {
+      return source === 'cell' ? 'value is required' : 'values are required, e.g. [["Name", "Age"], ["Ada", 36]]';
+    }
+    return { format, formats, replace };
+  }
+
+  if (!Array.isArray(values) || !values.every(row => Array.isArray(row))) {
+    return 'values must be an array of rows, e.g. [["Name", "Age"], ["Ada", 36]]';
+  }
+  const rows = (values as unknown[][]).map(row => row.map(toInput));
+  if (rows.some(row => row.includes(undefined))) {
+    return 'Values may only be strings, numbers, booleans or null';
+  }
+  return { values: rows as CellInput[][], format, formats, copiedFrom, replace };
+};
+
+// Cell routes take one cell; range routes anything the service accepts (A1, A1:C3, A:C, 2:5)
+const invalidCell = (source: Source, req: Request): string | undefined =>
+  source === 'cell' && !CELL_ID.test(req.params.cell) ? `Invalid cell: ${req.params.cell}. Use A1, B5, etc.` : undefined;
+
+const read = (source: Source) => asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  const invalid = invalidCell(source, req);
+  if (invalid) {
+    return res.status(400).json({ success: false, error: invalid });
+  }
+
+  try {
+    const contents = await spreadsheetService.getRange(req.params[source], getSheetTarget(req), req.user?.id);
+
+    logger.info(`Retrieved ${source} ${contents.range}`);
+
+    if (source === 'range') {
+      return res.json({ success: true, ...contents });
+    }
+    res.json({
+      success: true,
+      cell: {
+        id: contents.range,
+        row: contents.startRow,
+        col: contents.startCol,
+        value: contents.values[0][0],
+        formula: contents.formulas[0][0],
+        format: contents.formats[0][0]
+      },
+      workbookId: contents.workbookId,
+      sheetId: contents.sheetId
+    });
+  } catch (error) {
+    logger.error(`Error in get ${source}: ${error}`);
+    next(error);
+  }
+});
+
+// PUT replaces every value of the range, PATCH only the given ones; both may merge a format
+const write = (source: Source, replace: boolean) => asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  const invalid = invalidCell(source, req);
+  const update = parseWrite(source, req.body, replace);
+  if (invalid || typeof update === 'string') {
+    return res.status(400).json({ success: false, error: invalid ?? update });
+  }
+
+  try {
+    const result = await spreadsheetService.writeRange(req.params[source], update, req.user?.id, sessionOf(req), getSheetTarget(req));
+
+    logger.info(`${replace ? 'PUT' : 'PATCH'} ${source}: ${result.actionEvent.message}`);
+
+    res.json({
+      success: true,
+      message: result.actionEvent.message,
+      actionEvent: result.actionEvent,
+      range: result.range,
+      cellsUpdated: result.cellsUpdated,
+      recalculatedCells: result.dependentStateEvents.length,
+      workbookId: result.workbookId,
+      sheetId: result.sheetId
+    });
+  } catch (error) {
+    logger.error(`Error in ${replace ? 'put' : 'patch'} ${source}: ${error}`);
+    next(error);
+  }
+});
+
+const clear = (source: Source) => asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  const invalid = invalidCell(source, req);
+  if (invalid) {
+    return res.status(400).json({ success: false, error: invalid });
+  }
+
+  try {
+    const result = await spreadsheetService.clearRange(req.params[source], req.user?.id, sessionOf(req), getSheetTarget(req));
+
+    logger.info(`DELETE ${source}: ${result.actionEvent.message}`);
+
+    res.json({
+      success: true,
+      message: result.actionEvent.message,
+      actionEvent: result.actionEvent,
+      range: result.range,
+      cellsUpdated: result.cellsUpdated,
+      recalculatedCells: result.dependentStateEvents.length,
+      workbookId: result.workbookId,
+      sheetId: result.sheetId
+    });
+  } catch (error) {
+    logger.error(`Error in delete ${source}: ${error}`);
+    next(error);
+  }
+});
+
+export const getCell = read('cell');
+export const putCell = write('cell', true);
+export const patchCell = write('cell', false);
+export const deleteCell = clear('cell');
+
+export const getRange = read('range');
+export const putRange = write('range', true);
+export const patchRange = write('range', false);
+export const deleteRange = clear('range');
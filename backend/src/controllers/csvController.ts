@@ -0,0 +1,86 @@
+import { Request, Response, NextFunction } from 'express';
+import spreadsheetService from '../services/spreadsheetService';
+import { asyncHandler } from '../middleware/errorHandler';
+import { getSheetTarget } from './spreadsheetController';
+import { config } from '../config';
+import logger from '../utils/logger';
+
+// Options come from the query string, or from the JSON body next to `csv`
+const option = (req: Request, name: string): string | undefined => {
+  const value = req.query[name] ?? (typeof req.body === 'object' ? req.body?.[name] : undefined);
+  return value === undefined || value === null ? undefined : String(value);
+};
+
+const flag = (req: Request, name: string): boolean => ['true', '1', 'yes'].includes((option(req, name) ?? '').toLowerCase());
+
+export const importCsv = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  // text/csv bodies arrive as a string; JSON bodies carry the data in `csv`
+  const csv = typeof req.body === 'string' ? req.body : req.body?.csv;
+
+  if (typeof csv !== 'string' || !csv.trim()) {
+    return res.status(400).json({
+      success: false,
+      error: 'CSV data is required: send it as text/csv or as "csv" in a JSON body'
+    });
+  }
+
+  if (Buffer.byteLength(csv, 'utf8') > config.import.maxBytes) {
+    return res.status(413).json({
+      success: false,
+      error: `CSV file is too large. The limit is ${config.import.maxBytes} bytes`
+    });
+  }
+
+  try {
+    const result = await spreadsheetService.importCsv(
+      csv,
+      {
+        delimiter: option(req, 'delimiter'),
+        quote: option(req, 'quote'),
+        headerRow: flag(req, 'headerRow'),
+        anchor: option(req, 'anchor')
+      },
+      req.user?.id,
+      option(req, 'sessionId'),
+      getSheetTarget(req)
+    );
+
+    logger.info(`CSV imported: ${result.actionEvent.message}`);
+
+    res.json({
+      success: true,
+      message: result.actionEvent.message,
+      actionEvent: result.actionEvent,
+      rows: result.rows,
+      columns: result.columns,
+      cellsUpdated: result.cellsUpdated,
+      recalculatedCells: result.dependentStateEvents.length,
+      workbookId: result.workbookId,
+      sheetId: result.sheetId
+    });
+  } catch (error) {
+    logger.error(`Error in importCsv: ${error}`);
+    next(error);
+  }
+});
+
+export const exportCsv = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { csv, filename, rows } = await spreadsheetService.exportCsv(getSheetTarget(req), {
+      range: option(req, 'range'),
+      delimiter: option(req, 'delimiter'),
+      quote: option(req, 'quote'),
+      includeHeaders: flag(req, 'headers'),
+      formulas: flag(req, 'formulas')
+    }, req.user?.id);
+
+    logger.info(`CSV exported: ${rows} rows`);
+
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    res.send(csv);
+  } catch (error) {
+    logger.error(`Error in exportCsv: ${error}`);
+    next(error);
+  }
+});
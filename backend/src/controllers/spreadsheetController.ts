@@ -1,10 +1,32 @@
 import { Request, Response, NextFunction } from 'express';
-import spreadsheetService from '../services/spreadsheetService';
+import spreadsheetService, { SheetTarget } from '../services/spreadsheetService';
 import { asyncHandler } from '../middleware/errorHandler';
 import logger from '../utils/logger';
 
+const asString = (value: unknown): string | undefined => (typeof value === 'string' && value ? value : undefined);
+
+// Sheet addressed by the route (/workbooks/:workbookId/sheets/:sheetId/...) or by
+// workbookId/sheetId in the body or query string; missing IDs target the default sheet
+export const getSheetTarget = (req: Request): SheetTarget => ({
+  workbookId: asString(req.params.workbookId) ?? asString(req.body?.workbookId) ?? asString(req.query.workbookId),
+  sheetId: asString(req.params.sheetId) ?? asString(req.body?.sheetId) ?? asString(req.query.sheetId)
+});
+
+// Body of a successful /message response; socket commands are acknowledged with the same
+export const toMessageResponse = (result: Awaited<ReturnType<typeof spreadsheetService.processUserMessage>>) => ({
+  success: true,
+  message: 'User event processed successfully',
+  userEvent: result.userEvent,
+  parsedCommand: result.parsedCommand,
+  recalculatedCells: result.dependentStateEvents.length,
+  workbookId: result.workbookId,
+  sheetId: result.sheetId
+});
+
+// Edits are recorded under the user the token identifies, never a `userId` from the body
 export const sendMessage = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
-  const { message, userId, sessionId } = req.body;
+  const { message, sessionId } = req.body;
+  const userId = req.user?.id;
 
   if (!message || typeof message !== 'string') {
     return res.status(400).json({
@@ -14,25 +36,78 @@ export const sendMessage = asyncHandler(async (req: Request, res: Response, next
   }
 
   try {
-    const result = await spreadsheetService.processUserMessage(message, userId, sessionId);
+    const result = await spreadsheetService.processUserMessage(message, userId, sessionId, getSheetTarget(req));
     
     logger.info(`Message processed successfully: ${message}`);
     
+    res.json(toMessageResponse(result));
+  } catch (error) {
+    logger.error(`Error in sendMessage: ${error}`);
+    next(error);
+  }
+});
+
+// Commands applied all together or not at all, e.g. one per selected cell
+export const sendBatch = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  const { commands, sessionId } = req.body ?? {};
+
+  if (!Array.isArray(commands) || commands.length === 0 || commands.some(command => typeof command !== 'string' || !command.trim())) {
+    return res.status(400).json({
+      success: false,
+      error: 'commands is required and must be a non-empty array of commands'
+    });
+  }
+
+  try {
+    const result = await spreadsheetService.processBatch(commands, req.user?.id, sessionId, getSheetTarget(req));
+
+    logger.info(`Batch processed successfully: ${commands.length} commands`);
+
     res.json({
       success: true,
-      message: 'User event processed successfully',
+      message: result.actionEvent.message,
       userEvent: result.userEvent,
-      parsedCommand: result.parsedCommand
+      actionEvent: result.actionEvent,
+      recalculatedCells: result.dependentStateEvents.length,
+      workbookId: result.workbookId,
+      sheetId: result.sheetId
     });
   } catch (error) {
-    logger.error(`Error in sendMessage: ${error}`);
+    logger.error(`Error in sendBatch: ${error}`);
     next(error);
   }
 });
 
+// Undo/redo step through the history of the signed-in user and the session named in the body
+const stepHistory = (command: 'undo' | 'redo') => asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  const { sessionId } = req.body ?? {};
+  const userId = req.user?.id;
+
+  try {
+    const result = await spreadsheetService.processUserMessage(command, userId, sessionId, getSheetTarget(req));
+
+    logger.info(`${command} processed successfully: ${result.actionEvent.message}`);
+
+    res.json({
+      success: true,
+      message: result.actionEvent.message,
+      actionEvent: result.actionEvent,
+      recalculatedCells: result.dependentStateEvents.length,
+      workbookId: result.workbookId,
+      sheetId: result.sheetId
+    });
+  } catch (error) {
+    logger.error(`Error in ${command}: ${error}`);
+    next(error);
+  }
+});
+
+export const undo = stepHistory('undo');
+export const redo = stepHistory('redo');
+
 export const getActions = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const actions = await spreadsheetService.getActionEvents();
+    const actions = await spreadsheetService.getActionEvents(getSheetTarget(req), req.user?.id);
     
     logger.info(`Retrieved ${actions.length} action events`);
     
@@ -49,13 +124,16 @@ export const getActions = asyncHandler(async (req: Request, res: Response, next:
 
 export const getState = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
   try {
+    const target = getSheetTarget(req);
     const [state, stateEvents] = await Promise.all([
-      spreadsheetService.getSpreadsheetState(),
-      spreadsheetService.getStateEvents()
+      spreadsheetService.getSpreadsheetState(target, req.user?.id),
+      spreadsheetService.getStateEvents(target, req.user?.id)
     ]);
     
     logger.info(`Retrieved spreadsheet state with ${state.cells.length} cells and ${stateEvents.length} state events`);
-    logger.debug('State response:', JSON.stringify({ state, stateEvents }, null, 2));
+    if (logger.isDebugEnabled()) {
+      logger.debug('State response:', JSON.stringify({ state, stateEvents }, null, 2));
+    }
     
     const response = {
       success: true,
@@ -64,7 +142,6 @@ export const getState = asyncHandler(async (req: Request, res: Response, next: N
       count: stateEvents.length
     };
     
-    logger.info('Sending state response:', JSON.stringify(response, null, 2));
     res.json(response);
   } catch (error) {
     logger.error(`Error in getState: ${error}`);
@@ -72,6 +149,32 @@ export const getState = asyncHandler(async (req: Request, res: Response, next: N
   }
 });
 
+// Deltas since the `since` sequence number a client last applied, or the full state when they are gone
+export const getChanges = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  const since = Number(req.query.since);
+
+  if (typeof req.query.since !== 'string' || !Number.isInteger(since) || since < 0) {
+    return res.status(400).json({
+      success: false,
+      error: 'since is required and must be a non-negative integer'
+    });
+  }
+
+  try {
+    const changes = await spreadsheetService.getChanges(since, getSheetTarget(req), req.user?.id);
+
+    logger.info(`Retrieved changes since ${since} (version ${changes.version})`);
+
+    res.json({
+      success: true,
+      ...changes
+    });
+  } catch (error) {
+    logger.error(`Error in getChanges: ${error}`);
+    next(error);
+  }
+});
+
 export const getHealth = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
   try {
     const healthStatus = await spreadsheetService.getHealthStatus();
@@ -0,0 +1,120 @@
+import { Request, Response, NextFunction } from 'express';
+import spreadsheetService from '../services/spreadsheetService';
+import { asyncHandler } from '../middleware/errorHandler';
+import logger from '../utils/logger';
+
+// Optional name from the request body; undefined lets the service pick a default
+const getName = (req: Request): string | undefined => {
+  const { name } = req.body ?? {};
+  return name === undefined || name === null ? undefined : String(name);
+};
+
+export const listWorkbooks = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const workbooks = await spreadsheetService.listWorkbooks(req.user?.id);
+    res.json({ success: true, workbooks, count: workbooks.length });
+  } catch (error) {
+    logger.error(`Error in listWorkbooks: ${error}`);
+    next(error);
+  }
+});
+
+export const getWorkbook = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const workbook = await spreadsheetService.getWorkbook(req.params.workbookId, req.user?.id);
+    res.json({ success: true, workbook });
+  } catch (error) {
+    logger.error(`Error in getWorkbook: ${error}`);
+    next(error);
+  }
+});
+
+export const createWorkbook = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const workbook = await spreadsheetService.createWorkbook(getName(req), req.user?.id);
+    res.status(201).json({ success: true, workbook });
+  } catch (error) {
+    logger.error(`Error in createWorkbook: ${error}`);
+    next(error);
+  }
+});
+
+export const renameWorkbook = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  const name = getName(req);
+  if (name === undefined) {
+    return res.status(400).json({ success: false, error: 'Name is required' });
+  }
+
+  try {
+    const workbook = await spreadsheetService.renameWorkbook(req.params.workbookId, name, req.user?.id);
+    res.json({ success: true, workbook });
+  } catch (error) {
+    logger.error(`Error in renameWorkbook: ${error}`);
+    next(error);
+  }
+});
+
+export const deleteWorkbook = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    await spreadsheetService.deleteWorkbook(req.params.workbookId, req.user?.id);
+    res.json({ success: true });
+  } catch (error) {
+    logger.error(`Error in deleteWorkbook: ${error}`);
+    next(error);
+  }
+});
+
+export const duplicateWorkbook = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const workbook = await spreadsheetService.duplicateWorkbook(req.params.workbookId, getName(req), req.user?.id);
+    res.status(201).json({ success: true, workbook });
+  } catch (error) {
+    logger.error(`Error in duplicateWorkbook: ${error}`);
+    next(error);
+  }
+});
+
+export const createSheet = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const result = await spreadsheetService.createSheet(req.params.workbookId, getName(req), req.user?.id);
+    res.status(201).json({ success: true, ...result });
+  } catch (error) {
+    logger.error(`Error in createSheet: ${error}`);
+    next(error);
+  }
+});
+
+export const renameSheet = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  const name = getName(req);
+  if (name === undefined) {
+    return res.status(400).json({ success: false, error: 'Name is required' });
+  }
+
+  try {
+    const result = await spreadsheetService.renameSheet(req.params.workbookId, req.params.sheetId, name, req.user?.id);
+    res.json({ success: true, ...result });
+  } catch (error) {
+    logger.error(`Error in renameSheet: ${error}`);
+    next(error);
+  }
+});
+
+export const deleteSheet = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const workbook = await spreadsheetService.deleteSheet(req.params.workbookId, req.params.sheetId, req.user?.id);
+    res.json({ success: true, workbook });
+  } catch (error) {
+    logger.error(`Error in deleteSheet: ${error}`);
+    next(error);
+  }
+});
+
+export const duplicateSheet = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const result = await spreadsheetService.duplicateSheet(req.params.workbookId, req.params.sheetId, getName(req), req.user?.id);
+    res.status(201).json({ success: true, ...result });
+  } catch (error) {
+    logger.error(`Error in duplicateSheet: ${error}`);
+    next(error);
+  }
+});
@@ -0,0 +1,40 @@
+import { Request, Response, NextFunction } from 'express';
+import spreadsheetService from '../services/spreadsheetService';
+import { asyncHandler } from '../middleware/errorHandler';
+import { XLSX_MIME_TYPE } from '../utils/xlsx';
+import logger from '../utils/logger';
+
+export const importXlsx = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  // The xlsx body parser leaves a Buffer; anything else means the wrong content type
+  if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+    return res.status(400).json({
+      success: false,
+      error: `XLSX data is required: send the file as ${XLSX_MIME_TYPE} or application/octet-stream`
+    });
+  }
+
+  const name = typeof req.query.name === 'string' && req.query.name.trim() ? req.query.name : undefined;
+  const headerRow = ['true', '1', 'yes'].includes(String(req.query.headerRow ?? '').toLowerCase());
+
+  try {
+    const workbook = await spreadsheetService.importXlsx(req.body, { name, headerRow }, req.user?.id);
+    logger.info(`XLSX imported as workbook ${workbook.id}`);
+    res.status(201).json({ success: true, workbook });
+  } catch (error) {
+    logger.error(`Error in importXlsx: ${error}`);
+    next(error);
+  }
+});
+
+export const exportXlsx = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { file, filename } = await spreadsheetService.exportXlsx(req.params.workbookId, req.user?.id);
+
+    res.setHeader('Content-Type', XLSX_MIME_TYPE);
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    res.send(file);
+  } catch (error) {
+    logger.error(`Error in exportXlsx: ${error}`);
+    next(error);
+  }
+});
@@ -1,5 +1,6 @@
 import Server from './server';
 import logger from './utils/logger';
+import spreadsheetService from './services/spreadsheetService';
 
 // Handle uncaught exceptions
 process.on('uncaughtException', (error: Error) => {
@@ -16,14 +17,17 @@ process.on('unhandledRejection', (reason: any, promise: Promise<any>) => {
 // Graceful shutdown
 process.on('SIGTERM', () => {
   logger.info('SIGTERM received. Shutting down gracefully...');
-  process.exit(0);
+  spreadsheetService.close().finally(() => process.exit(0));
 });
 
 process.on('SIGINT', () => {
   logger.info('SIGINT received. Shutting down gracefully...');
-  process.exit(0);
+  spreadsheetService.close().finally(() => process.exit(0));
 });
 
 // Start the server
 const server = new Server();
-server.start(); 
\ No newline at end of file
+server.start().catch((error: Error) => {
+  logger.error('Failed to start server:', error);
+  process.exit(1);
+}); 
\ No newline at end of file
@@ -0,0 +1,50 @@
+import { Request, Response, NextFunction } from 'express';
+import { config } from '../config';
+import { authService } from '../services/authService';
+import type { AuthUser } from '../types';
+import { CustomError } from './errorHandler';
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Set by `authenticate` when the request carries a valid token
+      user?: AuthUser;
+    }
+  }
+}
+
+// The token of an `Authorization: Bearer <token>` header, null without the header
+export const getBearerToken = (req: Request): string | null => {
+  const header = req.get('Authorization');
+  if (!header) {
+    return null;
+  }
+  const [scheme, token] = header.split(' ');
+  return scheme === 'Bearer' && token ? token : '';
+};
+
+// Derives `req.user` from the bearer token; requests without one are anonymous unless auth is required
+export const authenticate = (req: Request, res: Response, next: NextFunction): void => {
+  const token = getBearerToken(req);
+  if (token === null && !config.auth.required) {
+    next();
+    return;
+  }
+  if (!token) {
+    res.status(401).json({
+      success: false,
+      error: token === null ? 'Authentication required' : 'Authorization header must be "Bearer <token>"'
+    });
+    return;
+  }
+
+  try {
+    req.user = authService.verify(token);
+    next();
+  } catch (error) {
+    res.status(401).json({
+      success: false,
+      error: error instanceof CustomError ? error.message : 'Invalid token'
+    });
+  }
+};
@@ -0,0 +1,30 @@
+import express, { Request, Response, NextFunction, RequestHandler } from 'express';
+import { config } from '../config';
+import { XLSX_MIME_TYPE } from '../utils/xlsx';
+
+// Uploads over the configured limit get a 413 with a readable message instead of the generic error
+const limitedBody = (parse: RequestHandler, label: string) =>
+  (req: Request, res: Response, next: NextFunction): void => {
+    parse(req, res, (err?: any) => {
+      if (err?.type === 'entity.too.large') {
+        res.status(413).json({
+          success: false,
+          error: `${label} file is too large. The limit is ${config.import.maxBytes} bytes`
+        });
+        return;
+      }
+      next(err);
+    });
+  };
+
+// Raw CSV request body as a string
+export const csvBody = limitedBody(express.text({
+  type: ['text/csv', 'text/plain', 'application/csv'],
+  limit: config.import.maxBytes
+}), 'CSV');
+
+// Raw .xlsx request body as a Buffer
+export const xlsxBody = limitedBody(express.raw({
+  type: [XLSX_MIME_TYPE, 'application/octet-stream'],
+  limit: config.import.maxBytes
+}), 'XLSX');
@@ -1,14 +1,92 @@
 import { Router } from 'express';
-import { sendMessage, getActions, getState, getHealth, testWebSocket } from '../controllers/spreadsheetController';
+import { sendMessage, sendBatch, undo, redo, getActions, getState, getChanges, getHealth, testWebSocket } from '../controllers/spreadsheetController';
+import {
+  listWorkbooks,
+  getWorkbook,
+  createWorkbook,
+  renameWorkbook,
+  deleteWorkbook,
+  duplicateWorkbook,
+  createSheet,
+  renameSheet,
+  deleteSheet,
+  duplicateSheet
+} from '../controllers/workbookController';
+import { importCsv, exportCsv } from '../controllers/csvController';
+import { importXlsx, exportXlsx } from '../controllers/xlsxController';
+import { getSheetAccess, updateSheetAccess } from '../controllers/accessController';
+import { getCell, putCell, patchCell, deleteCell, getRange, putRange, patchRange, deleteRange } from '../controllers/cellController';
+import { register, login, getCurrentUser } from '../controllers/authController';
+import { csvBody, xlsxBody } from '../middleware/importBody';
+import { authenticate } from '../middleware/auth';
 
 const router = Router();
 
 router.get('/health', getHealth);
+
+// Accounts; every route below requires a token when auth is required
+router.post('/auth/register', register);
+router.post('/auth/login', login);
+router.use(authenticate);
+router.get('/auth/me', getCurrentUser);
+
 router.post('/message', sendMessage);
+router.post('/batch', sendBatch);
+router.post('/undo', undo);
+router.post('/redo', redo);
+router.post('/import', csvBody, importCsv);
+router.get('/export.csv', exportCsv);
+router.get('/export.xlsx', exportXlsx);
 router.get('/action', getActions);
 router.get('/state', getState);
+router.get('/changes', getChanges);
 router.get('/test-websocket', testWebSocket);
 
+// Cells and ranges (A1, A1:C10, A:C, 2:5) as structured JSON
+router.get('/cells/:cell', getCell);
+router.put('/cells/:cell', putCell);
+router.patch('/cells/:cell', patchCell);
+router.delete('/cells/:cell', deleteCell);
+router.get('/ranges/:range', getRange);
+router.put('/ranges/:range', putRange);
+router.patch('/ranges/:range', patchRange);
+router.delete('/ranges/:range', deleteRange);
+
+// Workbooks and sheets
+router.get('/workbooks', listWorkbooks);
+router.post('/workbooks', createWorkbook);
+router.post('/workbooks/import', xlsxBody, importXlsx);
+router.get('/workbooks/:workbookId', getWorkbook);
+router.patch('/workbooks/:workbookId', renameWorkbook);
+router.delete('/workbooks/:workbookId', deleteWorkbook);
+router.post('/workbooks/:workbookId/duplicate', duplicateWorkbook);
+router.get('/workbooks/:workbookId/export.xlsx', exportXlsx);
+router.post('/workbooks/:workbookId/sheets', createSheet);
+router.patch('/workbooks/:workbookId/sheets/:sheetId', renameSheet);
+router.delete('/workbooks/:workbookId/sheets/:sheetId', deleteSheet);
+router.post('/workbooks/:workbookId/sheets/:sheetId/duplicate', duplicateSheet);
+router.get('/workbooks/:workbookId/sheets/:sheetId/access', getSheetAccess);
+router.put('/workbooks/:workbookId/sheets/:sheetId/access', updateSheetAccess);
+
+// Sheet-scoped versions of /message, /batch, /undo, /redo, /import, /export.csv, /action, /state, /changes, /cells and /ranges
+router.post('/workbooks/:workbookId/sheets/:sheetId/message', sendMessage);
+router.post('/workbooks/:workbookId/sheets/:sheetId/batch', sendBatch);
+router.post('/workbooks/:workbookId/sheets/:sheetId/undo', undo);
+router.post('/workbooks/:workbookId/sheets/:sheetId/redo', redo);
+router.post('/workbooks/:workbookId/sheets/:sheetId/import', csvBody, importCsv);
+router.get('/workbooks/:workbookId/sheets/:sheetId/export.csv', exportCsv);
+router.get('/workbooks/:workbookId/sheets/:sheetId/action', getActions);
+router.get('/workbooks/:workbookId/sheets/:sheetId/state', getState);
+router.get('/workbooks/:workbookId/sheets/:sheetId/changes', getChanges);
+router.get('/workbooks/:workbookId/sheets/:sheetId/cells/:cell', getCell);
+router.put('/workbooks/:workbookId/sheets/:sheetId/cells/:cell', putCell);
+router.patch('/workbooks/:workbookId/sheets/:sheetId/cells/:cell', patchCell);
+router.delete('/workbooks/:workbookId/sheets/:sheetId/cells/:cell', deleteCell);
+router.get('/workbooks/:workbookId/sheets/:sheetId/ranges/:range', getRange);
+router.put('/workbooks/:workbookId/sheets/:sheetId/ranges/:range', putRange);
+router.patch('/workbooks/:workbookId/sheets/:sheetId/ranges/:range', patchRange);
+router.delete('/workbooks/:workbookId/sheets/:sheetId/ranges/:range', deleteRange);
+
 // Debug endpoint to track /api/stream calls
 router.get('/stream', (req, res) => {
   console.log('DEBUG: /api/stream called from:', req.get('User-Agent'));
@@ -9,6 +9,9 @@ import logger from './utils/logger';
 import { errorHandler, notFoundHandler } from './middleware/errorHandler';
 import spreadsheetRoutes from './routes/spreadsheetRoutes';
 import { websocketService } from './services/websocketService';
+import spreadsheetService from './services/spreadsheetService';
+import { authService } from './services/authService';
+import { toMessageResponse } from './controllers/spreadsheetController';
 
 class Server {
   private app: express.Application;
@@ -63,24 +66,36 @@ class Server {
 
   private initializeWebSocket(): void {
     websocketService.initialize(this.server);
+    websocketService.setTokenVerifier(token => authService.verify(token));
+    websocketService.setAccessChecker((userId, scope) => spreadsheetService.canViewSheet(userId, scope));
+    websocketService.setResumeHandler((scope, since, userId) => spreadsheetService.getChanges(since, scope, userId));
+    websocketService.setCommandHandler(async ({ message, userId, sessionId, workbookId, sheetId }) =>
+      toMessageResponse(await spreadsheetService.processUserMessage(message, userId, sessionId, { workbookId, sheetId })));
   }
 
-  public start(): void {
+  public async start(): Promise<void> {
     const port = Number(config.server.port);
     const host = config.server.host;
+
+    // Restore persisted data before accepting requests
+    await spreadsheetService.initialize();
+    await authService.initialize();
     
     this.server.listen(port, host, () => {
       logger.info(`🚀 Server running on http://${host}:${port}`);
       logger.info(`📊 Environment: ${config.server.nodeEnv}`);
       logger.info(`🔗 API Base URL: ${config.api.prefix}`);
       logger.info(`🌐 CORS Origin: ${config.cors.origin}`);
+      logger.info(`💾 Storage: ${config.storage.driver} (${config.storage.directory})`);
+      logger.info(`🔐 Auth: ${config.auth.required ? 'token required' : 'optional (anonymous allowed)'}`);
       logger.info(`🔌 WebSocket: ws://${host}:${port}`);
       logger.info('\n📋 Available endpoints:');
+      logger.info('  POST /api/auth/register, /api/auth/login - Create an account / sign in, returns a token');
       logger.info('  POST /api/message - Accept UserEvent');
       logger.info('  GET  /api/action - Get ActionEvents');
       logger.info('  GET  /api/state - Get StateEvents and SpreadsheetState');
       logger.info('  GET  /api/health - Health check');
-      logger.info('  WS   /socket.io - WebSocket connection');
+      logger.info('  WS   /socket.io - WebSocket connection (`send_message` commands, `resume` after reconnecting)');
       logger.info('\n💡 Command Examples:');
       logger.info('  A1 Hello World');
       logger.info('  B5 = 42');
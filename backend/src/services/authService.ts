@@ -0,0 +1,119 @@
+import { randomBytes } from 'crypto';
+import { config } from '../config';
+import { CustomError } from '../middleware/errorHandler';
+import { getSharedStorage, SpreadsheetStorage } from '../storage';
+import type { AuthUser, PublicUser, User } from '../types';
+import { signToken, verifyToken } from '../utils/jwt';
+import { hashPassword, verifyPassword } from '../utils/password';
+import logger from '../utils/logger';
+
+export const USERNAME_PATTERN = /^[A-Za-z0-9_.-]{3,32}$/;
+export const MIN_PASSWORD_LENGTH = 8;
+// Checked for unknown usernames, so they take as long to refuse as wrong passwords; no password matches it
+const DUMMY_PASSWORD_HASH = `scrypt$${Buffer.alloc(16).toString('base64url')}$${Buffer.alloc(64).toString('base64url')}`;
+
+// A signed-in user and the token that identifies them in later requests
+export interface AuthSession {
+  user: PublicUser;
+  token: string;
+}
+
+const toPublicUser = ({ passwordHash, ...user }: User): PublicUser => ({ ...user });
+
+// Local user accounts; tokens carry the user ID and name, so verifying one needs no lookup
+export class AuthService {
+  private users: User[] = [];
+  private readonly secret: string;
+
+  constructor(
+    private readonly storage: SpreadsheetStorage = getSharedStorage(),
+    secret: string = config.auth.jwtSecret,
+    private readonly tokenTtlSeconds: number = config.auth.tokenTtlSeconds
+  ) {
+    if (!secret) {
+      logger.warn('JWT_SECRET is not set; using a random secret, so tokens end with this process');
+    }
+    this.secret = secret || randomBytes(32).toString('hex');
+  }
+
+  async initialize(): Promise<void> {
+    this.users = await this.storage.loadUsers();
+    logger.info(`Loaded ${this.users.length} user account(s) from ${this.storage.driver} storage`);
+  }
+
+  async register(username: string, password: string): Promise<AuthSession> {
+    if (!USERNAME_PATTERN.test(username)) {
+      throw new CustomError('Username must be 3-32 letters, digits, dots, dashes or underscores', 400);
+    }
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      throw new CustomError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`, 400);
+    }
+    if (this.findByUsername(username)) {
+      throw new CustomError(`Username is already taken: ${username}`, 409);
+    }
+
+    const user: User = {
+      id: `user_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      username,
+      passwordHash: await hashPassword(password),
+      createdAt: new Date()
+    };
+    // Checked again because hashing yields to other registrations
+    if (this.findByUsername(username)) {
+      throw new CustomError(`Username is already taken: ${username}`, 409);
+    }
+    this.users.push(user);
+    await this.storage.saveUsers(this.users);
+
+    logger.info(`Registered user ${user.username} (${user.id})`);
+    return this.createSession(user);
+  }
+
+  async login(username: string, password: string): Promise<AuthSession> {
+    const user = this.findByUsername(username);
+    // Unknown names and wrong passwords get the same answer, after the same work
+    const valid = await verifyPassword(password, user?.passwordHash ?? DUMMY_PASSWORD_HASH);
+    if (!user || !valid) {
+      throw new CustomError('Invalid username or password', 401);
+    }
+    return this.createSession(user);
+  }
+
+  // The user a token was issued to; throws a 401 for invalid, expired or orphaned tokens
+  verify(token: string): AuthUser {
+    const claims = verifyToken(token, this.secret);
+    if (!this.users.some(user => user.id === claims.sub)) {
+      throw new CustomError('Invalid token: unknown user', 401);
+    }
+    return { id: claims.sub, username: claims.username };
+  }
+
+  getUser(userId: string): PublicUser {
+    const user = this.users.find(entry => entry.id === userId);
+    if (!user) {
+      throw new CustomError(`User not found: ${userId}`, 404);
+    }
+    return toPublicUser(user);
+  }
+
+  // Usernames match case-insensitively, like at sign-in
+  findUser(username: string): PublicUser | undefined {
+    const user = this.findByUsername(username);
+    return user && toPublicUser(user);
+  }
+
+  private findByUsername(username: string): User | undefined {
+    const normalized = username.toLowerCase();
+    return this.users.find(user => user.username.toLowerCase() === normalized);
+  }
+
+  private createSession(user: User): AuthSession {
+    return {
+      user: toPublicUser(user),
+      token: signToken({ sub: user.id, username: user.username }, this.secret, this.tokenTtlSeconds)
+    };
+  }
+}
+
+// Export singleton instance
+export const authService = new AuthService();
@@ -0,0 +1,69 @@
+import { SpreadsheetCell } from '../types';
+
+// Wider than the largest column index a reference can name (ZZZ), so keys never collide
+const COLUMN_STRIDE = 32768;
+
+const positionKey = (row: number, col: number): number => row * COLUMN_STRIDE + col;
+
+/**
+ * Sparse cell storage of one sheet, keyed by position: lookups are O(1) and
+ * a sheet with a million rows only costs the cells that exist. Iteration
+ * follows insertion order, like the cell array it replaces.
+ */
+export class CellMap {
+  private cells = new Map<number, SpreadsheetCell>();
+
+  constructor(cells: SpreadsheetCell[] = []) {
+    cells.forEach(cell => this.set(cell));
+  }
+
+  get size(): number {
+    return this.cells.size;
+  }
+
+  get(row: number, col: number): SpreadsheetCell | undefined {
+    return this.cells.get(positionKey(row, col));
+  }
+
+  // Stores the cell at its own row/col, replacing whatever was there
+  set(cell: SpreadsheetCell): void {
+    this.cells.set(positionKey(cell.row, cell.col), cell);
+  }
+
+  delete(row: number, col: number): SpreadsheetCell | undefined {
+    const key = positionKey(row, col);
+    const cell = this.cells.get(key);
+    this.cells.delete(key);
+    return cell;
+  }
+
+  values(): IterableIterator<SpreadsheetCell> {
+    return this.cells.values();
+  }
+
+  toArray(): SpreadsheetCell[] {
+    return Array.from(this.cells.values());
+  }
+
+  // Cells inside the bounds (inclusive) in row-major order; small areas are probed
+  // position by position, large ones by scanning the stored cells
+  inBounds(top: number, left: number, bottom: number, right: number): SpreadsheetCell[] {
+    const found: SpreadsheetCell[] = [];
+    if ((bottom - top + 1) * (right - left + 1) <= this.cells.size) {
+      for (let row = top; row <= bottom; row++) {
+        for (let col = left; col <= right; col++) {
+          const cell = this.get(row, col);
+          if (cell) found.push(cell);
+        }
+      }
+      return found;
+    }
+    for (const cell of this.cells.values()) {
+      if (cell.row >= top && cell.row <= bottom && cell.col >= left && cell.col <= right) {
+        found.push(cell);
+      }
+    }
+    return found.sort((a, b) => a.row - b.row || a.col - b.col);
+  }
+
+}
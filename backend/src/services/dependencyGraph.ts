@@ -0,0 +1,204 @@
+// Tracks which cells each formula reads from so edits can be propagated
+
+// Keys include the sheet so formulas can depend on cells of other sheets
+export const cellKey = (sheetId: string, row: number, col: number): string => `${sheetId}:${row}:${col}`;
+
+export const parseCellKey = (key: string): { sheetId: string; row: number; col: number } => {
+  const [sheetId, row, col] = key.split(':');
+  return { sheetId, row: Number(row), col: Number(col) };
+};
+
+// A rectangle of cells a formula reads as a range (0-based, inclusive)
+export interface RangePrecedent {
+  sheetId: string;
+  top: number;
+  left: number;
+  bottom: number;
+  right: number;
+}
+
+const rangeContains = (range: RangePrecedent, position: { sheetId: string; row: number; col: number }): boolean =>
+  range.sheetId === position.sheetId &&
+  position.row >= range.top && position.row <= range.bottom &&
+  position.col >= range.left && position.col <= range.right;
+
+export class DependencyGraph {
+  // cell -> cells its formula references
+  private precedents = new Map<string, Set<string>>();
+  // cell -> formula cells that reference it
+  private dependents = new Map<string, Set<string>>();
+  // cell -> ranges its formula references, kept as bounds so whole columns cost one entry
+  private rangePrecedents = new Map<string, RangePrecedent[]>();
+
+  // Replace the references of a cell (pass empty lists for plain values)
+  setPrecedents(cell: string, references: string[], ranges: RangePrecedent[] = []): void {
+    this.removeCell(cell);
+    if (ranges.length > 0) {
+      this.rangePrecedents.set(cell, ranges);
+    }
+    if (references.length === 0) {
+      return;
+    }
+
+    const refs = new Set(references);
+    this.precedents.set(cell, refs);
+    refs.forEach(ref => {
+      if (!this.dependents.has(ref)) {
+        this.dependents.set(ref, new Set());
+      }
+      this.dependents.get(ref)!.add(cell);
+    });
+  }
+
+  removeCell(cell: string): void {
+    this.rangePrecedents.delete(cell);
+    const refs = this.precedents.get(cell);
+    if (!refs) {
+      return;
+    }
+    refs.forEach(ref => {
+      const dependents = this.dependents.get(ref);
+      dependents?.delete(cell);
+      if (dependents?.size === 0) {
+        this.dependents.delete(ref);
+      }
+    });
+    this.precedents.delete(cell);
+  }
+
+  clear(): void {
+    this.precedents.clear();
+    this.dependents.clear();
+    this.rangePrecedents.clear();
+  }
+
+  getPrecedents(cell: string): string[] {
+    return Array.from(this.precedents.get(cell) ?? []);
+  }
+
+  getRangePrecedents(cell: string): RangePrecedent[] {
+    return this.rangePrecedents.get(cell) ?? [];
+  }
+
+  // Formula cells that reference the cell directly or through a range
+  getDependents(cell: string): string[] {
+    const dependents = new Set(this.dependents.get(cell));
+    if (this.rangePrecedents.size > 0) {
+      const position = parseCellKey(cell);
+      this.rangePrecedents.forEach((ranges, dependent) => {
+        if (ranges.some(range => rangeContains(range, position))) {
+          dependents.add(dependent);
+        }
+      });
+    }
+    return Array.from(dependents);
+  }
+
+  // The given cells plus every cell that depends on them, transitively
+  collectAffected(cells: string[]): Set<string> {
+    const affected = new Set<string>();
+    const queue = [...cells];
+    // Walk the queue by index; shift() would make large fills quadratic
+    for (let next = 0; next < queue.length; next++) {
+      const cell = queue[next];
+      if (affected.has(cell)) {
+        continue;
+      }
+      affected.add(cell);
+      queue.push(...this.getDependents(cell));
+    }
+    return affected;
+  }
+
+  /**
+   * Order the given cells so every cell comes after the cells it reads from.
+   * Uses Tarjan's strongly connected components: cells in a component of
+   * more than one cell (or referencing themselves) are returned in `circular`.
+   * They still appear in `order` so their dependents are evaluated after them.
+   * The depth-first search keeps its own stack, so long chains of formulas
+   * (A2=A1+1, A3=A2+1, ...) cannot overflow the call stack.
+   */
+  getEvaluationOrder(cells: Set<string>): { order: string[]; circular: Set<string> } {
+    const order: string[] = [];
+    const circular = new Set<string>();
+    const index = new Map<string, number>();
+    const lowLink = new Map<string, number>();
+    const onStack = new Set<string>();
+    const stack: string[] = [];
+    let nextIndex = 0;
+    // Positions of the cells, parsed once, for finding the ones inside range references
+    const positions = this.rangePrecedents.size > 0
+      ? Array.from(cells, cell => ({ cell, ...parseCellKey(cell) }))
+      : [];
+    const rangeMembers = (cell: string): string[] => {
+      const ranges = this.rangePrecedents.get(cell);
+      return ranges
+        ? positions.filter(position => ranges.some(range => rangeContains(range, position))).map(position => position.cell)
+        : [];
+    };
+
+    // Cells whose precedents are being visited, with the precedents left to visit
+    const path: Array<{ cell: string; pending: string[] }> = [];
+    const enter = (cell: string): void => {
+      index.set(cell, nextIndex);
+      lowLink.set(cell, nextIndex);
+      nextIndex++;
+      stack.push(cell);
+      onStack.add(cell);
+      // Reversed so pop() visits precedents in reference order
+      const precedents = this.getPrecedents(cell).filter(precedent => cells.has(precedent));
+      path.push({ cell, pending: [...precedents, ...rangeMembers(cell)].reverse() });
+    };
+
+    const visit = (root: string): void => {
+      enter(root);
+      while (path.length > 0) {
+        const frame = path[path.length - 1];
+        const { cell } = frame;
+        const precedent = frame.pending.pop();
+        if (precedent !== undefined) {
+          if (!index.has(precedent)) {
+            enter(precedent);
+          } else if (onStack.has(precedent)) {
+            lowLink.set(cell, Math.min(lowLink.get(cell)!, index.get(precedent)!));
+          }
+          continue;
+        }
+
+        path.pop();
+        if (path.length > 0) {
+          const caller = path[path.length - 1].cell;
+          lowLink.set(caller, Math.min(lowLink.get(caller)!, lowLink.get(cell)!));
+        }
+
+        if (lowLink.get(cell) === index.get(cell)) {
+          // Components are emitted after everything they read from
+          const component: string[] = [];
+          let member: string;
+          do {
+            member = stack.pop()!;
+            onStack.delete(member);
+            component.push(member);
+          } while (member !== cell);
+
+          const selfReference = (this.precedents.get(cell)?.has(cell) ?? false) ||
+            this.getRangePrecedents(cell).some(range => rangeContains(range, parseCellKey(cell)));
+          component.forEach(entry => {
+            if (component.length > 1 || selfReference) {
+              circular.add(entry);
+            }
+            order.push(entry);
+          });
+        }
+      }
+    };
+
+    cells.forEach(cell => {
+      if (!index.has(cell)) {
+        visit(cell);
+      }
+    });
+
+    return { order, circular };
+  }
+}
@@ -0,0 +1,1002 @@
+import { columnIndexToLetter, letterToColumnIndex } from '../utils/cellReference';
+
+// Error values a formula can produce. They are stored as the cell value.
+export type FormulaErrorCode = '#REF!' | '#DIV/0!' | '#NAME?' | '#VALUE!' | '#NUM!' | '#N/A' | '#CIRC!' | '#ERROR!';
+
+const ERROR_CODES: FormulaErrorCode[] = ['#REF!', '#DIV/0!', '#NAME?', '#VALUE!', '#NUM!', '#N/A', '#CIRC!', '#ERROR!'];
+
+export class FormulaError {
+  constructor(public readonly code: FormulaErrorCode) {}
+
+  toString(): string {
+    return this.code;
+  }
+}
+
+// A blank cell is represented as null so functions can tell it apart from ''
+export type ScalarValue = number | string | boolean | FormulaError | null;
+// A range argument: the values of its non-empty cells in row-major order, and how many cells it spans.
+// Aggregates skip blanks inside ranges, so huge, mostly empty ranges cost only the cells that exist.
+interface RangeValue {
+  kind: 'range';
+  values: ScalarValue[];
+  size: number;
+}
+type ArgValue = ScalarValue | RangeValue;
+
+const isRange = (arg: ArgValue): arg is RangeValue =>
+  typeof arg === 'object' && arg !== null && !(arg instanceof FormulaError);
+
+export interface CellReference {
+  row: number;
+  col: number;
+  absoluteRow: boolean;
+  absoluteCol: boolean;
+  // Sheet name for references such as Sheet2!A1; undefined means the formula's own sheet
+  sheet?: string;
+}
+
+type FormulaNode =
+  | { kind: 'number'; value: number }
+  | { kind: 'string'; value: string }
+  | { kind: 'boolean'; value: boolean }
+  | { kind: 'error'; code: FormulaErrorCode }
+  | { kind: 'cell'; ref: CellReference }
+  | { kind: 'range'; start: CellReference; end: CellReference }
+  | { kind: 'unary'; op: '+' | '-' | '%'; operand: FormulaNode }
+  | { kind: 'binary'; op: string; left: FormulaNode; right: FormulaNode }
+  | { kind: 'call'; name: string; args: FormulaNode[] };
+
+export interface FormulaContext {
+  // Returns the stored (already computed) value of a cell, 0-based indices
+  getCellValue(row: number, col: number, sheet?: string): string | undefined;
+  // Stored values of the non-empty cells inside the bounds, in row-major order; without it
+  // every cell of a range is read through getCellValue
+  getRangeValues?(top: number, left: number, bottom: number, right: number, sheet?: string): string[];
+  // Whether a sheet name used in a reference exists; references to other sheets are #REF! without it
+  hasSheet?(sheet: string): boolean;
+  // Sheet bounds used to report #REF! for references outside the grid
+  maxRows: number;
+  maxColumns: number;
+}
+
+// ---------------------------------------------------------------------------
+// Tokenizer
+// ---------------------------------------------------------------------------
+
+export type TokenType = 'number' | 'string' | 'sheet' | 'ref' | 'ident' | 'error' | 'op' | 'lparen' | 'rparen' | 'comma' | 'colon';
+
+export interface Token {
+  type: TokenType;
+  text: string;
+  start: number;
+  end: number;
+}
+
+const REF_PATTERN = /^\$?[A-Za-z]{1,3}\$?[0-9]+/;
+// Sheet prefix of a reference: Sheet2! or 'Q1 Sales'! (quotes escaped as '')
+const SHEET_PATTERN = /^(?:'(?:[^']|'')+'|[A-Za-z_][A-Za-z0-9_.]*)!/;
+const PLAIN_SHEET_NAME = /^[A-Za-z_][A-Za-z0-9_.]*$/;
+const NUMBER_PATTERN = /^(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/;
+const IDENT_PATTERN = /^[A-Za-z_][A-Za-z0-9_.]*/;
+const OPERATORS = ['<=', '>=', '<>', '+', '-', '*', '/', '^', '&', '=', '<', '>', '%'];
+
+export const tokenize = (expression: string): Token[] => {
+  const tokens: Token[] = [];
+  let pos = 0;
+
+  while (pos < expression.length) {
+    const char = expression[pos];
+    const rest = expression.slice(pos);
+
+    if (/\s/.test(char)) {
+      pos++;
+      continue;
+    }
+
+    if (char === '"') {
+      // Strings use "" as an escaped quote, like Excel
+      let end = pos + 1;
+      while (end < expression.length) {
+        if (expression[end] === '"') {
+          if (expression[end + 1] === '"') {
+            end += 2;
+            continue;
+          }
+          break;
+        }
+        end++;
+      }
+      if (end >= expression.length) {
+        throw new FormulaError('#ERROR!');
+      }
+      tokens.push({ type: 'string', text: expression.slice(pos, end + 1), start: pos, end: end + 1 });
+      pos = end + 1;
+      continue;
+    }
+
+    if (char === '#') {
+      const code = ERROR_CODES.find(candidate => rest.toUpperCase().startsWith(candidate));
+      if (!code) {
+        throw new FormulaError('#ERROR!');
+      }
+      tokens.push({ type: 'error', text: code, start: pos, end: pos + code.length });
+      pos += code.length;
+      continue;
+    }
+
+    const sheetMatch = rest.match(SHEET_PATTERN);
+    if (sheetMatch) {
+      tokens.push({ type: 'sheet', text: sheetMatch[0], start: pos, end: pos + sheetMatch[0].length });
+      pos += sheetMatch[0].length;
+      continue;
+    }
+
+    const refMatch = rest.match(REF_PATTERN);
+    if (refMatch && !/^[A-Za-z0-9_.(]/.test(rest.slice(refMatch[0].length))) {
+      tokens.push({ type: 'ref', text: refMatch[0], start: pos, end: pos + refMatch[0].length });
+      pos += refMatch[0].length;
+      continue;
+    }
+
+    const numberMatch = rest.match(NUMBER_PATTERN);
+    if (numberMatch) {
+      tokens.push({ type: 'number', text: numberMatch[0], start: pos, end: pos + numberMatch[0].length });
+      pos += numberMatch[0].length;
+      continue;
+    }
+
+    const identMatch = rest.match(IDENT_PATTERN);
+    if (identMatch) {
+      tokens.push({ type: 'ident', text: identMatch[0], start: pos, end: pos + identMatch[0].length });
+      pos += identMatch[0].length;
+      continue;
+    }
+
+    const operator = OPERATORS.find(op => rest.startsWith(op));
+    if (operator) {
+      tokens.push({ type: 'op', text: operator, start: pos, end: pos + operator.length });
+      pos += operator.length;
+      continue;
+    }
+
+    const punctuation: Record<string, TokenType> = { '(': 'lparen', ')': 'rparen', ',': 'comma', ':': 'colon' };
+    if (punctuation[char]) {
+      tokens.push({ type: punctuation[char], text: char, start: pos, end: pos + 1 });
+      pos++;
+      continue;
+    }
+
+    throw new FormulaError('#ERROR!');
+  }
+
+  return tokens;
+};
+
+export const parseCellReference = (text: string): CellReference => {
+  const match = text.match(/^(\$?)([A-Za-z]+)(\$?)(\d+)$/);
+  if (!match) {
+    throw new FormulaError('#REF!');
+  }
+  const [, colDollar, letters, rowDollar, digits] = match;
+  return {
+    row: parseInt(digits, 10) - 1,
+    col: letterToColumnIndex(letters),
+    absoluteRow: rowDollar === '$',
+    absoluteCol: colDollar === '$'
+  };
+};
+
+// Sheet name from a sheet token ("Sheet2!" or "'Q1 Sales'!")
+export const parseSheetName = (text: string): string => {
+  const name = text.slice(0, -1);
+  return name.startsWith("'") ? name.slice(1, -1).replace(/''/g, "'") : name;
+};
+
+// Sheet prefix for a formula, quoted when the name is not a plain identifier or looks like a cell
+export const formatSheetPrefix = (name: string): string => {
+  const plain = PLAIN_SHEET_NAME.test(name) && !REF_PATTERN.test(name);
+  return plain ? `${name}!` : `'${name.replace(/'/g, "''")}'!`;
+};
+
+export const formatCellReference = (ref: CellReference): string => {
+  return `${ref.absoluteCol ? '$' : ''}${columnIndexToLetter(ref.col)}${ref.absoluteRow ? '$' : ''}${ref.row + 1}`;
+};
+
+export interface StructureChange {
+  type: 'insert' | 'delete';
+  axis: 'row' | 'col';
+  index: number; // 0-based first row/column inserted or deleted
+  count: number;
+}
+
+// Move one coordinate for a structure change; null when the row/column is deleted
+export const shiftCoordinate = (value: number, change: StructureChange): number | null => {
+  if (change.type === 'insert') {
+    return value >= change.index ? value + change.count : value;
+  }
+  if (value < change.index) {
+    return value;
+  }
+  return value >= change.index + change.count ? value - change.count : null;
+};
+
+/**
+ * Rewrite the references of a formula after rows or columns are inserted or
+ * deleted, the way desktop spreadsheets do: references past the change move,
+ * ranges grow or shrink, and references to deleted cells become #REF!.
+ * Absolute references move as well since they point at the same data.
+ * `appliesTo` decides from a reference's sheet name (undefined for unqualified
+ * references) whether it points at the changed sheet.
+ */
+export const adjustFormulaForStructureChange = (
+  formula: string,
+  change: StructureChange,
+  appliesTo: (sheet: string | undefined) => boolean = sheet => sheet === undefined
+): string => {
+  let tokens: Token[];
+  try {
+    tokens = tokenize(formula.slice(1));
+  } catch {
+    return formula;
+  }
+
+  const key = change.axis === 'row' ? 'row' : 'col';
+  let result = '';
+  let cursor = 0;
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.type !== 'ref') {
+      continue;
+    }
+    const sheetToken = tokens[i - 1]?.type === 'sheet' ? tokens[i - 1] : undefined;
+    const isRange = tokens[i + 1]?.type === 'colon' && tokens[i + 2]?.type === 'ref';
+    if (!appliesTo(sheetToken ? parseSheetName(sheetToken.text) : undefined)) {
+      i += isRange ? 2 : 0;
+      continue;
+    }
+
+    const lastToken = isRange ? tokens[i + 2] : token;
+    let replacement: string;
+
+    if (isRange) {
+      const start = parseCellReference(token.text);
+      const end = parseCellReference(lastToken.text);
+      const low = Math.min(start[key], end[key]);
+      const high = Math.max(start[key], end[key]);
+      let newLow: number;
+      let newHigh: number;
+
+      if (change.type === 'insert') {
+        newLow = shiftCoordinate(low, change)!;
+        newHigh = shiftCoordinate(high, change)!;
+      } else {
+        // Deleted rows/columns at either edge shrink the range
+        newLow = shiftCoordinate(low, change) ?? change.index;
+        newHigh = shiftCoordinate(high, change) ?? change.index - 1;
+      }
+
+      if (newHigh < newLow) {
+        replacement = '#REF!';
+      } else {
+        const startIsLow = start[key] <= end[key];
+        replacement = `${formatCellReference({ ...start, [key]: startIsLow ? newLow : newHigh })}:` +
+          formatCellReference({ ...end, [key]: startIsLow ? newHigh : newLow });
+      }
+    } else {
+      const ref = parseCellReference(token.text);
+      const shifted = shiftCoordinate(ref[key], change);
+      replacement = shifted === null ? '#REF!' : formatCellReference({ ...ref, [key]: shifted });
+    }
+
+    // A deleted reference loses its sheet prefix too
+    const replaceFrom = replacement === '#REF!' && sheetToken ? sheetToken.start : token.start;
+    // Token offsets are relative to the expression after the leading "="
+    result += formula.slice(cursor, replaceFrom + 1) + replacement;
+    cursor = lastToken.end + 1;
+    i += isRange ? 2 : 0;
+  }
+
+  return result + formula.slice(cursor);
+};
+
+/**
+ * Rewrite a formula as if it were copied `rowOffset` rows down and
+ * `colOffset` columns right: relative references move, $-anchored parts stay.
+ * References pushed off the top or left edge become #REF!.
+ */
+export const translateFormula = (formula: string, rowOffset: number, colOffset: number): string => {
+  let tokens: Token[];
+  try {
+    tokens = tokenize(formula.slice(1));
+  } catch {
+    return formula;
+  }
+
+  let result = '';
+  let cursor = 0;
+  tokens.forEach((token, index) => {
+    if (token.type !== 'ref') {
+      return;
+    }
+    const ref = parseCellReference(token.text);
+    const row = ref.absoluteRow ? ref.row : ref.row + rowOffset;
+    const col = ref.absoluteCol ? ref.col : ref.col + colOffset;
+    const sheetToken = tokens[index - 1]?.type === 'sheet' ? tokens[index - 1] : undefined;
+    const invalid = row < 0 || col < 0;
+    const replaceFrom = invalid && sheetToken ? sheetToken.start : token.start;
+
+    // Token offsets are relative to the expression after the leading "="
+    result += formula.slice(cursor, replaceFrom + 1) + (invalid ? '#REF!' : formatCellReference({ ...ref, row, col }));
+    cursor = token.end + 1;
+  });
+
+  return result + formula.slice(cursor);
+};
+
+// Point references at a renamed sheet: =Sheet2!A1 becomes ='Q1 Sales'!A1
+export const renameSheetInFormula = (formula: string, oldName: string, newName: string): string => {
+  let tokens: Token[];
+  try {
+    tokens = tokenize(formula.slice(1));
+  } catch {
+    return formula;
+  }
+
+  let result = '';
+  let cursor = 0;
+  tokens
+    .filter(token => token.type === 'sheet' && parseSheetName(token.text).toLowerCase() === oldName.toLowerCase())
+    .forEach(token => {
+      result += formula.slice(cursor, token.start + 1) + formatSheetPrefix(newName);
+      cursor = token.end + 1;
+    });
+  return result + formula.slice(cursor);
+};
+
+// ---------------------------------------------------------------------------
+// Parser (recursive descent, Excel operator precedence)
+// ---------------------------------------------------------------------------
+
+class Parser {
+  private index = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): FormulaNode {
+    const node = this.parseComparison();
+    if (this.index < this.tokens.length) {
+      throw new FormulaError('#ERROR!');
+    }
+    return node;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index++];
+    if (!token) {
+      throw new FormulaError('#ERROR!');
+    }
+    return token;
+  }
+
+  private matchOp(...ops: string[]): string | null {
+    const token = this.peek();
+    if (token?.type === 'op' && ops.includes(token.text)) {
+      this.index++;
+      return token.text;
+    }
+    return null;
+  }
+
+  private parseComparison(): FormulaNode {
+    let left = this.parseConcat();
+    let op: string | null;
+    while ((op = this.matchOp('=', '<>', '<', '>', '<=', '>='))) {
+      left = { kind: 'binary', op, left, right: this.parseConcat() };
+    }
+    return left;
+  }
+
+  private parseConcat(): FormulaNode {
+    let left = this.parseAdditive();
+    while (this.matchOp('&')) {
+      left = { kind: 'binary', op: '&', left, right: this.parseAdditive() };
+    }
+    return left;
+  }
+
+  private parseAdditive(): FormulaNode {
+    let left = this.parseMultiplicative();
+    let op: string | null;
+    while ((op = this.matchOp('+', '-'))) {
+      left = { kind: 'binary', op, left, right: this.parseMultiplicative() };
+    }
+    return left;
+  }
+
+  private parseMultiplicative(): FormulaNode {
+    let left = this.parsePower();
+    let op: string | null;
+    while ((op = this.matchOp('*', '/'))) {
+      left = { kind: 'binary', op, left, right: this.parsePower() };
+    }
+    return left;
+  }
+
+  private parsePower(): FormulaNode {
+    let left = this.parseUnary();
+    while (this.matchOp('^')) {
+      left = { kind: 'binary', op: '^', left, right: this.parseUnary() };
+    }
+    return left;
+  }
+
+  private parseUnary(): FormulaNode {
+    const op = this.matchOp('+', '-');
+    if (op) {
+      return { kind: 'unary', op: op as '+' | '-', operand: this.parseUnary() };
+    }
+    return this.parsePostfix();
+  }
+
+  private parsePostfix(): FormulaNode {
+    let node = this.parsePrimary();
+    while (this.matchOp('%')) {
+      node = { kind: 'unary', op: '%', operand: node };
+    }
+    return node;
+  }
+
+  private parsePrimary(): FormulaNode {
+    const token = this.next();
+
+    switch (token.type) {
+      case 'number':
+        return { kind: 'number', value: parseFloat(token.text) };
+      case 'string':
+        return { kind: 'string', value: token.text.slice(1, -1).replace(/""/g, '"') };
+      case 'error':
+        return { kind: 'error', code: token.text as FormulaErrorCode };
+      case 'sheet':
+      case 'ref': {
+        const sheet = token.type === 'sheet' ? parseSheetName(token.text) : undefined;
+        const refToken = token.type === 'sheet' ? this.next() : token;
+        if (refToken.type !== 'ref') {
+          throw new FormulaError('#ERROR!');
+        }
+        const start = { ...parseCellReference(refToken.text), sheet };
+        if (this.peek()?.type === 'colon') {
+          this.index++;
+          const endToken = this.next();
+          if (endToken.type !== 'ref') {
+            throw new FormulaError('#ERROR!');
+          }
+          // The end of Sheet2!A1:B3 is on the same sheet as the start
+          return { kind: 'range', start, end: { ...parseCellReference(endToken.text), sheet } };
+        }
+        return { kind: 'cell', ref: start };
+      }
+      case 'ident': {
+        if (this.peek()?.type === 'lparen') {
+          this.index++;
+          return { kind: 'call', name: token.text.toUpperCase(), args: this.parseArguments() };
+        }
+        const upper = token.text.toUpperCase();
+        if (upper === 'TRUE' || upper === 'FALSE') {
+          return { kind: 'boolean', value: upper === 'TRUE' };
+        }
+        // Unknown bare names (e.g. misspelled functions or named ranges)
+        return { kind: 'error', code: '#NAME?' };
+      }
+      case 'lparen': {
+        const inner = this.parseComparison();
+        if (this.next().type !== 'rparen') {
+          throw new FormulaError('#ERROR!');
+        }
+        return inner;
+      }
+      default:
+        throw new FormulaError('#ERROR!');
+    }
+  }
+
+  private parseArguments(): FormulaNode[] {
+    const args: FormulaNode[] = [];
+    if (this.peek()?.type === 'rparen') {
+      this.index++;
+      return args;
+    }
+    for (;;) {
+      args.push(this.parseComparison());
+      const token = this.next();
+      if (token.type === 'rparen') {
+        return args;
+      }
+      if (token.type !== 'comma') {
+        throw new FormulaError('#ERROR!');
+      }
+    }
+  }
+}
+
+export const parseFormula = (expression: string): FormulaNode => {
+  return new Parser(tokenize(expression)).parse();
+};
+
+// ---------------------------------------------------------------------------
+// Value coercion
+// ---------------------------------------------------------------------------
+
+// Interpret a stored cell string the way a spreadsheet would display-parse it
+export const parseStoredValue = (raw: string | undefined): ScalarValue => {
+  if (raw === undefined || raw === '') {
+    return null;
+  }
+  const trimmed = raw.trim();
+  if (trimmed !== '' && !isNaN(Number(trimmed))) {
+    return Number(trimmed);
+  }
+  const upper = trimmed.toUpperCase();
+  if (upper === 'TRUE' || upper === 'FALSE') {
+    return upper === 'TRUE';
+  }
+  const errorCode = ERROR_CODES.find(code => code === upper);
+  if (errorCode) {
+    return new FormulaError(errorCode);
+  }
+  return raw;
+};
+
+const toNumber = (value: ScalarValue): number => {
+  if (value instanceof FormulaError) {
+    throw value;
+  }
+  if (value === null) {
+    return 0;
+  }
+  if (typeof value === 'number') {
+    return value;
+  }
+  if (typeof value === 'boolean') {
+    return value ? 1 : 0;
+  }
+  const trimmed = value.trim();
+  if (trimmed === '' || isNaN(Number(trimmed))) {
+    throw new FormulaError('#VALUE!');
+  }
+  return Number(trimmed);
+};
+
+const formatNumber = (value: number): string => {
+  // Trim floating point noise (0.1 + 0.2) to 15 significant digits like Excel
+  return String(parseFloat(value.toPrecision(15)));
+};
+
+const toText = (value: ScalarValue): string => {
+  if (value instanceof FormulaError) {
+    throw value;
+  }
+  if (value === null) {
+    return '';
+  }
+  if (typeof value === 'number') {
+    return formatNumber(value);
+  }
+  if (typeof value === 'boolean') {
+    return value ? 'TRUE' : 'FALSE';
+  }
+  return value;
+};
+
+const toBoolean = (value: ScalarValue): boolean => {
+  if (value instanceof FormulaError) {
+    throw value;
+  }
+  if (value === null) {
+    return false;
+  }
+  if (typeof value === 'boolean') {
+    return value;
+  }
+  if (typeof value === 'number') {
+    return value !== 0;
+  }
+  const upper = value.toUpperCase();
+  if (upper === 'TRUE' || upper === 'FALSE') {
+    return upper === 'TRUE';
+  }
+  throw new FormulaError('#VALUE!');
+};
+
+// Excel orders mixed types as numbers < text < booleans
+const compareValues = (left: ScalarValue, right: ScalarValue): number => {
+  if (left instanceof FormulaError) throw left;
+  if (right instanceof FormulaError) throw right;
+
+  if (left === null) left = typeof right === 'string' ? '' : typeof right === 'boolean' ? false : 0;
+  if (right === null) right = typeof left === 'string' ? '' : typeof left === 'boolean' ? false : 0;
+
+  const rank = (value: number | string | boolean) => (typeof value === 'number' ? 0 : typeof value === 'string' ? 1 : 2);
+  const leftRank = rank(left);
+  const rightRank = rank(right);
+  if (leftRank !== rightRank) {
+    return leftRank - rightRank;
+  }
+  if (typeof left === 'string' && typeof right === 'string') {
+    return left.toLowerCase().localeCompare(right.toLowerCase());
+  }
+  return Number(left) - Number(right);
+};
+
+// ---------------------------------------------------------------------------
+// Functions
+// ---------------------------------------------------------------------------
+
+const flatten = (args: ArgValue[]): Array<{ value: ScalarValue; fromRange: boolean }> => {
+  const values: Array<{ value: ScalarValue; fromRange: boolean }> = [];
+  for (const arg of args) {
+    if (isRange(arg)) {
+      arg.values.forEach(value => values.push({ value, fromRange: true }));
+    } else {
+      values.push({ value: arg, fromRange: false });
+    }
+  }
+  return values;
+};
+
+// Numbers taking part in an aggregate. Text and blanks inside ranges are
+// skipped, while direct arguments are coerced (and may raise #VALUE!).
+const collectNumbers = (args: ArgValue[]): number[] => {
+  const numbers: number[] = [];
+  for (const { value, fromRange } of flatten(args)) {
+    if (value instanceof FormulaError) {
+      throw value;
+    }
+    if (fromRange) {
+      if (typeof value === 'number') {
+        numbers.push(value);
+      }
+    } else if (value !== null) {
+      numbers.push(toNumber(value));
+    }
+  }
+  return numbers;
+};
+
+const expectScalar = (arg: ArgValue): ScalarValue => {
+  if (isRange(arg)) {
+    // A multi-cell range used where a single value is expected
+    if (arg.size === 1) {
+      return arg.values[0] ?? null;
+    }
+    throw new FormulaError('#VALUE!');
+  }
+  return arg;
+};
+
+const roundHalfAwayFromZero = (value: number, digits: number): number => {
+  const factor = Math.pow(10, digits);
+  const scaled = parseFloat((Math.abs(value) * factor).toPrecision(15));
+  return (Math.sign(value) * Math.round(scaled)) / factor;
+};
+
+type FormulaFunction = (args: ArgValue[]) => ScalarValue;
+
+const FUNCTIONS: Record<string, { minArgs: number; maxArgs: number; fn: FormulaFunction }> = {
+  SUM: {
+    minArgs: 1,
+    maxArgs: Infinity,
+    fn: args => collectNumbers(args).reduce((total, value) => total + value, 0)
+  },
+  AVERAGE: {
+    minArgs: 1,
+    maxArgs: Infinity,
+    fn: args => {
+      const numbers = collectNumbers(args);
+      if (numbers.length === 0) {
+        throw new FormulaError('#DIV/0!');
+      }
+      return numbers.reduce((total, value) => total + value, 0) / numbers.length;
+    }
+  },
+  MIN: {
+    minArgs: 1,
+    maxArgs: Infinity,
+    fn: args => {
+      const numbers = collectNumbers(args);
+      return numbers.length === 0 ? 0 : numbers.reduce((min, value) => Math.min(min, value));
+    }
+  },
+  MAX: {
+    minArgs: 1,
+    maxArgs: Infinity,
+    fn: args => {
+      const numbers = collectNumbers(args);
+      return numbers.length === 0 ? 0 : numbers.reduce((max, value) => Math.max(max, value));
+    }
+  },
+  COUNT: {
+    minArgs: 1,
+    maxArgs: Infinity,
+    fn: args => flatten(args).filter(({ value, fromRange }) => {
+      if (typeof value === 'number') return true;
+      // Direct arguments count numeric text as well
+      return !fromRange && typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value));
+    }).length
+  },
+  CONCAT: {
+    minArgs: 1,
+    maxArgs: Infinity,
+    fn: args => flatten(args).map(({ value }) => toText(value)).join('')
+  },
+  ROUND: {
+    minArgs: 1,
+    maxArgs: 2,
+    fn: args => {
+      const value = toNumber(expectScalar(args[0]));
+      const digits = args.length > 1 ? Math.trunc(toNumber(expectScalar(args[1]))) : 0;
+      return roundHalfAwayFromZero(value, digits);
+    }
+  }
+};
+
+// ---------------------------------------------------------------------------
+// Evaluator
+// ---------------------------------------------------------------------------
+
+class Evaluator {
+  constructor(private readonly context: FormulaContext) {}
+
+  private checkBounds(ref: CellReference): void {
+    if (ref.sheet !== undefined && !this.context.hasSheet?.(ref.sheet)) {
+      throw new FormulaError('#REF!');
+    }
+    if (ref.row < 0 || ref.col < 0 || ref.row >= this.context.maxRows || ref.col >= this.context.maxColumns) {
+      throw new FormulaError('#REF!');
+    }
+  }
+
+  private readCell(row: number, col: number, sheet?: string): ScalarValue {
+    return parseStoredValue(this.context.getCellValue(row, col, sheet));
+  }
+
+  evaluateArg(node: FormulaNode): ArgValue {
+    if (node.kind === 'range') {
+      this.checkBounds(node.start);
+      this.checkBounds(node.end);
+      const top = Math.min(node.start.row, node.end.row);
+      const bottom = Math.max(node.start.row, node.end.row);
+      const left = Math.min(node.start.col, node.end.col);
+      const right = Math.max(node.start.col, node.end.col);
+      const size = (bottom - top + 1) * (right - left + 1);
+      const { sheet } = node.start;
+      if (this.context.getRangeValues) {
+        const values = this.context.getRangeValues(top, left, bottom, right, sheet)
+          .map(parseStoredValue)
+          .filter(value => value !== null);
+        return { kind: 'range', values, size };
+      }
+      const values: ScalarValue[] = [];
+      for (let row = top; row <= bottom; row++) {
+        for (let col = left; col <= right; col++) {
+          const value = this.readCell(row, col, sheet);
+          if (value !== null) {
+            values.push(value);
+          }
+        }
+      }
+      return { kind: 'range', values, size };
+    }
+    return this.evaluate(node);
+  }
+
+  evaluate(node: FormulaNode): ScalarValue {
+    switch (node.kind) {
+      case 'number':
+      case 'string':
+      case 'boolean':
+        return node.value;
+      case 'error':
+        throw new FormulaError(node.code);
+      case 'cell':
+        this.checkBounds(node.ref);
+        return this.readCell(node.ref.row, node.ref.col, node.ref.sheet);
+      case 'range':
+        return expectScalar(this.evaluateArg(node));
+      case 'unary': {
+        const operand = toNumber(this.evaluate(node.operand));
+        if (node.op === '-') return -operand;
+        if (node.op === '%') return operand / 100;
+        return operand;
+      }
+      case 'binary':
+        return this.evaluateBinary(node.op, node.left, node.right);
+      case 'call':
+        return this.evaluateCall(node.name, node.args);
+    }
+  }
+
+  private evaluateBinary(op: string, leftNode: FormulaNode, rightNode: FormulaNode): ScalarValue {
+    const left = this.evaluate(leftNode);
+    const right = this.evaluate(rightNode);
+
+    switch (op) {
+      case '+':
+        return toNumber(left) + toNumber(right);
+      case '-':
+        return toNumber(left) - toNumber(right);
+      case '*':
+        return toNumber(left) * toNumber(right);
+      case '/': {
+        const divisor = toNumber(right);
+        const dividend = toNumber(left);
+        if (divisor === 0) {
+          throw new FormulaError('#DIV/0!');
+        }
+        return dividend / divisor;
+      }
+      case '^': {
+        const result = Math.pow(toNumber(left), toNumber(right));
+        if (!isFinite(result) || isNaN(result)) {
+          throw new FormulaError('#NUM!');
+        }
+        return result;
+      }
+      case '&':
+        return toText(left) + toText(right);
+      case '=':
+        return compareValues(left, right) === 0;
+      case '<>':
+        return compareValues(left, right) !== 0;
+      case '<':
+        return compareValues(left, right) < 0;
+      case '>':
+        return compareValues(left, right) > 0;
+      case '<=':
+        return compareValues(left, right) <= 0;
+      case '>=':
+        return compareValues(left, right) >= 0;
+      default:
+        throw new FormulaError('#ERROR!');
+    }
+  }
+
+  private evaluateCall(name: string, argNodes: FormulaNode[]): ScalarValue {
+    // IF is evaluated lazily so the branch not taken cannot raise errors
+    if (name === 'IF') {
+      if (argNodes.length < 2 || argNodes.length > 3) {
+        throw new FormulaError('#N/A');
+      }
+      const condition = toBoolean(expectScalar(this.evaluateArg(argNodes[0])));
+      if (condition) {
+        return this.valueOrZero(argNodes[1]);
+      }
+      return argNodes.length === 3 ? this.valueOrZero(argNodes[2]) : false;
+    }
+
+    const definition = FUNCTIONS[name];
+    if (!definition) {
+      throw new FormulaError('#NAME?');
+    }
+    if (argNodes.length < definition.minArgs || argNodes.length > definition.maxArgs) {
+      throw new FormulaError('#N/A');
+    }
+    return definition.fn(argNodes.map(arg => this.evaluateArg(arg)));
+  }
+
+  private valueOrZero(node: FormulaNode): ScalarValue {
+    const value = expectScalar(this.evaluateArg(node));
+    return value === null ? 0 : value;
+  }
+}
+
+// A cell a formula reads from, or a range from row/col to endRow/endCol (0-based, inclusive)
+export interface FormulaReference {
+  row: number;
+  col: number;
+  endRow?: number;
+  endCol?: number;
+  sheet?: string;
+}
+
+/**
+ * List the cells and ranges a formula reads from; ranges are not expanded, so
+ * whole columns cost one entry. References outside the given bounds are
+ * clamped away; malformed formulas reference nothing. `sheet` is set for
+ * references to other sheets.
+ */
+export const extractReferences = (
+  formula: string,
+  maxRows: number,
+  maxColumns: number
+): FormulaReference[] => {
+  const expression = formula.trim().startsWith('=') ? formula.trim().slice(1) : formula;
+  let root: FormulaNode;
+  try {
+    root = parseFormula(expression);
+  } catch {
+    return [];
+  }
+
+  const references: FormulaReference[] = [];
+  const addCell = (row: number, col: number, sheet?: string) => {
+    if (row >= 0 && col >= 0 && row < maxRows && col < maxColumns) {
+      references.push(sheet === undefined ? { row, col } : { row, col, sheet });
+    }
+  };
+
+  const visit = (node: FormulaNode): void => {
+    switch (node.kind) {
+      case 'cell':
+        addCell(node.ref.row, node.ref.col, node.ref.sheet);
+        break;
+      case 'range': {
+        const top = Math.max(0, Math.min(node.start.row, node.end.row));
+        const left = Math.max(0, Math.min(node.start.col, node.end.col));
+        const bottom = Math.min(Math.max(node.start.row, node.end.row), maxRows - 1);
+        const right = Math.min(Math.max(node.start.col, node.end.col), maxColumns - 1);
+        if (top === bottom && left === right) {
+          addCell(top, left, node.start.sheet);
+        } else if (top <= bottom && left <= right) {
+          const { sheet } = node.start;
+          references.push({ row: top, col: left, endRow: bottom, endCol: right, ...(sheet === undefined ? {} : { sheet }) });
+        }
+        break;
+      }
+      case 'unary':
+        visit(node.operand);
+        break;
+      case 'binary':
+        visit(node.left);
+        visit(node.right);
+        break;
+      case 'call':
+        node.args.forEach(visit);
+        break;
+      default:
+        break;
+    }
+  };
+
+  visit(root);
+  return references;
+};
+
+export const isFormula = (value: string): boolean => {
+  return value.trim().startsWith('=') && value.trim().length > 1;
+};
+
+// Normalize "= SUM(A1:A3)" to "=SUM(A1:A3)" for storage
+export const normalizeFormula = (value: string): string => {
+  return `=${value.trim().slice(1).trim()}`;
+};
+
+/**
+ * Evaluate a formula (with or without the leading "=") and return the value
+ * to store in the cell. Errors are returned as their error code rather than
+ * thrown, so a bad formula never fails the whole request.
+ */
+export const evaluateFormula = (formula: string, context: FormulaContext): string => {
+  const expression = formula.trim().startsWith('=') ? formula.trim().slice(1) : formula;
+  try {
+    const evaluator = new Evaluator(context);
+    const result = evaluator.evaluate(parseFormula(expression));
+    if (result instanceof FormulaError) {
+      return result.code;
+    }
+    if (typeof result === 'number' && !isFinite(result)) {
+      return '#NUM!';
+    }
+    return result === null ? '0' : toText(result);
+  } catch (error) {
+    if (error instanceof FormulaError) {
+      return error.code;
+    }
+    throw error;
+  }
+};
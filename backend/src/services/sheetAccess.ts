@@ -0,0 +1,93 @@
+import { CustomError } from '../middleware/errorHandler';
+import type { ProtectedRange, SheetAccess, SheetRole } from '../types';
+import { letterToColumnIndex } from '../utils/cellReference';
+
+// Weakest first; every role can do what the ones before it can
+export const SHEET_ROLES: SheetRole[] = ['viewer', 'commenter', 'editor', 'owner'];
+
+// Cells a protected range covers: 0-based and inclusive; whole columns and rows are open-ended
+export interface RangeBounds {
+  startRow: number;
+  endRow: number;
+  startCol: number;
+  endCol: number;
+}
+
+export const isSheetRole = (value: unknown): value is SheetRole => SHEET_ROLES.includes(value as SheetRole);
+
+// True when `role` allows at least what `required` does
+export const hasRole = (role: SheetRole | null, required: SheetRole): boolean =>
+  role !== null && SHEET_ROLES.indexOf(role) >= SHEET_ROLES.indexOf(required);
+
+/**
+ * A user's role on a sheet, or null when they may not see it. Sheets nobody
+ * has shared yet are open to everyone, as all sheets were before accounts.
+ * Members get the stronger of their own role and the default role.
+ */
+export const getSheetRole = (access: SheetAccess | undefined, userId?: string): SheetRole | null => {
+  if (!access) {
+    return 'owner';
+  }
+  if (userId && userId === access.ownerId) {
+    return 'owner';
+  }
+  const memberRole = userId ? access.members[userId] ?? null : null;
+  return hasRole(memberRole, access.defaultRole ?? 'viewer') ? memberRole : access.defaultRole;
+};
+
+// Parse A1, A1-C3, A1:C3, A:C or 2:5
+export const parseProtectedRange = (range: string): RangeBounds => {
+  const target = typeof range === 'string' ? range.trim().toUpperCase() : '';
+  const columnsMatch = target.match(/^([A-Z]{1,3}):([A-Z]{1,3})$/);
+  const rowsMatch = target.match(/^([1-9]\d*):([1-9]\d*)$/);
+  const cellsMatch = target.match(/^([A-Z]{1,3})([1-9]\d*)(?:[-:]([A-Z]{1,3})([1-9]\d*))?$/);
+
+  let bounds: RangeBounds;
+  if (columnsMatch) {
+    bounds = {
+      startRow: 0,
+      endRow: Infinity,
+      startCol: letterToColumnIndex(columnsMatch[1]),
+      endCol: letterToColumnIndex(columnsMatch[2])
+    };
+  } else if (rowsMatch) {
+    bounds = { startRow: parseInt(rowsMatch[1], 10) - 1, endRow: parseInt(rowsMatch[2], 10) - 1, startCol: 0, endCol: Infinity };
+  } else if (cellsMatch) {
+    bounds = {
+      startRow: parseInt(cellsMatch[2], 10) - 1,
+      endRow: parseInt(cellsMatch[4] ?? cellsMatch[2], 10) - 1,
+      startCol: letterToColumnIndex(cellsMatch[1]),
+      endCol: letterToColumnIndex(cellsMatch[3] ?? cellsMatch[1])
+    };
+  } else {
+    throw new CustomError(`Invalid protected range: ${range}. Use A1, A1-C3, A:A or 2:2`, 400);
+  }
+
+  return {
+    startRow: Math.min(bounds.startRow, bounds.endRow),
+    endRow: Math.max(bounds.startRow, bounds.endRow),
+    startCol: Math.min(bounds.startCol, bounds.endCol),
+    endCol: Math.max(bounds.startCol, bounds.endCol)
+  };
+};
+
+const overlaps = (a: RangeBounds, b: RangeBounds): boolean =>
+  a.startRow <= b.endRow && b.startRow <= a.endRow && a.startCol <= b.endCol && b.startCol <= a.endCol;
+
+/**
+ * The first protected range that keeps the user from changing `bounds`, or
+ * undefined when they may. Without bounds every protected range counts, for
+ * changes that move all cells such as inserting or deleting rows.
+ */
+export const findBlockingRange = (
+  access: SheetAccess | undefined,
+  userId: string | undefined,
+  bounds?: RangeBounds
+): ProtectedRange | undefined => {
+  if (!access || getSheetRole(access, userId) === 'owner') {
+    return undefined;
+  }
+  return access.protectedRanges.find(entry =>
+    !(userId && entry.editors.includes(userId)) &&
+    (!bounds || overlaps(parseProtectedRange(entry.range), bounds)));
+};
@@ -0,0 +1,92 @@
+import { SheetPatch } from '../types';
+import { StructureChange } from './formulaEngine';
+import { CellMap } from './cellMap';
+
+/**
+ * Collects what changes on one sheet between two broadcasts, so clients get
+ * a delta instead of the whole state. Cells are only marked while a command
+ * runs and read when the delta is taken; a structure change reads them
+ * first, because it moves the cells the marks point at.
+ */
+export class SheetChanges {
+  private touched = new Map<string, { row: number; col: number }>();
+  private patches: SheetPatch[] = [];
+  private headersChanged = false;
+  private dimensionsChanged = false;
+  private freezeChanged = false;
+
+  // `columns` is the width clients already know, so a grown sheet sends its new headers
+  constructor(private publishedColumns: number) {}
+
+  get isEmpty(): boolean {
+    return this.touched.size === 0 && this.patches.length === 0 && !this.headersChanged && !this.dimensionsChanged && !this.freezeChanged;
+  }
+
+  // The cell at this position was written, formatted, recalculated or removed
+  touch(row: number, col: number): void {
+    this.touched.set(`${row}:${col}`, { row, col });
+  }
+
+  touchHeaders(): void {
+    this.headersChanged = true;
+  }
+
+  // Column widths or row heights were set or moved
+  touchDimensions(): void {
+    this.dimensionsChanged = true;
+  }
+
+  // The number of frozen rows or columns changed
+  touchFreeze(): void {
+    this.freezeChanged = true;
+  }
+
+  // Call before the cells are shifted
+  shift(change: StructureChange, cells: CellMap): void {
+    this.flush(cells);
+    this.patches.push({ type: 'structure', change: { ...change } });
+    if (change.axis === 'col') {
+      this.headersChanged = true;
+    }
+  }
+
+  // Patches since the last call, oldest first, and whether headers, dimensions and frozen panes have to be sent
+  take(cells: CellMap, columns: number): { patches: SheetPatch[]; headersChanged: boolean; dimensionsChanged: boolean; freezeChanged: boolean } {
+    this.flush(cells);
+    const result = {
+      patches: this.patches,
+      headersChanged: this.headersChanged || columns !== this.publishedColumns,
+      dimensionsChanged: this.dimensionsChanged,
+      freezeChanged: this.freezeChanged
+    };
+    this.clear();
+    this.publishedColumns = columns;
+    return result;
+  }
+
+  clear(): void {
+    this.touched.clear();
+    this.patches = [];
+    this.headersChanged = false;
+    this.dimensionsChanged = false;
+    this.freezeChanged = false;
+  }
+
+  private flush(cells: CellMap): void {
+    if (this.touched.size === 0) {
+      return;
+    }
+
+    const patch: SheetPatch = { type: 'cells', cells: [], removed: [] };
+    this.touched.forEach(({ row, col }) => {
+      const cell = cells.get(row, col);
+      if (cell) {
+        patch.cells.push(structuredClone(cell));
+      } else {
+        patch.removed.push({ row, col });
+      }
+    });
+    this.patches.push(patch);
+    this.touched.clear();
+  }
+}
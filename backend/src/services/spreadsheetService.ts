@@ -1,15 +1,60 @@
-import { UserEvent, ActionEvent, StateEvent, SpreadsheetState, SpreadsheetCell } from '../types';
+import { UserEvent, ActionEvent, StateEvent, SpreadsheetState, SpreadsheetCell, CellFormat, SheetInfo, Workbook, UndoOperation, SheetDelta, SheetAccess, SheetRole } from '../types';
 import { CustomError } from '../middleware/errorHandler';
 import logger from '../utils/logger';
 import { websocketService } from './websocketService';
+import {
+  FormulaContext,
+  StructureChange,
+  adjustFormulaForStructureChange,
+  evaluateFormula,
+  extractReferences,
+  isFormula,
+  normalizeFormula,
+  renameSheetInFormula,
+  shiftCoordinate,
+  translateFormula
+} from './formulaEngine';
+import { DependencyGraph, RangePrecedent, cellKey, parseCellKey } from './dependencyGraph';
+import { CellMap } from './cellMap';
+import { SheetChanges } from './sheetChanges';
+import { UndoHistory, historyKey } from './undoHistory';
+import { RangeBounds, findBlockingRange, getSheetRole, hasRole, isSheetRole, parseProtectedRange } from './sheetAccess';
+import { columnIndexToLetter, letterToColumnIndex, generateColumnHeaders, toCellId } from '../utils/cellReference';
+import { DEFAULT_CELL_FORMAT, mergeFormat, parseFormatObject, parseFormatOptions } from '../utils/cellFormat';
+import { parseCsv, formatCsv, resolveCsvOptions } from '../utils/csv';
+import { readXlsx, writeXlsx } from '../utils/xlsx';
+import { FillStep, extendSeries } from '../utils/fillSeries';
+import { config } from '../config';
+import { createStorage, emptySheetSnapshot, getSharedStorage, SheetSnapshot, SpreadsheetStorage } from '../storage';
 
 // Constants
-const MAX_ROWS = 100;
+const MAX_ROWS = config.sheet.maxRows;
+const MAX_COLUMNS = config.sheet.maxColumns;
 const INITIAL_ROWS = 100; // Start with 100 rows to show scrolling
+const MAX_SHEET_NAME_LENGTH = 31;
+const MAX_WORKBOOK_NAME_LENGTH = 100;
+// Cells one request may read or write through the cell and range routes
+const MAX_RANGE_CELLS = 100000;
+// Column widths and row heights a resize command may set, in pixels
+const COLUMN_WIDTH_LIMITS = { min: 20, max: 1000 };
+const ROW_HEIGHT_LIMITS = { min: 16, max: 500 };
+// Rows and columns a freeze command may keep in view; frozen panes are always rendered in full
+const MAX_FROZEN_ROWS = 50;
+const MAX_FROZEN_COLUMNS = 20;
+// Commands one batch may hold
+const MAX_BATCH_COMMANDS = 1000;
+// Deltas kept per sheet for clients that missed some; older gaps are answered with the full state
+const MAX_DELTA_LOG = 500;
+
+// Stable IDs of the mock workbook, used when a request names no workbook or sheet
+export const DEFAULT_WORKBOOK_ID = 'default';
+export const DEFAULT_SHEET_ID = 'sheet1';
 
 // Types for command parsing
+type FillDirection = 'down' | 'up' | 'right' | 'left';
+
 interface ParsedCommand {
-  type: 'SINGLE' | 'RANGE' | 'HEADER_RENAME';
+  type: 'SINGLE' | 'RANGE' | 'HEADER_RENAME' | 'INSERT_ROW' | 'DELETE_ROW' | 'INSERT_COLUMN' | 'DELETE_COLUMN' | 'FORMAT_CELL' | 'FILL' | 'RESIZE_COLUMN' | 'RESIZE_ROW' | 'FREEZE' | 'UNDO' | 'REDO';
   cell?: string;
   col?: number;
   row?: number;
@@ -20,75 +65,731 @@ interface ParsedCommand {
   endCol?: number;
   endRow?: number;
   value: string;
+  format?: Partial<CellFormat>;
+  clearFormat?: boolean;
+  // Fill commands extend the start/end range this way up to `fillTo`: a 1-based row or 0-based column
+  direction?: FillDirection;
+  fillTo?: number;
+  // Resize commands: the width or height in pixels, or null for the grid's default
+  size?: number | null;
+  // Freeze commands: how many top rows and left columns to freeze; left out keeps the current number
+  frozenRows?: number;
+  frozenColumns?: number;
   originalCommand: string;
 }
 
-// Helper function to generate column headers
-const generateColumnHeaders = (count: number): string[] => {
-  const headers: string[] = [];
-  for (let i = 0; i < count; i++) {
-    headers.push(columnIndexToLetter(i));
-  }
-  return headers;
-};
-
-// Convert column index to letter (0=A, 1=B, 25=Z, 26=AA, etc.)
-const columnIndexToLetter = (index: number): string => {
-  let result = '';
-  while (index >= 0) {
-    result = String.fromCharCode(65 + (index % 26)) + result;
-    index = Math.floor(index / 26) - 1;
-  }
-  return result;
-};
-
-// Convert letter to column index (A=0, B=1, Z=25, AA=26, etc.)
-const letterToColumnIndex = (letter: string): number => {
-  let result = 0;
-  for (let i = 0; i < letter.length; i++) {
-    result = result * 26 + (letter.charCodeAt(i) - 64);
-  }
-  return result - 1; // Convert to 0-based index
-};
-
-// In-memory storage (replace with database in production)
-class SpreadsheetDataStore {
-  private userEvents: UserEvent[] = [];
-  private actionEvents: ActionEvent[] = [];
-  private stateEvents: StateEvent[] = [];
-  private spreadsheetState: SpreadsheetState = {
-    cells: [],
-    rows: INITIAL_ROWS, // Start with 30 rows for virtual scrolling
-    columns: 26, // A-Z columns
-    headers: generateColumnHeaders(26) // Generate A-Z headers
-  };
-
-  constructor() {
+// Which sheet a request targets; omitted IDs fall back to the first workbook and its first sheet
+export interface SheetTarget {
+  workbookId?: string;
+  sheetId?: string;
+}
+
+// Replaces the parts of a sheet's sharing that are given; members and range editors are user IDs
+export interface SheetAccessUpdate {
+  defaultRole?: SheetRole | null;
+  members?: Record<string, SheetRole>;
+  protectedRanges?: Array<{ range: string; editors?: string[] }>;
+}
+
+export interface CsvImportOptions {
+  delimiter?: string;
+  quote?: string;
+  // Use the first row as column header names instead of cell values
+  headerRow?: boolean;
+  // Top-left cell of the imported data, e.g. "B3"; defaults to A1
+  anchor?: string;
+}
+
+export interface CsvExportOptions {
+  // A1, A1-C3, A1:C3, A:C or 2:5; defaults to A1 up to the last filled cell
+  range?: string;
+  delimiter?: string;
+  quote?: string;
+  // Prepend the column header names as the first row
+  includeHeaders?: boolean;
+  // Export formulas ("=A1*2") instead of their computed values
+  formulas?: boolean;
+}
+
+// A value written through the range routes; formulas start with "="
+export type CellInput = string | null;
+
+export interface RangeWrite {
+  // Rows of values from the top-left cell of the range. With `replace` they must fill
+  // the range exactly and null empties a cell; otherwise null leaves the cell as it is
+  values?: CellInput[][];
+  // Merged into the format of every cell of the range
+  format?: Partial<CellFormat>;
+  // Formats laid out like `values`, replacing each cell's format (null resets it); applied before `format`
+  formats?: Array<Array<Partial<CellFormat> | null>>;
+  // Cell the values were copied from (`A1`): their formulas move along, like pasting a copied block
+  copiedFrom?: string;
+  replace?: boolean;
+}
+
+// A range as the cell and range routes read it, row by row from its top-left cell (0-based)
+export interface RangeContents {
+  range: string;
+  startRow: number;
+  startCol: number;
+  values: string[][];
+  formulas: Array<Array<string | null>>;
+  formats: Array<Array<CellFormat | null>>;
+  workbookId: string;
+  sheetId: string;
+}
+
+export interface RangeWriteResult {
+  actionEvent: ActionEvent;
+  stateEvent: StateEvent;
+  dependentStateEvents: StateEvent[];
+  range: string;
+  cellsUpdated: number;
+  workbookId: string;
+  sheetId: string;
+}
+
+export interface XlsxImportOptions {
+  // Workbook name; defaults to the next free "WorkbookN"
+  name?: string;
+  // Use the first row of every sheet as column header names instead of cell values
+  headerRow?: boolean;
+}
+
+// Size and column headers of a sheet; its cells are kept in a CellMap
+type SheetLayout = Omit<SpreadsheetState, 'cells'>;
+
+// Working copy of one sheet: its grid and the events that produced it
+interface SheetData {
+  id: string;
+  name: string;
+  state: SheetLayout;
+  cells: CellMap;
+  userEvents: UserEvent[];
+  actionEvents: ActionEvent[];
+  stateEvents: StateEvent[];
+  // Changes not broadcast yet, and the latest deltas (in memory only)
+  changes: SheetChanges;
+  deltas: SheetDelta[];
+  // Who the sheet is shared with; open to everyone until it is shared
+  access?: SheetAccess;
+}
+
+interface WorkbookData {
+  id: string;
+  name: string;
+  createdAt: Date;
+  updatedAt: Date;
+  sheets: SheetData[];
+  // One graph per workbook so formulas can depend on cells of other sheets
+  dependencyGraph: DependencyGraph;
+  // Undo/redo stacks per user/session; undo can cross sheets like formulas do
+  history: UndoHistory;
+}
+
+// What applying one command did, before it is committed
+interface AppliedCommand {
+  // The sheet the action is recorded on
+  sheet: SheetData;
+  parsedCommand: ParsedCommand;
+  actionEvent: ActionEvent;
+  stateEvent: StateEvent;
+  recalculatedCells: RecalculatedCell[];
+  changedSheets: Set<SheetData>;
+  // Operations that reverse the command, for the sender's undo history
+  undo?: UndoOperation[];
+}
+
+// A formula cell whose value changed on recalculation, with the sheet it lives on
+interface RecalculatedCell {
+  sheet: SheetData;
+  cell: SpreadsheetCell;
+}
+
+// Working copy kept in memory; every mutation is written through to the configured storage
+export class SpreadsheetDataStore {
+  private workbooks: WorkbookData[] = [];
+
+  constructor(private readonly storage: SpreadsheetStorage = createStorage(config.storage)) {
     this.initializeMockData();
   }
 
+  /**
+   * Load the persisted workbooks and their event history. On first start the
+   * storage is empty, so the mock workbook is saved instead.
+   */
+  async initialize(): Promise<void> {
+    const snapshot = await this.storage.load();
+    if (!snapshot) {
+      await this.persistWorkbooks(this.workbooks);
+      for (const sheet of this.workbooks.flatMap(workbook => workbook.sheets)) {
+        await this.storage.appendEvents(sheet.id, {
+          userEvents: sheet.userEvents,
+          actionEvents: sheet.actionEvents,
+          stateEvents: sheet.stateEvents
+        });
+      }
+      logger.info(`Initialized ${this.storage.driver} storage with mock data`);
+      return;
+    }
+
+    this.workbooks = snapshot.workbooks.map(workbook => ({
+      ...workbook,
+      sheets: workbook.sheets.map(({ id, name, access }) => ({
+        ...this.toSheetData(id, name, snapshot.sheets[id] ?? emptySheetSnapshot(this.createEmptyState())),
+        access
+      })),
+      dependencyGraph: new DependencyGraph(),
+      history: new UndoHistory()
+    }));
+
+    // Formula values are stored, but the dependency graphs have to be rebuilt
+    this.workbooks.forEach(workbook => {
+      workbook.sheets.forEach(sheet => {
+        for (const cell of sheet.cells.values()) {
+          if (cell.formula) {
+            this.updateDependencies(workbook, cellKey(sheet.id, cell.row, cell.col));
+          }
+        }
+      });
+      workbook.history.replay(this.collectActionLog(workbook));
+    });
+
+    const sheetCount = this.workbooks.reduce((total, workbook) => total + workbook.sheets.length, 0);
+    logger.info(`Loaded ${this.workbooks.length} workbook(s) with ${sheetCount} sheet(s) from ${this.storage.driver} storage`);
+  }
+
+  async close(): Promise<void> {
+    await this.storage.close();
+  }
+
+  // Workbooks with a sheet the user may see, listing only those sheets
+  async listWorkbooks(userId?: string): Promise<Workbook[]> {
+    return this.workbooksFor(userId);
+  }
+
+  async getWorkbook(workbookId: string, userId?: string): Promise<Workbook> {
+    return this.toWorkbookView(this.resolveWorkbook(workbookId, userId), userId)!;
+  }
+
+  // The first sheet belongs to the signed-in user who creates the workbook
+  async createWorkbook(name?: string, userId?: string): Promise<Workbook> {
+    const workbookName = name === undefined
+      ? this.nextName('Workbook', this.workbooks.map(workbook => workbook.name))
+      : this.validateWorkbookName(name);
+    const now = new Date();
+    const workbook: WorkbookData = {
+      id: `workbook_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      name: workbookName,
+      createdAt: now,
+      updatedAt: now,
+      sheets: [this.createSheetData('Sheet1', this.createEmptyState(), this.createAccess(userId))],
+      dependencyGraph: new DependencyGraph(),
+      history: new UndoHistory()
+    };
+
+    this.workbooks.push(workbook);
+    await this.persistWorkbooks([workbook]);
+    this.broadcastWorkbooks();
+    logger.info(`Workbook created: ${workbook.name} (${workbook.id})`);
+    return this.toWorkbookView(workbook, userId)!;
+  }
+
+  async renameWorkbook(workbookId: string, name: string, userId?: string): Promise<Workbook> {
+    const workbook = this.resolveWorkbook(workbookId, userId);
+    this.requireWorkbookOwner(workbook, userId, 'rename this workbook');
+    const oldName = workbook.name;
+    workbook.name = this.validateWorkbookName(name);
+    workbook.updatedAt = new Date();
+
+    await this.persistWorkbooks([]);
+    this.broadcastWorkbooks();
+    logger.info(`Workbook renamed: ${oldName} -> ${workbook.name}`);
+    return this.toWorkbookView(workbook, userId)!;
+  }
+
+  async deleteWorkbook(workbookId: string, userId?: string): Promise<void> {
+    const workbook = this.resolveWorkbook(workbookId, userId);
+    this.requireWorkbookOwner(workbook, userId, 'delete this workbook');
+    if (this.workbooks.length === 1) {
+      throw new CustomError('Cannot delete the only workbook', 400);
+    }
+
+    this.workbooks = this.workbooks.filter(entry => entry !== workbook);
+    await this.persistWorkbooks([]);
+    for (const sheet of workbook.sheets) {
+      await this.storage.deleteSheet(sheet.id);
+    }
+    this.broadcastWorkbooks();
+    logger.info(`Workbook deleted: ${workbook.name} (${workbook.id})`);
+  }
+
+  // Copies the cells, formats and headers of every sheet the user may see; the event history starts fresh
+  async duplicateWorkbook(workbookId: string, name?: string, userId?: string): Promise<Workbook> {
+    const source = this.resolveWorkbook(workbookId, userId);
+    const now = new Date();
+    const workbook: WorkbookData = {
+      id: `workbook_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      name: name === undefined
+        ? this.uniqueName(`${source.name} (copy)`, this.workbooks.map(entry => entry.name))
+        : this.validateWorkbookName(name),
+      createdAt: now,
+      updatedAt: now,
+      sheets: source.sheets
+        .filter(sheet => this.canView(sheet, userId))
+        .map(sheet => this.createSheetData(sheet.name, structuredClone(this.toSpreadsheetState(sheet)), this.copyAccess(sheet, userId))),
+      dependencyGraph: new DependencyGraph(),
+      history: new UndoHistory()
+    };
+    this.recalculateAll(workbook);
+    // Clients load new workbooks in full, so their first values need no delta
+    workbook.sheets.forEach(sheet => sheet.changes.clear());
+
+    this.workbooks.push(workbook);
+    await this.persistWorkbooks([workbook]);
+    this.broadcastWorkbooks();
+    logger.info(`Workbook duplicated: ${source.name} -> ${workbook.name}`);
+    return this.toWorkbookView(workbook, userId)!;
+  }
+
+  // Editors of any sheet may add sheets to the workbook; new sheets belong to the signed-in user
+  async createSheet(workbookId: string, name?: string, userId?: string): Promise<{ workbook: Workbook; sheet: SheetInfo }> {
+    const workbook = this.resolveWorkbook(workbookId, userId);
+    this.requireWorkbookEditor(workbook, userId, 'add sheets to this workbook');
+    const sheetName = name === undefined
+      ? this.nextName('Sheet', workbook.sheets.map(sheet => sheet.name))
+      : this.validateSheetName(workbook, name);
+    const sheet = this.createSheetData(sheetName, this.createEmptyState(), this.createAccess(userId));
+
+    workbook.sheets.push(sheet);
+    return this.finishSheetChange(workbook, sheet, `Sheet created: ${sheet.name}`, userId);
+  }
+
+  // Renaming rewrites Sheet!A1 references to the sheet in every formula of the workbook
+  async renameSheet(workbookId: string, sheetId: string, name: string, userId?: string): Promise<{ workbook: Workbook; sheet: SheetInfo }> {
+    const workbook = this.resolveWorkbook(workbookId, userId);
+    const sheet = this.resolveSheet(workbook, sheetId, userId);
+    this.requireRole(sheet, userId, 'editor', 'rename this sheet');
+    const newName = this.validateSheetName(workbook, name, sheet);
+    const oldName = sheet.name;
+
+    workbook.sheets.forEach(other => {
+      for (const cell of other.cells.values()) {
+        const formula = cell.formula && renameSheetInFormula(cell.formula, oldName, newName);
+        if (formula && formula !== cell.formula) {
+          cell.formula = formula;
+          other.changes.touch(cell.row, cell.col);
+        }
+      }
+    });
+    sheet.name = newName;
+
+    return this.finishSheetChange(workbook, sheet, `Sheet renamed: ${oldName} -> ${newName}`, userId);
+  }
+
+  // Formulas that referenced the deleted sheet evaluate to #REF!
+  async deleteSheet(workbookId: string, sheetId: string, userId?: string): Promise<Workbook> {
+    const workbook = this.resolveWorkbook(workbookId, userId);
+    const sheet = this.resolveSheet(workbook, sheetId, userId);
+    this.requireRole(sheet, userId, 'owner', 'delete this sheet');
+    if (workbook.sheets.length === 1) {
+      throw new CustomError('Cannot delete the only sheet of a workbook', 400);
+    }
+
+    workbook.sheets = workbook.sheets.filter(entry => entry !== sheet);
+    await this.storage.deleteSheet(sheet.id);
+    const result = await this.finishSheetChange(workbook, sheet, `Sheet deleted: ${sheet.name}`, userId);
+    return result.workbook;
+  }
+
+  // The copy is placed right after the original
+  async duplicateSheet(workbookId: string, sheetId: string, name?: string, userId?: string): Promise<{ workbook: Workbook; sheet: SheetInfo }> {
+    const workbook = this.resolveWorkbook(workbookId, userId);
+    const source = this.resolveSheet(workbook, sheetId, userId);
+    this.requireWorkbookEditor(workbook, userId, 'add sheets to this workbook');
+    const sheetName = name === undefined
+      ? this.uniqueName(source.name, workbook.sheets.map(sheet => sheet.name))
+      : this.validateSheetName(workbook, name);
+    const sheet = this.createSheetData(sheetName, structuredClone(this.toSpreadsheetState(source)), this.copyAccess(source, userId));
+
+    workbook.sheets.splice(workbook.sheets.indexOf(source) + 1, 0, sheet);
+    return this.finishSheetChange(workbook, sheet, `Sheet duplicated: ${source.name} -> ${sheet.name}`, userId);
+  }
+
+  // Who a sheet is shared with; only its owners may look
+  async getSheetAccess(target: SheetTarget, userId?: string): Promise<SheetAccess | null> {
+    const sheet = this.resolveSheet(this.resolveWorkbook(target.workbookId, userId), target.sheetId, userId);
+    this.requireRole(sheet, userId, 'owner', 'see who this sheet is shared with');
+    return sheet.access ? structuredClone(sheet.access) : null;
+  }
+
+  /**
+   * Change who a sheet is shared with. Only owners may, and only signed-in
+   * ones: the first user to share a sheet nobody has shared yet becomes its
+   * owner. The owner can not be demoted through `members`.
+   */
+  async updateSheetAccess(target: SheetTarget, update: SheetAccessUpdate, userId?: string): Promise<SheetAccess> {
+    const workbook = this.resolveWorkbook(target.workbookId, userId);
+    const sheet = this.resolveSheet(workbook, target.sheetId, userId);
+    this.requireRole(sheet, userId, 'owner', 'share this sheet');
+    if (!userId) {
+      throw new CustomError('Sign in to share a sheet', 401);
+    }
+
+    const access: SheetAccess = sheet.access ? structuredClone(sheet.access) : this.createAccess(userId)!;
+    if (update.defaultRole !== undefined) {
+      if (update.defaultRole !== null && (!isSheetRole(update.defaultRole) || update.defaultRole === 'owner')) {
+        throw new CustomError('defaultRole must be viewer, commenter, editor or null', 400);
+      }
+      access.defaultRole = update.defaultRole;
+    }
+    if (update.members !== undefined) {
+      const members = Object.entries(update.members);
+      if (members.some(([, role]) => !isSheetRole(role))) {
+        throw new CustomError('Member roles must be viewer, commenter, editor or owner', 400);
+      }
+      access.members = Object.fromEntries(members.filter(([memberId]) => memberId !== access.ownerId));
+    }
+    if (update.protectedRanges !== undefined) {
+      access.protectedRanges = update.protectedRanges.map(({ range, editors = [] }) => {
+        parseProtectedRange(range);
+        return {
+          id: `range_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+          range: range.trim().toUpperCase(),
+          editors: Array.from(new Set(editors))
+        };
+      });
+    }
+
+    sheet.access = access;
+    workbook.updatedAt = new Date();
+    await this.persistWorkbooks([]);
+    this.broadcastWorkbooks();
+    logger.info(`Sheet access updated: ${sheet.name} (${Object.keys(access.members).length} member(s), ${access.protectedRanges.length} protected range(s))`);
+    return structuredClone(access);
+  }
+
+  // Whether the user may see a sheet; used to decide who receives its updates
+  canViewSheet(userId: string | undefined, target: SheetTarget): boolean {
+    const workbook = this.workbooks.find(entry => entry.id === target.workbookId);
+    const sheet = workbook?.sheets.find(entry => entry.id === target.sheetId);
+    return sheet !== undefined && this.canView(sheet, userId);
+  }
+
+  // Re-evaluate formulas after the sheet list changed, then save and notify clients
+  private async finishSheetChange(
+    workbook: WorkbookData,
+    sheet: SheetData,
+    message: string,
+    userId?: string
+  ): Promise<{ workbook: Workbook; sheet: SheetInfo }> {
+    this.recalculateAll(workbook);
+    workbook.updatedAt = new Date();
+    const deltas = this.collectDeltas(workbook, workbook.updatedAt);
+
+    await this.persistWorkbooks([workbook]);
+    this.broadcastWorkbooks();
+    this.broadcastDeltas(deltas);
+    logger.info(message);
+    // A deleted sheet is still described, so the caller learns which one went
+    return {
+      workbook: this.toWorkbookView(workbook, userId) ?? { ...this.toWorkbook(workbook), sheets: [] },
+      sheet: { id: sheet.id, name: sheet.name, role: getSheetRole(sheet.access, userId) ?? undefined }
+    };
+  }
+
+  // Save the sheets of the given workbooks, then the workbook list that points at them
+  private async persistWorkbooks(workbooks: WorkbookData[]): Promise<void> {
+    // Storage runs queued writes in order, so the sheets still land before the list
+    await Promise.all([
+      ...workbooks.flatMap(workbook => workbook.sheets).map(sheet => this.storage.saveSheetState(sheet.id, this.toSpreadsheetState(sheet))),
+      this.storage.saveWorkbooks(this.workbooks.map(workbook => this.toWorkbook(workbook)))
+    ]);
+  }
+
+  // Every client gets the list its user may see
+  private broadcastWorkbooks(): void {
+    if (websocketService.isInitialized()) {
+      websocketService.broadcastWorkbooksUpdate(userId => this.workbooksFor(userId));
+    }
+  }
+
+  // The workbook as it is stored, with the sharing of every sheet
+  private toWorkbook(workbook: WorkbookData): Workbook {
+    return {
+      id: workbook.id,
+      name: workbook.name,
+      createdAt: workbook.createdAt,
+      updatedAt: workbook.updatedAt,
+      sheets: workbook.sheets.map(sheet => (sheet.access ? { id: sheet.id, name: sheet.name, access: sheet.access } : { id: sheet.id, name: sheet.name }))
+    };
+  }
+
+  // The workbook as a user sees it: only the sheets they may see, with their role; null when that is none
+  private toWorkbookView(workbook: WorkbookData, userId?: string): Workbook | null {
+    const sheets = workbook.sheets.flatMap(sheet => {
+      const role = getSheetRole(sheet.access, userId);
+      return role ? [{ id: sheet.id, name: sheet.name, role }] : [];
+    });
+    return sheets.length > 0 ? { ...this.toWorkbook(workbook), sheets } : null;
+  }
+
+  private workbooksFor(userId?: string): Workbook[] {
+    return this.workbooks.flatMap(workbook => this.toWorkbookView(workbook, userId) ?? []);
+  }
+
+  private canView(sheet: SheetData, userId?: string): boolean {
+    return getSheetRole(sheet.access, userId) !== null;
+  }
+
+  // Sharing for a new sheet: owned by the signed-in user who made it, open to everyone when made anonymously
+  private createAccess(userId?: string): SheetAccess | undefined {
+    return userId ? { ownerId: userId, members: {}, defaultRole: null, protectedRanges: [] } : undefined;
+  }
+
+  // A signed-in user's copy is theirs alone; anonymous copies keep the original's sharing so they open nothing up
+  private copyAccess(source: SheetData, userId?: string): SheetAccess | undefined {
+    return userId ? this.createAccess(userId) : source.access && structuredClone(source.access);
+  }
+
+  private requireRole(sheet: SheetData, userId: string | undefined, required: SheetRole, action: string): void {
+    if (!hasRole(getSheetRole(sheet.access, userId), required)) {
+      throw new CustomError(`You need ${required} access to ${action}`, 403);
+    }
+  }
+
+  // Workbook-wide changes need every sheet, including the ones the user may not see
+  private requireWorkbookOwner(workbook: WorkbookData, userId: string | undefined, action: string): void {
+    if (!workbook.sheets.every(sheet => getSheetRole(sheet.access, userId) === 'owner')) {
+      throw new CustomError(`You need to own every sheet of the workbook to ${action}`, 403);
+    }
+  }
+
+  private requireWorkbookEditor(workbook: WorkbookData, userId: string | undefined, action: string): void {
+    if (!workbook.sheets.some(sheet => hasRole(getSheetRole(sheet.access, userId), 'editor'))) {
+      throw new CustomError(`You need editor access to a sheet of the workbook to ${action}`, 403);
+    }
+  }
+
+  // Protected ranges the change touches must list the user; without bounds all of them must
+  private requireRange(sheet: SheetData, userId: string | undefined, bounds?: RangeBounds): void {
+    const blocking = findBlockingRange(sheet.access, userId, bounds);
+    if (blocking) {
+      throw new CustomError(`${blocking.range} is protected on ${sheet.name}`, 403);
+    }
+  }
+
+  // Formulas may only read sheets the user may see, or their values would leak
+  private requireVisibleReferences(workbook: WorkbookData, userId: string | undefined, value: string): void {
+    if (!isFormula(value)) {
+      return;
+    }
+    const { maxRows, maxColumns } = this.getFormulaBounds();
+    const names = new Set(extractReferences(value, maxRows, maxColumns).flatMap(ref => (ref.sheet === undefined ? [] : [ref.sheet])));
+    for (const name of names) {
+      const referenced = this.findSheetByName(workbook, name);
+      if (referenced && !this.canView(referenced, userId)) {
+        throw new CustomError(`Unknown sheet: ${name}`, 400);
+      }
+    }
+  }
+
+  // Action events of every sheet, oldest first, for rebuilding the undo history
+  private collectActionLog(workbook: WorkbookData): Array<{ sheetId: string; event: ActionEvent }> {
+    return workbook.sheets
+      .flatMap(sheet => sheet.actionEvents.map(event => ({ sheetId: sheet.id, event })))
+      .sort((a, b) => new Date(a.event.timestamp).getTime() - new Date(b.event.timestamp).getTime());
+  }
+
+  // Workbooks and sheets the user may not see are reported as missing, so they do not learn they exist
+  private resolveWorkbook(workbookId?: string, userId?: string): WorkbookData {
+    const visible = (entry: WorkbookData) => entry.sheets.some(sheet => this.canView(sheet, userId));
+    const workbook = workbookId === undefined
+      ? this.workbooks.find(visible)
+      : this.workbooks.find(entry => entry.id === workbookId && visible(entry));
+    if (!workbook) {
+      throw new CustomError(`Workbook not found: ${workbookId}`, 404);
+    }
+    return workbook;
+  }
+
+  private resolveSheet(workbook: WorkbookData, sheetId?: string, userId?: string): SheetData {
+    const sheet = sheetId === undefined
+      ? workbook.sheets.find(entry => this.canView(entry, userId))
+      : workbook.sheets.find(entry => entry.id === sheetId && this.canView(entry, userId));
+    if (!sheet) {
+      throw new CustomError(`Sheet not found: ${sheetId}`, 404);
+    }
+    return sheet;
+  }
+
+  // Split a "Sheet2!A1 value" / "'Q1 Sales'!A1-B3 value" command into its sheet and the plain command
+  private resolveCommandSheet(workbook: WorkbookData, sheet: SheetData, message: string, userId?: string): { sheet: SheetData; command: string } {
+    const match = message.trim().match(/^('(?:[^']|'')+'|[A-Za-z_][A-Za-z0-9_.]*)!([A-Za-z]+\d+(?:[-:][A-Za-z]*\d+)?\s.*)$/);
+    if (!match) {
+      return { sheet, command: message };
+    }
+
+    const name = match[1].startsWith("'") ? match[1].slice(1, -1).replace(/''/g, "'") : match[1];
+    const target = this.findSheetByName(workbook, name);
+    if (!target || !this.canView(target, userId)) {
+      throw new CustomError(`Unknown sheet: ${name}`, 400);
+    }
+    return { sheet: target, command: match[2] };
+  }
+
+  // Excel's rules: 1-31 characters, none of : \ / ? * [ ], no leading/trailing apostrophe, unique per workbook
+  private validateSheetName(workbook: WorkbookData, name: string, current?: SheetData): string {
+    const trimmed = typeof name === 'string' ? name.trim() : '';
+    if (!trimmed || trimmed.length > MAX_SHEET_NAME_LENGTH) {
+      throw new CustomError(`Sheet name must be between 1 and ${MAX_SHEET_NAME_LENGTH} characters`, 400);
+    }
+    if (/[:\\/?*[\]]/.test(trimmed) || trimmed.startsWith("'") || trimmed.endsWith("'")) {
+      throw new CustomError('Sheet name cannot contain : \\ / ? * [ ] or start or end with an apostrophe', 400);
+    }
+    const existing = this.findSheetByName(workbook, trimmed);
+    if (existing && existing !== current) {
+      throw new CustomError(`A sheet named "${trimmed}" already exists`, 409);
+    }
+    return trimmed;
+  }
+
+  private validateWorkbookName(name: string): string {
+    const trimmed = typeof name === 'string' ? name.trim() : '';
+    if (!trimmed || trimmed.length > MAX_WORKBOOK_NAME_LENGTH) {
+      throw new CustomError(`Workbook name must be between 1 and ${MAX_WORKBOOK_NAME_LENGTH} characters`, 400);
+    }
+    return trimmed;
+  }
+
+  // First unused numbered name, e.g. "Sheet3"
+  private nextName(prefix: string, taken: string[]): string {
+    const lowerTaken = new Set(taken.map(name => name.toLowerCase()));
+    let index = 1;
+    while (lowerTaken.has(`${prefix}${index}`.toLowerCase())) {
+      index++;
+    }
+    return `${prefix}${index}`;
+  }
+
+  // `base` when it is free, otherwise "base (2)", "base (3)", ...
+  private uniqueName(base: string, taken: string[]): string {
+    const lowerTaken = new Set(taken.map(name => name.toLowerCase()));
+    let name = base;
+    for (let index = 2; lowerTaken.has(name.toLowerCase()); index++) {
+      name = `${base} (${index})`;
+    }
+    return name;
+  }
+
+  private createEmptyState(): SpreadsheetState {
+    return {
+      cells: [],
+      rows: INITIAL_ROWS,
+      columns: 26, // A-Z columns
+      headers: generateColumnHeaders(26)
+    };
+  }
+
+  // New sheets (also copies) start their own delta sequence
+  private createSheetData(name: string, state: SpreadsheetState, access?: SheetAccess): SheetData {
+    const id = `sheet_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    return { ...this.toSheetData(id, name, emptySheetSnapshot({ ...state, version: 0 })), access };
+  }
+
+  // Index the cells of a stored or new sheet by position
+  private toSheetData(id: string, name: string, snapshot: SheetSnapshot): SheetData {
+    const { state: { cells, ...layout }, ...events } = snapshot;
+    return {
+      id,
+      name,
+      state: { ...layout, version: layout.version ?? 0 },
+      cells: new CellMap(cells),
+      ...events,
+      changes: new SheetChanges(layout.columns),
+      deltas: []
+    };
+  }
+
+  // The sheet as the API and storage see it, with its cells as a list
+  private toSpreadsheetState(sheet: SheetData): SpreadsheetState {
+    return { ...sheet.state, cells: sheet.cells.toArray() };
+  }
+
+  // Cell writes go through these two so the next delta includes them
+  private setCell(sheet: SheetData, cell: SpreadsheetCell): void {
+    sheet.cells.set(cell);
+    sheet.changes.touch(cell.row, cell.col);
+  }
+
+  private deleteCell(sheet: SheetData, row: number, col: number): void {
+    sheet.cells.delete(row, col);
+    sheet.changes.touch(row, col);
+  }
+
+  /**
+   * Turn what changed on each sheet of the workbook into its next delta and
+   * keep it for clients that miss it. Call before the sheets are saved, so
+   * the stored version is the one the delta carries.
+   */
+  private collectDeltas(workbook: WorkbookData, timestamp: Date): Array<{ sheet: SheetData; delta: SheetDelta }> {
+    return workbook.sheets.flatMap(sheet => {
+      if (sheet.changes.isEmpty) {
+        return [];
+      }
+
+      const { patches, headersChanged, dimensionsChanged, freezeChanged } = sheet.changes.take(sheet.cells, sheet.state.columns);
+      sheet.state.version = (sheet.state.version ?? 0) + 1;
+      const delta: SheetDelta = {
+        workbookId: workbook.id,
+        sheetId: sheet.id,
+        seq: sheet.state.version,
+        timestamp,
+        patches,
+        rows: sheet.state.rows,
+        columns: sheet.state.columns,
+        ...(headersChanged ? { headers: [...sheet.state.headers] } : {}),
+        ...(dimensionsChanged
+          ? { columnWidths: { ...sheet.state.columnWidths }, rowHeights: { ...sheet.state.rowHeights } }
+          : {}),
+        ...(freezeChanged
+          ? { frozenRows: sheet.state.frozenRows ?? 0, frozenColumns: sheet.state.frozenColumns ?? 0 }
+          : {})
+      };
+      sheet.deltas.push(delta);
+      if (sheet.deltas.length > MAX_DELTA_LOG) {
+        sheet.deltas.shift();
+      }
+      return [{ sheet, delta }];
+    });
+  }
+
+  private broadcastDeltas(deltas: Array<{ delta: SheetDelta }>): void {
+    if (websocketService.isInitialized()) {
+      deltas.forEach(({ delta }) => websocketService.broadcastSheetDelta(delta));
+    }
+  }
+
   private initializeMockData(): void {
+    const now = new Date();
+    const sheet = this.toSheetData(DEFAULT_SHEET_ID, 'Sheet1', emptySheetSnapshot(this.createEmptyState()));
+
     // Add some initial cells with more variety - create data for 100 rows
     for (let row = 0; row < 100; row++) {
       for (let col = 0; col < 10; col++) {
-        this.spreadsheetState.cells.push({
+        sheet.cells.set({
           row,
           col,
           value: `Row ${row + 1} Col ${columnIndexToLetter(col)}`,
-          format: {
-            bold: false,
-            italic: false,
-            color: '#000000',
-            backgroundColor: '#ffffff'
-          }
+          format: { ...DEFAULT_CELL_FORMAT }
         });
       }
     }
 
     // Add some mock action events
-    this.actionEvents.push({
+    sheet.actionEvents.push({
       id: '1',
-      timestamp: new Date(),
+      timestamp: now,
       action: 'UPDATE_CELL',
       target: { row: 0, col: 0 },
       data: { value: 'Sample Data' },
@@ -96,9 +797,9 @@ class SpreadsheetDataStore {
     });
 
     // Add some mock state events
-    this.stateEvents.push({
+    sheet.stateEvents.push({
       id: '1',
-      timestamp: new Date(),
+      timestamp: now,
       type: 'CELL_UPDATE',
       cellData: {
         row: 0,
@@ -107,13 +808,39 @@ class SpreadsheetDataStore {
       }
     });
 
+    this.workbooks = [{
+      id: DEFAULT_WORKBOOK_ID,
+      name: 'My Workbook',
+      createdAt: now,
+      updatedAt: now,
+      sheets: [sheet],
+      dependencyGraph: new DependencyGraph(),
+      history: new UndoHistory()
+    }];
+
     logger.info('Mock data initialized with 100 rows for scrolling demonstration');
   }
 
   // Command parser utility
-  private parseCommand(message: string): ParsedCommand {
+  private parseCommand(message: string, state: SheetLayout): ParsedCommand {
     const trimmedMessage = message.trim();
     const parts = trimmedMessage.split(/\s+/);
+
+    // "undo" / "redo" step through the sender's own history
+    const historyMatch = trimmedMessage.match(/^(undo|redo)$/i);
+    if (historyMatch) {
+      return {
+        type: historyMatch[1].toUpperCase() as 'UNDO' | 'REDO',
+        value: '',
+        originalCommand: trimmedMessage
+      };
+    }
+
+    // Check for freeze panes commands, e.g. "freeze rows 2 columns 1", "unfreeze"
+    const freezeCommand = this.parseFreezeCommand(trimmedMessage, state);
+    if (freezeCommand) {
+      return freezeCommand;
+    }
     
     if (parts.length < 2) {
       throw new CustomError('Invalid command format. Use: <cell> <value> or <range> <value>', 400);
@@ -129,7 +856,7 @@ class SpreadsheetDataStore {
       const newName = renameMatch[2].trim();
       const colIndex = letterToColumnIndex(columnLetter);
       
-      if (colIndex < 0 || colIndex >= this.spreadsheetState.columns) {
+      if (colIndex < 0 || colIndex >= state.columns) {
         throw new CustomError(`Invalid column: ${columnLetter}`, 400);
       }
 
@@ -141,11 +868,52 @@ class SpreadsheetDataStore {
       };
     }
 
+    // Check for format command, e.g. "format A1-C3 bold", "format A:A italic"
+    const formatMatch = trimmedMessage.match(/^format\s+(\S+)\s+(.+)$/i);
+    if (formatMatch) {
+      return this.parseFormatCommand(formatMatch[1].toUpperCase(), formatMatch[2], trimmedMessage, state);
+    }
+
+    // Check for fill command, e.g. "fill A1:A2 down to A50", "fill B3 right to H"
+    const fillMatch = trimmedMessage.match(/^fill\s+(\S+)\s+(down|up|right|left)\s+to\s+(\S+)$/i);
+    if (fillMatch) {
+      return this.parseFillCommand(fillMatch[1].toUpperCase(), fillMatch[2].toLowerCase() as FillDirection, fillMatch[3].toUpperCase(), trimmedMessage, state);
+    }
+
+    // Check for row/column insert and delete commands
+    const structureCommand = this.parseStructureCommand(trimmedMessage, state);
+    if (structureCommand) {
+      return structureCommand;
+    }
+
+    // Check for column width and row height commands
+    const resizeCommand = this.parseResizeCommand(trimmedMessage, state);
+    if (resizeCommand) {
+      return resizeCommand;
+    }
+
     const cellOrRange = parts[0].toUpperCase();
     const value = parts.slice(1).join(' ');
 
-    // Check for range format (e.g., A1-100, A1-Z1)
-    const rangeMatch = cellOrRange.match(/^([A-Z]+)(\d+)-([A-Z]*\d+)$/);
+    // Whole columns and rows (e.g., C:C, 2:4 as the grid selects them) span the current grid
+    if (/^(?:[A-Z]+:[A-Z]+|\d+:\d+)$/.test(cellOrRange)) {
+      const { startRow, endRow, startCol, endCol } = this.resolveRange(cellOrRange, state, 'range');
+      this.assertRangeSize(cellOrRange, endRow - startRow + 1, endCol - startCol + 1);
+      return {
+        type: 'RANGE',
+        startCell: `${columnIndexToLetter(startCol)}${startRow}`,
+        endCell: `${columnIndexToLetter(endCol)}${endRow}`,
+        startCol,
+        startRow,
+        endCol,
+        endRow,
+        value,
+        originalCommand: trimmedMessage
+      };
+    }
+
+    // Check for range format (e.g., A1-100, A1-Z1, B2:D9 as the grid selects it)
+    const rangeMatch = cellOrRange.match(/^([A-Z]+)(\d+)[-:]([A-Z]*\d+)$/);
     if (rangeMatch) {
       const [, startCol, startRow, endCell] = rangeMatch;
       const startCell = `${startCol}${startRow}`;
@@ -162,6 +930,15 @@ class SpreadsheetDataStore {
       const endColIndex = endCol ? letterToColumnIndex(endCol) : startColIndex;
       const endRowIndex = parseInt(endRow);
 
+      if (this.parseColumn(startCol) < 0 || (endCol && this.parseColumn(endCol) < 0)) {
+        throw new CustomError(`Invalid column in range: ${cellOrRange}`, 400);
+      }
+      if (Math.min(startRowIndex, endRowIndex) < 1) {
+        throw new CustomError('Row number must be at least 1', 400);
+      }
+      this.assertWithinLimits(`Range ${cellOrRange}`, Math.max(startRowIndex, endRowIndex), Math.max(startColIndex, endColIndex));
+      this.assertRangeSize(cellOrRange, Math.abs(endRowIndex - startRowIndex) + 1, Math.abs(endColIndex - startColIndex) + 1);
+
       return {
         type: 'RANGE',
         startCell,
@@ -182,12 +959,17 @@ class SpreadsheetDataStore {
     }
 
     const [, column, row] = cellMatch;
-    const colIndex = letterToColumnIndex(column);
+    const colIndex = this.parseColumn(column);
     const rowIndex = parseInt(row);
 
+    if (colIndex < 0) {
+      throw new CustomError(`Invalid column: ${column}`, 400);
+    }
+
     if (rowIndex < 1) {
       throw new CustomError('Row number must be at least 1', 400);
     }
+    this.assertWithinLimits(`Cell ${cellOrRange}`, rowIndex, colIndex);
 
     return {
       type: 'SINGLE',
@@ -199,303 +981,2049 @@ class SpreadsheetDataStore {
     };
   }
 
-  private parseColumn(colStr: string): number {
-    const upperCol = colStr.toUpperCase();
-    let result = 0;
-    
-    for (let i = 0; i < upperCol.length; i++) {
-      const charCode = upperCol.charCodeAt(i);
-      if (charCode < 65 || charCode > 90) { // A-Z range
-        return -1;
-      }
-      result = result * 26 + (charCode - 64);
+  // Reject a target past the configured sheet limits instead of storing cells nobody can see (1-based row, 0-based column)
+  private assertWithinLimits(target: string, row: number, col: number): void {
+    if (row > MAX_ROWS) {
+      throw new CustomError(`${target} is outside the sheet: rows are limited to ${MAX_ROWS}`, 400);
     }
-    
-    // Check if column is within reasonable limits (A-ZZ)
-    if (result > 702) { // ZZ = 26*26 + 26 = 702
-      return -1;
+    if (col >= MAX_COLUMNS) {
+      throw new CustomError(`${target} is outside the sheet: columns are limited to ${MAX_COLUMNS} (A-${columnIndexToLetter(MAX_COLUMNS - 1)})`, 400);
     }
-    
-    return result - 1; // Convert to 0-based index
   }
 
-  async processUserMessage(message: string, userId?: string, sessionId?: string): Promise<{
-    userEvent: UserEvent;
-    actionEvent: ActionEvent;
-    stateEvent: StateEvent;
-    parsedCommand: ParsedCommand;
-  }> {
-    try {
-      const timestamp = new Date();
-      const userEvent: UserEvent = {
-        id: `user_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-        message,
-        timestamp,
-        userId: userId || 'anonymous',
-        sessionId: sessionId || 'default'
-      };
+  // Range commands write every cell they span, so they share the limit of the cell and range routes
+  private assertRangeSize(target: string, rows: number, columns: number): void {
+    const size = rows * columns;
+    if (size > MAX_RANGE_CELLS) {
+      throw new CustomError(`Range ${target} has ${size} cells; at most ${MAX_RANGE_CELLS} can be written at once`, 400);
+    }
+  }
 
-      this.userEvents.push(userEvent);
-
-      const parsedCommand = this.parseCommand(message);
-      let actionEvent: ActionEvent;
-      let stateEvent: StateEvent;
-
-      if (parsedCommand.type === 'SINGLE' && parsedCommand.row !== undefined && parsedCommand.col !== undefined) {
-        // Handle single cell update
-        // Convert 1-based row to 0-based for data structure
-        const rowIndex = parsedCommand.row - 1;
-        const newRows = Math.min(Math.max(this.spreadsheetState.rows, parsedCommand.row), MAX_ROWS); // Cap at 100 rows
-        const newColumns = Math.max(this.spreadsheetState.columns, parsedCommand.col + 1);
-        
-        if (newRows > this.spreadsheetState.rows) {
-          this.spreadsheetState.rows = newRows;
-          logger.info(`Auto-expanded rows to ${newRows}`);
-        }
-        
-        if (newColumns > this.spreadsheetState.columns) {
-          this.spreadsheetState.columns = newColumns;
-          this.spreadsheetState.headers = generateColumnHeaders(newColumns);
-          logger.info(`Auto-expanded columns to ${newColumns} (${this.spreadsheetState.headers[newColumns - 1]})`);
-        }
+  // Resolve a target (A1, A1-C3, A1:C3, A:C, 2:5) to 1-based rows and 0-based columns.
+  // Whole columns and rows span the current grid; cell ranges may extend it up to the sheet limits.
+  private resolveRange(target: string, state: SheetLayout, label: string): {
+    startRow: number;
+    endRow: number;
+    startCol: number;
+    endCol: number;
+  } {
+    const { rows, columns } = state;
+    let startRow: number;
+    let endRow: number;
+    let startCol: number;
+    let endCol: number;
 
-        // Update cell in spreadsheet
-        const existingCellIndex = this.spreadsheetState.cells.findIndex(
-          cell => cell.row === rowIndex && cell.col === parsedCommand.col
-        );
+    const columnsMatch = target.match(/^([A-Z]+):([A-Z]+)$/);
+    const rowsMatch = target.match(/^(\d+):(\d+)$/);
+    const cellsMatch = target.match(/^([A-Z]+)(\d+)(?:[-:]([A-Z]*)(\d+))?$/);
 
-        const cellData: SpreadsheetCell = {
-          row: rowIndex,
-          col: parsedCommand.col,
-          value: parsedCommand.value,
-          format: {
-            bold: false,
-            italic: false,
-            color: '#000000',
-            backgroundColor: '#ffffff'
-          }
-        };
+    if (columnsMatch) {
+      [startCol, endCol] = [letterToColumnIndex(columnsMatch[1]), letterToColumnIndex(columnsMatch[2])];
+      [startRow, endRow] = [1, rows];
+    } else if (rowsMatch) {
+      [startRow, endRow] = [parseInt(rowsMatch[1], 10), parseInt(rowsMatch[2], 10)];
+      [startCol, endCol] = [0, columns - 1];
+    } else if (cellsMatch) {
+      startCol = letterToColumnIndex(cellsMatch[1]);
+      startRow = parseInt(cellsMatch[2], 10);
+      endCol = cellsMatch[3] ? letterToColumnIndex(cellsMatch[3]) : startCol;
+      endRow = cellsMatch[4] ? parseInt(cellsMatch[4], 10) : startRow;
+    } else {
+      throw new CustomError(`Invalid ${label}: ${target}. Use A1, A1-C3, A:A or 2:2`, 400);
+    }
 
-        if (existingCellIndex >= 0) {
-          this.spreadsheetState.cells[existingCellIndex] = cellData;
-        } else {
-          this.spreadsheetState.cells.push(cellData);
-        }
+    [startRow, endRow] = [Math.min(startRow, endRow), Math.max(startRow, endRow)];
+    [startCol, endCol] = [Math.min(startCol, endCol), Math.max(startCol, endCol)];
+    const description = `${label.charAt(0).toUpperCase()}${label.slice(1)} ${target}`;
+    if (startRow < 1) {
+      throw new CustomError(`${description} is outside the sheet: rows start at 1`, 400);
+    }
+    this.assertWithinLimits(description, endRow, endCol);
 
-        // Create action event
-        actionEvent = {
-          id: `action_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-          timestamp,
-          action: 'UPDATE_CELL',
-          target: { row: rowIndex, col: parsedCommand.col },
-          data: { value: parsedCommand.value },
-          message: `Updated cell ${parsedCommand.cell}`
-        };
+    return { startRow, endRow, startCol, endCol };
+  }
 
-        // Create state event
-        stateEvent = {
-          id: `state_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-          timestamp,
-          type: 'CELL_UPDATE',
-          cellData: {
-            row: rowIndex,
-            col: parsedCommand.col,
-            value: parsedCommand.value
-          }
-        };
+  // A range named by the cell and range routes as 0-based bounds; reads and writes are limited to MAX_RANGE_CELLS
+  private resolveRequestRange(range: string, sheet: SheetData, limited = true): RangeBounds & { label: string } {
+    const target = range.trim().toUpperCase();
+    const { startRow, endRow, startCol, endCol } = this.resolveRange(target, sheet.state, 'range');
+    const size = (endRow - startRow + 1) * (endCol - startCol + 1);
+    if (limited && size > MAX_RANGE_CELLS) {
+      throw new CustomError(`Range ${target} has ${size} cells; at most ${MAX_RANGE_CELLS} can be read or written at once`, 400);
+    }
 
-        logger.info(`Cell updated: ${parsedCommand.cell} = "${parsedCommand.value}"`);
-
-      } else if (parsedCommand.type === 'RANGE') {
-        // Handle range update (fill multiple cells)
-        const cellsUpdated: SpreadsheetCell[] = [];
-        
-        for (let row = parsedCommand.startRow!; row <= parsedCommand.endRow!; row++) {
-          for (let col = parsedCommand.startCol!; col <= parsedCommand.endCol!; col++) {
-            // Auto-expand if needed
-            const newRows = Math.min(Math.max(this.spreadsheetState.rows, row), MAX_ROWS); // Cap at 100 rows
-            const newColumns = Math.max(this.spreadsheetState.columns, col + 1);
-            
-            if (newRows > this.spreadsheetState.rows) {
-              this.spreadsheetState.rows = newRows;
-            }
-            
-            if (newColumns > this.spreadsheetState.columns) {
-              this.spreadsheetState.columns = newColumns;
-              this.spreadsheetState.headers = generateColumnHeaders(newColumns);
-            }
-
-            // Convert 1-based row to 0-based for data structure
-            const rowIndex = row - 1;
-
-            // Update or add cell
-            const existingCellIndex = this.spreadsheetState.cells.findIndex(
-              cell => cell.row === rowIndex && cell.col === col
-            );
-
-            const cellData: SpreadsheetCell = {
-              row: rowIndex,
-              col,
-              value: parsedCommand.value,
-              format: {
-                bold: false,
-                italic: false,
-                color: '#000000',
-                backgroundColor: '#ffffff'
-              }
-            };
-
-            if (existingCellIndex >= 0) {
-              this.spreadsheetState.cells[existingCellIndex] = cellData;
-            } else {
-              this.spreadsheetState.cells.push(cellData);
-            }
-
-            cellsUpdated.push(cellData);
-          }
+    const first = toCellId(startRow - 1, startCol);
+    const last = toCellId(endRow - 1, endCol);
+    return {
+      startRow: startRow - 1,
+      endRow: endRow - 1,
+      startCol,
+      endCol,
+      label: first === last ? first : `${first}-${last}`
+    };
+  }
+
+  private parseFormatCommand(target: string, options: string, originalCommand: string, state: SheetLayout): ParsedCommand {
+    const { startRow, endRow, startCol, endCol } = this.resolveRange(target, state, 'format target');
+    this.assertRangeSize(target, endRow - startRow + 1, endCol - startCol + 1);
+    const { format, clear } = parseFormatOptions(options);
+    return {
+      type: 'FORMAT_CELL',
+      startRow,
+      endRow,
+      startCol,
+      endCol,
+      value: options.trim(),
+      format,
+      clearFormat: clear,
+      originalCommand
+    };
+  }
+
+  // The target names the last row (down/up) or column (right/left) to fill, as a cell or on its own
+  private parseFillCommand(source: string, direction: FillDirection, target: string, originalCommand: string, state: SheetLayout): ParsedCommand {
+    const { startRow, endRow, startCol, endCol } = this.resolveRange(source, state, 'fill source');
+    const vertical = direction === 'down' || direction === 'up';
+    const targetMatch = target.match(vertical ? /^[A-Z]*(\d+)$/ : /^([A-Z]+)\d*$/);
+    if (!targetMatch) {
+      throw new CustomError(`Invalid fill target: ${target}. Use a ${vertical ? 'row such as A50 or 50' : 'column such as H1 or H'}`, 400);
+    }
+
+    const fillTo = vertical ? parseInt(targetMatch[1], 10) : letterToColumnIndex(targetMatch[1]);
+    const [before, after] = vertical ? [startRow, endRow] : [startCol, endCol];
+    if (direction === 'down' || direction === 'right' ? fillTo <= after : fillTo >= before) {
+      const relation = { down: 'below', up: 'above', right: 'right of', left: 'left of' }[direction];
+      throw new CustomError(`Fill target ${target} is not ${relation} ${source}`, 400);
+    }
+    if (vertical && fillTo < 1) {
+      throw new CustomError(`Fill target ${target} is outside the sheet: rows start at 1`, 400);
+    }
+    this.assertWithinLimits(`Fill target ${target}`, vertical ? fillTo : endRow, vertical ? endCol : fillTo);
+
+    const command: ParsedCommand = { type: 'FILL', startRow, endRow, startCol, endCol, direction, fillTo, value: '', originalCommand };
+    const area = this.fillArea(command);
+    const size = (area.endRow - area.startRow + 1) * (area.endCol - area.startCol + 1);
+    if (size > MAX_RANGE_CELLS) {
+      throw new CustomError(`Filling ${target} would write ${size} cells; at most ${MAX_RANGE_CELLS} can be filled at once`, 400);
+    }
+    return command;
+  }
+
+  // The cells a fill command writes, 0-based: from next to its source range up to the target
+  private fillArea(command: ParsedCommand): RangeBounds {
+    const area = { startRow: command.startRow! - 1, endRow: command.endRow! - 1, startCol: command.startCol!, endCol: command.endCol! };
+    switch (command.direction) {
+      case 'down':
+        return { ...area, startRow: area.endRow + 1, endRow: command.fillTo! - 1 };
+      case 'up':
+        return { ...area, startRow: command.fillTo! - 1, endRow: area.startRow - 1 };
+      case 'right':
+        return { ...area, startCol: area.endCol + 1, endCol: command.fillTo! };
+      default:
+        return { ...area, startCol: command.fillTo!, endCol: area.startCol - 1 };
+    }
+  }
+
+  // Parses commands such as:
+  // - "insert row after 5", "insert 3 rows before 2"
+  // - "insert column before C", "insert 2 columns after D"
+  // - "delete row 4", "delete rows 3-7", "delete column D", "delete columns C-E"
+  private parseStructureCommand(message: string, state: SheetLayout): ParsedCommand | null {
+    const insertMatch = message.match(/^insert\s+(?:(\d+)\s+)?(rows?|columns?)\s+(before|after)\s+([A-Z]+|\d+)$/i);
+    const deleteMatch = message.match(/^delete\s+(rows?|columns?)\s+([A-Z]+|\d+)(?:\s*[-:]\s*([A-Z]+|\d+))?$/i);
+    if (!insertMatch && !deleteMatch) {
+      return null;
+    }
+
+    const isRow = (insertMatch ? insertMatch[2] : deleteMatch![1]).toLowerCase().startsWith('row');
+    const parseTarget = (target: string): number => this.parseAxisTarget(target, isRow, state);
+
+    let start: number;
+    let end: number;
+    if (insertMatch) {
+      const count = insertMatch[1] ? parseInt(insertMatch[1], 10) : 1;
+      if (count < 1) {
+        throw new CustomError('Insert count must be at least 1', 400);
+      }
+      const target = parseTarget(insertMatch[4]);
+      start = insertMatch[3].toLowerCase() === 'after' ? target + 1 : target;
+      end = start + count - 1;
+      if (isRow && state.rows + count > MAX_ROWS) {
+        throw new CustomError(`Cannot insert ${count} row(s): the sheet is limited to ${MAX_ROWS} rows`, 400);
+      }
+      if (!isRow && state.columns + count > MAX_COLUMNS) {
+        throw new CustomError(`Cannot insert ${count} column(s): the sheet is limited to ${MAX_COLUMNS} columns`, 400);
+      }
+    } else {
+      const first = parseTarget(deleteMatch![2]);
+      const last = deleteMatch![3] ? parseTarget(deleteMatch![3]) : first;
+      start = Math.min(first, last);
+      end = Math.max(first, last);
+    }
+
+    const type = `${insertMatch ? 'INSERT' : 'DELETE'}_${isRow ? 'ROW' : 'COLUMN'}` as ParsedCommand['type'];
+    return isRow
+      ? { type, startRow: start, endRow: end, value: '', originalCommand: message }
+      : { type, startCol: start, endCol: end, value: '', originalCommand: message };
+  }
+
+  // A row number (1-based) or column letter of the sheet, as row and column commands name them
+  private parseAxisTarget(target: string, isRow: boolean, state: SheetLayout): number {
+    if (isRow) {
+      const row = /^\d+$/.test(target) ? parseInt(target, 10) : NaN;
+      if (isNaN(row) || row < 1 || row > state.rows) {
+        throw new CustomError(`Invalid row: ${target}`, 400);
+      }
+      return row;
+    }
+    const col = /^[A-Z]+$/i.test(target) ? letterToColumnIndex(target) : -1;
+    if (col < 0 || col >= state.columns) {
+      throw new CustomError(`Invalid column: ${target}`, 400);
+    }
+    return col;
+  }
+
+  // Parses commands such as:
+  // - "resize column B to 180", "resize columns B-D to 100"
+  // - "resize row 3 to 48", "resize rows 2:5 to default"
+  private parseResizeCommand(message: string, state: SheetLayout): ParsedCommand | null {
+    const match = message.match(/^resize\s+(rows?|columns?)\s+([A-Z]+|\d+)(?:\s*[-:]\s*([A-Z]+|\d+))?\s+to\s+(\d+|default)(?:\s*px)?$/i);
+    if (!match) {
+      return null;
+    }
+
+    const isRow = match[1].toLowerCase().startsWith('row');
+    const first = this.parseAxisTarget(match[2], isRow, state);
+    const last = match[3] ? this.parseAxisTarget(match[3], isRow, state) : first;
+    const [start, end] = [Math.min(first, last), Math.max(first, last)];
+    if (end - start + 1 > MAX_RANGE_CELLS) {
+      throw new CustomError(`At most ${MAX_RANGE_CELLS} ${isRow ? 'rows' : 'columns'} can be resized at once`, 400);
+    }
+
+    const size = match[4].toLowerCase() === 'default' ? null : parseInt(match[4], 10);
+    const limits = isRow ? ROW_HEIGHT_LIMITS : COLUMN_WIDTH_LIMITS;
+    if (size !== null && (size < limits.min || size > limits.max)) {
+      throw new CustomError(`${isRow ? 'Row heights' : 'Column widths'} must be between ${limits.min} and ${limits.max} pixels, got: ${size}`, 400);
+    }
+
+    return isRow
+      ? { type: 'RESIZE_ROW', startRow: start, endRow: end, size, value: match[4], originalCommand: message }
+      : { type: 'RESIZE_COLUMN', startCol: start, endCol: end, size, value: match[4], originalCommand: message };
+  }
+
+  // Parses commands such as:
+  // - "freeze rows 2 columns 1", "freeze row 1", "freeze columns 2"
+  // - "unfreeze", which unfreezes both
+  private parseFreezeCommand(message: string, state: SheetLayout): ParsedCommand | null {
+    if (/^unfreeze(?:\s+panes)?$/i.test(message)) {
+      return { type: 'FREEZE', frozenRows: 0, frozenColumns: 0, value: '', originalCommand: message };
+    }
+
+    const match = message.match(/^freeze(?:\s+rows?\s+(\d+))?(?:\s*(?:,|\s+and)?\s+columns?\s+(\d+))?$/i);
+    if (!match) {
+      return null;
+    }
+    if (match[1] === undefined && match[2] === undefined) {
+      throw new CustomError('Say how many rows or columns to freeze, e.g. "freeze rows 2 columns 1"', 400);
+    }
+
+    const frozenRows = match[1] === undefined ? undefined : parseInt(match[1], 10);
+    const frozenColumns = match[2] === undefined ? undefined : parseInt(match[2], 10);
+    if (frozenRows !== undefined && frozenRows > Math.min(MAX_FROZEN_ROWS, state.rows)) {
+      throw new CustomError(`At most ${Math.min(MAX_FROZEN_ROWS, state.rows)} rows can be frozen, got: ${frozenRows}`, 400);
+    }
+    if (frozenColumns !== undefined && frozenColumns > Math.min(MAX_FROZEN_COLUMNS, state.columns)) {
+      throw new CustomError(`At most ${Math.min(MAX_FROZEN_COLUMNS, state.columns)} columns can be frozen, got: ${frozenColumns}`, 400);
+    }
+
+    return { type: 'FREEZE', frozenRows, frozenColumns, value: '', originalCommand: message };
+  }
+
+  private parseColumn(colStr: string): number {
+    const upperCol = colStr.toUpperCase();
+    let result = 0;
+    
+    for (let i = 0; i < upperCol.length; i++) {
+      const charCode = upperCol.charCodeAt(i);
+      if (charCode < 65 || charCode > 90) { // A-Z range
+        return -1;
+      }
+      result = result * 26 + (charCode - 64);
+    }
+    
+    // Columns past the sheet limit are reported by assertWithinLimits
+    return result - 1; // Convert to 0-based index
+  }
+
+  // Copy of a cell as it is now (null when empty), for undo
+  private snapshotCell(sheet: SheetData, row: number, col: number): SpreadsheetCell | null {
+    const cell = sheet.cells.get(row, col);
+    return cell ? structuredClone(cell) : null;
+  }
+
+  // Build a cell from user input, keeping the format of the cell it replaces.
+  // Values starting with "=" keep their expression in `formula`; the computed
+  // value is filled in by recalculate().
+  private createCell(
+    sheet: SheetData,
+    row: number,
+    col: number,
+    input: string,
+    existing: SpreadsheetCell | undefined = sheet.cells.get(row, col)
+  ): SpreadsheetCell {
+    const cell: SpreadsheetCell = {
+      row,
+      col,
+      value: input,
+      format: existing?.format ?? { ...DEFAULT_CELL_FORMAT }
+    };
+
+    if (isFormula(input)) {
+      cell.formula = normalizeFormula(input);
+      cell.value = '';
+    }
+
+    return cell;
+  }
+
+  // Bounds for formula references: the sheet limits, which no grid grows past
+  private getFormulaBounds(): { maxRows: number; maxColumns: number } {
+    return { maxRows: MAX_ROWS, maxColumns: MAX_COLUMNS };
+  }
+
+  // Sheet names are matched case-insensitively, like in formulas
+  private findSheetByName(workbook: WorkbookData, name: string): SheetData | undefined {
+    return workbook.sheets.find(sheet => sheet.name.toLowerCase() === name.toLowerCase());
+  }
+
+  private createFormulaContext(workbook: WorkbookData, sheet: SheetData): FormulaContext {
+    return {
+      getCellValue: (row, col, sheetName) => {
+        const source = sheetName === undefined ? sheet : this.findSheetByName(workbook, sheetName);
+        return source?.cells.get(row, col)?.value;
+      },
+      getRangeValues: (top, left, bottom, right, sheetName) => {
+        const source = sheetName === undefined ? sheet : this.findSheetByName(workbook, sheetName);
+        return source ? source.cells.inBounds(top, left, bottom, right).map(cell => cell.value) : [];
+      },
+      hasSheet: sheetName => this.findSheetByName(workbook, sheetName) !== undefined,
+      ...this.getFormulaBounds()
+    };
+  }
+
+  private updateDependencies(workbook: WorkbookData, key: string): void {
+    const { sheetId, row, col } = parseCellKey(key);
+    const sheet = workbook.sheets.find(candidate => candidate.id === sheetId);
+    const formula = sheet?.cells.get(row, col)?.formula;
+    const { maxRows, maxColumns } = this.getFormulaBounds();
+    const references: string[] = [];
+    const ranges: RangePrecedent[] = [];
+    (formula ? extractReferences(formula, maxRows, maxColumns) : []).forEach(ref => {
+      // References to sheets that do not exist evaluate to #REF! and have nothing to track
+      const source = ref.sheet === undefined ? sheet : this.findSheetByName(workbook, ref.sheet);
+      if (!source) return;
+      if (ref.endRow === undefined || ref.endCol === undefined) {
+        references.push(cellKey(source.id, ref.row, ref.col));
+      } else {
+        ranges.push({ sheetId: source.id, top: ref.row, left: ref.col, bottom: ref.endRow, right: ref.endCol });
+      }
+    });
+    workbook.dependencyGraph.setPrecedents(key, references, ranges);
+  }
+
+  // Evaluate the formula cells among `keys` in dependency order; returns cells whose value changed
+  private evaluateCells(workbook: WorkbookData, keys: Set<string>): RecalculatedCell[] {
+    const { order, circular } = workbook.dependencyGraph.getEvaluationOrder(keys);
+
+    const changed: RecalculatedCell[] = [];
+    order.forEach(key => {
+      const { sheetId, row, col } = parseCellKey(key);
+      const sheet = workbook.sheets.find(candidate => candidate.id === sheetId);
+      const cell = sheet?.cells.get(row, col);
+      if (!sheet || !cell?.formula) {
+        return;
+      }
+
+      const previousValue = cell.value;
+      cell.value = circular.has(key) ? '#CIRC!' : evaluateFormula(cell.formula, this.createFormulaContext(workbook, sheet));
+
+      if (cell.value !== previousValue) {
+        sheet.changes.touch(row, col);
+        changed.push({ sheet, cell });
+      }
+    });
+
+    if (circular.size > 0) {
+      logger.warn(`Circular reference detected in ${circular.size} cell(s)`);
+    }
+
+    return changed;
+  }
+
+  /**
+   * Re-evaluate the written cells and every formula that depends on them,
+   * in dependency order and across sheets. Cells in a reference cycle get
+   * "#CIRC!". Returns the dependent cells (not the written ones) whose value changed.
+   */
+  private recalculate(workbook: WorkbookData, writtenKeys: string[]): RecalculatedCell[] {
+    writtenKeys.forEach(key => this.updateDependencies(workbook, key));
+
+    const written = new Set(writtenKeys);
+    const affected = workbook.dependencyGraph.collectAffected(writtenKeys);
+    return this.evaluateCells(workbook, affected)
+      .filter(({ sheet, cell }) => !written.has(cellKey(sheet.id, cell.row, cell.col)));
+  }
+
+  // Rebuild the whole dependency graph (after cells move or sheets change) and re-evaluate every formula
+  private recalculateAll(workbook: WorkbookData): RecalculatedCell[] {
+    workbook.dependencyGraph.clear();
+    const formulaKeys = workbook.sheets.flatMap(sheet => Array.from(sheet.cells.values())
+      .filter(cell => cell.formula)
+      .map(cell => cellKey(sheet.id, cell.row, cell.col)));
+    formulaKeys.forEach(key => this.updateDependencies(workbook, key));
+    return this.evaluateCells(workbook, new Set(formulaKeys));
+  }
+
+  // Merge a format into every cell of the command's range, creating empty cells where needed
+  private applyFormat(sheet: SheetData, command: ParsedCommand, timestamp: Date): {
+    actionEvent: ActionEvent;
+    stateEvent: StateEvent;
+    undo: UndoOperation[];
+  } {
+    const patch = command.format ?? {};
+    const previousCells: Array<{ row: number; col: number; cell: SpreadsheetCell | null }> = [];
+    let cellsUpdated = 0;
+    this.ensureSize(sheet.state, command.endRow! - 1, command.endCol!);
+
+    for (let row = command.startRow! - 1; row < command.endRow!; row++) {
+      for (let col = command.startCol!; col <= command.endCol!; col++) {
+        previousCells.push({ row, col, cell: this.snapshotCell(sheet, row, col) });
+        const existing = sheet.cells.get(row, col);
+        const format = mergeFormat(command.clearFormat ? undefined : existing?.format, patch);
+        if (existing) {
+          existing.format = format;
+          sheet.changes.touch(row, col);
+        } else {
+          this.setCell(sheet, { row, col, value: '', format });
         }
+        cellsUpdated++;
+      }
+    }
 
-        // Create action event
-        actionEvent = {
-          id: `action_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-          timestamp,
-          action: 'UPDATE_CELL',
-          target: { row: parsedCommand.startRow!, col: parsedCommand.startCol! },
-          data: { 
-            value: parsedCommand.value,
-            range: `${parsedCommand.startCell}-${parsedCommand.endCell}`,
-            cellsUpdated: cellsUpdated.length
-          },
-          message: `Updated range ${parsedCommand.startCell}-${parsedCommand.endCell} with "${parsedCommand.value}" (${cellsUpdated.length} cells)`
-        };
+    const startRow = command.startRow! - 1;
+    const endRow = command.endRow! - 1;
+    const range = `${toCellId(startRow, command.startCol!)}-${toCellId(endRow, command.endCol!)}`;
+    const firstCell = sheet.cells.get(startRow, command.startCol!)!;
+
+    const actionEvent: ActionEvent = {
+      id: `action_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      timestamp,
+      action: 'FORMAT_CELL',
+      target: { row: startRow, col: command.startCol! },
+      data: { range, format: patch, clear: command.clearFormat, cellsUpdated },
+      message: `Formatted ${range} (${cellsUpdated} cells)`
+    };
+
+    const stateEvent: StateEvent = {
+      id: `state_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      timestamp,
+      type: 'FORMAT_CHANGE',
+      cellData: {
+        row: startRow,
+        col: command.startCol!,
+        value: firstCell.value,
+        formula: firstCell.formula,
+        format: firstCell.format
+      },
+      formatData: {
+        startRow,
+        startCol: command.startCol!,
+        endRow,
+        endCol: command.endCol!,
+        format: patch
+      }
+    };
 
-        // Create state event
-        stateEvent = {
-          id: `state_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-          timestamp,
-          type: 'CELL_UPDATE',
-          cellData: {
-            row: parsedCommand.startRow!,
-            col: parsedCommand.startCol!,
-            value: parsedCommand.value
+    logger.info(`Format applied: ${range} ${JSON.stringify(patch)}`);
+
+    return { actionEvent, stateEvent, undo: [{ type: 'cells', sheetId: sheet.id, cells: previousCells }] };
+  }
+
+  /**
+   * Extend the command's source range like a fill handle: each source column (filling up or
+   * down) or row (filling left or right) continues as extendSeries does. Filled cells take
+   * the format of the source cell they follow; those after an empty source cell are cleared.
+   */
+  private applyFill(workbook: WorkbookData, sheet: SheetData, command: ParsedCommand, timestamp: Date): {
+    actionEvent: ActionEvent;
+    stateEvent: StateEvent;
+    recalculatedCells: RecalculatedCell[];
+    undo: UndoOperation[];
+  } {
+    const vertical = command.direction === 'down' || command.direction === 'up';
+    const forward = command.direction === 'down' || command.direction === 'right';
+    const source = { startRow: command.startRow! - 1, endRow: command.endRow! - 1, startCol: command.startCol!, endCol: command.endCol! };
+    const area = this.fillArea(command);
+    // Indexes from one end to the other, in the order given
+    const span = (from: number, to: number): number[] =>
+      Array.from({ length: Math.abs(to - from) + 1 }, (_, offset) => from + Math.sign(to - from) * offset);
+    const along = (start: number, end: number): number[] => (forward ? span(start, end) : span(end, start));
+
+    const lines = vertical ? span(source.startCol, source.endCol) : span(source.startRow, source.endRow);
+    const sources = vertical ? along(source.startRow, source.endRow) : along(source.startCol, source.endCol);
+    const targets = vertical ? along(area.startRow, area.endRow) : along(area.startCol, area.endCol);
+    const at = (line: number, position: number): [number, number] => (vertical ? [position, line] : [line, position]);
+    const step: FillStep = vertical ? { rows: forward ? 1 : -1, cols: 0 } : { rows: 0, cols: forward ? 1 : -1 };
+
+    const previousCells: Array<{ row: number; col: number; cell: SpreadsheetCell | null }> = [];
+    const writtenKeys: string[] = [];
+    this.ensureSize(sheet.state, area.endRow, area.endCol);
+
+    lines.forEach(line => {
+      const sourceCells = sources.map(position => sheet.cells.get(...at(line, position)));
+      const inputs = sourceCells.map(cell => cell?.formula ?? cell?.value ?? '');
+      extendSeries(inputs, targets.length, step).forEach((input, index) => {
+        const [row, col] = at(line, targets[index]);
+        const sourceCell = sourceCells[(sources.length + index) % sources.length];
+        previousCells.push({ row, col, cell: this.snapshotCell(sheet, row, col) });
+        if (sourceCell) {
+          const cell = this.createCell(sheet, row, col, input);
+          cell.format = structuredClone(sourceCell.format);
+          this.setCell(sheet, cell);
+        } else if (sheet.cells.get(row, col)) {
+          this.deleteCell(sheet, row, col);
+        }
+        writtenKeys.push(cellKey(sheet.id, row, col));
+      });
+    });
+
+    const recalculatedCells = this.recalculate(workbook, writtenKeys);
+
+    const label = ({ startRow, endRow, startCol, endCol }: RangeBounds): string => {
+      const [first, last] = [toCellId(startRow, startCol), toCellId(endRow, endCol)];
+      return first === last ? first : `${first}-${last}`;
+    };
+    const [sourceRange, filledRange] = [label(source), label(area)];
+    const [firstRow, firstCol] = at(lines[0], targets[0]);
+    const firstCell = sheet.cells.get(firstRow, firstCol);
+
+    const actionEvent: ActionEvent = {
+      id: `action_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      timestamp,
+      action: 'UPDATE_CELL',
+      target: { row: firstRow, col: firstCol },
+      data: { range: filledRange, source: sourceRange, direction: command.direction, cellsUpdated: writtenKeys.length },
+      message: `Filled ${filledRange} from ${sourceRange} (${writtenKeys.length} cells)`
+    };
+
+    const stateEvent: StateEvent = {
+      id: `state_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      timestamp,
+      type: 'CELL_UPDATE',
+      cellData: {
+        row: firstRow,
+        col: firstCol,
+        value: firstCell?.value ?? '',
+        formula: firstCell?.formula
+      }
+    };
+
+    logger.info(`Range filled: ${filledRange} from ${sourceRange} (${writtenKeys.length} cells)`);
+
+    return { actionEvent, stateEvent, recalculatedCells, undo: [{ type: 'cells', sheetId: sheet.id, cells: previousCells }] };
+  }
+
+  // Set the width of the command's columns or height of its rows, or reset them to the default
+  private applyResize(sheet: SheetData, command: ParsedCommand, timestamp: Date): {
+    actionEvent: ActionEvent;
+    stateEvent: StateEvent;
+    undo: UndoOperation[];
+  } {
+    const isRow = command.type === 'RESIZE_ROW';
+    const axis = isRow ? 'row' : 'col';
+    const [start, end] = isRow ? [command.startRow! - 1, command.endRow! - 1] : [command.startCol!, command.endCol!];
+    const size = command.size ?? null;
+    const previousSizes: Array<{ index: number; size: number | null }> = [];
+    for (let index = start; index <= end; index++) {
+      previousSizes.push({ index, size: this.setDimension(sheet, axis, index, size) });
+    }
+
+    const count = end - start + 1;
+    const first = isRow ? `${start + 1}` : columnIndexToLetter(start);
+    const last = isRow ? `${end + 1}` : columnIndexToLetter(end);
+    const label = `${isRow ? 'row' : 'column'}${count > 1 ? 's' : ''} ${first}${count > 1 ? `-${last}` : ''}`;
+    const actionEvent: ActionEvent = {
+      id: `action_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      timestamp,
+      action: command.type as ActionEvent['action'],
+      target: isRow ? { row: start } : { col: start },
+      data: { count, size },
+      message: `Resized ${label} to ${size === null ? 'the default size' : `${size}px`}`
+    };
+
+    const stateEvent: StateEvent = {
+      id: `state_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      timestamp,
+      type: 'DIMENSION_CHANGE',
+      dimensionData: { axis, start, end, size }
+    };
+
+    logger.info(actionEvent.message);
+
+    return { actionEvent, stateEvent, undo: [{ type: 'dimensions', sheetId: sheet.id, axis, sizes: previousSizes }] };
+  }
+
+  // Keep the command's number of top rows and left columns in view while the rest scrolls
+  private applyFreeze(sheet: SheetData, command: ParsedCommand, timestamp: Date): {
+    actionEvent: ActionEvent;
+    stateEvent: StateEvent;
+    undo: UndoOperation[];
+  } {
+    const rows = command.frozenRows ?? sheet.state.frozenRows ?? 0;
+    const columns = command.frozenColumns ?? sheet.state.frozenColumns ?? 0;
+    const previous = this.setFreeze(sheet, rows, columns);
+
+    const counts = [
+      ...(rows > 0 ? [`${rows} row${rows > 1 ? 's' : ''}`] : []),
+      ...(columns > 0 ? [`${columns} column${columns > 1 ? 's' : ''}`] : [])
+    ];
+    const actionEvent: ActionEvent = {
+      id: `action_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      timestamp,
+      action: 'FREEZE_PANES',
+      target: { row: rows, col: columns },
+      data: { rows, columns },
+      message: counts.length > 0 ? `Froze ${counts.join(' and ')}` : 'Unfroze all rows and columns'
+    };
+
+    const stateEvent: StateEvent = {
+      id: `state_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      timestamp,
+      type: 'FREEZE_CHANGE',
+      freezeData: { rows, columns }
+    };
+
+    logger.info(actionEvent.message);
+
+    return { actionEvent, stateEvent, undo: [{ type: 'freeze', sheetId: sheet.id, ...previous }] };
+  }
+
+  /**
+   * Insert or delete rows/columns: shift cells, drop deleted ones, rewrite
+   * formula references (on every sheet of the workbook) and renumber default
+   * headers (custom names are kept). Returns the operations that reverse it.
+   */
+  private shiftStructure(workbook: WorkbookData, sheet: SheetData, change: StructureChange): UndoOperation[] {
+    const isRow = change.axis === 'row';
+    const isInsert = change.type === 'insert';
+    const key = isRow ? 'row' : 'col';
+
+    // Formulas as they were, so undoing a delete can bring back references that became #REF!
+    const originalFormulas = new Map<SpreadsheetCell, SpreadsheetCell>();
+    if (!isInsert) {
+      workbook.sheets.forEach(other => {
+        for (const cell of other.cells.values()) {
+          if (cell.formula) {
+            originalFormulas.set(cell, structuredClone(cell));
           }
-        };
+        }
+      });
+    }
 
-        logger.info(`Range updated: ${parsedCommand.startCell}-${parsedCommand.endCell} = "${parsedCommand.value}" (${cellsUpdated.length} cells)`);
+    sheet.changes.shift(change, sheet.cells);
+    const removedCells: SpreadsheetCell[] = [];
+    const keptCells: SpreadsheetCell[] = [];
+    for (const cell of sheet.cells.values()) {
+      const shifted = shiftCoordinate(cell[key], change);
+      if (shifted === null) {
+        removedCells.push(cell);
+      } else {
+        cell[key] = shifted;
+        keptCells.push(cell);
+      }
+    }
+    sheet.cells = new CellMap(keptCells);
 
-      } else if (parsedCommand.type === 'HEADER_RENAME') {
-        // Handle column header rename
-        const colIndex = parsedCommand.col!;
-        const newName = parsedCommand.value;
+    workbook.sheets.forEach(other => {
+      // Unqualified references point at the formula's own sheet
+      const pointsAtChangedSheet = (refSheet: string | undefined) => refSheet === undefined
+        ? other === sheet
+        : refSheet.toLowerCase() === sheet.name.toLowerCase();
+      for (const cell of other.cells.values()) {
+        const formula = cell.formula && adjustFormulaForStructureChange(cell.formula, change, pointsAtChangedSheet);
+        if (formula && formula !== cell.formula) {
+          cell.formula = formula;
+          other.changes.touch(cell.row, cell.col);
+        }
+      }
+    });
 
-        if (colIndex < 0 || colIndex >= this.spreadsheetState.columns) {
-          throw new CustomError(`Invalid column index for header rename: ${colIndex}`, 400);
+    const removedHeaders = isRow || isInsert
+      ? []
+      : sheet.state.headers
+        .slice(change.index, change.index + change.count)
+        .map((header, offset) => ({ col: change.index + offset, header }))
+        .filter(({ col, header }) => header !== columnIndexToLetter(col));
+
+    const delta = isInsert ? change.count : -change.count;
+    if (isRow) {
+      sheet.state.rows = Math.max(1, sheet.state.rows + delta);
+    } else {
+      const headers: string[] = [];
+      sheet.state.headers.forEach((header, index) => {
+        const newIndex = shiftCoordinate(index, change);
+        if (newIndex !== null) {
+          headers[newIndex] = header === columnIndexToLetter(index) ? columnIndexToLetter(newIndex) : header;
         }
+      });
+      sheet.state.columns = Math.max(1, sheet.state.columns + delta);
+      for (let index = 0; index < sheet.state.columns; index++) {
+        headers[index] = headers[index] ?? columnIndexToLetter(index);
+      }
+      sheet.state.headers = headers;
+    }
 
-        const oldHeader = this.spreadsheetState.headers[colIndex];
-        this.spreadsheetState.headers[colIndex] = newName;
-
-        actionEvent = {
-          id: `action_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-          timestamp,
-          action: 'HEADER_RENAME',
-          target: { row: -1, col: colIndex },
-          data: {
-            oldHeader: oldHeader,
-            newHeader: newName
-          },
-          message: `Header renamed from "${oldHeader}" to "${newName}"`
-        };
+    // Widths and heights move with their column or row; deleted ones come back on undo
+    const sizesKey = isRow ? 'rowHeights' : 'columnWidths';
+    const sizes = sheet.state[sizesKey];
+    const removedSizes: Array<{ index: number; size: number }> = [];
+    if (sizes && Object.keys(sizes).length > 0) {
+      const shifted: Record<number, number> = {};
+      Object.entries(sizes).forEach(([index, size]) => {
+        const newIndex = shiftCoordinate(Number(index), change);
+        if (newIndex === null) {
+          removedSizes.push({ index: Number(index), size });
+        } else {
+          shifted[newIndex] = size;
+        }
+      });
+      sheet.state[sizesKey] = shifted;
+      sheet.changes.touchDimensions();
+    }
 
-        stateEvent = {
-          id: `state_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-          timestamp,
-          type: 'HEADER_RENAME',
-          cellData: {
-            row: -1,
-            col: colIndex,
-            value: newName
+    // Rows/columns inserted or deleted inside the frozen panes grow or shrink them, up to the freeze limits
+    const frozen = (isRow ? sheet.state.frozenRows : sheet.state.frozenColumns) ?? 0;
+    let previousFreeze: { rows: number; columns: number } | null = null;
+    if (change.index < frozen) {
+      const resized = isInsert
+        ? Math.min(frozen + change.count, isRow ? MAX_FROZEN_ROWS : MAX_FROZEN_COLUMNS)
+        : change.index + Math.max(0, frozen - change.index - change.count);
+      previousFreeze = isRow
+        ? this.setFreeze(sheet, resized, sheet.state.frozenColumns ?? 0)
+        : this.setFreeze(sheet, sheet.state.frozenRows ?? 0, resized);
+    }
+
+    // Inserted rows/columns are empty, so deleting them again restores everything but a capped freeze
+    if (isInsert) {
+      const undo: UndoOperation[] = [{ type: 'structure', sheetId: sheet.id, change: { ...change, type: 'delete' } }];
+      return previousFreeze ? [...undo, { type: 'freeze', sheetId: sheet.id, ...previousFreeze }] : undo;
+    }
+
+    const undo: UndoOperation[] = [{ type: 'structure', sheetId: sheet.id, change: { ...change, type: 'insert' } }];
+    workbook.sheets.forEach(other => {
+      const restored = other === sheet ? [...removedCells] : [];
+      for (const cell of other.cells.values()) {
+        const original = originalFormulas.get(cell);
+        if (original && original.formula !== cell.formula) {
+          restored.push(original);
+        }
+      }
+      if (restored.length > 0) {
+        undo.push({
+          type: 'cells',
+          sheetId: other.id,
+          cells: restored.map(cell => ({ row: cell.row, col: cell.col, cell }))
+        });
+      }
+    });
+    if (removedHeaders.length > 0) {
+      undo.push({ type: 'headers', sheetId: sheet.id, headers: removedHeaders });
+    }
+    if (removedSizes.length > 0) {
+      undo.push({ type: 'dimensions', sheetId: sheet.id, axis: change.axis, sizes: removedSizes });
+    }
+    if (previousFreeze) {
+      undo.push({ type: 'freeze', sheetId: sheet.id, ...previousFreeze });
+    }
+    return undo;
+  }
+
+  private applyStructureChange(workbook: WorkbookData, sheet: SheetData, command: ParsedCommand, timestamp: Date): {
+    actionEvent: ActionEvent;
+    stateEvent: StateEvent;
+    recalculatedCells: RecalculatedCell[];
+    undo: UndoOperation[];
+  } {
+    const isRow = command.type === 'INSERT_ROW' || command.type === 'DELETE_ROW';
+    const isInsert = command.type === 'INSERT_ROW' || command.type === 'INSERT_COLUMN';
+    const change: StructureChange = isRow
+      ? { type: isInsert ? 'insert' : 'delete', axis: 'row', index: command.startRow! - 1, count: command.endRow! - command.startRow! + 1 }
+      : { type: isInsert ? 'insert' : 'delete', axis: 'col', index: command.startCol!, count: command.endCol! - command.startCol! + 1 };
+
+    const affectedHeaders = sheet.state.headers.slice(change.index, change.index + change.count);
+    const undo = this.shiftStructure(workbook, sheet, change);
+
+    const recalculatedCells = this.recalculateAll(workbook);
+    // Inserted columns report their new headers, deleted ones the removed names
+    const changedHeaders = isInsert
+      ? sheet.state.headers.slice(change.index, change.index + change.count)
+      : affectedHeaders;
+
+    const first = isRow ? `${change.index + 1}` : columnIndexToLetter(change.index);
+    const last = isRow ? `${change.index + change.count}` : columnIndexToLetter(change.index + change.count - 1);
+    const label = `${isRow ? 'row' : 'column'}${change.count > 1 ? 's' : ''} ${first}${change.count > 1 ? `-${last}` : ''}`;
+    const actionEvent: ActionEvent = {
+      id: `action_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      timestamp,
+      action: command.type as ActionEvent['action'],
+      target: isRow ? { row: change.index } : { col: change.index },
+      data: isRow ? { count: change.count } : { count: change.count, headers: changedHeaders },
+      message: `${isInsert ? 'Inserted' : 'Deleted'} ${label}`
+    };
+
+    const stateTypes: Record<string, StateEvent['type']> = {
+      INSERT_ROW: 'ROW_INSERT',
+      DELETE_ROW: 'ROW_DELETE',
+      INSERT_COLUMN: 'COLUMN_INSERT',
+      DELETE_COLUMN: 'COLUMN_DELETE'
+    };
+    const stateEvent: StateEvent = {
+      id: `state_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      timestamp,
+      type: stateTypes[command.type],
+      ...(isRow
+        ? { rowData: { rowIndex: change.index, count: change.count, cells: [] } }
+        : {
+          columnData: {
+            colIndex: change.index,
+            count: change.count,
+            header: changedHeaders[0]
           }
-        };
+        })
+    };
 
-        logger.info(`Header renamed: ${oldHeader} -> ${newName}`);
+    logger.info(actionEvent.message);
 
-      } else {
-        // Handle general message
-        actionEvent = {
-          id: `action_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-          timestamp,
-          action: 'GENERAL_MESSAGE',
-          target: { row: -1, col: -1 },
-          data: { message: parsedCommand.value },
-          message: `Message: ${parsedCommand.value}`
-        };
+    return { actionEvent, stateEvent, recalculatedCells, undo };
+  }
+
+  /**
+   * Apply undo (or redo) operations in order. Returns the operations that
+   * reverse them, the sheets they touched and the formula cells whose value
+   * changed. Operations on sheets deleted in the meantime are skipped.
+   */
+  private applyOperations(workbook: WorkbookData, operations: UndoOperation[]): {
+    inverse: UndoOperation[];
+    touchedSheets: Set<SheetData>;
+    recalculatedCells: RecalculatedCell[];
+  } {
+    const inverse: UndoOperation[] = [];
+    const touchedSheets = new Set<SheetData>();
+    const writtenKeys: string[] = [];
+    let structureChanged = false;
 
-        stateEvent = {
-          id: `state_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-          timestamp,
-          type: 'CELL_UPDATE',
-          cellData: {
-            row: -1,
-            col: -1,
-            value: parsedCommand.value
+    operations.forEach(operation => {
+      const sheet = workbook.sheets.find(entry => entry.id === operation.sheetId);
+      if (!sheet) {
+        return;
+      }
+      touchedSheets.add(sheet);
+
+      if (operation.type === 'cells') {
+        const previousCells = operation.cells.map(({ row, col, cell }) => {
+          const previous = this.snapshotCell(sheet, row, col);
+          if (cell === null) {
+            this.deleteCell(sheet, row, col);
+          } else {
+            this.setCell(sheet, { ...structuredClone(cell), row, col });
+            this.ensureSize(sheet.state, row, col);
           }
-        };
+          writtenKeys.push(cellKey(sheet.id, row, col));
+          return { row, col, cell: previous };
+        });
+        inverse.unshift({ type: 'cells', sheetId: sheet.id, cells: previousCells });
+      } else if (operation.type === 'headers') {
+        const previousHeaders = operation.headers.map(({ col, header }) => {
+          this.ensureSize(sheet.state, 0, col);
+          const previous = sheet.state.headers[col];
+          sheet.state.headers[col] = header;
+          sheet.changes.touchHeaders();
+          return { col, header: previous };
+        });
+        inverse.unshift({ type: 'headers', sheetId: sheet.id, headers: previousHeaders });
+      } else if (operation.type === 'dimensions') {
+        const previousSizes = operation.sizes.map(({ index, size }) => ({
+          index,
+          size: this.setDimension(sheet, operation.axis, index, size)
+        }));
+        inverse.unshift({ type: 'dimensions', sheetId: sheet.id, axis: operation.axis, sizes: previousSizes });
+      } else if (operation.type === 'freeze') {
+        const previous = this.setFreeze(sheet, operation.rows, operation.columns);
+        inverse.unshift({ type: 'freeze', sheetId: sheet.id, ...previous });
+      } else {
+        inverse.unshift(...this.shiftStructure(workbook, sheet, operation.change));
+        structureChanged = true;
+      }
+    });
+
+    const recalculatedCells = structureChanged
+      ? this.recalculateAll(workbook)
+      : this.recalculate(workbook, writtenKeys);
+    return { inverse, touchedSheets, recalculatedCells };
+  }
+
+  // Set the width of a column or height of a row (null for the default); returns the previous one
+  private setDimension(sheet: SheetData, axis: 'row' | 'col', index: number, size: number | null): number | null {
+    const key = axis === 'row' ? 'rowHeights' : 'columnWidths';
+    const sizes = sheet.state[key] ?? {};
+    const previous = sizes[index] ?? null;
+    if (size === null) {
+      delete sizes[index];
+    } else {
+      sizes[index] = size;
+    }
+    sheet.state[key] = sizes;
+    sheet.changes.touchDimensions();
+    return previous;
+  }
+
+  // Set how many top rows and left columns are frozen (0 for none); returns the previous numbers
+  private setFreeze(sheet: SheetData, rows: number, columns: number): { rows: number; columns: number } {
+    const previous = { rows: sheet.state.frozenRows ?? 0, columns: sheet.state.frozenColumns ?? 0 };
+    if (rows > 0) {
+      sheet.state.frozenRows = rows;
+    } else {
+      delete sheet.state.frozenRows;
+    }
+    if (columns > 0) {
+      sheet.state.frozenColumns = columns;
+    } else {
+      delete sheet.state.frozenColumns;
+    }
+    sheet.changes.touchFreeze();
+    return previous;
+  }
+
+  // Grow the grid so a written or restored cell or header is inside it, keeping custom headers
+  private ensureSize(state: SheetLayout, row: number, col: number): void {
+    state.rows = Math.max(state.rows, row + 1);
+    for (let index = state.columns; index <= col; index++) {
+      state.headers[index] = columnIndexToLetter(index);
+    }
+    state.columns = Math.max(state.columns, col + 1);
+  }
 
-        logger.info(`General message processed: "${parsedCommand.value}"`);
+  // Commands change a sheet, so they need an editor, and one the protected ranges they touch allow
+  private authorizeCommand(workbook: WorkbookData, sheet: SheetData, command: ParsedCommand, userId?: string): void {
+    this.requireRole(sheet, userId, 'editor', 'change this sheet');
+    switch (command.type) {
+      case 'SINGLE':
+        this.requireRange(sheet, userId, { startRow: command.row! - 1, endRow: command.row! - 1, startCol: command.col!, endCol: command.col! });
+        this.requireVisibleReferences(workbook, userId, command.value);
+        break;
+      case 'RANGE':
+        this.requireRange(sheet, userId, { startRow: command.startRow! - 1, endRow: command.endRow! - 1, startCol: command.startCol!, endCol: command.endCol! });
+        this.requireVisibleReferences(workbook, userId, command.value);
+        break;
+      case 'FORMAT_CELL':
+        this.requireRange(sheet, userId, { startRow: command.startRow! - 1, endRow: command.endRow! - 1, startCol: command.startCol!, endCol: command.endCol! });
+        break;
+      case 'FILL':
+        this.requireRange(sheet, userId, this.fillArea(command));
+        break;
+      case 'HEADER_RENAME':
+        this.requireRange(sheet, userId, { startRow: 0, endRow: Infinity, startCol: command.col!, endCol: command.col! });
+        break;
+      case 'INSERT_ROW':
+      case 'DELETE_ROW':
+      case 'INSERT_COLUMN':
+      case 'DELETE_COLUMN':
+        // Protected ranges keep their addresses, so moving cells under them needs all of them
+        this.requireRange(sheet, userId);
+        break;
+      case 'RESIZE_COLUMN':
+      case 'RESIZE_ROW':
+      case 'FREEZE':
+        // Sizes and frozen panes are layout rather than content, so protected ranges do not limit them
+        break;
+    }
+  }
+
+  // Undo and redo write to the sheets of the original action, possibly several
+  private authorizeOperations(workbook: WorkbookData, operations: UndoOperation[], userId?: string): void {
+    operations.forEach(operation => {
+      const sheet = workbook.sheets.find(entry => entry.id === operation.sheetId);
+      if (!sheet) {
+        return;
+      }
+      this.requireRole(sheet, userId, 'editor', `change ${sheet.name}`);
+      if (operation.type === 'cells') {
+        operation.cells.forEach(({ row, col }) => this.requireRange(sheet, userId, { startRow: row, endRow: row, startCol: col, endCol: col }));
+      } else if (operation.type === 'headers') {
+        operation.headers.forEach(({ col }) => this.requireRange(sheet, userId, { startRow: 0, endRow: Infinity, startCol: col, endCol: col }));
+      } else if (operation.type === 'structure') {
+        this.requireRange(sheet, userId);
       }
+    });
+  }
 
-      this.actionEvents.push(actionEvent);
-      this.stateEvents.push(stateEvent);
+  /**
+   * Record a processed change: undo history, events on the sheets they belong
+   * to, storage and WebSocket broadcast. `changedSheets` are saved in full;
+   * sheets of recalculated dependents are added to them. Clients get the
+   * update and one delta per changed sheet. Returns the state events of the
+   * recalculated dependents.
+   */
+  private async commitChange(workbook: WorkbookData, sheet: SheetData, change: {
+    userEvent: UserEvent;
+    actionEvent: ActionEvent;
+    stateEvent: StateEvent;
+    recalculatedCells: RecalculatedCell[];
+    changedSheets: Set<SheetData>;
+    undo?: UndoOperation[];
+    timestamp: Date;
+  }): Promise<StateEvent[]> {
+    const { userEvent, actionEvent, stateEvent, recalculatedCells, changedSheets, undo, timestamp } = change;
+
+    // One state event per downstream cell whose value changed on recalculation,
+    // recorded on the sheet that cell belongs to
+    const dependentUpdates = recalculatedCells.map(({ sheet: dependentSheet, cell }) => ({
+      sheet: dependentSheet,
+      stateEvent: {
+        id: `state_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        timestamp,
+        type: 'CELL_UPDATE',
+        cellData: {
+          row: cell.row,
+          col: cell.col,
+          value: cell.value,
+          formula: cell.formula
+        }
+      } as StateEvent
+    }));
+    const dependentStateEvents = dependentUpdates.map(update => update.stateEvent);
 
-      // Broadcast updates via WebSocket
-      if (websocketService.isInitialized()) {
-        websocketService.broadcastSpreadsheetUpdate(userEvent, actionEvent, stateEvent);
-        websocketService.broadcastActionEventsUpdate(this.actionEvents);
-        websocketService.broadcastStateEventsUpdate(this.stateEvents);
+    if (dependentStateEvents.length > 0) {
+      logger.info(`Recalculated ${dependentStateEvents.length} dependent cell(s)`);
+    }
+
+    if (undo) {
+      actionEvent.userId = userEvent.userId;
+      actionEvent.sessionId = userEvent.sessionId;
+      workbook.history.record(historyKey(userEvent.userId, userEvent.sessionId), {
+        actionId: actionEvent.id,
+        sheetId: sheet.id,
+        message: actionEvent.message,
+        operations: undo
+      });
+    }
+
+    // Undo operations are kept with the stored event for rebuilding the history; clients only get actionEvent
+    const storedActionEvent: ActionEvent = undo ? { ...actionEvent, undo } : actionEvent;
+    sheet.actionEvents.push(storedActionEvent);
+    sheet.stateEvents.push(stateEvent);
+    dependentUpdates.forEach(update => update.sheet.stateEvents.push(update.stateEvent));
+    workbook.updatedAt = timestamp;
+
+    dependentUpdates.forEach(update => changedSheets.add(update.sheet));
+    const deltas = this.collectDeltas(workbook, timestamp);
+    deltas.forEach(({ sheet: deltaSheet }) => changedSheets.add(deltaSheet));
+    // Queued together so storage can write them out as one batch
+    await Promise.all([
+      ...Array.from(changedSheets).flatMap(changedSheet => [
+        this.storage.saveSheetState(changedSheet.id, this.toSpreadsheetState(changedSheet)),
+        this.storage.appendEvents(changedSheet.id, {
+          actionEvents: changedSheet === sheet ? [storedActionEvent] : [],
+          stateEvents: [
+            ...(changedSheet === sheet ? [stateEvent] : []),
+            ...dependentUpdates.filter(update => update.sheet === changedSheet).map(update => update.stateEvent)
+          ]
+        })
+      ]),
+      this.storage.saveWorkbooks(this.workbooks.map(entry => this.toWorkbook(entry)))
+    ]);
+
+    // Broadcast updates via WebSocket
+    if (websocketService.isInitialized()) {
+      websocketService.broadcastSpreadsheetUpdate(userEvent, actionEvent, stateEvent, { workbookId: workbook.id, sheetId: sheet.id });
+    }
+    this.broadcastDeltas(deltas);
+
+    return dependentStateEvents;
+  }
+
+  /**
+   * Apply cell writes of the range routes as one undoable UPDATE_CELL action,
+   * recorded and broadcast like a range command. A null cell removes the cell.
+   */
+  private async commitCellWrites(workbook: WorkbookData, sheet: SheetData, change: {
+    bounds: RangeBounds & { label: string };
+    cells: Array<{ row: number; col: number; cell: SpreadsheetCell | null }>;
+    // Stands in for the user's message, e.g. "clear range A1-C3"
+    request: string;
+    message: string;
+    userId?: string;
+    sessionId?: string;
+  }): Promise<RangeWriteResult> {
+    const { bounds, cells, request, message, userId, sessionId } = change;
+    const userEvent = await this.recordUserEvent(sheet, request, userId, sessionId);
+    const timestamp = userEvent.timestamp;
+
+    const previousCells = cells.map(({ row, col, cell }) => {
+      const previous = this.snapshotCell(sheet, row, col);
+      if (cell === null) {
+        this.deleteCell(sheet, row, col);
+      } else {
+        this.ensureSize(sheet.state, row, col);
+        this.setCell(sheet, cell);
+      }
+      return { row, col, cell: previous };
+    });
+    const recalculatedCells = this.recalculate(workbook, cells.map(({ row, col }) => cellKey(sheet.id, row, col)));
+
+    const actionEvent: ActionEvent = {
+      id: `action_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      timestamp,
+      action: 'UPDATE_CELL',
+      target: { row: bounds.startRow, col: bounds.startCol },
+      data: { range: bounds.label, cellsUpdated: cells.length },
+      message
+    };
+
+    const firstCell = sheet.cells.get(bounds.startRow, bounds.startCol);
+    const stateEvent: StateEvent = {
+      id: `state_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      timestamp,
+      type: 'CELL_UPDATE',
+      cellData: {
+        row: bounds.startRow,
+        col: bounds.startCol,
+        value: firstCell?.value ?? '',
+        formula: firstCell?.formula
       }
+    };
+
+    logger.info(message);
+
+    const dependentStateEvents = await this.commitChange(workbook, sheet, {
+      userEvent,
+      actionEvent,
+      stateEvent,
+      recalculatedCells,
+      changedSheets: new Set([sheet]),
+      undo: [{ type: 'cells', sheetId: sheet.id, cells: previousCells }],
+      timestamp
+    });
+
+    return {
+      actionEvent,
+      stateEvent,
+      dependentStateEvents,
+      range: bounds.label,
+      cellsUpdated: cells.length,
+      workbookId: workbook.id,
+      sheetId: sheet.id
+    };
+  }
+
+  async processUserMessage(message: string, userId?: string, sessionId?: string, target: SheetTarget = {}): Promise<{
+    userEvent: UserEvent;
+    actionEvent: ActionEvent;
+    stateEvent: StateEvent;
+    dependentStateEvents: StateEvent[];
+    parsedCommand: ParsedCommand;
+    workbookId: string;
+    sheetId: string;
+  }> {
+    try {
+      const workbook = this.resolveWorkbook(target.workbookId, userId);
+      const requestSheet = this.resolveSheet(workbook, target.sheetId, userId);
+      // Viewers may not post at all; everything but general messages needs an editor, checked once parsed
+      this.requireRole(requestSheet, userId, 'commenter', 'post to this sheet');
+      const userEvent = await this.recordUserEvent(requestSheet, message, userId, sessionId);
 
-      return { userEvent, actionEvent, stateEvent, parsedCommand };
+      const { sheet, parsedCommand, actionEvent, stateEvent, recalculatedCells, changedSheets, undo } =
+        this.applyCommand(workbook, requestSheet, message, userEvent, userId);
+
+      const dependentStateEvents = await this.commitChange(workbook, sheet, {
+        userEvent,
+        actionEvent,
+        stateEvent,
+        recalculatedCells,
+        changedSheets,
+        undo,
+        timestamp: userEvent.timestamp
+      });
+
+      return {
+        userEvent,
+        actionEvent,
+        stateEvent,
+        dependentStateEvents,
+        parsedCommand,
+        workbookId: workbook.id,
+        sheetId: sheet.id
+      };
     } catch (error) {
       logger.error('Error processing user message:', error);
+      if (error instanceof CustomError) {
+        throw error;
+      }
       throw new CustomError('Failed to process user message', 500);
     }
   }
 
-  async getActionEvents(): Promise<ActionEvent[]> {
-    return [...this.actionEvents].reverse(); // Return most recent first
+  /**
+   * Apply several commands as one: either all of them succeed or every sheet
+   * is left as it was. They are recorded as one BATCH action that undo
+   * reverses in one step, saved and broadcast once.
+   */
+  async processBatch(commands: string[], userId?: string, sessionId?: string, target: SheetTarget = {}): Promise<{
+    userEvent: UserEvent;
+    actionEvent: ActionEvent;
+    stateEvent: StateEvent;
+    dependentStateEvents: StateEvent[];
+    workbookId: string;
+    sheetId: string;
+  }> {
+    const workbook = this.resolveWorkbook(target.workbookId, userId);
+    const requestSheet = this.resolveSheet(workbook, target.sheetId, userId);
+    this.requireRole(requestSheet, userId, 'commenter', 'post to this sheet');
+    if (commands.length === 0) {
+      throw new CustomError('A batch needs at least one command', 400);
+    }
+    if (commands.length > MAX_BATCH_COMMANDS) {
+      throw new CustomError(`A batch can hold at most ${MAX_BATCH_COMMANDS} commands`, 400);
+    }
+    if (commands.some(command => /^(undo|redo)$/i.test(command.trim()))) {
+      throw new CustomError('Undo and redo cannot be part of a batch', 400);
+    }
+
+    const userEvent = await this.recordUserEvent(requestSheet, commands.join('\n'), userId, sessionId);
+    // Undo doesn't shrink grids that commands grew, so the layouts are put back as well
+    const layouts = new Map(workbook.sheets.map(sheet => [sheet, structuredClone(sheet.state)]));
+    const applied: AppliedCommand[] = [];
+    for (const [index, command] of commands.entries()) {
+      try {
+        applied.push(this.applyCommand(workbook, requestSheet, command, userEvent, userId));
+      } catch (error) {
+        this.applyOperations(workbook, applied.slice().reverse().flatMap(entry => entry.undo ?? []));
+        workbook.sheets.forEach(sheet => {
+          sheet.state = layouts.get(sheet) ?? sheet.state;
+          sheet.changes.clear();
+        });
+        logger.error(`Batch rolled back at command ${index + 1}:`, error);
+        if (error instanceof CustomError) {
+          throw new CustomError(`Command ${index + 1} (${command}) failed: ${error.message}. No command was applied`, error.statusCode);
+        }
+        throw new CustomError('Failed to process batch', 500);
+      }
+    }
+
+    // Recorded on the sheet all commands wrote to, or on the sheet the batch was sent to
+    const sheet = applied.every(entry => entry.sheet === applied[0].sheet) ? applied[0].sheet : requestSheet;
+    const changedSheets = new Set<SheetData>([sheet, ...applied.flatMap(entry => [...entry.changedSheets])]);
+    const actions = applied.map(entry => entry.actionEvent);
+    const timestamp = userEvent.timestamp;
+
+    const actionEvent: ActionEvent = {
+      id: `action_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      timestamp,
+      action: 'BATCH',
+      target: actions[0].target,
+      data: {
+        commands,
+        actions: actions.map(({ id, action, target: actionTarget, data, message }) => ({ id, action, target: actionTarget, data, message }))
+      },
+      message: `Applied ${commands.length} command(s): ${actions.map(action => action.message).join('; ')}`
+    };
+
+    const stateEvent: StateEvent = {
+      id: `state_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      timestamp,
+      type: 'BATCH',
+      batchData: applied.map(entry => entry.stateEvent)
+    };
+
+    logger.info(actionEvent.message);
+
+    const dependentStateEvents = await this.commitChange(workbook, sheet, {
+      userEvent,
+      actionEvent,
+      stateEvent,
+      recalculatedCells: applied.flatMap(entry => entry.recalculatedCells),
+      changedSheets,
+      // Newest first, so one undo reverses the whole batch
+      undo: applied.slice().reverse().flatMap(entry => entry.undo ?? []),
+      timestamp
+    });
+
+    return {
+      userEvent,
+      actionEvent,
+      stateEvent,
+      dependentStateEvents,
+      workbookId: workbook.id,
+      sheetId: sheet.id
+    };
+  }
+
+  // Log what a user sent to a sheet, before it is parsed, so rejected input is kept too
+  private async recordUserEvent(sheet: SheetData, message: string, userId?: string, sessionId?: string): Promise<UserEvent> {
+    const userEvent: UserEvent = {
+      id: `user_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      message,
+      timestamp: new Date(),
+      userId: userId || 'anonymous',
+      sessionId: sessionId || 'default'
+    };
+
+    sheet.userEvents.push(userEvent);
+    await this.storage.appendEvents(sheet.id, { userEvents: [userEvent] });
+    return userEvent;
   }
 
-  async getSpreadsheetState(): Promise<SpreadsheetState> {
-    const state = { ...this.spreadsheetState };
+  /**
+   * Parse, authorize and apply one command in memory. Nothing is recorded,
+   * saved or broadcast yet; the caller commits the result. Undo and redo
+   * step through the history of the user and session of `userEvent`.
+   */
+  private applyCommand(workbook: WorkbookData, requestSheet: SheetData, message: string, userEvent: UserEvent, userId?: string): AppliedCommand {
+    const timestamp = userEvent.timestamp;
+    // "Sheet2!A1 Hello" writes to another sheet of the same workbook
+    const resolved = this.resolveCommandSheet(workbook, requestSheet, message, userId);
+    let sheet = resolved.sheet;
+    const parsedCommand = this.parseCommand(resolved.command, sheet.state);
+    this.authorizeCommand(workbook, sheet, parsedCommand, userId);
+    const changedSheets = new Set<SheetData>([sheet]);
+    let actionEvent: ActionEvent;
+    let stateEvent: StateEvent;
+    let recalculatedCells: RecalculatedCell[] = [];
+    // Operations that reverse this command, for the sender's undo history
+    let undo: UndoOperation[] | undefined;
+
+    if (parsedCommand.type === 'SINGLE' && parsedCommand.row !== undefined && parsedCommand.col !== undefined) {
+      // Handle single cell update
+      // Convert 1-based row to 0-based for data structure
+      const rowIndex = parsedCommand.row - 1;
+      const { rows, columns } = sheet.state;
+      this.ensureSize(sheet.state, rowIndex, parsedCommand.col);
+
+      if (sheet.state.rows > rows) {
+        logger.info(`Auto-expanded rows to ${sheet.state.rows}`);
+      }
+      
+      if (sheet.state.columns > columns) {
+        logger.info(`Auto-expanded columns to ${sheet.state.columns} (${sheet.state.headers[sheet.state.columns - 1]})`);
+      }
+
+      undo = [{
+        type: 'cells',
+        sheetId: sheet.id,
+        cells: [{ row: rowIndex, col: parsedCommand.col, cell: this.snapshotCell(sheet, rowIndex, parsedCommand.col) }]
+      }];
+      const cellData = this.createCell(sheet, rowIndex, parsedCommand.col, parsedCommand.value);
+      this.setCell(sheet, cellData);
+
+      recalculatedCells = this.recalculate(workbook, [cellKey(sheet.id, rowIndex, parsedCommand.col)]);
+
+      // Create action event
+      actionEvent = {
+        id: `action_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        timestamp,
+        action: 'UPDATE_CELL',
+        target: { row: rowIndex, col: parsedCommand.col },
+        data: { value: cellData.value, formula: cellData.formula },
+        message: `Updated cell ${parsedCommand.cell}`
+      };
+
+      // Create state event
+      stateEvent = {
+        id: `state_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        timestamp,
+        type: 'CELL_UPDATE',
+        cellData: {
+          row: rowIndex,
+          col: parsedCommand.col,
+          value: cellData.value,
+          formula: cellData.formula
+        }
+      };
+
+      logger.info(`Cell updated: ${parsedCommand.cell} = "${cellData.formula ?? cellData.value}"`);
+
+    } else if (parsedCommand.type === 'RANGE') {
+      // Handle range update (fill multiple cells)
+      const cellsUpdated: SpreadsheetCell[] = [];
+      const previousCells: Array<{ row: number; col: number; cell: SpreadsheetCell | null }> = [];
+      // Auto-expand if needed
+      this.ensureSize(sheet.state, parsedCommand.endRow! - 1, parsedCommand.endCol!);
+      
+      for (let row = parsedCommand.startRow!; row <= parsedCommand.endRow!; row++) {
+        for (let col = parsedCommand.startCol!; col <= parsedCommand.endCol!; col++) {
+          // Convert 1-based row to 0-based for data structure
+          const rowIndex = row - 1;
+
+          // Update or add cell
+          previousCells.push({ row: rowIndex, col, cell: this.snapshotCell(sheet, rowIndex, col) });
+          const cellData = this.createCell(sheet, rowIndex, col, parsedCommand.value);
+          this.setCell(sheet, cellData);
+
+          cellsUpdated.push(cellData);
+        }
+      }
+      undo = [{ type: 'cells', sheetId: sheet.id, cells: previousCells }];
+
+      recalculatedCells = this.recalculate(workbook, cellsUpdated.map(cell => cellKey(sheet.id, cell.row, cell.col)));
+
+      // Create action event
+      actionEvent = {
+        id: `action_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        timestamp,
+        action: 'UPDATE_CELL',
+        target: { row: parsedCommand.startRow!, col: parsedCommand.startCol! },
+        data: { 
+          value: parsedCommand.value,
+          range: `${parsedCommand.startCell}-${parsedCommand.endCell}`,
+          cellsUpdated: cellsUpdated.length
+        },
+        message: `Updated range ${parsedCommand.startCell}-${parsedCommand.endCell} with "${parsedCommand.value}" (${cellsUpdated.length} cells)`
+      };
+
+      // Create state event
+      stateEvent = {
+        id: `state_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        timestamp,
+        type: 'CELL_UPDATE',
+        cellData: {
+          row: parsedCommand.startRow!,
+          col: parsedCommand.startCol!,
+          value: cellsUpdated[0]?.value ?? parsedCommand.value,
+          formula: cellsUpdated[0]?.formula
+        }
+      };
+
+      logger.info(`Range updated: ${parsedCommand.startCell}-${parsedCommand.endCell} = "${parsedCommand.value}" (${cellsUpdated.length} cells)`);
+
+    } else if (parsedCommand.type === 'HEADER_RENAME') {
+      // Handle column header rename
+      const colIndex = parsedCommand.col!;
+      const newName = parsedCommand.value;
+
+      if (colIndex < 0 || colIndex >= sheet.state.columns) {
+        throw new CustomError(`Invalid column index for header rename: ${colIndex}`, 400);
+      }
+
+      const oldHeader = sheet.state.headers[colIndex];
+      sheet.state.headers[colIndex] = newName;
+      sheet.changes.touchHeaders();
+      undo = [{ type: 'headers', sheetId: sheet.id, headers: [{ col: colIndex, header: oldHeader }] }];
+
+      actionEvent = {
+        id: `action_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        timestamp,
+        action: 'HEADER_RENAME',
+        target: { row: -1, col: colIndex },
+        data: {
+          oldHeader: oldHeader,
+          newHeader: newName
+        },
+        message: `Header renamed from "${oldHeader}" to "${newName}"`
+      };
+
+      stateEvent = {
+        id: `state_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        timestamp,
+        type: 'HEADER_RENAME',
+        cellData: {
+          row: -1,
+          col: colIndex,
+          value: newName
+        }
+      };
+
+      logger.info(`Header renamed: ${oldHeader} -> ${newName}`);
+
+    } else if (
+      parsedCommand.type === 'INSERT_ROW' || parsedCommand.type === 'DELETE_ROW' ||
+      parsedCommand.type === 'INSERT_COLUMN' || parsedCommand.type === 'DELETE_COLUMN'
+    ) {
+      ({ actionEvent, stateEvent, recalculatedCells, undo } = this.applyStructureChange(workbook, sheet, parsedCommand, timestamp));
+      // Formulas on every sheet of the workbook may have been rewritten
+      workbook.sheets.forEach(other => changedSheets.add(other));
+
+    } else if (parsedCommand.type === 'FORMAT_CELL') {
+      ({ actionEvent, stateEvent, undo } = this.applyFormat(sheet, parsedCommand, timestamp));
+
+    } else if (parsedCommand.type === 'RESIZE_COLUMN' || parsedCommand.type === 'RESIZE_ROW') {
+      ({ actionEvent, stateEvent, undo } = this.applyResize(sheet, parsedCommand, timestamp));
+
+    } else if (parsedCommand.type === 'FREEZE') {
+      ({ actionEvent, stateEvent, undo } = this.applyFreeze(sheet, parsedCommand, timestamp));
+
+    } else if (parsedCommand.type === 'FILL') {
+      ({ actionEvent, stateEvent, recalculatedCells, undo } = this.applyFill(workbook, sheet, parsedCommand, timestamp));
+
+    } else if (parsedCommand.type === 'UNDO' || parsedCommand.type === 'REDO') {
+      const isUndo = parsedCommand.type === 'UNDO';
+      const key = historyKey(userEvent.userId, userEvent.sessionId);
+      const entry = isUndo ? workbook.history.popUndo(key) : workbook.history.popRedo(key);
+      if (!entry) {
+        throw new CustomError(`Nothing to ${isUndo ? 'undo' : 'redo'}`, 400);
+      }
+      // Access may have changed since the action; a refused step stays where it was
+      try {
+        this.authorizeOperations(workbook, entry.operations, userId);
+      } catch (error) {
+        if (isUndo) {
+          workbook.history.pushUndo(key, entry);
+        } else {
+          workbook.history.pushRedo(key, entry);
+        }
+        throw error;
+      }
+
+      const applied = this.applyOperations(workbook, entry.operations);
+      if (isUndo) {
+        workbook.history.pushRedo(key, { ...entry, operations: applied.inverse });
+      } else {
+        workbook.history.pushUndo(key, { ...entry, operations: applied.inverse });
+      }
+      recalculatedCells = applied.recalculatedCells;
+      applied.touchedSheets.forEach(touched => changedSheets.add(touched));
+      // Recorded on the sheet of the action it reverses
+      sheet = workbook.sheets.find(candidate => candidate.id === entry.sheetId) ?? sheet;
+      changedSheets.add(sheet);
+
+      actionEvent = {
+        id: `action_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        timestamp,
+        action: parsedCommand.type,
+        target: { row: -1, col: -1 },
+        data: { actionId: entry.actionId },
+        message: `${isUndo ? 'Undid' : 'Redid'}: ${entry.message}`,
+        userId: userEvent.userId,
+        sessionId: userEvent.sessionId,
+        undo: applied.inverse
+      };
+
+      stateEvent = {
+        id: `state_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        timestamp,
+        type: parsedCommand.type
+      };
+
+      logger.info(actionEvent.message);
+
+    } else {
+      // Handle general message
+      actionEvent = {
+        id: `action_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        timestamp,
+        action: 'GENERAL_MESSAGE',
+        target: { row: -1, col: -1 },
+        data: { message: parsedCommand.value },
+        message: `Message: ${parsedCommand.value}`
+      };
+
+      stateEvent = {
+        id: `state_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        timestamp,
+        type: 'CELL_UPDATE',
+        cellData: {
+          row: -1,
+          col: -1,
+          value: parsedCommand.value
+        }
+      };
+
+      logger.info(`General message processed: "${parsedCommand.value}"`);
+    }
+
+    return { sheet, parsedCommand, actionEvent, stateEvent, recalculatedCells, changedSheets, undo };
+  }
+
+  /**
+   * Write CSV data into a sheet from `anchor` on as one batched, undoable
+   * action with a single state broadcast. With `headerRow` the first row
+   * renames the column headers instead of filling cells. Empty fields clear
+   * existing values but do not create cells.
+   */
+  async importCsv(csv: string, options: CsvImportOptions = {}, userId?: string, sessionId?: string, target: SheetTarget = {}): Promise<{
+    actionEvent: ActionEvent;
+    stateEvent: StateEvent;
+    dependentStateEvents: StateEvent[];
+    rows: number;
+    columns: number;
+    cellsUpdated: number;
+    workbookId: string;
+    sheetId: string;
+  }> {
+    const workbook = this.resolveWorkbook(target.workbookId, userId);
+    const sheet = this.resolveSheet(workbook, target.sheetId, userId);
+    this.requireRole(sheet, userId, 'editor', 'import into this sheet');
+    const csvOptions = resolveCsvOptions(options.delimiter, options.quote);
+
+    const anchor = (options.anchor ?? 'A1').trim().toUpperCase();
+    const anchorMatch = anchor.match(/^([A-Z]+)(\d+)$/);
+    if (!anchorMatch || parseInt(anchorMatch[2], 10) < 1 || letterToColumnIndex(anchorMatch[1]) >= MAX_COLUMNS) {
+      throw new CustomError(`Invalid anchor cell: ${options.anchor}`, 400);
+    }
+    const anchorRow = parseInt(anchorMatch[2], 10) - 1;
+    const anchorCol = letterToColumnIndex(anchorMatch[1]);
+
+    const records = parseCsv(csv, csvOptions);
+    const headerNames = options.headerRow ? records.shift() ?? [] : [];
+    const width = records.reduce((max, record) => Math.max(max, record.length), headerNames.length);
+    if (![headerNames, ...records].some(record => record.some(value => value !== ''))) {
+      throw new CustomError('CSV contains no data', 400);
+    }
+    if (anchorRow + records.length > MAX_ROWS) {
+      throw new CustomError(`CSV has ${records.length} rows but only ${MAX_ROWS - anchorRow} fit below ${anchor} (the sheet has at most ${MAX_ROWS} rows)`, 400);
+    }
+    if (anchorCol + width > MAX_COLUMNS) {
+      throw new CustomError(`CSV has ${width} columns but only ${MAX_COLUMNS - anchorCol} fit right of ${anchor}`, 400);
+    }
+
+    // Renaming headers counts as changing the whole column, like "change column A to ..." does
+    this.requireRange(sheet, userId, {
+      startRow: options.headerRow ? 0 : anchorRow,
+      endRow: options.headerRow ? Infinity : anchorRow + Math.max(records.length, 1) - 1,
+      startCol: anchorCol,
+      endCol: anchorCol + width - 1
+    });
+    records.forEach(record => record.forEach(value => this.requireVisibleReferences(workbook, userId, value)));
+
+    const timestamp = new Date();
+    const range = `${toCellId(anchorRow, anchorCol)}-${toCellId(anchorRow + Math.max(records.length, 1) - 1, anchorCol + width - 1)}`;
+    const userEvent: UserEvent = {
+      id: `user_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      message: `import csv ${range}${options.headerRow ? ' with header row' : ''}`,
+      timestamp,
+      userId: userId || 'anonymous',
+      sessionId: sessionId || 'default'
+    };
+    sheet.userEvents.push(userEvent);
+    await this.storage.appendEvents(sheet.id, { userEvents: [userEvent] });
+
+    this.ensureSize(sheet.state, anchorRow + Math.max(records.length, 1) - 1, anchorCol + width - 1);
+
+    const previousCells: Array<{ row: number; col: number; cell: SpreadsheetCell | null }> = [];
+    const writtenKeys: string[] = [];
+    records.forEach((record, rowOffset) => record.forEach((value, colOffset) => {
+      const row = anchorRow + rowOffset;
+      const col = anchorCol + colOffset;
+      const existing = sheet.cells.get(row, col);
+      if (value === '' && !existing) {
+        return;
+      }
+
+      previousCells.push({ row, col, cell: existing ? structuredClone(existing) : null });
+      this.setCell(sheet, this.createCell(sheet, row, col, value, existing));
+      writtenKeys.push(cellKey(sheet.id, row, col));
+    }));
+
+    const previousHeaders: Array<{ col: number; header: string }> = [];
+    headerNames.forEach((name, offset) => {
+      const col = anchorCol + offset;
+      if (name.trim()) {
+        previousHeaders.push({ col, header: sheet.state.headers[col] });
+        sheet.state.headers[col] = name.trim();
+        sheet.changes.touchHeaders();
+      }
+    });
+
+    const recalculatedCells = this.recalculate(workbook, writtenKeys);
+    const undo: UndoOperation[] = [{ type: 'cells', sheetId: sheet.id, cells: previousCells }];
+    if (previousHeaders.length > 0) {
+      undo.push({ type: 'headers', sheetId: sheet.id, headers: previousHeaders });
+    }
+
+    const actionEvent: ActionEvent = {
+      id: `action_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      timestamp,
+      action: 'IMPORT_CSV',
+      target: { row: anchorRow, col: anchorCol },
+      data: {
+        range,
+        rows: records.length,
+        columns: width,
+        cellsUpdated: writtenKeys.length,
+        headers: options.headerRow ? headerNames : undefined
+      },
+      message: `Imported CSV into ${range} (${writtenKeys.length} cells)`
+    };
+
+    const anchorCell = sheet.cells.get(anchorRow, anchorCol);
+    const stateEvent: StateEvent = {
+      id: `state_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      timestamp,
+      type: 'CELL_UPDATE',
+      cellData: {
+        row: anchorRow,
+        col: anchorCol,
+        value: anchorCell?.value ?? '',
+        formula: anchorCell?.formula
+      }
+    };
+
+    logger.info(actionEvent.message);
+
+    const dependentStateEvents = await this.commitChange(workbook, sheet, {
+      userEvent,
+      actionEvent,
+      stateEvent,
+      recalculatedCells,
+      changedSheets: new Set([sheet]),
+      undo,
+      timestamp
+    });
+
+    return {
+      actionEvent,
+      stateEvent,
+      dependentStateEvents,
+      rows: records.length,
+      columns: width,
+      cellsUpdated: writtenKeys.length,
+      workbookId: workbook.id,
+      sheetId: sheet.id
+    };
+  }
+
+  // CSV of a range, or of A1 up to the last cell with a value or formula
+  async exportCsv(target: SheetTarget = {}, options: CsvExportOptions = {}, userId?: string): Promise<{ csv: string; filename: string; rows: number; columns: number }> {
+    const sheet = this.resolveSheet(this.resolveWorkbook(target.workbookId, userId), target.sheetId, userId);
+    const csvOptions = resolveCsvOptions(options.delimiter, options.quote);
+
+    let bounds: { startRow: number; endRow: number; startCol: number; endCol: number } | null = null;
+    if (options.range) {
+      const range = options.range.trim().toUpperCase();
+      bounds = this.resolveRange(range, sheet.state, 'export range');
+      const size = (bounds.endRow - bounds.startRow + 1) * (bounds.endCol - bounds.startCol + 1);
+      if (size > MAX_RANGE_CELLS) {
+        throw new CustomError(`Export range ${range} has ${size} cells; at most ${MAX_RANGE_CELLS} can be exported at once`, 400);
+      }
+    } else {
+      const filled = Array.from(sheet.cells.values()).filter(cell => cell.value !== '' || cell.formula);
+      if (filled.length > 0) {
+        bounds = {
+          startRow: 1,
+          endRow: filled.reduce((max, cell) => Math.max(max, cell.row), 0) + 1,
+          startCol: 0,
+          endCol: filled.reduce((max, cell) => Math.max(max, cell.col), 0)
+        };
+      }
+    }
+
+    // Rows are formatted one at a time from the stored cells, so sparse sheets never become a dense grid
+    const lines: string[] = [];
+    let columns = 0;
+    if (bounds) {
+      const { startRow, endRow, startCol, endCol } = bounds;
+      columns = endCol - startCol + 1;
+      if (options.includeHeaders) {
+        lines.push(formatCsv([sheet.state.headers.slice(startCol, endCol + 1)], csvOptions));
+      }
+      const emptyLine = formatCsv([new Array<string>(columns).fill('')], csvOptions);
+      const cells = sheet.cells.inBounds(startRow - 1, startCol, endRow - 1, endCol);
+      let next = 0;
+      for (let row = startRow - 1; row < endRow; row++) {
+        if (cells[next]?.row !== row) {
+          lines.push(emptyLine);
+          continue;
+        }
+        const fields = new Array<string>(columns).fill('');
+        for (; cells[next]?.row === row; next++) {
+          const cell = cells[next];
+          fields[cell.col - startCol] = options.formulas && cell.formula ? cell.formula : cell.value;
+        }
+        lines.push(formatCsv([fields], csvOptions));
+      }
+    }
+
+    const filename = `${sheet.name.replace(/[^A-Za-z0-9 _.-]/g, '_')}.csv`;
+    logger.info(`Exported ${lines.length} CSV rows from ${sheet.name}`);
+    return { csv: lines.join('\r\n'), filename, rows: lines.length, columns };
+  }
+
+  // Values, formulas and formats of a range (A1, A1-C3, A1:C3, A:C or 2:5); empty cells read as ''
+  async getRange(range: string, target: SheetTarget = {}, userId?: string): Promise<RangeContents> {
+    const workbook = this.resolveWorkbook(target.workbookId, userId);
+    const sheet = this.resolveSheet(workbook, target.sheetId, userId);
+    const bounds = this.resolveRequestRange(range, sheet);
+
+    const values: string[][] = [];
+    const formulas: Array<Array<string | null>> = [];
+    const formats: Array<Array<CellFormat | null>> = [];
+    for (let row = bounds.startRow; row <= bounds.endRow; row++) {
+      const cells = Array.from({ length: bounds.endCol - bounds.startCol + 1 }, (_, offset) => sheet.cells.get(row, bounds.startCol + offset));
+      values.push(cells.map(cell => cell?.value ?? ''));
+      formulas.push(cells.map(cell => cell?.formula ?? null));
+      formats.push(cells.map(cell => cell?.format ?? null));
+    }
+
+    return {
+      range: bounds.label,
+      startRow: bounds.startRow,
+      startCol: bounds.startCol,
+      values,
+      formulas,
+      formats,
+      workbookId: workbook.id,
+      sheetId: sheet.id
+    };
+  }
+
+  /**
+   * Write values and/or a format into a range as one undoable action. Values
+   * starting with "=" become formulas; written cells keep their format unless
+   * `format` is given, which is merged into every cell of the range.
+   */
+  async writeRange(range: string, write: RangeWrite, userId?: string, sessionId?: string, target: SheetTarget = {}): Promise<RangeWriteResult> {
+    const workbook = this.resolveWorkbook(target.workbookId, userId);
+    const sheet = this.resolveSheet(workbook, target.sheetId, userId);
+    this.requireRole(sheet, userId, 'editor', 'change this sheet');
+    const bounds = this.resolveRequestRange(range, sheet);
+    const format = write.format === undefined ? undefined : parseFormatObject(write.format);
+    const formats = write.formats?.map(row => row.map(entry => (entry === null ? null : parseFormatObject(entry))));
+    let values = write.values ?? [];
+    const height = bounds.endRow - bounds.startRow + 1;
+    const width = bounds.endCol - bounds.startCol + 1;
+
+    if (write.replace) {
+      if (values.length !== height || values.some(row => row.length !== width)) {
+        const valuesWidth = values.reduce((max, row) => Math.max(max, row.length), 0);
+        throw new CustomError(`Range ${bounds.label} is ${height}x${width} cells but the values are ${values.length}x${valuesWidth}`, 400);
+      }
+    } else if (values.length > height || values.some(row => row.length > width)) {
+      throw new CustomError(`The values do not fit in range ${bounds.label} (${height}x${width} cells)`, 400);
+    }
+    if (formats && (formats.length > height || formats.some(row => row.length > width))) {
+      throw new CustomError(`The formats do not fit in range ${bounds.label} (${height}x${width} cells)`, 400);
+    }
+    if (!write.values && !format && !formats) {
+      throw new CustomError('Give values, a format or both', 400);
+    }
+    if (write.copiedFrom !== undefined) {
+      const source = write.copiedFrom.toUpperCase().match(/^([A-Z]+)([1-9]\d*)$/);
+      if (!source) {
+        throw new CustomError(`Invalid copiedFrom cell: ${write.copiedFrom}. Use A1, B5, etc.`, 400);
+      }
+      const rowOffset = bounds.startRow - (parseInt(source[2]) - 1);
+      const colOffset = bounds.startCol - letterToColumnIndex(source[1]);
+      values = values.map(row => row.map(value => (value && isFormula(value) ? translateFormula(value, rowOffset, colOffset) : value)));
+    }
+
+    this.requireRange(sheet, userId, bounds);
+    values.forEach(row => row.forEach(value => {
+      if (value) {
+        this.requireVisibleReferences(workbook, userId, value);
+      }
+    }));
+
+    const cells: Array<{ row: number; col: number; cell: SpreadsheetCell }> = [];
+    for (let row = bounds.startRow; row <= bounds.endRow; row++) {
+      for (let col = bounds.startCol; col <= bounds.endCol; col++) {
+        const given = values[row - bounds.startRow]?.[col - bounds.startCol];
+        const input = write.replace ? given ?? '' : given ?? undefined;
+        const cellFormat = formats?.[row - bounds.startRow]?.[col - bounds.startCol];
+        const existing = sheet.cells.get(row, col);
+        // Like CSV imports, empty values don't create cells
+        if ((input === undefined || (input === '' && !existing)) && !format && cellFormat === undefined) {
+          continue;
+        }
+
+        const cell = input === undefined
+          ? (existing ? structuredClone(existing) : { row, col, value: '' })
+          : this.createCell(sheet, row, col, input, existing);
+        if (cellFormat !== undefined) {
+          cell.format = cellFormat ? mergeFormat(undefined, cellFormat) : { ...DEFAULT_CELL_FORMAT };
+        }
+        if (format) {
+          cell.format = mergeFormat(cell.format, format);
+        }
+        cells.push({ row, col, cell });
+      }
+    }
+
+    return this.commitCellWrites(workbook, sheet, {
+      bounds,
+      cells,
+      request: `${write.replace ? 'set' : 'update'} range ${bounds.label}`,
+      message: `Updated range ${bounds.label} (${cells.length} cells)`,
+      userId,
+      sessionId
+    });
+  }
+
+  // Remove the values, formulas and formats of every cell in a range
+  async clearRange(range: string, userId?: string, sessionId?: string, target: SheetTarget = {}): Promise<RangeWriteResult> {
+    const workbook = this.resolveWorkbook(target.workbookId, userId);
+    const sheet = this.resolveSheet(workbook, target.sheetId, userId);
+    this.requireRole(sheet, userId, 'editor', 'change this sheet');
+    // Only existing cells are visited, so whole columns and rows of any size can be cleared
+    const bounds = this.resolveRequestRange(range, sheet, false);
+    this.requireRange(sheet, userId, bounds);
+
+    const cells = Array.from(sheet.cells.values())
+      .filter(cell => cell.row >= bounds.startRow && cell.row <= bounds.endRow && cell.col >= bounds.startCol && cell.col <= bounds.endCol)
+      .map(({ row, col }) => ({ row, col, cell: null }));
+
+    return this.commitCellWrites(workbook, sheet, {
+      bounds,
+      cells,
+      request: `clear range ${bounds.label}`,
+      message: `Cleared range ${bounds.label} (${cells.length} cells)`,
+      userId,
+      sessionId
+    });
+  }
+
+  /**
+   * Create a workbook from an .xlsx file with one sheet per worksheet, keeping
+   * values, formulas and the formats the cell model supports. Formulas are
+   * evaluated by this engine rather than taken from the file's cached results.
+   */
+  async importXlsx(file: Buffer, options: XlsxImportOptions = {}, userId?: string): Promise<Workbook> {
+    const sheets = readXlsx(file);
+    const now = new Date();
+    const workbook: WorkbookData = {
+      id: `workbook_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      name: options.name === undefined
+        ? this.nextName('Workbook', this.workbooks.map(entry => entry.name))
+        : this.validateWorkbookName(options.name),
+      createdAt: now,
+      updatedAt: now,
+      sheets: [],
+      dependencyGraph: new DependencyGraph(),
+      history: new UndoHistory()
+    };
+    // The header row is removed from every sheet, so references to any sheet move up
+    const removeHeaderRow: StructureChange = { type: 'delete', axis: 'row', index: 0, count: 1 };
+
+    sheets.forEach(({ name, cells }) => {
+      const sheetName = this.validateSheetName(workbook, name);
+      // Positions start at row 0 and column 0; anything else would be stored where no reference can reach it
+      const misplaced = cells.find(cell => !Number.isInteger(cell.row) || !Number.isInteger(cell.col) || cell.row < 0 || cell.col < 0);
+      if (misplaced) {
+        throw new CustomError(`Sheet "${sheetName}" has a cell outside the sheet (row ${misplaced.row + 1}, column ${misplaced.col + 1})`, 400);
+      }
+      const state = this.createEmptyState();
+      const headerCells = options.headerRow ? cells.filter(cell => cell.row === 0) : [];
+      const bodyCells = options.headerRow
+        ? cells.filter(cell => cell.row > 0).map(cell => {
+          const moved: SpreadsheetCell = { ...cell, row: cell.row - 1 };
+          if (cell.formula) {
+            moved.formula = adjustFormulaForStructureChange(cell.formula, removeHeaderRow, () => true);
+          }
+          return moved;
+        })
+        : cells;
+
+      const lastRow = bodyCells.reduce((max, cell) => Math.max(max, cell.row), -1);
+      const lastCol = cells.reduce((max, cell) => Math.max(max, cell.col), -1);
+      if (lastRow >= MAX_ROWS) {
+        throw new CustomError(`Sheet "${sheetName}" has ${lastRow + 1} rows; at most ${MAX_ROWS} are supported`, 400);
+      }
+      if (lastCol >= MAX_COLUMNS) {
+        throw new CustomError(`Sheet "${sheetName}" has ${lastCol + 1} columns; at most ${MAX_COLUMNS} are supported`, 400);
+      }
+      this.ensureSize(state, lastRow, lastCol);
+
+      headerCells.forEach(cell => {
+        if (cell.value.trim()) {
+          state.headers[cell.col] = cell.value.trim();
+        }
+      });
+      state.cells = bodyCells;
+
+      workbook.sheets.push(this.createSheetData(sheetName, state, this.createAccess(userId)));
+    });
+    this.recalculateAll(workbook);
+    workbook.sheets.forEach(sheet => sheet.changes.clear());
+
+    this.workbooks.push(workbook);
+    await this.persistWorkbooks([workbook]);
+    this.broadcastWorkbooks();
+    const cellCount = workbook.sheets.reduce((sum, sheet) => sum + sheet.cells.size, 0);
+    logger.info(`Workbook imported from XLSX: ${workbook.name} (${workbook.sheets.length} sheets, ${cellCount} cells)`);
+    return this.toWorkbookView(workbook, userId)!;
+  }
+
+  // Every sheet of a workbook the user may see as one .xlsx file
+  async exportXlsx(workbookId?: string, userId?: string): Promise<{ file: Buffer; filename: string }> {
+    const workbook = this.resolveWorkbook(workbookId, userId);
+    const file = writeXlsx(workbook.sheets
+      .filter(sheet => this.canView(sheet, userId))
+      .map(sheet => ({ name: sheet.name, state: this.toSpreadsheetState(sheet) })));
+    logger.info(`Exported ${workbook.name} as XLSX (${file.length} bytes)`);
+    return { file, filename: `${workbook.name.replace(/[^A-Za-z0-9 _.-]/g, '_')}.xlsx` };
+  }
+
+  async getActionEvents(target: SheetTarget = {}, userId?: string): Promise<ActionEvent[]> {
+    const sheet = this.resolveSheet(this.resolveWorkbook(target.workbookId, userId), target.sheetId, userId);
+    // Most recent first, without the undo operations, which never leave the server
+    return sheet.actionEvents.map(({ undo, ...event }) => event).reverse();
+  }
+
+  async getSpreadsheetState(target: SheetTarget = {}, userId?: string): Promise<SpreadsheetState> {
+    const sheet = this.resolveSheet(this.resolveWorkbook(target.workbookId, userId), target.sheetId, userId);
+    const state = this.toSpreadsheetState(sheet);
     logger.info(`Returning spreadsheet state with ${state.cells.length} cells, ${state.rows} rows, ${state.columns} columns`);
-    logger.debug('Spreadsheet state:', JSON.stringify(state, null, 2));
+    // Serializing a large sheet is expensive, so only do it when the output is kept
+    if (logger.isDebugEnabled()) {
+      logger.debug('Spreadsheet state:', JSON.stringify(state, null, 2));
+    }
     return state;
   }
 
-  async getStateEvents(): Promise<StateEvent[]> {
-    const events = [...this.stateEvents].reverse(); // Return most recent first
+  /**
+   * Deltas of a sheet after sequence number `since`, for a client that missed
+   * some. When they are not all kept anymore (the log is bounded and starts
+   * empty after a restart) the current state is returned instead.
+   */
+  async getChanges(since: number, target: SheetTarget = {}, userId?: string): Promise<{ version: number; deltas?: SheetDelta[]; state?: SpreadsheetState }> {
+    const sheet = this.resolveSheet(this.resolveWorkbook(target.workbookId, userId), target.sheetId, userId);
+    const version = sheet.state.version ?? 0;
+    const deltas = sheet.deltas.filter(delta => delta.seq > since);
+    if (since <= version && deltas.length === version - since) {
+      logger.info(`Returning ${deltas.length} deltas of ${sheet.name} since ${since}`);
+      return { version, deltas };
+    }
+
+    logger.info(`Deltas of ${sheet.name} since ${since} are not kept, returning the state at ${version}`);
+    return { version, state: this.toSpreadsheetState(sheet) };
+  }
+
+  async getStateEvents(target: SheetTarget = {}, userId?: string): Promise<StateEvent[]> {
+    const sheet = this.resolveSheet(this.resolveWorkbook(target.workbookId, userId), target.sheetId, userId);
+    const events = [...sheet.stateEvents].reverse(); // Return most recent first
     logger.info(`Returning ${events.length} state events`);
     return events;
   }
 
-  async getHealthStatus(): Promise<{ status: string; timestamp: Date; endpoints: string[]; dataCounts: any; websocket?: any }> {
+  async getHealthStatus(): Promise<{ status: string; timestamp: Date; endpoints: string[]; dataCounts: any; storage: string; websocket?: any }> {
     const websocketStats = websocketService.isInitialized() ? websocketService.getConnectionStats() : null;
+    const sheets = this.workbooks.flatMap(workbook => workbook.sheets);
     
     return {
       status: 'OK',
       timestamp: new Date(),
-      endpoints: ['POST /message', 'GET /action', 'GET /state', 'GET /health'],
+      endpoints: ['POST /message', 'POST /batch', 'POST /undo', 'POST /redo', 'POST /import', 'GET /export.csv', 'POST /workbooks/import', 'GET /workbooks/:workbookId/export.xlsx', 'GET /action', 'GET /state', 'GET /changes', 'GET /cells/:cell', 'GET /ranges/:range', 'GET /health', 'GET /workbooks'],
       dataCounts: {
-        userEvents: this.userEvents.length,
-        actionEvents: this.actionEvents.length,
-        stateEvents: this.stateEvents.length,
-        cells: this.spreadsheetState.cells.length
+        workbooks: this.workbooks.length,
+        sheets: sheets.length,
+        userEvents: sheets.reduce((total, sheet) => total + sheet.userEvents.length, 0),
+        actionEvents: sheets.reduce((total, sheet) => total + sheet.actionEvents.length, 0),
+        stateEvents: sheets.reduce((total, sheet) => total + sheet.stateEvents.length, 0),
+        cells: sheets.reduce((total, sheet) => total + sheet.cells.size, 0)
       },
+      storage: this.storage.driver,
       websocket: websocketStats
     };
   }
 }
 
-const spreadsheetService = new SpreadsheetDataStore();
+const spreadsheetService = new SpreadsheetDataStore(getSharedStorage());
 export default spreadsheetService; 
\ No newline at end of file
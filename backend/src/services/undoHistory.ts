@@ -0,0 +1,95 @@
+import { ActionEvent, UndoOperation } from '../types';
+
+// Undo depth kept per user/session
+export const MAX_UNDO_HISTORY = 100;
+
+// An action that can be undone (or an undone action that can be redone)
+export interface HistoryEntry {
+  actionId: string;
+  sheetId: string;
+  message: string;
+  operations: UndoOperation[];
+}
+
+interface HistoryStacks {
+  undo: HistoryEntry[];
+  redo: HistoryEntry[];
+}
+
+export const historyKey = (userId?: string, sessionId?: string): string =>
+  `${userId || 'anonymous'}:${sessionId || 'default'}`;
+
+// Undo and redo stacks of one workbook, kept separately for every user/session
+export class UndoHistory {
+  private stacks = new Map<string, HistoryStacks>();
+
+  private getStacks(key: string): HistoryStacks {
+    if (!this.stacks.has(key)) {
+      this.stacks.set(key, { undo: [], redo: [] });
+    }
+    return this.stacks.get(key)!;
+  }
+
+  // A new action invalidates whatever could be redone
+  record(key: string, entry: HistoryEntry): void {
+    const stacks = this.getStacks(key);
+    this.pushUndo(key, entry);
+    stacks.redo = [];
+  }
+
+  pushUndo(key: string, entry: HistoryEntry): void {
+    const stacks = this.getStacks(key);
+    stacks.undo.push(entry);
+    if (stacks.undo.length > MAX_UNDO_HISTORY) {
+      stacks.undo.shift();
+    }
+  }
+
+  pushRedo(key: string, entry: HistoryEntry): void {
+    this.getStacks(key).redo.push(entry);
+  }
+
+  popUndo(key: string): HistoryEntry | undefined {
+    return this.stacks.get(key)?.undo.pop();
+  }
+
+  popRedo(key: string): HistoryEntry | undefined {
+    return this.stacks.get(key)?.redo.pop();
+  }
+
+  canUndo(key: string): boolean {
+    return (this.stacks.get(key)?.undo.length ?? 0) > 0;
+  }
+
+  canRedo(key: string): boolean {
+    return (this.stacks.get(key)?.redo.length ?? 0) > 0;
+  }
+
+  /**
+   * Rebuild the stacks from the action event log, oldest first. Undo and redo
+   * events carry the operations that reverse them, so replaying them moves
+   * entries between the stacks exactly like the original requests did.
+   */
+  replay(events: Array<{ sheetId: string; event: ActionEvent }>): void {
+    this.stacks.clear();
+    events.forEach(({ sheetId, event }) => {
+      if (!event.undo) {
+        return;
+      }
+      const key = historyKey(event.userId, event.sessionId);
+      if (event.action === 'UNDO') {
+        const entry = this.popUndo(key);
+        if (entry) {
+          this.pushRedo(key, { ...entry, operations: event.undo });
+        }
+      } else if (event.action === 'REDO') {
+        const entry = this.popRedo(key);
+        if (entry) {
+          this.pushUndo(key, { ...entry, operations: event.undo });
+        }
+      } else {
+        this.record(key, { actionId: event.id, sheetId, message: event.message, operations: event.undo });
+      }
+    });
+  }
+}
@@ -1,12 +1,109 @@
 import { Server as SocketIOServer, Socket } from 'socket.io';
 import { Server as HTTPServer } from 'http';
 import logger from '../utils/logger';
-import type { UserEvent, ActionEvent, StateEvent } from '../types';
+import type { AuthUser, UserEvent, ActionEvent, StateEvent, SheetDelta, SpreadsheetState, Workbook } from '../types';
 import { config } from '../config';
+import { CustomError } from '../middleware/errorHandler';
+
+// Workbook and sheet an update belongs to, so clients can ignore other sheets
+export interface SheetScope {
+  workbookId: string;
+  sheetId: string;
+}
+
+// What a reconnecting client missed on a sheet: the deltas after its version, or the whole state
+export interface ResumeResult {
+  version: number;
+  deltas?: SheetDelta[];
+  state?: SpreadsheetState;
+}
+
+// `userId` is the socket's user, so sheets they may not see are reported as missing
+export type ResumeHandler = (scope: SheetScope, since: number, userId?: string) => Promise<ResumeResult>;
+
+// Checks a handshake token and returns its user; throws for invalid tokens
+export type TokenVerifier = (token: string) => AuthUser;
+
+// Whether a user (undefined when anonymous) may see a sheet, and so receive its updates
+export type AccessChecker = (userId: string | undefined, scope: SheetScope) => boolean;
+
+// A command sent over the socket, with the fields of a POST /message body; `userId` is the socket's user
+export interface SocketCommand {
+  message: string;
+  userId?: string;
+  sessionId?: string;
+  workbookId?: string;
+  sheetId?: string;
+}
+
+// Resolves to the same response body as POST /message
+export type CommandHandler = (command: SocketCommand) => Promise<object>;
+
+// Acknowledgement for a request that failed; `statusCode` matches what the HTTP route would answer
+interface ErrorAck {
+  success: false;
+  error: string;
+  statusCode: number;
+}
+
+// Cells (`B4`) or cell ranges (`B2:D9`), whole columns (`C`) and whole rows (1-based) a client has selected, as its grid reports them
+export interface PresenceSelection {
+  cells: string[];
+  columns: string[];
+  rows: number[];
+}
+
+// Who is on which sheet, what they have selected and which cell they are typing into
+export interface Presence {
+  clientId: string;
+  name: string;
+  color: string;
+  workbookId?: string;
+  sheetId?: string;
+  selection: PresenceSelection;
+  editing: { row: number; col: number } | null;
+  updatedAt: string;
+}
+
+// Colors handed out to clients in order, so people on the same sheet are told apart
+const PRESENCE_COLORS = ['#e53935', '#1e88e5', '#43a047', '#fb8c00', '#8e24aa', '#00897b', '#d81b60', '#6d4c41'];
+const MAX_PRESENCE_NAME_LENGTH = 40;
+// A whole-sheet selection is still only a few thousand entries; anything larger is cut off
+const MAX_PRESENCE_SELECTION = 5000;
+
+const optionalString = (value: unknown): string | undefined => (typeof value === 'string' && value ? value : undefined);
+
+const isIndex = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 0;
+
+const stringList = (value: unknown, pattern: RegExp): string[] =>
+  Array.isArray(value)
+    ? value.filter((entry): entry is string => typeof entry === 'string' && pattern.test(entry)).slice(0, MAX_PRESENCE_SELECTION)
+    : [];
+
+const emptySelection = (): PresenceSelection => ({ cells: [], columns: [], rows: [] });
+
+const toSelection = (value: any): PresenceSelection => ({
+  cells: stringList(value?.cells, /^[A-Z]+[1-9][0-9]*(:[A-Z]+[1-9][0-9]*)?$/),
+  columns: stringList(value?.columns, /^[A-Z]+$/),
+  rows: Array.isArray(value?.rows)
+    ? value.rows.filter((row: unknown) => isIndex(row) && row > 0).slice(0, MAX_PRESENCE_SELECTION)
+    : []
+});
+
+interface ConnectedClient {
+  socket: Socket;
+  connectedAt: Date;
+  user?: AuthUser;
+  presence: Presence;
+}
 
 export class WebSocketService {
   private io: SocketIOServer | null = null;
-  private connectedClients = new Map<string, { socket: Socket; connectedAt: Date }>();
+  private connectedClients = new Map<string, ConnectedClient>();
+  private resumeHandler: ResumeHandler | null = null;
+  private commandHandler: CommandHandler | null = null;
+  private tokenVerifier: TokenVerifier | null = null;
+  private accessChecker: AccessChecker | null = null;
 
   initialize(server: HTTPServer): void {
     this.io = new SocketIOServer(server, {
@@ -22,12 +119,11 @@ export class WebSocketService {
       allowUpgrades: true,
       maxHttpBufferSize: 1e6,
       connectTimeout: 45000,
-      allowEIO3: true,
-      allowRequest: (req, callback) => {
-        callback(null, true); // Allow all connections
-      }
+      allowEIO3: true
     });
 
+    this.io.use((socket, next) => this.authenticate(socket, next));
+
     this.io.on('connection', (socket: Socket) => {
       this.handleConnection(socket);
     });
@@ -35,25 +131,141 @@ export class WebSocketService {
     logger.info('WebSocket service initialized');
   }
 
+  // Where `resume` requests are answered from; set by the server, which knows the data store
+  setResumeHandler(handler: ResumeHandler): void {
+    this.resumeHandler = handler;
+  }
+
+  // Where `send_message` commands are processed; the same logic as POST /message
+  setCommandHandler(handler: CommandHandler): void {
+    this.commandHandler = handler;
+  }
+
+  // How handshake tokens are checked; set by the server, which knows the accounts
+  setTokenVerifier(verifier: TokenVerifier): void {
+    this.tokenVerifier = verifier;
+  }
+
+  // Which sheets a client's user may see; until it is set every client receives every update
+  setAccessChecker(checker: AccessChecker): void {
+    this.accessChecker = checker;
+  }
+
+  private canView(client: ConnectedClient, scope: SheetScope): boolean {
+    return !this.accessChecker || this.accessChecker(client.user?.id, scope);
+  }
+
+  // Emit to the clients that may see the sheet, or to all without a scope; returns how many got it
+  private emitToViewers(event: string, data: object, scope?: SheetScope): number {
+    let count = 0;
+    this.connectedClients.forEach(client => {
+      if (!scope || this.canView(client, scope)) {
+        client.socket.emit(event, data);
+        count++;
+      }
+    });
+    return count;
+  }
+
+  // Handshake middleware: clients send `auth: { token }`; a valid token sets `socket.data.user`.
+  // Without a token the socket is anonymous, or refused when auth is required
+  private authenticate(socket: Socket, next: (error?: Error) => void): void {
+    const token = socket.handshake.auth?.token;
+    if (!token) {
+      if (config.auth.required) {
+        logger.warn(`WebSocket connection refused without a token: ${socket.id}`);
+        next(new Error('Authentication required'));
+        return;
+      }
+      next();
+      return;
+    }
+
+    try {
+      if (typeof token !== 'string' || !this.tokenVerifier) {
+        throw new CustomError('Invalid token', 401);
+      }
+      socket.data.user = this.tokenVerifier(token);
+      next();
+    } catch (error) {
+      logger.warn(`WebSocket connection refused with an invalid token: ${socket.id}`);
+      next(new Error(error instanceof CustomError ? error.message : 'Invalid token'));
+    }
+  }
+
+  // Operational errors keep their message; anything else is reported generically
+  private toErrorAck(error: unknown, fallback: string): ErrorAck {
+    return error instanceof CustomError
+      ? { success: false, error: error.message, statusCode: error.statusCode }
+      : { success: false, error: fallback, statusCode: 500 };
+  }
+
+  // The first palette color no connected client has, cycling once all are taken
+  private nextPresenceColor(): string {
+    const used = new Set(Array.from(this.connectedClients.values(), client => client.presence.color));
+    return PRESENCE_COLORS.find(color => !used.has(color)) ?? PRESENCE_COLORS[this.connectedClients.size % PRESENCE_COLORS.length];
+  }
+
   private handleConnection(socket: Socket): void {
     const clientId = socket.id;
     const connectedAt = new Date();
+    const user: AuthUser | undefined = socket.data?.user;
+    const presence: Presence = {
+      clientId,
+      name: user?.username ?? `Guest ${clientId.slice(0, 4)}`,
+      color: this.nextPresenceColor(),
+      selection: emptySelection(),
+      editing: null,
+      updatedAt: connectedAt.toISOString()
+    };
     
-    this.connectedClients.set(clientId, { socket, connectedAt });
+    this.connectedClients.set(clientId, { socket, connectedAt, user, presence });
     
     logger.info(`WebSocket client connected: ${clientId} (Total: ${this.connectedClients.size})`);
 
     // Send initial connection confirmation
     socket.emit('connected', {
       clientId,
+      name: presence.name,
+      color: presence.color,
       timestamp: connectedAt.toISOString(),
       message: 'Connected to spreadsheet server'
     });
+    this.broadcastPresence();
 
     // Handle client disconnect
     socket.on('disconnect', (reason) => {
       this.connectedClients.delete(clientId);
       logger.info(`WebSocket client disconnected: ${clientId} (Reason: ${reason}, Total: ${this.connectedClients.size})`);
+      this.broadcastPresence();
+    });
+
+    // A client reports its name, sheet, selection and the cell it is editing; fields it leaves out
+    // keep their value, except the sheet, which moves together with the selection. Signed-in
+    // users always show their username
+    socket.on('presence_update', (data: any) => {
+      if (typeof data !== 'object' || data === null) {
+        return;
+      }
+
+      const name = optionalString(typeof data.name === 'string' ? data.name.trim() : undefined);
+      if (name && !user) {
+        presence.name = name.slice(0, MAX_PRESENCE_NAME_LENGTH);
+      }
+      if ('sheetId' in data) {
+        presence.workbookId = optionalString(data.workbookId);
+        presence.sheetId = optionalString(data.sheetId);
+      }
+      if ('selection' in data) {
+        presence.selection = toSelection(data.selection);
+      }
+      if ('editing' in data) {
+        presence.editing = isIndex(data.editing?.row) && isIndex(data.editing?.col)
+          ? { row: data.editing.row, col: data.editing.col }
+          : null;
+      }
+      presence.updatedAt = new Date().toISOString();
+      this.broadcastPresence();
     });
 
     // Handle client errors
@@ -67,18 +279,70 @@ export class WebSocketService {
       socket.emit('pong', { timestamp: new Date().toISOString() });
     });
 
-    // Handle message sending
-    socket.on('send_message', (data) => {
+    // Commands sent with an acknowledgement callback are processed like POST /message and
+    // acknowledged with its response body or an error; messages without one are only logged
+    socket.on('send_message', async (data: any, ack?: (response: any) => void) => {
       logger.info(`Received message from client ${clientId}:`, data);
-      // You can add custom message handling here if needed
+      if (typeof ack !== 'function') {
+        return;
+      }
+
+      if (!data?.message || typeof data.message !== 'string') {
+        ack({ success: false, error: 'Message is required and must be a string', statusCode: 400 });
+        return;
+      }
+      if (!this.commandHandler) {
+        ack({ success: false, error: 'Commands are not available', statusCode: 503 });
+        return;
+      }
+
+      try {
+        ack(await this.commandHandler({
+          message: data.message,
+          userId: user?.id,
+          sessionId: optionalString(data.sessionId),
+          workbookId: optionalString(data.workbookId),
+          sheetId: optionalString(data.sheetId)
+        }));
+      } catch (error) {
+        logger.error(`WebSocket command failed for client ${clientId}:`, error);
+        ack(this.toErrorAck(error, 'Failed to process user message'));
+      }
+    });
+
+    // After (re)connecting a client sends the last sequence number it applied for its sheet
+    // and gets what it missed through the acknowledgement
+    socket.on('resume', async (data: any, ack?: (response: any) => void) => {
+      if (typeof ack !== 'function') {
+        return;
+      }
+
+      const since = Number(data?.since);
+      if (typeof data?.workbookId !== 'string' || typeof data?.sheetId !== 'string' || !Number.isInteger(since) || since < 0) {
+        ack({ success: false, error: 'workbookId, sheetId and a non-negative integer since are required', statusCode: 400 });
+        return;
+      }
+      if (!this.resumeHandler) {
+        ack({ success: false, error: 'Resume is not available', statusCode: 503 });
+        return;
+      }
+
+      try {
+        const result = await this.resumeHandler({ workbookId: data.workbookId, sheetId: data.sheetId }, since, user?.id);
+        logger.info(`WebSocket client ${clientId} resumed sheet ${data.sheetId} from ${since} (version ${result.version})`);
+        ack({ success: true, ...result });
+      } catch (error) {
+        logger.error(`WebSocket resume failed for client ${clientId}:`, error);
+        ack(this.toErrorAck(error, 'Failed to resume'));
+      }
     });
 
     // Log successful connection
     logger.info(`WebSocket client ${clientId} setup complete`);
   }
 
-  // Broadcast spreadsheet update to all connected clients
-  broadcastSpreadsheetUpdate(userEvent: UserEvent, actionEvent: ActionEvent, stateEvent: StateEvent): void {
+  // Broadcast spreadsheet update to the clients that may see the sheet
+  broadcastSpreadsheetUpdate(userEvent: UserEvent, actionEvent: ActionEvent, stateEvent: StateEvent, scope?: SheetScope): void {
     if (!this.io) {
       logger.warn('WebSocket service not initialized');
       return;
@@ -87,47 +351,73 @@ export class WebSocketService {
     const updateData = {
       type: 'spreadsheet_update',
       timestamp: new Date().toISOString(),
+      ...scope,
       userEvent,
       actionEvent,
       stateEvent
     };
 
-    this.io.emit('spreadsheet_update', updateData);
-    logger.info(`Broadcasted spreadsheet update to ${this.connectedClients.size} clients`);
+    const count = this.emitToViewers('spreadsheet_update', updateData, scope);
+    logger.info(`Broadcasted spreadsheet update to ${count} clients`);
   }
 
-  // Broadcast action events update
-  broadcastActionEventsUpdate(actionEvents: ActionEvent[]): void {
+  // Broadcast the cells, formats and structure changes of one sheet; `seq` orders them per sheet
+  broadcastSheetDelta(delta: SheetDelta): void {
     if (!this.io) {
       logger.warn('WebSocket service not initialized');
       return;
     }
 
     const updateData = {
-      type: 'action_events_update',
+      type: 'sheet_delta',
       timestamp: new Date().toISOString(),
-      actionEvents
+      workbookId: delta.workbookId,
+      sheetId: delta.sheetId,
+      delta
     };
 
-    this.io.emit('action_events_update', updateData);
-    logger.info(`Broadcasted action events update to ${this.connectedClients.size} clients`);
+    const count = this.emitToViewers('sheet_delta', updateData, { workbookId: delta.workbookId, sheetId: delta.sheetId });
+    logger.info(`Broadcasted delta ${delta.seq} of sheet ${delta.sheetId} to ${count} clients`);
   }
 
-  // Broadcast state events update
-  broadcastStateEventsUpdate(stateEvents: StateEvent[]): void {
+  // Broadcast everyone's presence; clients draw the others on the sheet they have open.
+  // Where someone is and what they select is left out for clients that may not see that sheet
+  broadcastPresence(): void {
     if (!this.io) {
-      logger.warn('WebSocket service not initialized');
       return;
     }
 
-    const updateData = {
-      type: 'state_events_update',
-      timestamp: new Date().toISOString(),
-      stateEvents
-    };
+    const timestamp = new Date().toISOString();
+    const presence = this.getPresence();
+    this.connectedClients.forEach(client => {
+      const users = presence.map(entry => {
+        if (!entry.workbookId || !entry.sheetId || this.canView(client, { workbookId: entry.workbookId, sheetId: entry.sheetId })) {
+          return entry;
+        }
+        const { workbookId, sheetId, ...rest } = entry;
+        return { ...rest, selection: emptySelection(), editing: null };
+      });
+      client.socket.emit('presence_update', { type: 'presence_update', timestamp, users });
+    });
+  }
 
-    this.io.emit('state_events_update', updateData);
-    logger.info(`Broadcasted state events update to ${this.connectedClients.size} clients`);
+  getPresence(): Presence[] {
+    return Array.from(this.connectedClients.values(), client => ({ ...client.presence }));
+  }
+
+  // Broadcast the workbook list after workbooks or sheets are created, renamed, deleted or shared;
+  // every client gets the list `workbooksFor` returns for its user
+  broadcastWorkbooksUpdate(workbooksFor: (userId?: string) => Workbook[]): void {
+    if (!this.io) {
+      logger.warn('WebSocket service not initialized');
+      return;
+    }
+
+    const timestamp = new Date().toISOString();
+    this.connectedClients.forEach(client => {
+      client.socket.emit('workbooks_update', { type: 'workbooks_update', timestamp, workbooks: workbooksFor(client.user?.id) });
+    });
+    logger.info(`Broadcasted workbooks update to ${this.connectedClients.size} clients`);
   }
 
   // Test broadcast function
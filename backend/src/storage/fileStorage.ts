@@ -0,0 +1,156 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { SpreadsheetState, UserEvent, ActionEvent, StateEvent, User, Workbook } from '../types';
+import type { NewEvents, SheetSnapshot, SpreadsheetSnapshot, SpreadsheetStorage } from './types';
+import { emptySheetSnapshot, reviveTimestamps, reviveUsers, reviveWorkbooks } from './types';
+import logger from '../utils/logger';
+
+type EventStream = 'user' | 'action' | 'state';
+
+interface LogEntry {
+  stream: EventStream;
+  event: UserEvent | ActionEvent | StateEvent;
+}
+
+const readIfExists = async (filePath: string): Promise<string | null> => {
+  try {
+    return await fs.readFile(filePath, 'utf8');
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+};
+
+/**
+ * Stores the workbook list in workbooks.json and, per sheet, a JSON snapshot
+ * (sheets/<id>/state.json, replaced atomically on every save) next to an
+ * append-only JSON-lines log of its events (sheets/<id>/events.log). User
+ * accounts live in users.json.
+ */
+export class FileStorage implements SpreadsheetStorage {
+  readonly driver = 'file' as const;
+  private readonly workbooksPath: string;
+  private readonly usersPath: string;
+  // Writes are chained so concurrent requests never interleave on disk
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(private readonly directory: string) {
+    this.workbooksPath = path.join(directory, 'workbooks.json');
+    this.usersPath = path.join(directory, 'users.json');
+  }
+
+  async load(): Promise<SpreadsheetSnapshot | null> {
+    const workbooksJson = await readIfExists(this.workbooksPath);
+    if (workbooksJson === null) {
+      return null;
+    }
+
+    const workbooks = reviveWorkbooks(JSON.parse(workbooksJson));
+    const sheets: Record<string, SheetSnapshot> = {};
+    for (const sheet of workbooks.flatMap(workbook => workbook.sheets)) {
+      const snapshot = await this.loadSheet(sheet.id);
+      if (snapshot) {
+        sheets[sheet.id] = snapshot;
+      }
+    }
+    return { workbooks, sheets };
+  }
+
+  saveWorkbooks(workbooks: Workbook[]): Promise<void> {
+    return this.enqueue(() => this.writeAtomically(this.workbooksPath, JSON.stringify(workbooks)));
+  }
+
+  saveSheetState(sheetId: string, state: SpreadsheetState): Promise<void> {
+    const contents = JSON.stringify(state);
+    return this.enqueue(async () => {
+      await fs.mkdir(this.sheetDirectory(sheetId), { recursive: true });
+      await this.writeAtomically(path.join(this.sheetDirectory(sheetId), 'state.json'), contents);
+    });
+  }
+
+  appendEvents(sheetId: string, events: NewEvents): Promise<void> {
+    const entries: LogEntry[] = [
+      ...(events.userEvents ?? []).map(event => ({ stream: 'user' as const, event })),
+      ...(events.actionEvents ?? []).map(event => ({ stream: 'action' as const, event })),
+      ...(events.stateEvents ?? []).map(event => ({ stream: 'state' as const, event }))
+    ];
+    if (entries.length === 0) {
+      return this.pending;
+    }
+    const lines = entries.map(entry => JSON.stringify(entry)).join('\n') + '\n';
+    return this.enqueue(async () => {
+      await fs.mkdir(this.sheetDirectory(sheetId), { recursive: true });
+      await fs.appendFile(path.join(this.sheetDirectory(sheetId), 'events.log'), lines, 'utf8');
+    });
+  }
+
+  deleteSheet(sheetId: string): Promise<void> {
+    return this.enqueue(() => fs.rm(this.sheetDirectory(sheetId), { recursive: true, force: true }));
+  }
+
+  async loadUsers(): Promise<User[]> {
+    const usersJson = await readIfExists(this.usersPath);
+    return usersJson === null ? [] : reviveUsers(JSON.parse(usersJson));
+  }
+
+  saveUsers(users: User[]): Promise<void> {
+    return this.enqueue(() => this.writeAtomically(this.usersPath, JSON.stringify(users)));
+  }
+
+  async close(): Promise<void> {
+    await this.pending;
+  }
+
+  private sheetDirectory(sheetId: string): string {
+    return path.join(this.directory, 'sheets', sheetId);
+  }
+
+  private async loadSheet(sheetId: string): Promise<SheetSnapshot | null> {
+    const stateJson = await readIfExists(path.join(this.sheetDirectory(sheetId), 'state.json'));
+    if (stateJson === null) {
+      return null;
+    }
+
+    const snapshot = emptySheetSnapshot(JSON.parse(stateJson));
+    const logPath = path.join(this.sheetDirectory(sheetId), 'events.log');
+    const log = await readIfExists(logPath) ?? '';
+
+    log.split('\n').forEach((line, index) => {
+      if (!line.trim()) {
+        return;
+      }
+      try {
+        const entry: LogEntry = JSON.parse(line);
+        if (entry.stream === 'user') snapshot.userEvents.push(entry.event as UserEvent);
+        if (entry.stream === 'action') snapshot.actionEvents.push(entry.event as ActionEvent);
+        if (entry.stream === 'state') snapshot.stateEvents.push(entry.event as StateEvent);
+      } catch {
+        // A crash mid-append can leave a truncated last line behind
+        logger.warn(`Skipping unreadable line ${index + 1} in ${logPath}`);
+      }
+    });
+
+    snapshot.userEvents = reviveTimestamps(snapshot.userEvents);
+    snapshot.actionEvents = reviveTimestamps(snapshot.actionEvents);
+    snapshot.stateEvents = reviveTimestamps(snapshot.stateEvents);
+    return snapshot;
+  }
+
+  private async writeAtomically(filePath: string, contents: string): Promise<void> {
+    const tempPath = `${filePath}.tmp`;
+    await fs.writeFile(tempPath, contents, 'utf8');
+    await fs.rename(tempPath, filePath);
+  }
+
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    const run = this.pending.then(async () => {
+      await fs.mkdir(this.directory, { recursive: true });
+      await task();
+    });
+    // Keep the chain alive after a failed write; the caller still sees the error
+    this.pending = run.catch(() => undefined);
+    return run;
+  }
+}
@@ -0,0 +1,38 @@
+import path from 'path';
+import { config } from '../config';
+import { CustomError } from '../middleware/errorHandler';
+import { FileStorage } from './fileStorage';
+import { MemoryStorage } from './memoryStorage';
+import { SqliteStorage } from './sqliteStorage';
+import type { SpreadsheetStorage, StorageDriver } from './types';
+
+export * from './types';
+export { FileStorage, MemoryStorage, SqliteStorage };
+
+export interface StorageOptions {
+  driver: StorageDriver;
+  directory: string;
+}
+
+export const createStorage = ({ driver, directory }: StorageOptions): SpreadsheetStorage => {
+  switch (driver) {
+    case 'memory':
+      return new MemoryStorage();
+    case 'file':
+      return new FileStorage(directory);
+    case 'sqlite':
+      return new SqliteStorage(path.join(directory, 'spreadsheet.sqlite'));
+    default:
+      throw new CustomError(`Unknown storage driver: ${driver}. Use memory, file or sqlite`, 500);
+  }
+};
+
+let sharedStorage: SpreadsheetStorage | null = null;
+
+// The configured storage, shared by the services so they never write the same files separately
+export const getSharedStorage = (): SpreadsheetStorage => {
+  if (!sharedStorage) {
+    sharedStorage = createStorage(config.storage);
+  }
+  return sharedStorage;
+};
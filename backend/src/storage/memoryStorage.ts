@@ -0,0 +1,70 @@
+import type { SpreadsheetState, User, Workbook } from '../types';
+import type { NewEvents, SheetSnapshot, SpreadsheetSnapshot, SpreadsheetStorage } from './types';
+import { emptySheetSnapshot, reviveTimestamps, reviveUsers, reviveWorkbooks } from './types';
+
+// Round-trip through JSON so callers get the same shapes the persistent drivers return
+const copy = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+// Keeps data for the lifetime of the process only; used by tests and as a fallback
+export class MemoryStorage implements SpreadsheetStorage {
+  readonly driver = 'memory' as const;
+  private workbooks: Workbook[] | null = null;
+  private sheets = new Map<string, SheetSnapshot>();
+  private users: User[] = [];
+
+  async load(): Promise<SpreadsheetSnapshot | null> {
+    if (!this.workbooks) {
+      return null;
+    }
+    const sheets: Record<string, SheetSnapshot> = {};
+    this.sheets.forEach((sheet, sheetId) => {
+      const stored = copy(sheet);
+      sheets[sheetId] = {
+        state: stored.state,
+        userEvents: reviveTimestamps(stored.userEvents),
+        actionEvents: reviveTimestamps(stored.actionEvents),
+        stateEvents: reviveTimestamps(stored.stateEvents)
+      };
+    });
+    return { workbooks: reviveWorkbooks(copy(this.workbooks)), sheets };
+  }
+
+  async saveWorkbooks(workbooks: Workbook[]): Promise<void> {
+    this.workbooks = copy(workbooks);
+  }
+
+  async saveSheetState(sheetId: string, state: SpreadsheetState): Promise<void> {
+    const sheet = this.sheets.get(sheetId);
+    if (sheet) {
+      sheet.state = copy(state);
+    } else {
+      this.sheets.set(sheetId, emptySheetSnapshot(copy(state)));
+    }
+  }
+
+  async appendEvents(sheetId: string, events: NewEvents): Promise<void> {
+    const sheet = this.sheets.get(sheetId);
+    if (!sheet) {
+      return;
+    }
+    sheet.userEvents.push(...copy(events.userEvents ?? []));
+    sheet.actionEvents.push(...copy(events.actionEvents ?? []));
+    sheet.stateEvents.push(...copy(events.stateEvents ?? []));
+  }
+
+  async deleteSheet(sheetId: string): Promise<void> {
+    this.sheets.delete(sheetId);
+  }
+
+  async loadUsers(): Promise<User[]> {
+    return reviveUsers(copy(this.users));
+  }
+
+  async saveUsers(users: User[]): Promise<void> {
+    this.users = copy(users);
+  }
+
+  async close(): Promise<void> {
+    // Nothing to release
+  }
+}
@@ -0,0 +1,245 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import initSqlJs, { Database } from 'sql.js';
+import type { SpreadsheetState, SpreadsheetCell, User, Workbook } from '../types';
+import type { NewEvents, SheetSnapshot, SpreadsheetSnapshot, SpreadsheetStorage } from './types';
+import { emptySheetSnapshot, reviveTimestamps, reviveUsers, reviveWorkbooks } from './types';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS workbook_meta (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS sheet_state (
+    sheet_id TEXT PRIMARY KEY,
+    data TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS sheet_cells (
+    sheet_id TEXT NOT NULL,
+    row INTEGER NOT NULL,
+    col INTEGER NOT NULL,
+    data TEXT NOT NULL,
+    PRIMARY KEY (sheet_id, row, col)
+  );
+  CREATE TABLE IF NOT EXISTS sheet_events (
+    seq INTEGER PRIMARY KEY AUTOINCREMENT,
+    sheet_id TEXT NOT NULL,
+    stream TEXT NOT NULL,
+    id TEXT NOT NULL,
+    payload TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS sheet_events_sheet ON sheet_events (sheet_id, seq);
+  CREATE TABLE IF NOT EXISTS users (
+    id TEXT PRIMARY KEY,
+    username TEXT NOT NULL UNIQUE,
+    data TEXT NOT NULL
+  );
+`;
+
+const positionKey = (row: number, col: number): string => `${row}:${col}`;
+
+/**
+ * SQLite-backed storage using sql.js (SQLite compiled to WebAssembly), so no
+ * native build step is required. The database lives in memory and is written
+ * back to `filePath` once the changes queued together have been applied.
+ */
+export class SqliteStorage implements SpreadsheetStorage {
+  readonly driver = 'sqlite' as const;
+  private db: Database | null = null;
+  private pending: Promise<void> = Promise.resolve();
+  // The database file write waiting for the queued changes, shared by every change queued before it starts
+  private write: Promise<void> | null = null;
+  // sheet ID -> position -> stored JSON of each cell, so saves only touch the rows that changed
+  private savedCells = new Map<string, Map<string, string>>();
+
+  constructor(private readonly filePath: string) {}
+
+  async load(): Promise<SpreadsheetSnapshot | null> {
+    const db = await this.open();
+
+    const workbooksJson = db.exec("SELECT value FROM workbook_meta WHERE key = 'workbooks'")[0]?.values[0]?.[0];
+    if (workbooksJson === undefined) {
+      return null;
+    }
+
+    const sheets: Record<string, SheetSnapshot> = {};
+    (db.exec('SELECT sheet_id, data FROM sheet_state')[0]?.values ?? []).forEach(([sheetId, data]) => {
+      sheets[String(sheetId)] = emptySheetSnapshot({ ...JSON.parse(String(data)), cells: [] });
+    });
+
+    (db.exec('SELECT sheet_id, row, col, data FROM sheet_cells ORDER BY sheet_id, row, col')[0]?.values ?? [])
+      .forEach(([sheetId, row, col, data]) => {
+        sheets[String(sheetId)]?.state.cells.push(JSON.parse(String(data)) as SpreadsheetCell);
+        this.savedCellsOf(String(sheetId)).set(positionKey(Number(row), Number(col)), String(data));
+      });
+
+    (db.exec('SELECT sheet_id, stream, payload FROM sheet_events ORDER BY seq')[0]?.values ?? [])
+      .forEach(([sheetId, stream, payload]) => {
+        const sheet = sheets[String(sheetId)];
+        const event = JSON.parse(String(payload));
+        if (stream === 'user') sheet?.userEvents.push(event);
+        if (stream === 'action') sheet?.actionEvents.push(event);
+        if (stream === 'state') sheet?.stateEvents.push(event);
+      });
+
+    Object.values(sheets).forEach(sheet => {
+      sheet.userEvents = reviveTimestamps(sheet.userEvents);
+      sheet.actionEvents = reviveTimestamps(sheet.actionEvents);
+      sheet.stateEvents = reviveTimestamps(sheet.stateEvents);
+    });
+    return { workbooks: reviveWorkbooks(JSON.parse(String(workbooksJson))), sheets };
+  }
+
+  saveWorkbooks(workbooks: Workbook[]): Promise<void> {
+    return this.enqueue(db => {
+      db.run('INSERT OR REPLACE INTO workbook_meta (key, value) VALUES (?, ?)', ['workbooks', JSON.stringify(workbooks)]);
+    });
+  }
+
+  saveSheetState(sheetId: string, state: SpreadsheetState): Promise<void> {
+    return this.enqueue(db => {
+      const { cells, ...rest } = state;
+      const saved = this.savedCellsOf(sheetId);
+      const stored = new Map(cells.map(cell => [positionKey(cell.row, cell.col), JSON.stringify(cell)] as const));
+      this.transaction(db, () => {
+        const upsert = db.prepare('INSERT OR REPLACE INTO sheet_cells (sheet_id, row, col, data) VALUES (?, ?, ?, ?)');
+        const remove = db.prepare('DELETE FROM sheet_cells WHERE sheet_id = ? AND row = ? AND col = ?');
+        try {
+          stored.forEach((data, key) => {
+            if (saved.get(key) !== data) {
+              upsert.run([sheetId, ...key.split(':').map(Number), data]);
+            }
+          });
+          saved.forEach((_, key) => {
+            if (!stored.has(key)) {
+              remove.run([sheetId, ...key.split(':').map(Number)]);
+            }
+          });
+        } finally {
+          upsert.free();
+          remove.free();
+        }
+        db.run('INSERT OR REPLACE INTO sheet_state (sheet_id, data) VALUES (?, ?)', [sheetId, JSON.stringify(rest)]);
+      });
+      // Remembered only once the transaction committed
+      this.savedCells.set(sheetId, stored);
+    });
+  }
+
+  appendEvents(sheetId: string, events: NewEvents): Promise<void> {
+    const entries = [
+      ...(events.userEvents ?? []).map(event => ['user', event] as const),
+      ...(events.actionEvents ?? []).map(event => ['action', event] as const),
+      ...(events.stateEvents ?? []).map(event => ['state', event] as const)
+    ];
+    if (entries.length === 0) {
+      return this.pending;
+    }
+    return this.enqueue(db => {
+      this.transaction(db, () => {
+        const insert = db.prepare('INSERT INTO sheet_events (sheet_id, stream, id, payload) VALUES (?, ?, ?, ?)');
+        try {
+          entries.forEach(([stream, event]) => insert.run([sheetId, stream, event.id, JSON.stringify(event)]));
+        } finally {
+          insert.free();
+        }
+      });
+    });
+  }
+
+  deleteSheet(sheetId: string): Promise<void> {
+    return this.enqueue(db => {
+      this.transaction(db, () => {
+        db.run('DELETE FROM sheet_cells WHERE sheet_id = ?', [sheetId]);
+        db.run('DELETE FROM sheet_state WHERE sheet_id = ?', [sheetId]);
+        db.run('DELETE FROM sheet_events WHERE sheet_id = ?', [sheetId]);
+      });
+      this.savedCells.delete(sheetId);
+    });
+  }
+
+  async loadUsers(): Promise<User[]> {
+    const db = await this.open();
+    const rows = db.exec('SELECT data FROM users ORDER BY rowid')[0]?.values ?? [];
+    return reviveUsers(rows.map(([data]) => JSON.parse(String(data))));
+  }
+
+  saveUsers(users: User[]): Promise<void> {
+    return this.enqueue(db => {
+      this.transaction(db, () => {
+        db.run('DELETE FROM users');
+        const insert = db.prepare('INSERT INTO users (id, username, data) VALUES (?, ?, ?)');
+        try {
+          users.forEach(user => insert.run([user.id, user.username, JSON.stringify(user)]));
+        } finally {
+          insert.free();
+        }
+      });
+    });
+  }
+
+  async close(): Promise<void> {
+    await this.pending;
+    this.db?.close();
+    this.db = null;
+  }
+
+  private async open(): Promise<Database> {
+    if (!this.db) {
+      const SQL = await initSqlJs();
+      let contents: Buffer | undefined;
+      try {
+        contents = await fs.readFile(this.filePath);
+      } catch (error: any) {
+        if (error.code !== 'ENOENT') {
+          throw error;
+        }
+      }
+      this.db = new SQL.Database(contents);
+      this.db.run(SCHEMA);
+    }
+    return this.db;
+  }
+
+  private transaction(db: Database, work: () => void): void {
+    db.run('BEGIN');
+    try {
+      work();
+      db.run('COMMIT');
+    } catch (error) {
+      db.run('ROLLBACK');
+      throw error;
+    }
+  }
+
+  private savedCellsOf(sheetId: string): Map<string, string> {
+    if (!this.savedCells.has(sheetId)) {
+      this.savedCells.set(sheetId, new Map());
+    }
+    return this.savedCells.get(sheetId)!;
+  }
+
+  // Apply the change, then write the whole database file atomically. Changes queued
+  // together (e.g. everything one command saves) share a single export of the database.
+  private enqueue(work: (db: Database) => void): Promise<void> {
+    const run = this.pending.then(async () => work(await this.open()));
+    this.pending = run.catch(() => undefined);
+    return run.then(() => this.scheduleWrite());
+  }
+
+  private scheduleWrite(): Promise<void> {
+    if (!this.write) {
+      const write = this.pending.then(async () => {
+        this.write = null;
+        const db = await this.open();
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        const tempPath = `${this.filePath}.tmp`;
+        await fs.writeFile(tempPath, Buffer.from(db.export()));
+        await fs.rename(tempPath, this.filePath);
+      });
+      this.write = write;
+      this.pending = write.catch(() => undefined);
+    }
+    return this.write;
+  }
+}
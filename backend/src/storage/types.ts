@@ -0,0 +1,70 @@
+import type { UserEvent, ActionEvent, StateEvent, SpreadsheetState, User, Workbook } from '../types';
+
+// State and event history of one sheet
+export interface SheetSnapshot {
+  state: SpreadsheetState;
+  userEvents: UserEvent[];
+  actionEvents: ActionEvent[];
+  stateEvents: StateEvent[];
+}
+
+// Everything needed to restore the spreadsheets after a restart
+export interface SpreadsheetSnapshot {
+  workbooks: Workbook[];
+  // Keyed by sheet ID
+  sheets: Record<string, SheetSnapshot>;
+}
+
+export interface NewEvents {
+  userEvents?: UserEvent[];
+  actionEvents?: ActionEvent[];
+  stateEvents?: StateEvent[];
+}
+
+export type StorageDriver = 'memory' | 'file' | 'sqlite';
+
+/**
+ * Persistence backend for SpreadsheetDataStore and the user accounts of
+ * AuthService. The services keep a working copy in memory and write every
+ * mutation through one of these implementations. Sheet IDs are unique across
+ * workbooks, so sheet data is keyed by sheet ID alone.
+ */
+export interface SpreadsheetStorage {
+  readonly driver: StorageDriver;
+  // Returns the persisted snapshot, or null when nothing has been saved yet
+  load(): Promise<SpreadsheetSnapshot | null>;
+  // Replace the list of workbooks and their sheets
+  saveWorkbooks(workbooks: Workbook[]): Promise<void>;
+  saveSheetState(sheetId: string, state: SpreadsheetState): Promise<void>;
+  appendEvents(sheetId: string, events: NewEvents): Promise<void>;
+  deleteSheet(sheetId: string): Promise<void>;
+  // Returns the saved accounts, or an empty list when there are none yet
+  loadUsers(): Promise<User[]>;
+  // Replace the list of accounts
+  saveUsers(users: User[]): Promise<void>;
+  close(): Promise<void>;
+}
+
+// JSON turns Date into strings; restore them when reading events back
+export const reviveTimestamps = <T extends { timestamp: Date | string }>(events: T[]): T[] => {
+  return events.map(event => ({ ...event, timestamp: new Date(event.timestamp) }));
+};
+
+export const reviveWorkbooks = (workbooks: Workbook[]): Workbook[] => {
+  return workbooks.map(workbook => ({
+    ...workbook,
+    createdAt: new Date(workbook.createdAt),
+    updatedAt: new Date(workbook.updatedAt)
+  }));
+};
+
+export const reviveUsers = (users: User[]): User[] => {
+  return users.map(user => ({ ...user, createdAt: new Date(user.createdAt) }));
+};
+
+export const emptySheetSnapshot = (state: SpreadsheetState): SheetSnapshot => ({
+  state,
+  userEvents: [],
+  actionEvents: [],
+  stateEvents: []
+});
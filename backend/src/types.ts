@@ -11,7 +11,7 @@ export interface UserEvent {
 export interface ActionEvent {
   id: string;
   timestamp: Date;
-  action: 'UPDATE_CELL' | 'INSERT_ROW' | 'DELETE_ROW' | 'INSERT_COLUMN' | 'DELETE_COLUMN' | 'FORMAT_CELL' | 'HEADER_RENAME' | 'ERROR' | 'GENERAL_MESSAGE';
+  action: 'UPDATE_CELL' | 'INSERT_ROW' | 'DELETE_ROW' | 'INSERT_COLUMN' | 'DELETE_COLUMN' | 'FORMAT_CELL' | 'HEADER_RENAME' | 'RESIZE_COLUMN' | 'RESIZE_ROW' | 'FREEZE_PANES' | 'IMPORT_CSV' | 'UNDO' | 'REDO' | 'BATCH' | 'ERROR' | 'GENERAL_MESSAGE';
   target: {
     row?: number;
     col?: number;
@@ -19,27 +19,62 @@ export interface ActionEvent {
   };
   data?: any;
   message: string;
+  userId?: string;
+  sessionId?: string;
+  // Operations that reverse this action; the undo/redo history is rebuilt from them on restart
+  undo?: UndoOperation[];
 }
 
+// One step of reversing an action. Applying operations yields the operations
+// that reverse them again, which is how redo works.
+export type UndoOperation =
+  | {
+    // Put cells back as they were; null removes the cell
+    type: 'cells';
+    sheetId: string;
+    cells: Array<{ row: number; col: number; cell: SpreadsheetCell | null }>;
+  }
+  | {
+    type: 'headers';
+    sheetId: string;
+    headers: Array<{ col: number; header: string }>;
+  }
+  | {
+    // Column widths or row heights as they were; null is the default size
+    type: 'dimensions';
+    sheetId: string;
+    axis: 'row' | 'col';
+    sizes: Array<{ index: number; size: number | null }>;
+  }
+  | {
+    // Frozen rows and columns as they were
+    type: 'freeze';
+    sheetId: string;
+    rows: number;
+    columns: number;
+  }
+  | {
+    // Insert or delete rows/columns, rewriting formula references
+    type: 'structure';
+    sheetId: string;
+    change: { type: 'insert' | 'delete'; axis: 'row' | 'col'; index: number; count: number };
+  };
+
 // StateEvent schema - updates the Spreadsheet State
 export interface StateEvent {
   id: string;
   timestamp: Date;
-  type: 'CELL_UPDATE' | 'ROW_INSERT' | 'ROW_DELETE' | 'COLUMN_INSERT' | 'COLUMN_DELETE' | 'FORMAT_CHANGE' | 'HEADER_RENAME' | 'ERROR' | 'GENERAL_MESSAGE';
+  type: 'CELL_UPDATE' | 'ROW_INSERT' | 'ROW_DELETE' | 'COLUMN_INSERT' | 'COLUMN_DELETE' | 'FORMAT_CHANGE' | 'HEADER_RENAME' | 'DIMENSION_CHANGE' | 'FREEZE_CHANGE' | 'UNDO' | 'REDO' | 'BATCH' | 'ERROR' | 'GENERAL_MESSAGE';
   cellData?: {
     row: number;
     col: number;
     value: string;
     formula?: string;
-    format?: {
-      bold?: boolean;
-      italic?: boolean;
-      color?: string;
-      backgroundColor?: string;
-    };
+    format?: CellFormat;
   };
   rowData?: {
     rowIndex: number;
+    count?: number;
     cells: Array<{
       col: number;
       value: string;
@@ -48,8 +83,49 @@ export interface StateEvent {
   };
   columnData?: {
     colIndex: number;
+    count?: number;
     header: string;
   };
+  formatData?: {
+    startRow: number;
+    startCol: number;
+    endRow: number;
+    endCol: number;
+    format: Partial<CellFormat>;
+  };
+  // Columns or rows start-end (0-based) resized to `size` pixels, or back to the default when null
+  dimensionData?: {
+    axis: 'row' | 'col';
+    start: number;
+    end: number;
+    size: number | null;
+  };
+  // Top rows and left columns that now stay in view while the rest scrolls
+  freezeData?: {
+    rows: number;
+    columns: number;
+  };
+  // The state events of the commands of a batch, in order
+  batchData?: StateEvent[];
+}
+
+// Cell Format interface
+export interface CellFormat {
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  strikethrough?: boolean;
+  color?: string;
+  backgroundColor?: string;
+  fontSize?: number;
+  textAlign?: 'left' | 'center' | 'right';
+  wrap?: boolean;
+  borders?: {
+    top?: string;
+    right?: string;
+    bottom?: string;
+    left?: string;
+  };
 }
 
 // Spreadsheet Cell interface
@@ -58,12 +134,7 @@ export interface SpreadsheetCell {
   col: number;
   value: string;
   formula?: string;
-  format?: {
-    bold?: boolean;
-    italic?: boolean;
-    color?: string;
-    backgroundColor?: string;
-  };
+  format?: CellFormat;
 }
 
 // Spreadsheet State interface
@@ -72,4 +143,102 @@ export interface SpreadsheetState {
   rows: number;
   columns: number;
   headers: string[];
-} 
\ No newline at end of file
+  // Widths and heights in pixels of the columns and rows that were resized, by 0-based index;
+  // the others have the grid's default size
+  columnWidths?: Record<number, number>;
+  rowHeights?: Record<number, number>;
+  // Top rows and left columns that stay in view while the rest scrolls; none when left out
+  frozenRows?: number;
+  frozenColumns?: number;
+  // Sequence number of the last delta included in this state
+  version?: number;
+}
+
+// One step of a sheet delta; patches are applied in order
+export type SheetPatch =
+  | {
+    // Cells as they are now, and positions that became empty
+    type: 'cells';
+    cells: SpreadsheetCell[];
+    removed: Array<{ row: number; col: number }>;
+  }
+  | {
+    // Rows/columns inserted or deleted; cells after them move, deleted ones are dropped
+    type: 'structure';
+    change: { type: 'insert' | 'delete'; axis: 'row' | 'col'; index: number; count: number };
+  };
+
+// What one change did to a sheet, broadcast instead of the whole state
+export interface SheetDelta {
+  workbookId: string;
+  sheetId: string;
+  // Increases by one per delta of the sheet, so clients can tell when they missed one
+  seq: number;
+  timestamp: Date;
+  patches: SheetPatch[];
+  rows: number;
+  columns: number;
+  // Only present when column headers changed
+  headers?: string[];
+  // Both only present when column widths or row heights changed
+  columnWidths?: Record<number, number>;
+  rowHeights?: Record<number, number>;
+  // Both only present when the frozen rows or columns changed
+  frozenRows?: number;
+  frozenColumns?: number;
+}
+
+// What a user may do on a sheet, weakest first: read it, also post general messages,
+// also change it, also delete and share it
+export type SheetRole = 'viewer' | 'commenter' | 'editor' | 'owner';
+
+// Cells only the owner and the listed users may change, e.g. "A:A", "2:5" or "B2-D10"
+export interface ProtectedRange {
+  id: string;
+  range: string;
+  editors: string[];
+}
+
+// Who a sheet is shared with; the keys of `members` are user IDs.
+// `defaultRole` applies to everyone else, including anonymous users
+export interface SheetAccess {
+  ownerId: string;
+  members: Record<string, SheetRole>;
+  defaultRole: SheetRole | null;
+  protectedRanges: ProtectedRange[];
+}
+
+// Sheet summary as listed in a workbook. Stored summaries carry the sheet's `access`
+// (none for sheets nobody has shared yet); listings for a user carry their `role` instead
+export interface SheetInfo {
+  id: string;
+  name: string;
+  access?: SheetAccess;
+  role?: SheetRole;
+}
+
+// Workbook interface - an independent document with one or more sheets
+export interface Workbook {
+  id: string;
+  name: string;
+  createdAt: Date;
+  updatedAt: Date;
+  sheets: SheetInfo[];
+}
+
+// Local user account; the password is only kept as a salted scrypt hash
+export interface User {
+  id: string;
+  username: string;
+  passwordHash: string;
+  createdAt: Date;
+}
+
+// A user as the API returns it
+export type PublicUser = Omit<User, 'passwordHash'>;
+
+// Who sent a request or opened a socket, as their token says
+export interface AuthUser {
+  id: string;
+  username: string;
+}
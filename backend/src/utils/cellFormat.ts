@@ -0,0 +1,203 @@
+import { CellFormat } from '../types';
+import { CustomError } from '../middleware/errorHandler';
+
+export const DEFAULT_CELL_FORMAT: CellFormat = {
+  bold: false,
+  italic: false,
+  color: '#000000',
+  backgroundColor: '#ffffff'
+};
+
+type BorderSide = 'top' | 'right' | 'bottom' | 'left';
+const BORDER_SIDES: BorderSide[] = ['top', 'right', 'bottom', 'left'];
+const TOGGLES = ['bold', 'italic', 'underline', 'strikethrough', 'wrap'] as const;
+const MIN_FONT_SIZE = 6;
+const MAX_FONT_SIZE = 72;
+
+// Accepts #rgb / #rrggbb and plain CSS color names (red, navy, ...)
+const parseColor = (value: string | undefined, option: string): string => {
+  if (value && (/^#([0-9a-f]{3}|[0-9a-f]{6})$/i.test(value) || /^[a-z]+$/i.test(value))) {
+    return value.toLowerCase();
+  }
+  throw new CustomError(`Invalid color for ${option}: ${value ?? '(missing)'}`, 400);
+};
+
+/**
+ * Parse the options of a format command, e.g.
+ * "bold italic color #ff0000 background #ffff00 size 14 align center border bottom wrap".
+ * Prefix a toggle with "no" ("no bold", "nobold") to turn it off, and use
+ * "clear" to reset the cells to the default format before applying the rest.
+ */
+export const parseFormatOptions = (options: string): { format: Partial<CellFormat>; clear: boolean } => {
+  const tokens = options.trim().split(/\s+/).filter(Boolean);
+  const format: Partial<CellFormat> = {};
+  let clear = false;
+
+  for (let i = 0; i < tokens.length; i++) {
+    let token = tokens[i].toLowerCase();
+
+    let enabled = true;
+    if (token === 'no' || token === 'not') {
+      enabled = false;
+      token = (tokens[++i] ?? '').toLowerCase();
+    } else if (/^no-?/.test(token) && TOGGLES.some(toggle => token.replace(/^no-?/, '') === toggle)) {
+      enabled = false;
+      token = token.replace(/^no-?/, '');
+    }
+
+    const toggle = TOGGLES.find(candidate => candidate === token);
+    if (toggle) {
+      format[toggle] = enabled;
+      continue;
+    }
+    if (!enabled) {
+      throw new CustomError(`Only bold, italic, underline, strikethrough and wrap can be turned off, got: ${token}`, 400);
+    }
+
+    switch (token) {
+      case 'clear':
+        clear = true;
+        break;
+      case 'color':
+        format.color = parseColor(tokens[++i], 'color');
+        break;
+      case 'background':
+      case 'bg':
+      case 'fill':
+        format.backgroundColor = parseColor(tokens[++i], 'background');
+        break;
+      case 'size':
+      case 'font-size': {
+        const size = Number(tokens[++i]);
+        if (!Number.isInteger(size) || size < MIN_FONT_SIZE || size > MAX_FONT_SIZE) {
+          throw new CustomError(`Font size must be a whole number between ${MIN_FONT_SIZE} and ${MAX_FONT_SIZE}`, 400);
+        }
+        format.fontSize = size;
+        break;
+      }
+      case 'align': {
+        const align = (tokens[++i] ?? '').toLowerCase();
+        if (align !== 'left' && align !== 'center' && align !== 'right') {
+          throw new CustomError(`Invalid alignment: ${align || '(missing)'}. Use left, center or right`, 400);
+        }
+        format.textAlign = align;
+        break;
+      }
+      case 'border': {
+        // border [all|none|top|right|bottom|left ...] [#color]
+        const sides: BorderSide[] = [];
+        let color = '#000000';
+        let none = false;
+        while (i + 1 < tokens.length) {
+          const next = tokens[i + 1].toLowerCase();
+          if (next === 'all') {
+            sides.push(...BORDER_SIDES);
+          } else if (next === 'none') {
+            none = true;
+          } else if (BORDER_SIDES.includes(next as BorderSide)) {
+            sides.push(next as BorderSide);
+          } else if (next.startsWith('#')) {
+            color = parseColor(next, 'border');
+          } else {
+            break;
+          }
+          i++;
+        }
+        const targetSides = sides.length > 0 ? sides : BORDER_SIDES;
+        format.borders = { ...format.borders };
+        targetSides.forEach(side => {
+          format.borders![side] = none ? 'none' : `1px solid ${color}`;
+        });
+        break;
+      }
+      default:
+        throw new CustomError(`Unknown format option: ${token}`, 400);
+    }
+  }
+
+  if (!clear && Object.keys(format).length === 0) {
+    throw new CustomError('Format command needs at least one option (e.g. bold, color #ff0000)', 400);
+  }
+
+  return { format, clear };
+};
+
+/**
+ * Validate a format given as JSON, e.g. { "bold": true, "color": "#ff0000", "borders": { "bottom": "none" } },
+ * with the same rules as the format command. Unknown keys are rejected.
+ */
+export const parseFormatObject = (value: unknown): Partial<CellFormat> => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new CustomError('Format must be an object such as { "bold": true }', 400);
+  }
+
+  const format: Partial<CellFormat> = {};
+  for (const [key, option] of Object.entries(value)) {
+    const toggle = TOGGLES.find(candidate => candidate === key);
+    if (toggle) {
+      if (typeof option !== 'boolean') {
+        throw new CustomError(`Format ${key} must be true or false`, 400);
+      }
+      format[toggle] = option;
+      continue;
+    }
+
+    switch (key) {
+      case 'color':
+      case 'backgroundColor':
+        format[key] = parseColor(typeof option === 'string' ? option : undefined, key);
+        break;
+      case 'fontSize':
+        if (!Number.isInteger(option) || (option as number) < MIN_FONT_SIZE || (option as number) > MAX_FONT_SIZE) {
+          throw new CustomError(`Font size must be a whole number between ${MIN_FONT_SIZE} and ${MAX_FONT_SIZE}`, 400);
+        }
+        format.fontSize = option as number;
+        break;
+      case 'textAlign':
+        if (option !== 'left' && option !== 'center' && option !== 'right') {
+          throw new CustomError(`Invalid alignment: ${String(option)}. Use left, center or right`, 400);
+        }
+        format.textAlign = option;
+        break;
+      case 'borders': {
+        if (typeof option !== 'object' || option === null || Array.isArray(option)) {
+          throw new CustomError('Format borders must be an object such as { "bottom": "1px solid #000000" }', 400);
+        }
+        format.borders = {};
+        for (const [side, border] of Object.entries(option)) {
+          if (!BORDER_SIDES.includes(side as BorderSide) || typeof border !== 'string' || !border.trim()) {
+            throw new CustomError(`Invalid border: ${side}. Use top, right, bottom or left with a CSS border or "none"`, 400);
+          }
+          format.borders[side as BorderSide] = border.trim();
+        }
+        break;
+      }
+      default:
+        throw new CustomError(`Unknown format option: ${key}`, 400);
+    }
+  }
+
+  return format;
+};
+
+// Merge a format patch into an existing format. Borders merge per side and
+// a side set to "none" is removed.
+export const mergeFormat = (base: CellFormat | undefined, patch: Partial<CellFormat>): CellFormat => {
+  const merged: CellFormat = { ...DEFAULT_CELL_FORMAT, ...base, ...patch };
+
+  if (patch.borders) {
+    const borders = { ...base?.borders, ...patch.borders };
+    BORDER_SIDES.forEach(side => {
+      if (borders[side] === 'none') {
+        delete borders[side];
+      }
+    });
+    if (Object.keys(borders).length > 0) {
+      merged.borders = borders;
+    } else {
+      delete merged.borders;
+    }
+  }
+
+  return merged;
+};
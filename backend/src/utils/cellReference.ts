@@ -0,0 +1,34 @@
+// Helpers for converting between A1-style references and 0-based indices
+
+// Convert column index to letter (0=A, 1=B, 25=Z, 26=AA, etc.)
+export const columnIndexToLetter = (index: number): string => {
+  let result = '';
+  while (index >= 0) {
+    result = String.fromCharCode(65 + (index % 26)) + result;
+    index = Math.floor(index / 26) - 1;
+  }
+  return result;
+};
+
+// Convert letter to column index (A=0, B=1, Z=25, AA=26, etc.)
+export const letterToColumnIndex = (letter: string): number => {
+  let result = 0;
+  for (let i = 0; i < letter.length; i++) {
+    result = result * 26 + (letter.toUpperCase().charCodeAt(i) - 64);
+  }
+  return result - 1; // Convert to 0-based index
+};
+
+// Helper function to generate column headers
+export const generateColumnHeaders = (count: number): string[] => {
+  const headers: string[] = [];
+  for (let i = 0; i < count; i++) {
+    headers.push(columnIndexToLetter(i));
+  }
+  return headers;
+};
+
+// Format 0-based row/col as a cell id (0,0 => A1)
+export const toCellId = (row: number, col: number): string => {
+  return `${columnIndexToLetter(col)}${row + 1}`;
+};
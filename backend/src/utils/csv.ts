@@ -0,0 +1,106 @@
+import { CustomError } from '../middleware/errorHandler';
+
+export interface CsvOptions {
+  delimiter: string;
+  quote: string;
+}
+
+export const DEFAULT_CSV_OPTIONS: CsvOptions = { delimiter: ',', quote: '"' };
+
+// Delimiter and quote are single characters and must differ; "\t" / "tab" select a tab
+export const resolveCsvOptions = (delimiter?: string, quote?: string): CsvOptions => {
+  const resolvedDelimiter = delimiter === undefined || delimiter === ''
+    ? DEFAULT_CSV_OPTIONS.delimiter
+    : delimiter === '\\t' || delimiter.toLowerCase() === 'tab' ? '\t' : delimiter;
+  const resolvedQuote = quote === undefined || quote === '' ? DEFAULT_CSV_OPTIONS.quote : quote;
+
+  if (resolvedDelimiter.length !== 1 || /[\r\n]/.test(resolvedDelimiter)) {
+    throw new CustomError(`Delimiter must be a single character, got: ${delimiter}`, 400);
+  }
+  if (resolvedQuote.length !== 1 || /[\r\n]/.test(resolvedQuote)) {
+    throw new CustomError(`Quote character must be a single character, got: ${quote}`, 400);
+  }
+  if (resolvedDelimiter === resolvedQuote) {
+    throw new CustomError('Delimiter and quote character must be different', 400);
+  }
+  return { delimiter: resolvedDelimiter, quote: resolvedQuote };
+};
+
+/**
+ * Parse CSV text (RFC 4180): quoted fields may contain the delimiter, line
+ * breaks and doubled quotes. Rows end at \n, \r\n or \r; a trailing line
+ * break does not add an empty row. A leading byte order mark is ignored.
+ */
+export const parseCsv = (text: string, options: CsvOptions = DEFAULT_CSV_OPTIONS): string[][] => {
+  const { delimiter, quote } = options;
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let fieldStarted = false;
+
+  const endField = () => {
+    row.push(field);
+    field = '';
+    fieldStarted = false;
+  };
+  const endRow = () => {
+    endField();
+    rows.push(row);
+    row = [];
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === quote) {
+        if (input[i + 1] === quote) {
+          field += quote;
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === quote && !fieldStarted) {
+      inQuotes = true;
+      fieldStarted = true;
+    } else if (char === delimiter) {
+      endField();
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++;
+      }
+      endRow();
+    } else {
+      field += char;
+      fieldStarted = true;
+    }
+  }
+
+  if (inQuotes) {
+    throw new CustomError('Invalid CSV: a quoted field is not closed', 400);
+  }
+  // Last row without a trailing line break
+  if (fieldStarted || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+};
+
+// Quote fields that contain the delimiter, the quote, line breaks or surrounding spaces
+const formatField = (value: string, { delimiter, quote }: CsvOptions): string => {
+  const needsQuotes = value.includes(delimiter) || value.includes(quote) || /[\r\n]/.test(value) || value !== value.trim();
+  return needsQuotes ? `${quote}${value.split(quote).join(quote + quote)}${quote}` : value;
+};
+
+// Rows are joined with \r\n as RFC 4180 recommends
+export const formatCsv = (rows: string[][], options: CsvOptions = DEFAULT_CSV_OPTIONS): string =>
+  rows.map(row => row.map(value => formatField(value, options)).join(options.delimiter)).join('\r\n');
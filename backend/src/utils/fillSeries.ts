@@ -0,0 +1,138 @@
+import { isFormula, translateFormula } from '../services/formulaEngine';
+
+// Extending a run of cells the way a spreadsheet fill handle does
+
+// Which way one source run is extended: rows and columns moved per filled cell
+export interface FillStep {
+  rows: number;
+  cols: number;
+}
+
+// The value at a position along the fill; the sources are positions 0..n-1
+type Series = (position: number) => string;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const NAME_LISTS = [
+  ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'],
+  ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'],
+  ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'],
+  ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'],
+];
+
+// Drop floating point noise such as 0.30000000000000004
+const formatNumber = (value: number): string => String(parseFloat(value.toPrecision(12)));
+
+// Least-squares line through (index, value), the trend desktop spreadsheets extend
+const linearTrend = (values: number[]): (position: number) => number => {
+  const n = values.length;
+  const meanX = (n - 1) / 2;
+  const meanY = values.reduce((sum, value) => sum + value, 0) / n;
+  const spread = values.reduce((sum, _, x) => sum + (x - meanX) ** 2, 0);
+  const slope = values.reduce((sum, value, x) => sum + (x - meanX) * (value - meanY), 0) / spread;
+  return position => meanY + slope * (position - meanX);
+};
+
+const numberSeries = (sources: string[]): Series | null => {
+  if (sources.length < 2 || !sources.every(source => /^-?\d+(\.\d+)?$/.test(source.trim()))) return null;
+  const trend = linearTrend(sources.map(Number));
+  return position => formatNumber(trend(position));
+};
+
+interface ParsedDate {
+  date: Date;
+  format: 'iso' | 'us';
+}
+
+const parseDate = (value: string): ParsedDate | null => {
+  const iso = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  const us = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  const [year, month, day] = iso
+    ? [Number(iso[1]), Number(iso[2]), Number(iso[3])]
+    : us ? [Number(us[3]), Number(us[1]), Number(us[2])] : [NaN, NaN, NaN];
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (isNaN(date.getTime()) || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return { date, format: iso ? 'iso' : 'us' };
+};
+
+const formatDate = (date: Date, format: ParsedDate['format']): string => {
+  const [year, month, day] = [date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate()];
+  return format === 'iso'
+    ? `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`
+    : `${month}/${day}/${year}`;
+};
+
+// Keep the day of month, or the month's last day when it is shorter (Jan 31 + 1 month = Feb 28)
+const addMonths = (date: Date, months: number): Date => {
+  const target = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(date.getUTCDate(), lastDay));
+  return target;
+};
+
+const monthIndex = (date: Date): number => date.getUTCFullYear() * 12 + date.getUTCMonth();
+
+// A single date counts up by days; dates on the same day of month step by months, others by days
+const dateSeries = (sources: string[]): Series | null => {
+  const dates = sources.map(parseDate);
+  if (dates.some(parsed => !parsed || parsed.format !== dates[0]!.format)) return null;
+  const [first, second] = dates as ParsedDate[];
+  const { format } = first;
+
+  if (second && dates.every(parsed => parsed!.date.getUTCDate() === first.date.getUTCDate())) {
+    const months = monthIndex(second.date) - monthIndex(first.date);
+    return position => formatDate(addMonths(first.date, months * position), format);
+  }
+  const days = second ? Math.round((second.date.getTime() - first.date.getTime()) / DAY_MS) : 1;
+  return position => formatDate(new Date(first.date.getTime() + days * position * DAY_MS), format);
+};
+
+// Weekday and month names, full or short, written in the case of the first one
+const nameSeries = (sources: string[]): Series | null => {
+  const lower = sources.map(source => source.trim().toLowerCase());
+  const names = NAME_LISTS.find(list => lower.every(source => list.some(name => name.toLowerCase() === source)));
+  if (!names) return null;
+
+  const indexes = lower.map(source => names.findIndex(name => name.toLowerCase() === source));
+  const step = indexes.length > 1 ? indexes[1] - indexes[0] : 1;
+  const sample = sources[0].trim();
+  const withCase = (name: string): string =>
+    sample === sample.toUpperCase() ? name.toUpperCase() : sample === sample.toLowerCase() ? name.toLowerCase() : name;
+  const count = names.length;
+  return position => withCase(names[(((indexes[0] + step * position) % count) + count) % count]);
+};
+
+// Text ending in a number, such as "Item 1" or "Q01": the number counts on, keeping its zero padding
+const numberedTextSeries = (sources: string[]): Series | null => {
+  const matches = sources.map(source => source.match(/^(.*\D)(\d+)$/));
+  if (matches.some(match => !match || match[1] !== matches[0]![1])) return null;
+  const [prefix, digits] = [matches[0]![1], matches[0]![2]];
+  const width = digits.startsWith('0') ? digits.length : 1;
+  const numbers = matches.map(match => Number(match![2]));
+  const next = numbers.length > 1 ? linearTrend(numbers) : (position: number) => numbers[0] + position;
+  return position => `${prefix}${String(Math.abs(Math.round(next(position)))).padStart(width, '0')}`;
+};
+
+/**
+ * The next `count` cells after `sources`, which are what was typed into the run being
+ * extended, in fill order. Numbers continue their linear trend; dates, weekday and month
+ * names and numbered text keep their step. Anything else, including runs with formulas,
+ * repeats; repeated formulas move their relative references along by `step` per cell.
+ */
+export const extendSeries = (sources: string[], count: number, step: FillStep): string[] => {
+  const positions = Array.from({ length: count }, (_, offset) => sources.length + offset);
+  const hasFormula = sources.some(source => isFormula(source));
+  const series = hasFormula || sources.every(source => source.trim() === '')
+    ? null
+    : numberSeries(sources) ?? dateSeries(sources) ?? nameSeries(sources) ?? numberedTextSeries(sources);
+
+  if (series) {
+    return positions.map(series);
+  }
+  return positions.map(position => {
+    const index = position % sources.length;
+    const source = sources[index];
+    const distance = position - index;
+    return isFormula(source) ? translateFormula(source, step.rows * distance, step.cols * distance) : source;
+  });
+};
@@ -0,0 +1,60 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { CustomError } from '../middleware/errorHandler';
+
+// Minimal JSON Web Tokens signed with HMAC-SHA256 (HS256), the only algorithm accepted
+
+export interface TokenClaims {
+  // User ID
+  sub: string;
+  username: string;
+  // Issued at / expires at, in seconds since the epoch
+  iat: number;
+  exp: number;
+}
+
+const HEADER = Buffer.from(JSON.stringify({ alg: 'HS256', typ: 'JWT' })).toString('base64url');
+
+const sign = (content: string, secret: string): Buffer => createHmac('sha256', secret).update(content).digest();
+
+const invalid = (reason: string): CustomError => new CustomError(`Invalid token: ${reason}`, 401);
+
+export const signToken = (
+  claims: Pick<TokenClaims, 'sub' | 'username'>,
+  secret: string,
+  ttlSeconds: number,
+  now: number = Date.now()
+): string => {
+  const iat = Math.floor(now / 1000);
+  const payload = Buffer.from(JSON.stringify({ ...claims, iat, exp: iat + ttlSeconds })).toString('base64url');
+  return `${HEADER}.${payload}.${sign(`${HEADER}.${payload}`, secret).toString('base64url')}`;
+};
+
+// The claims of a token this server signed that has not expired yet; throws a 401 otherwise
+export const verifyToken = (token: string, secret: string, now: number = Date.now()): TokenClaims => {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    throw invalid('malformed');
+  }
+  const [header, payload, signature] = parts;
+
+  // Comparing the header as a whole also rejects `alg: none` and every other algorithm
+  const expected = sign(`${header}.${payload}`, secret);
+  const actual = Buffer.from(signature, 'base64url');
+  if (header !== HEADER || actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    throw invalid('bad signature');
+  }
+
+  let claims: TokenClaims;
+  try {
+    claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+  } catch {
+    throw invalid('malformed');
+  }
+  if (typeof claims.sub !== 'string' || typeof claims.username !== 'string' || typeof claims.exp !== 'number') {
+    throw invalid('missing claims');
+  }
+  if (claims.exp <= Math.floor(now / 1000)) {
+    throw invalid('expired');
+  }
+  return claims;
+};
@@ -0,0 +1,468 @@
+import { CellFormat, SpreadsheetCell, SpreadsheetState } from '../types';
+import { CustomError } from '../middleware/errorHandler';
+import { translateFormula } from '../services/formulaEngine';
+import { DEFAULT_CELL_FORMAT, mergeFormat } from './cellFormat';
+import { columnIndexToLetter, letterToColumnIndex, toCellId } from './cellReference';
+import { readZip, writeZip } from './zip';
+import { XmlElement, child, children, escapeXml, parseXml } from './xml';
+
+// Reading and writing Office Open XML workbooks (.xlsx) for the sheet model
+
+export const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+export interface XlsxSheet {
+  name: string;
+  cells: SpreadsheetCell[];
+}
+
+const MAIN_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const RELATIONSHIPS_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const PACKAGE_RELATIONSHIPS_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+const EXCEL_ERRORS = ['#NULL!', '#DIV/0!', '#VALUE!', '#REF!', '#NAME?', '#NUM!', '#N/A'];
+// Excel's default font size, which the grid shows without an explicit size
+const DEFAULT_FONT_SIZE = 11;
+
+// Colors of the legacy indexed palette that files still use for basic colors
+const INDEXED_COLORS = ['#000000', '#ffffff', '#ff0000', '#00ff00', '#0000ff', '#ffff00', '#ff00ff', '#00ffff'];
+const NAMED_COLORS: Record<string, string> = {
+  black: '#000000', white: '#ffffff', red: '#ff0000', green: '#008000', blue: '#0000ff', yellow: '#ffff00',
+  orange: '#ffa500', purple: '#800080', gray: '#808080', grey: '#808080', silver: '#c0c0c0', maroon: '#800000',
+  navy: '#000080', teal: '#008080', olive: '#808000', lime: '#00ff00', aqua: '#00ffff', cyan: '#00ffff',
+  fuchsia: '#ff00ff', magenta: '#ff00ff', pink: '#ffc0cb', brown: '#a52a2a'
+};
+
+const invalid = (reason: string): CustomError => new CustomError(`Invalid XLSX file: ${reason}`, 400);
+
+// --- Reading ---
+
+const readPart = (files: Map<string, Buffer>, path: string): XmlElement | undefined => {
+  const data = files.get(path);
+  return data ? parseXml(data.toString('utf8')) : undefined;
+};
+
+// Relationship targets are relative to the folder of the part that owns them
+const resolveTarget = (base: string, target: string): string => {
+  if (target.startsWith('/')) {
+    return target.slice(1);
+  }
+  const parts = base.split('/').slice(0, -1);
+  target.split('/').forEach(part => {
+    if (part === '..') {
+      parts.pop();
+    } else if (part !== '.') {
+      parts.push(part);
+    }
+  });
+  return parts.join('/');
+};
+
+const readRelationships = (files: Map<string, Buffer>, partPath: string): Map<string, { type: string; target: string }> => {
+  const folder = partPath.split('/').slice(0, -1).join('/');
+  const file = partPath.split('/').pop();
+  const relationships = readPart(files, `${folder ? `${folder}/` : ''}_rels/${file}.rels`);
+  return new Map(children(relationships, 'Relationship').map(entry => [
+    entry.attributes.Id,
+    { type: entry.attributes.Type ?? '', target: resolveTarget(partPath, entry.attributes.Target ?? '') }
+  ]));
+};
+
+// Text of a shared or inline string, skipping phonetic runs
+const richText = (element: XmlElement | undefined): string => {
+  if (!element) {
+    return '';
+  }
+  const text = child(element, 't');
+  if (text) {
+    return text.text;
+  }
+  return children(element, 'r').map(run => child(run, 't')?.text ?? '').join('');
+};
+
+const readColor = (element: XmlElement | undefined): string | undefined => {
+  const rgb = element?.attributes.rgb;
+  if (rgb && /^[0-9a-f]{6,8}$/i.test(rgb)) {
+    return `#${rgb.slice(-6).toLowerCase()}`;
+  }
+  const indexed = element?.attributes.indexed;
+  return indexed === undefined ? undefined : INDEXED_COLORS[Number(indexed) % 8];
+};
+
+// <b/> means on, <b val="0"/> off
+const readToggle = (element: XmlElement | undefined): boolean | undefined =>
+  element ? !['0', 'false'].includes(element.attributes.val ?? '') : undefined;
+
+const readBorder = (side: XmlElement | undefined): string | undefined => {
+  const style = side?.attributes.style;
+  if (!style || style === 'none') {
+    return undefined;
+  }
+  const color = readColor(child(side, 'color')) ?? '#000000';
+  if (style === 'double') {
+    return `3px double ${color}`;
+  }
+  const width = style.startsWith('medium') ? 2 : style === 'thick' ? 3 : 1;
+  const line = style.includes('Dot') || style === 'dotted' || style === 'hair' ? 'dotted' : style.includes('ash') ? 'dashed' : 'solid';
+  return `${width}px ${line} ${color}`;
+};
+
+interface CellStyle {
+  format: Partial<CellFormat>;
+  isDate: boolean;
+}
+
+const BUILT_IN_DATE_FORMATS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47]);
+
+// A number format shows a date when it uses day/year tokens outside quotes and brackets
+const isDateFormatCode = (code: string): boolean => /[dy]/i.test(code.replace(/"[^"]*"|\[[^\]]*\]|\\./g, ''));
+
+const readStyles = (styles: XmlElement | undefined): CellStyle[] => {
+  const customFormats = new Map(children(child(styles, 'numFmts'), 'numFmt')
+    .map(entry => [Number(entry.attributes.numFmtId), entry.attributes.formatCode ?? '']));
+  const fonts = children(child(styles, 'fonts'), 'font');
+  const fills = children(child(styles, 'fills'), 'fill');
+  const borders = children(child(styles, 'borders'), 'border');
+  const defaultSize = Number(child(fonts[0], 'sz')?.attributes.val) || DEFAULT_FONT_SIZE;
+
+  return children(child(styles, 'cellXfs'), 'xf').map(xf => {
+    const format: Partial<CellFormat> = {};
+    const font = fonts[Number(xf.attributes.fontId ?? 0)];
+    if (font) {
+      const toggles = { bold: 'b', italic: 'i', strikethrough: 'strike' } as const;
+      (Object.keys(toggles) as Array<keyof typeof toggles>).forEach(key => {
+        if (readToggle(child(font, toggles[key]))) {
+          format[key] = true;
+        }
+      });
+      const underline = child(font, 'u');
+      if (underline && underline.attributes.val !== 'none') {
+        format.underline = true;
+      }
+      const color = readColor(child(font, 'color'));
+      if (color) {
+        format.color = color;
+      }
+      const size = Number(child(font, 'sz')?.attributes.val);
+      if (size && size !== defaultSize) {
+        format.fontSize = Math.min(72, Math.max(6, Math.round(size)));
+      }
+    }
+
+    const pattern = child(fills[Number(xf.attributes.fillId ?? 0)], 'patternFill');
+    if (pattern?.attributes.patternType === 'solid') {
+      const background = readColor(child(pattern, 'fgColor'));
+      if (background) {
+        format.backgroundColor = background;
+      }
+    }
+
+    const border = borders[Number(xf.attributes.borderId ?? 0)];
+    (['top', 'right', 'bottom', 'left'] as const).forEach(side => {
+      const value = readBorder(child(border, side) ?? child(border, side === 'left' ? 'start' : side === 'right' ? 'end' : side));
+      if (value) {
+        format.borders = { ...format.borders, [side]: value };
+      }
+    });
+
+    const alignment = child(xf, 'alignment');
+    const horizontal = alignment?.attributes.horizontal;
+    if (horizontal === 'left' || horizontal === 'right') {
+      format.textAlign = horizontal;
+    } else if (horizontal === 'center' || horizontal === 'centerContinuous') {
+      format.textAlign = 'center';
+    }
+    if (['1', 'true'].includes(alignment?.attributes.wrapText ?? '')) {
+      format.wrap = true;
+    }
+
+    const numFmtId = Number(xf.attributes.numFmtId ?? 0);
+    const isDate = BUILT_IN_DATE_FORMATS.has(numFmtId) || isDateFormatCode(customFormats.get(numFmtId) ?? '');
+    return { format, isDate };
+  });
+};
+
+// Excel serial dates count days from 1899-12-30 (which absorbs the 1900 leap year bug)
+const serialToDate = (serial: number): string => {
+  const date = new Date(Math.round((serial - 25569) * 86400000));
+  const iso = date.toISOString();
+  return serial % 1 === 0 ? iso.slice(0, 10) : `${iso.slice(0, 10)} ${iso.slice(11, 16)}`;
+};
+
+// Show numbers the way Excel does, with at most 15 significant digits
+const formatNumber = (raw: string): string => {
+  const number = Number(raw);
+  return Number.isFinite(number) ? String(Number(number.toPrecision(15))) : raw;
+};
+
+const readSheet = (worksheet: XmlElement, sharedStrings: string[], styles: CellStyle[]): SpreadsheetCell[] => {
+  const cells: SpreadsheetCell[] = [];
+  // Shared formulas store their text once, on the first cell of the group
+  const sharedFormulas = new Map<string, { row: number; col: number; formula: string }>();
+  let rowIndex = -1;
+
+  children(child(worksheet, 'sheetData'), 'row').forEach(rowElement => {
+    rowIndex = rowElement.attributes.r ? Number(rowElement.attributes.r) - 1 : rowIndex + 1;
+    // Rows are numbered from 1; r="0", negative and non-numeric rows name no position
+    if (!Number.isInteger(rowIndex) || rowIndex < 0) {
+      throw invalid(`row ${rowElement.attributes.r} is not a valid row number`);
+    }
+    let colIndex = -1;
+
+    children(rowElement, 'c').forEach(cellElement => {
+      const { r } = cellElement.attributes;
+      const reference = r?.match(/^([A-Z]+)(\d+)$/i);
+      if (r !== undefined && (!reference || Number(reference[2]) < 1)) {
+        throw invalid(`cell ${r} is not a valid cell reference`);
+      }
+      const row = reference ? Number(reference[2]) - 1 : rowIndex;
+      const col = reference ? letterToColumnIndex(reference[1]) : colIndex + 1;
+      colIndex = col;
+
+      const style = styles[Number(cellElement.attributes.s ?? 0)];
+      const raw = child(cellElement, 'v')?.text;
+      let value = '';
+      switch (cellElement.attributes.t) {
+        case 's':
+          value = sharedStrings[Number(raw)] ?? '';
+          break;
+        case 'inlineStr':
+          value = richText(child(cellElement, 'is'));
+          break;
+        case 'b':
+          value = raw === '1' ? 'TRUE' : 'FALSE';
+          break;
+        case 'str':
+        case 'e':
+          value = raw ?? '';
+          break;
+        default:
+          if (raw !== undefined && raw !== '') {
+            value = style?.isDate && Number.isFinite(Number(raw)) ? serialToDate(Number(raw)) : formatNumber(raw);
+          }
+      }
+
+      let formula: string | undefined;
+      const formulaElement = child(cellElement, 'f');
+      if (formulaElement) {
+        const { t: type, si } = formulaElement.attributes;
+        if (formulaElement.text.trim()) {
+          // Functions newer than Excel 2007 are saved with an _xlfn. prefix
+          formula = `=${formulaElement.text.trim().replace(/_xlfn\.|_xlws\./g, '')}`;
+          if (type === 'shared' && si !== undefined) {
+            sharedFormulas.set(si, { row, col, formula });
+          }
+        } else if (type === 'shared' && si !== undefined && sharedFormulas.has(si)) {
+          const master = sharedFormulas.get(si)!;
+          formula = translateFormula(master.formula, row - master.row, col - master.col);
+        }
+      }
+
+      const hasFormat = style !== undefined && Object.keys(style.format).length > 0;
+      if (value === '' && !formula && !hasFormat) {
+        return;
+      }
+      const cell: SpreadsheetCell = { row, col, value, format: mergeFormat(DEFAULT_CELL_FORMAT, style?.format ?? {}) };
+      if (formula) {
+        cell.formula = formula;
+      }
+      cells.push(cell);
+    });
+  });
+
+  return cells;
+};
+
+/**
+ * Read the worksheets of an .xlsx file with their cached values, formulas and
+ * the formatting the cell model supports. Chart sheets are skipped.
+ */
+export const readXlsx = (buffer: Buffer): XlsxSheet[] => {
+  const files = readZip(buffer);
+  const rootRelationships = readRelationships(files, '');
+  const workbookPath = [...rootRelationships.values()].find(entry => entry.type.endsWith('/officeDocument'))?.target ?? 'xl/workbook.xml';
+  const workbook = readPart(files, workbookPath);
+  if (!workbook || workbook.name !== 'workbook') {
+    throw invalid('no workbook found');
+  }
+
+  const relationships = readRelationships(files, workbookPath);
+  const partOfType = (type: string) => [...relationships.values()].find(entry => entry.type.endsWith(`/${type}`))?.target;
+  const sharedStrings = children(readPart(files, partOfType('sharedStrings') ?? 'xl/sharedStrings.xml'), 'si').map(richText);
+  const styles = readStyles(readPart(files, partOfType('styles') ?? 'xl/styles.xml'));
+
+  const sheets = children(child(workbook, 'sheets'), 'sheet').flatMap(entry => {
+    const target = relationships.get(entry.attributes.id ?? '')?.target;
+    const worksheet = target ? readPart(files, target) : undefined;
+    if (!worksheet || worksheet.name !== 'worksheet') {
+      return [];
+    }
+    return [{ name: entry.attributes.name ?? '', cells: readSheet(worksheet, sharedStrings, styles) }];
+  });
+
+  if (sheets.length === 0) {
+    throw invalid('the workbook has no worksheets');
+  }
+  return sheets;
+};
+
+// --- Writing ---
+
+const toArgb = (color: string | undefined): string | undefined => {
+  if (!color) {
+    return undefined;
+  }
+  const hex = NAMED_COLORS[color.toLowerCase()] ?? color;
+  const short = hex.match(/^#([0-9a-f])([0-9a-f])([0-9a-f])$/i);
+  const full = short ? `#${short[1]}${short[1]}${short[2]}${short[2]}${short[3]}${short[3]}` : hex;
+  return /^#[0-9a-f]{6}$/i.test(full) ? `FF${full.slice(1).toUpperCase()}` : undefined;
+};
+
+// "1px solid #ff0000" becomes a thin border with that color
+const writeBorderSide = (side: string, value: string | undefined): string => {
+  const match = value?.match(/^(\d+)px\s+(solid|dashed|dotted|double)(?:\s+(\S+))?$/);
+  if (!match) {
+    return `<${side}/>`;
+  }
+  const width = Number(match[1]);
+  const style = match[2] === 'double'
+    ? 'double'
+    : match[2] === 'solid'
+      ? (width >= 3 ? 'thick' : width === 2 ? 'medium' : 'thin')
+      : match[2] === 'dashed' ? (width >= 2 ? 'mediumDashed' : 'dashed') : 'dotted';
+  const color = toArgb(match[3]);
+  return `<${side} style="${style}">${color ? `<color rgb="${color}"/>` : ''}</${side}>`;
+};
+
+// Collects the distinct fonts, fills, borders and cell formats used while writing sheets
+class StyleTable {
+  private fonts = [`<font><sz val="${DEFAULT_FONT_SIZE}"/><name val="Calibri"/></font>`];
+  private fills = ['<fill><patternFill patternType="none"/></fill>', '<fill><patternFill patternType="gray125"/></fill>'];
+  private borders = ['<border><left/><right/><top/><bottom/><diagonal/></border>'];
+  private formats = ['<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>'];
+
+  private indexOf(list: string[], entry: string): number {
+    const index = list.indexOf(entry);
+    return index >= 0 ? index : list.push(entry) - 1;
+  }
+
+  // Index of the cell format for `format`; 0 is the default look
+  styleIndex(format: CellFormat | undefined): number {
+    if (!format) {
+      return 0;
+    }
+    const color = toArgb(format.color);
+    const font = '<font>' +
+      (format.bold ? '<b/>' : '') +
+      (format.italic ? '<i/>' : '') +
+      (format.strikethrough ? '<strike/>' : '') +
+      (format.underline ? '<u/>' : '') +
+      `<sz val="${format.fontSize ?? DEFAULT_FONT_SIZE}"/>` +
+      (color && color !== 'FF000000' ? `<color rgb="${color}"/>` : '') +
+      '<name val="Calibri"/></font>';
+    const background = toArgb(format.backgroundColor);
+    const fill = background && background !== 'FFFFFFFF'
+      ? `<fill><patternFill patternType="solid"><fgColor rgb="${background}"/><bgColor indexed="64"/></patternFill></fill>`
+      : this.fills[0];
+    const border = '<border>' +
+      writeBorderSide('left', format.borders?.left) +
+      writeBorderSide('right', format.borders?.right) +
+      writeBorderSide('top', format.borders?.top) +
+      writeBorderSide('bottom', format.borders?.bottom) +
+      '<diagonal/></border>';
+
+    const fontId = this.indexOf(this.fonts, font);
+    const fillId = this.indexOf(this.fills, fill);
+    const borderId = this.indexOf(this.borders, border);
+    const alignment = format.textAlign || format.wrap
+      ? `<alignment${format.textAlign ? ` horizontal="${format.textAlign}"` : ''}${format.wrap ? ' wrapText="1"' : ''}/>`
+      : '';
+    const xf = `<xf numFmtId="0" fontId="${fontId}" fillId="${fillId}" borderId="${borderId}" xfId="0"` +
+      (fontId ? ' applyFont="1"' : '') +
+      (fillId ? ' applyFill="1"' : '') +
+      (borderId ? ' applyBorder="1"' : '') +
+      (alignment ? ` applyAlignment="1">${alignment}</xf>` : '/>');
+    return this.indexOf(this.formats, xf);
+  }
+
+  toXml(): string {
+    const list = (tag: string, entries: string[]) => `<${tag} count="${entries.length}">${entries.join('')}</${tag}>`;
+    return `${XML_HEADER}<styleSheet xmlns="${MAIN_NS}">` +
+      list('fonts', this.fonts) +
+      list('fills', this.fills) +
+      list('borders', this.borders) +
+      '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+      list('cellXfs', this.formats) +
+      '<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>' +
+      '</styleSheet>';
+  }
+}
+
+// Only values that read back unchanged are written as numbers, so "007" stays text
+const isNumeric = (value: string): boolean => value.trim() !== '' && Number.isFinite(Number(value)) && String(Number(value)) === value;
+
+const writeCell = (cell: SpreadsheetCell, style: number): string => {
+  const attributes = `r="${toCellId(cell.row, cell.col)}"${style ? ` s="${style}"` : ''}`;
+  if (cell.formula) {
+    const type = isNumeric(cell.value) ? '' : EXCEL_ERRORS.includes(cell.value) ? ' t="e"' : ' t="str"';
+    return `<c ${attributes}${type}><f>${escapeXml(cell.formula.slice(1))}</f><v>${escapeXml(cell.value)}</v></c>`;
+  }
+  if (cell.value === '') {
+    return `<c ${attributes}/>`;
+  }
+  if (isNumeric(cell.value)) {
+    return `<c ${attributes}><v>${cell.value}</v></c>`;
+  }
+  return `<c ${attributes} t="inlineStr"><is><t xml:space="preserve">${escapeXml(cell.value)}</t></is></c>`;
+};
+
+const writeSheet = (state: SpreadsheetState, styles: StyleTable): string => {
+  const rows = new Map<number, SpreadsheetCell[]>();
+  state.cells.forEach(cell => {
+    if (!rows.has(cell.row)) {
+      rows.set(cell.row, []);
+    }
+    rows.get(cell.row)!.push(cell);
+  });
+  const rowXml = [...rows.keys()].sort((a, b) => a - b).map(row => {
+    const cells = rows.get(row)!.sort((a, b) => a.col - b.col);
+    return `<row r="${row + 1}">${cells.map(cell => writeCell(cell, styles.styleIndex(cell.format))).join('')}</row>`;
+  });
+
+  const lastRow = state.cells.reduce((max, cell) => Math.max(max, cell.row), 0);
+  const lastCol = state.cells.reduce((max, cell) => Math.max(max, cell.col), 0);
+  return `${XML_HEADER}<worksheet xmlns="${MAIN_NS}" xmlns:r="${RELATIONSHIPS_NS}">` +
+    `<dimension ref="A1:${columnIndexToLetter(lastCol)}${lastRow + 1}"/>` +
+    `<sheetData>${rowXml.join('')}</sheetData>` +
+    '</worksheet>';
+};
+
+// Write sheets as an .xlsx workbook with values, formulas (plus their current results) and formats
+export const writeXlsx = (sheets: Array<{ name: string; state: SpreadsheetState }>): Buffer => {
+  const styles = new StyleTable();
+  const worksheets = sheets.map(sheet => writeSheet(sheet.state, styles));
+  const sheetEntries = sheets.map((sheet, index) =>
+    `<sheet name="${escapeXml(sheet.name)}" sheetId="${index + 1}" r:id="rId${index + 1}"/>`);
+  const sheetRelationships = sheets.map((_, index) =>
+    `<Relationship Id="rId${index + 1}" Type="${RELATIONSHIPS_NS}/worksheet" Target="worksheets/sheet${index + 1}.xml"/>`);
+  const sheetContentTypes = sheets.map((_, index) =>
+    `<Override PartName="/xl/worksheets/sheet${index + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`);
+
+  const text = (name: string, xml: string) => ({ name, data: Buffer.from(xml, 'utf8') });
+  return writeZip([
+    text('[Content_Types].xml', `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+      '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+      `${sheetContentTypes.join('')}</Types>`),
+    text('_rels/.rels', `${XML_HEADER}<Relationships xmlns="${PACKAGE_RELATIONSHIPS_NS}">` +
+      `<Relationship Id="rId1" Type="${RELATIONSHIPS_NS}/officeDocument" Target="xl/workbook.xml"/></Relationships>`),
+    text('xl/workbook.xml', `${XML_HEADER}<workbook xmlns="${MAIN_NS}" xmlns:r="${RELATIONSHIPS_NS}">` +
+      `<sheets>${sheetEntries.join('')}</sheets></workbook>`),
+    text('xl/_rels/workbook.xml.rels', `${XML_HEADER}<Relationships xmlns="${PACKAGE_RELATIONSHIPS_NS}">` +
+      sheetRelationships.join('') +
+      `<Relationship Id="rId${sheets.length + 1}" Type="${RELATIONSHIPS_NS}/styles" Target="styles.xml"/></Relationships>`),
+    text('xl/styles.xml', styles.toXml()),
+    ...worksheets.map((xml, index) => text(`xl/worksheets/sheet${index + 1}.xml`, xml))
+  ]);
+};
@@ -0,0 +1,115 @@
+import { CustomError } from '../middleware/errorHandler';
+
+// Small non-validating XML parser and writer helpers for the parts of an XLSX package
+
+export interface XmlElement {
+  // Local name without namespace prefix ("x:row" becomes "row")
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string;
+}
+
+const ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+
+export const decodeXml = (value: string): string =>
+  value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1] === 'x' || entity[1] === 'X' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      // Surrogates and values past U+10FFFF are not characters; String.fromCodePoint would throw a RangeError
+      if (Number.isNaN(code) || code > 0x10ffff || (code >= 0xd800 && code <= 0xdfff)) {
+        throw new CustomError(`Invalid XLSX file: ${match} is not a valid character reference`, 400);
+      }
+      return String.fromCodePoint(code);
+    }
+    return ENTITIES[entity] ?? match;
+  });
+
+// Escape text and attribute values; control characters other than tab and line breaks are not allowed in XML 1.0
+export const escapeXml = (value: string): string =>
+  value
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const localName = (name: string): string => name.slice(name.indexOf(':') + 1);
+
+// Parse a document into its root element; text is collected on the element that directly contains it
+export const parseXml = (xml: string): XmlElement => {
+  const root: XmlElement = { name: '#document', attributes: {}, children: [], text: '' };
+  const stack: XmlElement[] = [root];
+  const tagPattern = /<(\/?)([^\s/>]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/y;
+  const attributePattern = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+  let position = 0;
+
+  while (position < xml.length) {
+    const next = xml.indexOf('<', position);
+    const textEnd = next < 0 ? xml.length : next;
+    if (textEnd > position) {
+      stack[stack.length - 1].text += decodeXml(xml.slice(position, textEnd));
+    }
+    if (next < 0) {
+      break;
+    }
+
+    // Position just after `marker`, which must follow the current construct
+    const skipPast = (marker: string): number => {
+      const end = xml.indexOf(marker, next);
+      if (end < 0) {
+        throw new CustomError('Invalid XLSX file: malformed XML', 400);
+      }
+      return end + marker.length;
+    };
+
+    if (xml.startsWith('<?', next)) {
+      position = skipPast('?>');
+    } else if (xml.startsWith('<!--', next)) {
+      position = skipPast('-->');
+    } else if (xml.startsWith('<![CDATA[', next)) {
+      position = skipPast(']]>');
+      stack[stack.length - 1].text += xml.slice(next + 9, position - 3);
+    } else if (xml.startsWith('<!', next)) {
+      position = skipPast('>');
+    } else {
+      tagPattern.lastIndex = next;
+      const match = tagPattern.exec(xml);
+      if (!match) {
+        throw new CustomError('Invalid XLSX file: malformed XML', 400);
+      }
+      position = tagPattern.lastIndex;
+
+      const [, closing, rawName, rawAttributes, selfClosing] = match;
+      const name = localName(rawName);
+      if (closing) {
+        if (stack.length === 1 || stack[stack.length - 1].name !== name) {
+          throw new CustomError(`Invalid XLSX file: unexpected </${rawName}>`, 400);
+        }
+        stack.pop();
+        continue;
+      }
+
+      const element: XmlElement = { name, attributes: {}, children: [], text: '' };
+      for (const attribute of rawAttributes.matchAll(attributePattern)) {
+        element.attributes[localName(attribute[1])] = decodeXml(attribute[2] ?? attribute[3]);
+      }
+      stack[stack.length - 1].children.push(element);
+      if (!selfClosing) {
+        stack.push(element);
+      }
+    }
+  }
+
+  const element = root.children[0];
+  if (!element) {
+    throw new CustomError('Invalid XLSX file: empty XML document', 400);
+  }
+  return element;
+};
+
+export const child = (element: XmlElement | undefined, name: string): XmlElement | undefined =>
+  element?.children.find(entry => entry.name === name);
+
+export const children = (element: XmlElement | undefined, name: string): XmlElement[] =>
+  element ? element.children.filter(entry => entry.name === name) : [];
@@ -1,11 +1,19 @@
 import React from 'react';
 import Home from './components/Home';
+import LoginForm from './components/LoginForm';
+import { useAuth } from './hooks/useAuth';
 import './App.css';
 
 function App() {
+  const { user, checking, error, login, register, logout } = useAuth();
+
   return (
     <div className="App">
-      <Home />
+      {user ? (
+        <Home user={user} onLogout={logout} />
+      ) : (
+        !checking && <LoginForm onLogin={login} onRegister={register} error={error} />
+      )}
     </div>
   );
 }
@@ -0,0 +1,70 @@
+import { renderHook, waitFor, act } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { useAuth } from '../../hooks/useAuth';
+
+vi.mock('../../services/api', () => {
+  let token: string | null = null;
+  const mockApiService = {
+    login: vi.fn(),
+    register: vi.fn(),
+    getCurrentUser: vi.fn(),
+  };
+
+  return {
+    apiService: mockApiService,
+    authToken: {
+      get: () => token,
+      set: (next: string | null) => { token = next; },
+    },
+    setUnauthorizedHandler: vi.fn(),
+  };
+});
+
+// Import the mocked module to access the mocks
+import { apiService, authToken, setUnauthorizedHandler } from '../../services/api';
+
+describe('useAuth', () => {
+  const user = { id: 'user_1', username: 'ada', createdAt: '2024-01-01T00:00:00.000Z' };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    authToken.set(null);
+  });
+
+  it('should restore the session of a stored token', async () => {
+    authToken.set('stored-token');
+    (apiService.getCurrentUser as any).mockResolvedValue(user);
+
+    const { result } = renderHook(() => useAuth());
+    expect(result.current.checking).toBe(true);
+
+    await waitFor(() => expect(result.current.checking).toBe(false));
+    expect(result.current.user).toEqual(user);
+    expect(setUnauthorizedHandler).toHaveBeenCalledWith(result.current.logout);
+  });
+
+  it('should store the token on login and drop it on logout', async () => {
+    (apiService.login as any).mockResolvedValue({ success: true, user, token: 'new-token' });
+    const { result } = renderHook(() => useAuth());
+
+    await act(() => result.current.login('ada', 'correct horse'));
+    expect(result.current.user).toEqual(user);
+    expect(authToken.get()).toBe('new-token');
+
+    act(() => result.current.logout());
+    expect(result.current.user).toBeNull();
+    expect(authToken.get()).toBeNull();
+  });
+
+  it('should explain failed sign-ins', async () => {
+    (apiService.login as any).mockRejectedValue({ response: { status: 401, data: { success: false } } });
+    (apiService.register as any).mockRejectedValue({ response: { status: 409, data: { success: false } } });
+    const { result } = renderHook(() => useAuth());
+
+    await act(() => result.current.login('ada', 'wrong'));
+    expect(result.current.error).toBe('Invalid username or password');
+    await act(() => result.current.register('ada', 'long enough'));
+    expect(result.current.error).toBe('That username is already taken');
+    expect(result.current.user).toBeNull();
+  });
+});
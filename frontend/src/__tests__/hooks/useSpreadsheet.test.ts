@@ -1,10 +1,11 @@
-import { renderHook, waitFor } from '@testing-library/react';
+import { renderHook, waitFor, act } from '@testing-library/react';
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { useSpreadsheet } from '../../hooks/useSpreadsheet';
 
 vi.mock('../../services/api', () => {
   const mockApiService = {
     getState: vi.fn(),
+    getChanges: vi.fn(),
   };
 
   return {
@@ -14,6 +15,7 @@ vi.mock('../../services/api', () => {
 
 // Import the mocked apiService to access the mocks
 import { apiService } from '../../services/api';
+import type { SheetDelta } from '../../types';
 
 describe('useSpreadsheet', () => {
   beforeEach(() => {
@@ -136,4 +138,77 @@ describe('useSpreadsheet', () => {
 
     expect(apiService.getState).toHaveBeenCalledTimes(1);
   });
-}); 
\ No newline at end of file
+
+  describe('sheet deltas', () => {
+    const target = { workbookId: 'w1', sheetId: 's1' };
+    const delta = (seq: number, value: string, sheetId = 's1'): SheetDelta => ({
+      workbookId: 'w1',
+      sheetId,
+      seq,
+      timestamp: new Date().toISOString(),
+      patches: [{ type: 'cells', cells: [{ row: 0, col: 0, value }], removed: [] }],
+      rows: 10,
+      columns: 10,
+    });
+
+    const loadVersion = async (version: number) => {
+      (apiService.getState as any).mockResolvedValue({
+        success: true,
+        state: { ...mockSpreadsheetState, version }
+      });
+      const hook = renderHook(() => useSpreadsheet(target));
+      await waitFor(() => {
+        expect(hook.result.current.isInitialized).toBe(true);
+      });
+      return hook;
+    };
+
+    it('should apply the next delta without a request', async () => {
+      const { result } = await loadVersion(3);
+
+      act(() => {
+        result.current.applyDelta(delta(4, 'Changed'));
+        result.current.applyDelta(delta(4, 'Duplicate'));
+        result.current.applyDelta(delta(5, 'Other sheet', 's2'));
+      });
+
+      expect(result.current.getCellValue(0, 0)).toBe('Changed');
+      expect(result.current.spreadsheetState.version).toBe(4);
+      expect(apiService.getState).toHaveBeenCalledTimes(1);
+      expect(apiService.getChanges).not.toHaveBeenCalled();
+    });
+
+    it('should fetch the missed deltas when there is a gap', async () => {
+      (apiService.getChanges as any).mockResolvedValue({ success: true, version: 5, deltas: [delta(4, 'Missed'), delta(5, 'Latest')] });
+      const { result } = await loadVersion(3);
+
+      act(() => {
+        result.current.applyDelta(delta(6, 'Newest'));
+      });
+
+      await waitFor(() => {
+        expect(result.current.spreadsheetState.version).toBe(6);
+      });
+      expect(apiService.getChanges).toHaveBeenCalledWith(3, target);
+      expect(result.current.getCellValue(0, 0)).toBe('Newest');
+    });
+
+    it('should take the state when the server no longer has the missed deltas', async () => {
+      (apiService.getChanges as any).mockResolvedValue({
+        success: true,
+        version: 9,
+        state: { ...mockSpreadsheetState, cells: [{ row: 0, col: 0, value: 'Snapshot' }], version: 9 }
+      });
+      const { result } = await loadVersion(3);
+
+      act(() => {
+        result.current.applyDelta(delta(9, 'Included'));
+      });
+
+      await waitFor(() => {
+        expect(result.current.getCellValue(0, 0)).toBe('Snapshot');
+      });
+      expect(result.current.spreadsheetState.version).toBe(9);
+    });
+  });
+});
@@ -0,0 +1,131 @@
+import { renderHook, waitFor, act } from '@testing-library/react';
+import { describe, it, expect, vi } from 'vitest';
+
+// One fake socket for the module-wide connection the hook shares
+const { fakeSocket, io } = vi.hoisted(() => {
+  const handlers = new Map<string, (...args: any[]) => void>();
+  const managerHandlers = new Map<string, (...args: any[]) => void>();
+  const fakeSocket = {
+    id: 'socket-1',
+    connected: false,
+    active: true,
+    on: (event: string, handler: (...args: any[]) => void) => handlers.set(event, handler),
+    io: { on: (event: string, handler: (...args: any[]) => void) => managerHandlers.set(event, handler) },
+    connect: () => {},
+    disconnect: () => {},
+    emit: (..._args: any[]) => {},
+    timeout: (_ms: number) => fakeSocket,
+    receive: (event: string, ...args: any[]) => handlers.get(event)?.(...args),
+    receiveFromManager: (event: string, ...args: any[]) => managerHandlers.get(event)?.(...args),
+  };
+  return { fakeSocket, io: vi.fn(() => fakeSocket) };
+});
+
+vi.mock('socket.io-client', () => ({ io }));
+
+import { useWebSocket } from '../../hooks/useWebSocket';
+
+describe('useWebSocket', () => {
+  it('should reconnect with backoff and report it', async () => {
+    const onConnect = vi.fn();
+    const { result } = renderHook(() => useWebSocket(undefined, undefined, onConnect));
+
+    await waitFor(() => expect(io).toHaveBeenCalledTimes(1));
+    expect(io).toHaveBeenCalledWith(expect.any(String), expect.objectContaining({
+      reconnection: true,
+      reconnectionDelay: 1000,
+      reconnectionDelayMax: 30000,
+      randomizationFactor: 0.5,
+    }));
+
+    act(() => {
+      fakeSocket.connected = true;
+      fakeSocket.receive('connect');
+    });
+    expect(result.current.status).toBe('connected');
+    expect(onConnect).toHaveBeenLastCalledWith(false);
+
+    act(() => {
+      fakeSocket.connected = false;
+      fakeSocket.receive('disconnect', 'transport close');
+      fakeSocket.receiveFromManager('reconnect_attempt', 2);
+    });
+    expect(result.current.status).toBe('reconnecting');
+    expect(result.current.reconnectAttempt).toBe(2);
+
+    act(() => {
+      fakeSocket.connected = true;
+      fakeSocket.receive('connect');
+    });
+    expect(result.current.status).toBe('connected');
+    expect(result.current.reconnectAttempt).toBe(0);
+    expect(onConnect).toHaveBeenLastCalledWith(true);
+  });
+
+  it('should resume a sheet through an acknowledged request', async () => {
+    const changes = { success: true, version: 8, deltas: [] };
+    const emit = vi.spyOn(fakeSocket, 'emit').mockImplementation((...args: any[]) => args[2](null, changes));
+    fakeSocket.connected = true;
+    const { result } = renderHook(() => useWebSocket());
+
+    await expect(result.current.resume(5, { workbookId: 'w1', sheetId: 's1' })).resolves.toEqual(changes);
+    expect(emit).toHaveBeenCalledWith('resume', { workbookId: 'w1', sheetId: 's1', since: 5 }, expect.any(Function));
+
+    emit.mockImplementation((...args: any[]) => args[2](null, { success: false, error: 'Sheet not found: s1' }));
+    await expect(result.current.resume(5, { workbookId: 'w1', sheetId: 's1' })).rejects.toThrow('Sheet not found: s1');
+  });
+
+  it('should send commands and settle with their acknowledgement', async () => {
+    const ack = { success: true, message: 'User event processed successfully', workbookId: 'w1', sheetId: 's1' };
+    const emit = vi.spyOn(fakeSocket, 'emit').mockImplementation((...args: any[]) => args[2](null, ack));
+    fakeSocket.connected = true;
+    const { result } = renderHook(() => useWebSocket());
+
+    await expect(result.current.sendMessage('A1 42', { sessionId: 'tab-1', target: { workbookId: 'w1', sheetId: 's1' } })).resolves.toEqual(ack);
+    expect(emit).toHaveBeenCalledWith(
+      'send_message',
+      { message: 'A1 42', userId: undefined, sessionId: 'tab-1', workbookId: 'w1', sheetId: 's1' },
+      expect.any(Function)
+    );
+
+    emit.mockImplementation((...args: any[]) => args[2](null, { success: false, error: 'Invalid cell format. Use: A1, B5, etc.', statusCode: 400 }));
+    await expect(result.current.sendMessage('?? x')).rejects.toThrow('Invalid cell format');
+
+    fakeSocket.connected = false;
+    await expect(result.current.sendMessage('A1 42')).rejects.toThrow('not connected');
+  });
+
+  it('should share presence and report other clients', async () => {
+    // Socket listeners call the hook that created the socket, so this one needs a socket of its own
+    vi.resetModules();
+    const { useWebSocket: useFreshWebSocket } = await import('../../hooks/useWebSocket');
+    const emit = vi.spyOn(fakeSocket, 'emit').mockImplementation(() => {});
+    const onPresenceUpdate = vi.fn();
+    const { result } = renderHook(() => useFreshWebSocket(undefined, undefined, undefined, undefined, false, undefined, onPresenceUpdate));
+    await waitFor(() => expect(io).toHaveBeenCalledTimes(2));
+    act(() => {
+      fakeSocket.connected = true;
+      fakeSocket.receive('connect');
+    });
+
+    const presence = {
+      name: 'Ada',
+      workbookId: 'w1',
+      sheetId: 's1',
+      selection: { cells: ['B4'], columns: [], rows: [] },
+      editing: null
+    };
+    act(() => result.current.updatePresence(presence));
+    expect(emit).toHaveBeenCalledWith('presence_update', presence);
+
+    const users = [{ ...presence, clientId: 'socket-2', name: 'Linus', color: '#1e88e5', updatedAt: '' }];
+    act(() => fakeSocket.receive('presence_update', { type: 'presence_update', users }));
+    expect(onPresenceUpdate).toHaveBeenCalledWith(users);
+
+    // The server forgets presence with the old socket, so it is sent again after reconnecting
+    emit.mockClear();
+    act(() => fakeSocket.receive('connect'));
+    expect(emit).toHaveBeenCalledWith('presence_update', presence);
+    expect(result.current.clientId).toBe('socket-1');
+  });
+});
@@ -5,6 +5,8 @@ vi.mock('axios', () => {
   const mockAxios = {
     post: vi.fn(),
     get: vi.fn(),
+    put: vi.fn(),
+    delete: vi.fn(),
     interceptors: {
       request: { use: vi.fn() },
       response: { use: vi.fn() },
@@ -67,6 +69,75 @@ describe('API Service', () => {
     });
   });
 
+  describe('undo and redo', () => {
+    it('should post undo and redo for the session and sheet', async () => {
+      const mockResponse = { data: { success: true, message: 'Undid: Updated cell A1' } };
+      (axios.create as any)().post.mockResolvedValue(mockResponse);
+      const target = { workbookId: 'default', sheetId: 'sheet1' };
+
+      const result = await apiService.undo('user123', 'session456', target);
+      await apiService.redo('user123', 'session456');
+
+      expect((axios.create as any)().post).toHaveBeenCalledWith('/workbooks/default/sheets/sheet1/undo', {
+        userId: 'user123',
+        sessionId: 'session456',
+      });
+      expect((axios.create as any)().post).toHaveBeenCalledWith('/redo', {
+        userId: 'user123',
+        sessionId: 'session456',
+      });
+      expect(result).toEqual(mockResponse.data);
+    });
+  });
+
+  describe('writeRange', () => {
+    it('should put the block with the session', async () => {
+      const mockResponse = { data: { success: true, range: 'B2-C2', cellsUpdated: 2 } };
+      (axios.create as any)().put.mockResolvedValue(mockResponse);
+
+      const result = await apiService.writeRange('B2:C2', { values: [['=A1', 'x']], copiedFrom: 'A1' }, 'session456');
+
+      expect((axios.create as any)().put).toHaveBeenCalledWith('/ranges/B2%3AC2', {
+        values: [['=A1', 'x']],
+        copiedFrom: 'A1',
+        sessionId: 'session456',
+      });
+      expect(result).toEqual(mockResponse.data);
+    });
+  });
+
+  describe('clearRange', () => {
+    it('should delete the range of the sheet for the session', async () => {
+      const mockResponse = { data: { success: true, range: 'B2-D9', cellsUpdated: 3 } };
+      (axios.create as any)().delete.mockResolvedValue(mockResponse);
+
+      const result = await apiService.clearRange('B2:D9', 'session456', { workbookId: 'default', sheetId: 'sheet1' });
+
+      expect((axios.create as any)().delete).toHaveBeenCalledWith('/workbooks/default/sheets/sheet1/ranges/B2%3AD9', {
+        params: { sessionId: 'session456' },
+      });
+      expect(result).toEqual(mockResponse.data);
+    });
+  });
+
+  describe('XLSX import and export', () => {
+    it('should upload the file as XLSX and download a workbook as a blob', async () => {
+      const workbook = { id: 'workbook_1', name: 'Budget', sheets: [{ id: 'sheet_1', name: 'Data' }] };
+      const file = new Blob(['PK']);
+      (axios.create as any)().post.mockResolvedValue({ data: { success: true, workbook } });
+      (axios.create as any)().get.mockResolvedValue({ data: file });
+
+      expect(await apiService.importXlsx(file, 'Budget')).toEqual(workbook);
+      expect(await apiService.exportXlsx('workbook_1')).toBe(file);
+
+      expect((axios.create as any)().post).toHaveBeenCalledWith('/workbooks/import', file, {
+        headers: { 'Content-Type': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' },
+        params: { name: 'Budget' },
+      });
+      expect((axios.create as any)().get).toHaveBeenCalledWith('/workbooks/workbook_1/export.xlsx', { responseType: 'blob' });
+    });
+  });
+
   describe('getActions', () => {
     it('should get actions successfully', async () => {
       const mockResponse = {
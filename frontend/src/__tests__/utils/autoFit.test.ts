@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { fitColumnWidth, fitRowHeight } from '../../utils/autoFit';
+
+// Every character is 10px wide, 20px in a 28px font
+const measure = (text: string, font: string) => text.length * (font.includes('28px') ? 20 : 10);
+
+describe('Auto-fit', () => {
+  describe('fitColumnWidth', () => {
+    it('should fit the widest value or the header, with the cell padding', () => {
+      const cells = [
+        { row: 0, col: 1, value: 'short' },
+        { row: 1, col: 1, value: 'a much longer value' },
+      ];
+      expect(fitColumnWidth(cells, 'B', 'sans-serif', measure)).toBe(190 + 25);
+      expect(fitColumnWidth([{ row: 0, col: 1, value: 'x' }], 'Quarterly total', 'sans-serif', measure)).toBe(150 + 25);
+      expect(fitColumnWidth([{ row: 0, col: 1, value: 'x'.repeat(200), format: { fontSize: 28 } }], 'B', 'sans-serif', measure)).toBe(1000);
+    });
+
+    it('should go back to the default width for an empty column', () => {
+      expect(fitColumnWidth([{ row: 0, col: 1, value: '' }], 'B', 'sans-serif', measure)).toBeNull();
+    });
+  });
+
+  describe('fitRowHeight', () => {
+    const columnWidth = () => 125;
+
+    it('should fit large fonts and the lines of wrapped cells', () => {
+      expect(fitRowHeight([{ row: 0, col: 0, value: 'x', format: { fontSize: 28 } }], columnWidth, 30, 'sans-serif', measure)).toBe(34 + 13);
+      // 250px of text in 100px wide lines
+      const wrapped = { row: 0, col: 0, value: 'y'.repeat(25), format: { wrap: true } };
+      expect(fitRowHeight([wrapped], columnWidth, 30, 'sans-serif', measure)).toBe(51 + 13);
+    });
+
+    it('should go back to the default height when it fits', () => {
+      expect(fitRowHeight([{ row: 0, col: 0, value: 'a long value that is not wrapped' }], columnWidth, 30, 'sans-serif', measure)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { getCellStyle } from '../../utils/cellFormat';
+
+describe('Cell Format', () => {
+  describe('getCellStyle', () => {
+    it('should return no styles without a format', () => {
+      expect(getCellStyle(undefined)).toEqual({});
+    });
+
+    it('should map text styles', () => {
+      const style = getCellStyle({
+        bold: true,
+        italic: true,
+        underline: true,
+        strikethrough: true,
+        color: '#ff0000',
+        backgroundColor: '#ffff00',
+        fontSize: 16
+      });
+
+      expect(style.fontWeight).toBe('bold');
+      expect(style.fontStyle).toBe('italic');
+      expect(style.textDecoration).toBe('underline line-through');
+      expect(style.color).toBe('#ff0000');
+      expect(style.backgroundColor).toBe('#ffff00');
+      expect(style.fontSize).toBe('16px');
+    });
+
+    it('should map alignment onto the flex cell', () => {
+      expect(getCellStyle({ textAlign: 'right' }).justifyContent).toBe('flex-end');
+      expect(getCellStyle({ textAlign: 'center' }).justifyContent).toBe('center');
+    });
+
+    it('should map wrapping and borders', () => {
+      const style = getCellStyle({
+        wrap: true,
+        borders: { top: '1px solid #000000', left: '1px solid #ff0000' }
+      });
+
+      expect(style.whiteSpace).toBe('normal');
+      expect(style.borderTop).toBe('1px solid #000000');
+      expect(style.borderLeft).toBe('1px solid #ff0000');
+      expect(style.borderRight).toBeUndefined();
+    });
+  });
+});
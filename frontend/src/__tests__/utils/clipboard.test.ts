@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { formatHtmlTable, formatTsv, parseHtmlTable, parseTsv } from '../../utils/clipboard';
+
+describe('Clipboard', () => {
+  describe('TSV', () => {
+    it('should quote fields with tabs, line breaks and quotes', () => {
+      const rows = [['Name', 'Note'], ['Ada', 'said "hi"\tthen\nleft']];
+      const tsv = formatTsv(rows);
+
+      expect(tsv).toBe('Name\tNote\nAda\t"said ""hi""\tthen\nleft"');
+      expect(parseTsv(tsv)).toEqual(rows);
+    });
+
+    it('should read blocks pasted from other spreadsheets into a rectangle', () => {
+      expect(parseTsv('1\t2\r\n3\r\n')).toEqual([['1', '2'], ['3', '']]);
+      expect(parseTsv('\t\n')).toEqual([['', '']]);
+      expect(parseTsv('')).toEqual([]);
+    });
+  });
+
+  describe('HTML tables', () => {
+    it('should keep formulas, formats and the copy origin of this grid\'s cells', () => {
+      const html = formatHtmlTable([
+        [{ row: 1, col: 1, value: '2', formula: '=A1*2', format: { bold: true } }, undefined],
+      ], 'B2');
+
+      expect(html).toContain('style="font-weight:bold"');
+      expect(parseHtmlTable(html)).toEqual({
+        values: [['=A1*2', '']],
+        formats: [[{ bold: true }, null]],
+        copiedFrom: 'B2',
+      });
+      expect(parseHtmlTable(formatHtmlTable([[{ row: 0, col: 0, value: '<b> & "x"' }]]))).toEqual({
+        values: [['<b> & "x"']],
+        formats: [[null]],
+      });
+    });
+
+    it('should read the text of tables from elsewhere', () => {
+      const html = '<google-sheets-html-origin><table><tr><td colspan="2">Total&nbsp;</td><td>3</td></tr><tr><th>x</th></tr></table>';
+
+      expect(parseHtmlTable(html)).toEqual({ values: [['Total', '', '3'], ['x', '', '']] });
+      expect(parseHtmlTable('<p>no table</p>')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { containsCell, extendBounds, fillTarget, findDataEdge, formatRange, parseRange, singleCell, spanBetween } from '../../utils/selection';
+
+describe('Selection', () => {
+  describe('formatRange', () => {
+    it('should write single cells as a cell and larger ranges corner to corner', () => {
+      expect(formatRange(singleCell(0, 0))).toBe('A1');
+      expect(formatRange({ anchor: { row: 8, col: 3 }, focus: { row: 1, col: 1 } })).toBe('B2:D9');
+      expect(formatRange({ anchor: { row: 0, col: 26 }, focus: { row: 0, col: 27 } })).toBe('AA1:AB1');
+    });
+  });
+
+  describe('parseRange', () => {
+    it('should read back cells and ranges in either direction', () => {
+      expect(parseRange('b4')).toEqual({ top: 3, left: 1, bottom: 3, right: 1 });
+      expect(parseRange('D9:B2')).toEqual({ top: 1, left: 1, bottom: 8, right: 3 });
+      expect(parseRange('A0')).toBeNull();
+      expect(parseRange('A:C')).toBeNull();
+    });
+  });
+
+  it('should tell whether a cell is inside a range', () => {
+    const bounds = parseRange('B2:D9')!;
+    expect(containsCell(bounds, 1, 1)).toBe(true);
+    expect(containsCell(bounds, 8, 3)).toBe(true);
+    expect(containsCell(bounds, 9, 3)).toBe(false);
+    expect(containsCell(bounds, 4, 0)).toBe(false);
+  });
+
+  it('should list every index of a span in ascending order', () => {
+    expect(spanBetween(4, 2)).toEqual([2, 3, 4]);
+    expect(spanBetween(3, 3)).toEqual([3]);
+  });
+
+  describe('findDataEdge', () => {
+    // Values at 2-4 and 8
+    const hasValue = (index: number) => (index >= 2 && index <= 4) || index === 8;
+
+    it('should jump to the end of a block of values, then to the next value', () => {
+      expect(findDataEdge(hasValue, 2, 1, 20)).toBe(4);
+      expect(findDataEdge(hasValue, 4, 1, 20)).toBe(8);
+      expect(findDataEdge(hasValue, 0, 1, 20)).toBe(2);
+      expect(findDataEdge(hasValue, 8, -1, 20)).toBe(4);
+    });
+
+    it('should stop at the edge of the sheet', () => {
+      expect(findDataEdge(hasValue, 8, 1, 20)).toBe(19);
+      expect(findDataEdge(hasValue, 2, -1, 20)).toBe(0);
+      expect(findDataEdge(hasValue, 19, 1, 20)).toBe(19);
+    });
+  });
+
+  describe('fillTarget', () => {
+    const bounds = parseRange('B2:C3')!;
+
+    it('should follow the axis the pointer is further outside of', () => {
+      expect(fillTarget(bounds, 9, 4)).toEqual({ direction: 'down', to: 9 });
+      expect(fillTarget(bounds, 3, 6)).toEqual({ direction: 'right', to: 6 });
+      expect(fillTarget(bounds, 0, 1)).toEqual({ direction: 'up', to: 0 });
+      expect(fillTarget(bounds, 2, 0)).toEqual({ direction: 'left', to: 0 });
+      expect(fillTarget(bounds, 2, 2)).toBeNull();
+    });
+
+    it('should extend the range to the target', () => {
+      expect(extendBounds(bounds, { direction: 'down', to: 9 })).toEqual({ top: 1, left: 1, bottom: 9, right: 2 });
+      expect(extendBounds(bounds, { direction: 'left', to: 0 })).toEqual({ top: 1, left: 0, bottom: 2, right: 2 });
+    });
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { applySheetDelta } from '../../utils/sheetDelta';
+import type { SheetDelta, SpreadsheetState } from '../../types';
+
+describe('applySheetDelta', () => {
+  const state: SpreadsheetState = {
+    cells: [
+      { row: 0, col: 0, value: 'a' },
+      { row: 1, col: 0, value: 'b' },
+      { row: 2, col: 1, value: 'c', format: { bold: true } },
+    ],
+    rows: 10,
+    columns: 3,
+    headers: ['A', 'Total', 'C'],
+    version: 4,
+  };
+
+  const delta = (patches: SheetDelta['patches'], extra: Partial<SheetDelta> = {}): SheetDelta => ({
+    workbookId: 'w',
+    sheetId: 's',
+    seq: 5,
+    timestamp: new Date().toISOString(),
+    patches,
+    rows: 10,
+    columns: 3,
+    ...extra,
+  });
+
+  it('should replace, add and remove cells', () => {
+    const next = applySheetDelta(state, delta([{
+      type: 'cells',
+      cells: [{ row: 0, col: 0, value: 'A!' }, { row: 5, col: 2, value: 'new' }],
+      removed: [{ row: 1, col: 0 }],
+    }]));
+
+    expect(next.version).toBe(5);
+    expect(next.headers).toBe(state.headers);
+    expect(next.cells).toEqual([
+      { row: 2, col: 1, value: 'c', format: { bold: true } },
+      { row: 0, col: 0, value: 'A!' },
+      { row: 5, col: 2, value: 'new' },
+    ]);
+    expect(state.cells).toHaveLength(3);
+  });
+
+  it('should shift cells for structure changes before later patches', () => {
+    const next = applySheetDelta(state, delta([
+      { type: 'structure', change: { type: 'delete', axis: 'row', index: 1, count: 1 } },
+      { type: 'structure', change: { type: 'insert', axis: 'col', index: 0, count: 2 } },
+      { type: 'cells', cells: [{ row: 0, col: 0, value: 'x' }], removed: [] },
+    ], { rows: 9, columns: 5, headers: ['A', 'B', 'C', 'Total', 'E'] }));
+
+    expect(next.cells).toEqual([
+      { row: 0, col: 2, value: 'a' },
+      { row: 1, col: 3, value: 'c', format: { bold: true } },
+      { row: 0, col: 0, value: 'x' },
+    ]);
+    expect(next).toMatchObject({ rows: 9, columns: 5, headers: ['A', 'B', 'C', 'Total', 'E'] });
+  });
+
+  it('should replace column widths and row heights only when the delta has them', () => {
+    const resized = applySheetDelta(state, delta([], { columnWidths: { 1: 200 }, rowHeights: {} }));
+    expect(resized).toMatchObject({ columnWidths: { 1: 200 }, rowHeights: {} });
+
+    const next = applySheetDelta(resized, delta([{ type: 'cells', cells: [], removed: [{ row: 0, col: 0 }] }]));
+    expect(next.columnWidths).toBe(resized.columnWidths);
+  });
+
+  it('should take frozen rows and columns from the delta when it has them', () => {
+    const frozen = applySheetDelta(state, delta([], { frozenRows: 2, frozenColumns: 1 }));
+    expect(frozen).toMatchObject({ frozenRows: 2, frozenColumns: 1 });
+
+    const next = applySheetDelta(frozen, delta([{ type: 'cells', cells: [], removed: [{ row: 0, col: 0 }] }]));
+    expect(next).toMatchObject({ frozenRows: 2, frozenColumns: 1 });
+    expect(applySheetDelta(next, delta([], { frozenRows: 0, frozenColumns: 0 }))).toMatchObject({ frozenRows: 0, frozenColumns: 0 });
+  });
+});
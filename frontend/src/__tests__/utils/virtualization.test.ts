@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { cellKey, createAxisLayout, getLayoutRange, getVisibleRange, indexCells } from '../../utils/virtualization';
+
+describe('Virtualization', () => {
+  describe('getVisibleRange', () => {
+    it('should cover the viewport plus overscan', () => {
+      expect(getVisibleRange(0, 600, 30, 1000, 5)).toEqual({ start: 0, end: 25, visibleStart: 0, visibleEnd: 20 });
+      expect(getVisibleRange(3000, 600, 30, 1000, 5)).toEqual({ start: 95, end: 125, visibleStart: 100, visibleEnd: 120 });
+    });
+
+    it('should include partly visible items', () => {
+      expect(getVisibleRange(45, 100, 30, 1000, 0)).toEqual({ start: 1, end: 5, visibleStart: 1, visibleEnd: 5 });
+    });
+
+    it('should stay inside the item count', () => {
+      expect(getVisibleRange(29400, 600, 30, 1000, 5)).toEqual({ start: 975, end: 1000, visibleStart: 980, visibleEnd: 1000 });
+      expect(getVisibleRange(90000, 600, 30, 1000, 5)).toEqual({ start: 995, end: 1000, visibleStart: 1000, visibleEnd: 1000 });
+      expect(getVisibleRange(0, 600, 30, 0, 5)).toEqual({ start: 0, end: 0, visibleStart: 0, visibleEnd: 0 });
+    });
+  });
+
+  describe('createAxisLayout', () => {
+    // 10 items of 30, except 2 (100) and 5 (10)
+    const layout = createAxisLayout(10, 30, { 2: 100, 5: 10, 40: 500 });
+
+    it('should place items after the resized ones', () => {
+      expect(layout.offsetOf(2)).toBe(60);
+      expect(layout.offsetOf(3)).toBe(160);
+      expect(layout.offsetOf(6)).toBe(230);
+      expect(layout.total).toBe(350);
+      expect(layout.sizeOf(5)).toBe(10);
+      expect(layout.sizeOf(40)).toBe(30);
+    });
+
+    it('should find the item at a position', () => {
+      expect(layout.indexAt(0)).toBe(0);
+      expect(layout.indexAt(159)).toBe(2);
+      expect(layout.indexAt(225)).toBe(5);
+      expect(layout.indexAt(350)).toBe(10);
+    });
+
+    it('should window items of different sizes', () => {
+      expect(getLayoutRange(layout, 70, 100, 1)).toEqual({ start: 1, end: 5, visibleStart: 2, visibleEnd: 4 });
+      expect(getLayoutRange(layout, 0, 60, 0)).toEqual({ start: 0, end: 2, visibleStart: 0, visibleEnd: 2 });
+    });
+  });
+
+  describe('indexCells', () => {
+    it('should look cells up by position', () => {
+      const index = indexCells([
+        { row: 0, col: 1, value: 'B1' },
+        { row: 12, col: 0, value: 'A13' }
+      ]);
+
+      expect(index.get(cellKey(12, 0))?.value).toBe('A13');
+      expect(index.get(cellKey(1, 0))).toBeUndefined();
+    });
+  });
+});
@@ -1,25 +1,57 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import Spreadsheet from './Spreadsheet';
 import InputBox from './InputBox';
+import SheetTabs from './SheetTabs';
+import SharePanel from './SharePanel';
 import { useSpreadsheet } from '../hooks/useSpreadsheet';
+import { useWorkbooks } from '../hooks/useWorkbooks';
 import { useWebSocket } from '../hooks/useWebSocket';
 import { useIdleDetection } from '../hooks/useIdleDetection';
 import { apiService } from '../services/api';
-import { IDLE_CONFIG } from '../utils/constants';
+import { IDLE_CONFIG, WEBSOCKET_CONFIG, columnIndexToLetter } from '../utils/constants';
+import type { FillDirection } from '../utils/selection';
+import type { Presence, RangeWriteRequest, SheetAccess, SheetAccessUpdate, User } from '../types';
 import './Home.css';
 
+export interface HomeProps {
+  // Signed-in user; edits are recorded under them and other users see their name
+  user: User;
+  onLogout: () => void;
+}
+
 // Home component using generic Spreadsheet and InputBox components
-const Home: React.FC = () => {
-  const { loadSpreadsheetState, spreadsheetState, loading, error, isInitialized } = useSpreadsheet();
+const Home: React.FC<HomeProps> = ({ user, onLogout }) => {
+  const {
+    workbooks,
+    activeTarget,
+    error: workbookError,
+    loadWorkbooks,
+    applyWorkbooks,
+    selectWorkbook,
+    selectSheet,
+    createWorkbook,
+    addSheet,
+    renameSheet,
+    duplicateSheet,
+    deleteSheet,
+    importWorkbook
+  } = useWorkbooks();
+  const { loadSpreadsheetState, applyDelta, syncChanges, spreadsheetState, loading, error, isInitialized } = useSpreadsheet(activeTarget);
   const [inputError, setInputError] = useState<string | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
   const [selectedCells, setSelectedCells] = useState<string[]>([]);
   const [selectedColumns, setSelectedColumns] = useState<string[]>([]);
   const [selectedRows, setSelectedRows] = useState<number[]>([]);
-  
-  // Debounce refs to prevent excessive API calls
-  const updateTimeoutRef = useRef<NodeJS.Timeout | null>(null);
-  const lastUpdateTime = useRef(0);
+  const [editingCell, setEditingCell] = useState<{ row: number; col: number } | null>(null);
+  const [presence, setPresence] = useState<Presence[]>([]);
+  // Undo/redo history is kept per session on the server; each tab gets its own
+  const [sessionId] = useState(() => `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // Sharing settings of the active sheet while the share panel is open
+  const [sharing, setSharing] = useState<{ access: SheetAccess | null; error: string | null } | null>(null);
+  // Catching up after a reconnect, then a short "Resynced" notice
+  const [resyncStatus, setResyncStatus] = useState<'idle' | 'resyncing' | 'resynced'>('idle');
+  const resyncTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
   // Idle detection
   const { isIdle, forceActive } = useIdleDetection({
@@ -30,77 +62,117 @@ const Home: React.FC = () => {
     },
     onActive: () => {
       console.log('User is active again - resuming WebSocket updates');
-      // Refresh data when user becomes active
-      loadSpreadsheetState(false);
+      // Fetch whatever deltas were missed in the meantime
+      syncChanges();
     }
   });
 
-  // Debounced update function
-  const debouncedUpdate = useCallback((updateFunction: () => void, delay: number = IDLE_CONFIG.DEBOUNCE_DELAY) => {
-    const now = Date.now();
-    if (now - lastUpdateTime.current < delay) {
-      // Clear existing timeout
-      if (updateTimeoutRef.current) {
-        clearTimeout(updateTimeoutRef.current);
-      }
-      
-      // Set new timeout
-      updateTimeoutRef.current = setTimeout(() => {
-        updateFunction();
-        lastUpdateTime.current = Date.now();
-      }, delay);
-    } else {
-      // Execute immediately if enough time has passed
-      updateFunction();
-      lastUpdateTime.current = now;
-    }
-  }, []);
-
-  // WebSocket for real-time updates
+  // WebSocket for real-time updates; the grid itself changes through sheet deltas
   const handleSpreadsheetUpdate = (data: any) => {
     console.log('WebSocket spreadsheet update received:', data);
-    debouncedUpdate(() => {
-      console.log('Refreshing spreadsheet state...');
-      loadSpreadsheetState(false);
-    });
   };
 
-  const handleActionEventsUpdate = (data: any) => {
-    console.log('WebSocket action events update received:', data);
+  const handleSheetDelta = (data: any) => {
+    if (data?.delta) {
+      applyDelta(data.delta);
+    }
   };
 
-  const handleStateEventsUpdate = (data: any) => {
-    console.log('WebSocket state events update received:', data);
-    debouncedUpdate(() => {
-      loadSpreadsheetState(false);
-    });
+  const handleWorkbooksUpdate = (data: any) => {
+    if (Array.isArray(data?.workbooks)) {
+      applyWorkbooks(data.workbooks);
+    }
   };
 
-  const handleWebSocketConnect = () => {
-    console.log('WebSocket Connected - Loading initial data...');
-    loadSpreadsheetState(false);
+  // Resume from the last applied version so deltas broadcast while disconnected are replayed;
+  // the whole state is only loaded when the server cannot replay them
+  const handleWebSocketConnect = async (isReconnect: boolean) => {
+    console.log(`WebSocket ${isReconnect ? 'reconnected' : 'connected'} - resuming from the last applied version...`);
+    if (isReconnect) {
+      setResyncStatus('resyncing');
+      // Sheets may have been added, renamed or deleted in the meantime
+      loadWorkbooks();
+    }
+
+    let synced = false;
+    try {
+      synced = await syncChanges(resume);
+    } catch (error) {
+      console.error('Error resuming updates:', error);
+    }
+    if (!synced) {
+      await loadSpreadsheetState(false);
+    }
+
+    if (isReconnect) {
+      setResyncStatus('resynced');
+      if (resyncTimeoutRef.current) {
+        clearTimeout(resyncTimeoutRef.current);
+      }
+      resyncTimeoutRef.current = setTimeout(() => setResyncStatus('idle'), WEBSOCKET_CONFIG.RESYNC_NOTICE_TIME);
+    }
   };
 
   const handleWebSocketDisconnect = () => {
     console.log('WebSocket Disconnected');
   };
 
-  const { isConnected, connectionError, sendMessage } = useWebSocket(
+  const { isConnected, clientId, status, reconnectAttempt, connectionError, sendMessage, updatePresence, ping, resume, disconnect } = useWebSocket(
     handleSpreadsheetUpdate,
-    handleActionEventsUpdate,
-    handleStateEventsUpdate,
+    handleSheetDelta,
     handleWebSocketConnect,
     handleWebSocketDisconnect,
-    isIdle // Pass idle state to WebSocket hook
+    isIdle, // Pass idle state to WebSocket hook
+    handleWorkbooksUpdate,
+    setPresence
   );
 
+  // The user's role on the active sheet; viewers and commenters get a read-only grid
+  const activeRole = workbooks
+    .find(workbook => workbook.id === activeTarget?.workbookId)
+    ?.sheets.find(sheet => sheet.id === activeTarget?.sheetId)?.role;
+  const canEdit = activeRole === undefined || activeRole === 'editor' || activeRole === 'owner';
+
+  // Other users on the active sheet
+  const remoteUsers = useMemo(() => presence.filter(user =>
+    user.clientId !== clientId &&
+    user.workbookId === activeTarget?.workbookId &&
+    user.sheetId === activeTarget?.sheetId
+  ), [presence, clientId, activeTarget]);
+
+  // Report where this tab is whenever its sheet, selection or edited cell changes
+  useEffect(() => {
+    updatePresence({
+      name: user.username,
+      workbookId: activeTarget?.workbookId,
+      sheetId: activeTarget?.sheetId,
+      selection: { cells: selectedCells, columns: selectedColumns, rows: selectedRows },
+      editing: editingCell
+    });
+  }, [updatePresence, user.username, activeTarget, selectedCells, selectedColumns, selectedRows, editingCell]);
+
+  // The socket was opened with this user's token, so it closes with the session
+  const handleLogout = () => {
+    disconnect();
+    onLogout();
+  };
+
   // Test WebSocket connection
   const testWebSocket = () => {
     console.log('Testing WebSocket connection...');
     console.log('Current connection state:', isConnected);
     console.log('Connection error:', connectionError);
     console.log('User idle state:', isIdle);
-    sendMessage('test');
+    ping();
+  };
+
+  // Commands go over the socket while it is connected, acknowledged one by one; HTTP otherwise
+  const submitCommand = async (message: string): Promise<void> => {
+    if (isConnected) {
+      await sendMessage(message, { sessionId, target: activeTarget });
+    } else {
+      await apiService.sendMessage(message, undefined, sessionId, activeTarget);
+    }
   };
 
   // Debug effect to track component lifecycle
@@ -108,9 +180,8 @@ const Home: React.FC = () => {
     console.log('Home component mounted');
     return () => {
       console.log('Home component unmounted');
-      // Cleanup timeout on unmount
-      if (updateTimeoutRef.current) {
-        clearTimeout(updateTimeoutRef.current);
+      if (resyncTimeoutRef.current) {
+        clearTimeout(resyncTimeoutRef.current);
       }
     };
   }, []);
@@ -132,8 +203,8 @@ const Home: React.FC = () => {
     forceActive();
 
     try {
-      // Send message to backend (WebSocket will handle the updates)
-      await apiService.sendMessage(message);
+      // The grid is updated by the sheet delta the command produces
+      await submitCommand(message);
       console.log('Message sent successfully');
     } catch (error) {
       console.error('Error sending message:', error);
@@ -143,6 +214,77 @@ const Home: React.FC = () => {
     }
   };
 
+  // Commands for several selected cells, columns or rows; the server applies all of them or none
+  const handleBatchSent = async (commands: string[]) => {
+    setInputError(null);
+    setIsProcessing(true);
+    forceActive();
+
+    try {
+      await apiService.sendBatch(commands, sessionId, activeTarget);
+    } catch (error) {
+      console.error('Error sending batch:', error);
+      setInputError('Failed to apply the commands; none of them were applied');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  // Delete/Backspace in the grid; each range is cleared on its own, like separate edits
+  const handleClearSelection = async (ranges: string[]) => {
+    setInputError(null);
+    forceActive();
+
+    try {
+      for (const range of ranges) {
+        await apiService.clearRange(range, sessionId, activeTarget);
+      }
+    } catch (error) {
+      console.error('Error clearing selection:', error);
+      setInputError('Failed to clear the selection');
+    }
+  };
+
+  // Ctrl/Cmd+V in the grid: the whole block is written as one edit
+  const handlePaste = async (range: string, block: RangeWriteRequest) => {
+    setInputError(null);
+    forceActive();
+
+    try {
+      await apiService.writeRange(range, block, sessionId, activeTarget);
+    } catch (error) {
+      console.error('Error pasting:', error);
+      setInputError('Failed to paste');
+    }
+  };
+
+  // Dragging the fill handle sends the same command as typing "fill A1:A2 down to A50"
+  const handleFill = async (range: string, direction: FillDirection, to: string) => {
+    setInputError(null);
+    forceActive();
+
+    try {
+      await submitCommand(`fill ${range} ${direction} to ${to}`);
+    } catch (error) {
+      console.error('Error filling:', error);
+      setInputError('Failed to fill');
+    }
+  };
+
+  // Column widths and row heights are stored on the sheet, so every collaborator sees them
+  const handleResize = async (axis: 'col' | 'row', index: number, size: number | null) => {
+    setInputError(null);
+    forceActive();
+
+    const target = axis === 'col' ? `column ${columnIndexToLetter(index)}` : `row ${index + 1}`;
+    try {
+      await submitCommand(`resize ${target} to ${size ?? 'default'}`);
+    } catch (error) {
+      console.error('Error resizing:', error);
+      setInputError(`Failed to resize ${target}`);
+    }
+  };
+
   const handleError = (errorMessage: string) => {
     setInputError(errorMessage);
   };
@@ -152,13 +294,13 @@ const Home: React.FC = () => {
     
     // Convert row and col to cell reference (e.g., A1, B2, etc.)
     // row is 0-based from Spreadsheet component, convert to 1-based for backend
-    const columnLetter = String.fromCharCode(65 + col); // A=0, B=1, etc.
+    const columnLetter = columnIndexToLetter(col); // A=0, B=1, ..., AA=26
     const cellReference = `${columnLetter}${row + 1}`; // Convert 0-based to 1-based
     const message = `${cellReference} ${value}`;
     
     try {
       // Send the cell update to the backend
-      await apiService.sendMessage(message);
+      await submitCommand(message);
       console.log(`Cell update sent: ${message}`);
     } catch (error) {
       console.error('Error updating cell:', error);
@@ -166,6 +308,87 @@ const Home: React.FC = () => {
     }
   };
 
+  // Ctrl+Z / Ctrl+Y in the InputBox; the WebSocket broadcast refreshes the grid
+  const handleHistory = async (direction: 'undo' | 'redo') => {
+    setInputError(null);
+    forceActive();
+
+    try {
+      const step = direction === 'undo' ? apiService.undo : apiService.redo;
+      const result = await step(undefined, sessionId, activeTarget);
+      console.log(result.message);
+    } catch (error: any) {
+      console.error(`Error during ${direction}:`, error);
+      setInputError(error?.response?.data?.message || `Failed to ${direction}`);
+    }
+  };
+
+  const handleDeleteSheet = (sheetId: string) => {
+    const sheet = workbooks
+      .find(workbook => workbook.id === activeTarget?.workbookId)
+      ?.sheets.find(entry => entry.id === sheetId);
+    if (window.confirm(`Delete sheet "${sheet?.name ?? sheetId}"? Formulas referring to it will show #REF!.`)) {
+      deleteSheet(sheetId);
+    }
+  };
+
+  const handleImportFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Reset so choosing the same file again still triggers a change
+    event.target.value = '';
+    if (file) {
+      importWorkbook(file);
+    }
+  };
+
+  // Download the active workbook with all its sheets
+  const handleExport = async () => {
+    const workbook = workbooks.find(entry => entry.id === activeTarget?.workbookId);
+    if (!workbook) return;
+
+    try {
+      const blob = await apiService.exportXlsx(workbook.id);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${workbook.name}.xlsx`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Error exporting workbook:', error);
+      setInputError('Failed to export workbook');
+    }
+  };
+
+  // The panel belongs to the sheet it was opened for
+  useEffect(() => {
+    setSharing(null);
+  }, [activeTarget]);
+
+  const handleOpenSharing = async () => {
+    if (!activeTarget) return;
+    try {
+      setSharing({ access: await apiService.getSheetAccess(activeTarget), error: null });
+    } catch (error) {
+      console.error('Error loading sharing settings:', error);
+      setInputError('Failed to load sharing settings');
+    }
+  };
+
+  // The server hides error details outside development, except for the usernames it does not know
+  const handleSaveSharing = async (update: SheetAccessUpdate) => {
+    if (!activeTarget) return;
+    try {
+      setSharing({ access: await apiService.updateSheetAccess(activeTarget, update), error: null });
+    } catch (error: any) {
+      console.error('Error saving sharing settings:', error);
+      const message = error?.response?.status === 403
+        ? 'Only owners can change who this sheet is shared with'
+        : error?.response?.data?.error || 'Failed to save sharing settings';
+      setSharing(current => current && { ...current, error: message });
+    }
+  };
+
   const handleRetry = () => {
     console.log('Retrying spreadsheet load...');
     loadSpreadsheetState(true);
@@ -177,9 +400,18 @@ const Home: React.FC = () => {
         <h1>Spreadsheet Application</h1>
         <p>Interactive spreadsheet with real-time updates and user input</p>
         <div className="connection-status">
-          <span className={`status-indicator ${isConnected ? 'connected' : 'disconnected'}`}>
-            {isConnected ? '🟢 WebSocket Connected' : '🔴 Disconnected'}
+          <span className={`status-indicator ${isConnected ? 'connected' : status === 'reconnecting' ? 'reconnecting' : 'disconnected'}`}>
+            {isConnected
+              ? '🟢 WebSocket Connected'
+              : status === 'reconnecting'
+                ? `🟡 Reconnecting…${reconnectAttempt > 0 ? ` (attempt ${reconnectAttempt})` : ''}`
+                : '🔴 Disconnected'}
           </span>
+          {isConnected && resyncStatus !== 'idle' && (
+            <span className="resync-indicator">
+              {resyncStatus === 'resyncing' ? '🔄 Resyncing…' : '✅ Resynced'}
+            </span>
+          )}
           {isIdle && (
             <span className="idle-indicator">⏸️ Idle Mode</span>
           )}
@@ -190,32 +422,108 @@ const Home: React.FC = () => {
             Test WebSocket
           </button>
         </div>
+        <div className="presence-bar">
+          <span className="presence-name">
+            Signed in as <strong>{user.username}</strong>
+            <button onClick={handleLogout} className="test-button">
+              Log out
+            </button>
+          </span>
+          {remoteUsers.length > 0 && (
+            <span className="presence-users">
+              Also here:
+              {remoteUsers.map(user => (
+                <span key={user.clientId} className="presence-user" style={{ borderColor: user.color, color: user.color }}>
+                  {user.name}{user.editing ? ' ✎' : ''}
+                </span>
+              ))}
+            </span>
+          )}
+        </div>
+        <div className="file-actions">
+          <button onClick={() => fileInputRef.current?.click()} className="test-button">
+            Import XLSX
+          </button>
+          <button onClick={handleExport} className="test-button" disabled={!activeTarget}>
+            Export XLSX
+          </button>
+          {activeRole === 'owner' && (
+            <button onClick={handleOpenSharing} className="test-button">
+              Share
+            </button>
+          )}
+          {!canEdit && (
+            <span className="role-indicator">{activeRole === 'commenter' ? 'Commenter' : 'View only'}</span>
+          )}
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".xlsx,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+            onChange={handleImportFile}
+            hidden
+          />
+        </div>
       </div>
 
       <div className="main-section">
+        <SheetTabs
+          workbooks={workbooks}
+          activeWorkbookId={activeTarget?.workbookId}
+          activeSheetId={activeTarget?.sheetId}
+          onSelectWorkbook={selectWorkbook}
+          onCreateWorkbook={() => createWorkbook()}
+          onSelectSheet={selectSheet}
+          onAddSheet={() => addSheet()}
+          onRenameSheet={renameSheet}
+          onDuplicateSheet={duplicateSheet}
+          onDeleteSheet={handleDeleteSheet}
+        />
+        {workbookError && (
+          <div className="connection-error">{workbookError}</div>
+        )}
+        {sharing && (
+          <SharePanel
+            sheetName={workbooks.flatMap(workbook => workbook.sheets).find(sheet => sheet.id === activeTarget?.sheetId)?.name ?? ''}
+            access={sharing.access}
+            error={sharing.error}
+            onSave={handleSaveSharing}
+            onClose={() => setSharing(null)}
+          />
+        )}
+
         <Spreadsheet
           data={spreadsheetState}
           isLoading={loading && !isInitialized}
           onCellUpdate={handleCellUpdate}
           onSelectionChange={handleSelectionChange}
+          onClearSelection={handleClearSelection}
+          onPaste={handlePaste}
+          onFill={handleFill}
+          onResize={handleResize}
+          onEditingChange={setEditingCell}
+          remoteUsers={remoteUsers}
+          readOnly={!canEdit}
           config={{
             INITIAL_VISIBLE_ROWS: 20,
-            MAX_VISIBLE_ROWS: 100,
-            SCROLL_EXPANSION_ROWS: 20,
-            SCROLL_THRESHOLD: 0.8
+            OVERSCAN_ROWS: 5,
+            OVERSCAN_COLUMNS: 2
           }}
         />
         
         <InputBox
           onMessageSent={handleMessageSent}
+          onBatchSent={handleBatchSent}
           onError={handleError}
           isProcessing={isProcessing}
           selectedCells={selectedCells}
           selectedColumns={selectedColumns}
           selectedRows={selectedRows}
-          placeholder="Enter command (e.g., A1 value, A1-C5 value, A1-100 value)..."
+          placeholder="Enter command (e.g., A1 value, A1-C5 value, A:A value)..."
           showSelectionInfo={true}
           showCommandExamples={true}
+          onUndo={() => handleHistory('undo')}
+          onRedo={() => handleHistory('redo')}
+          disabled={!canEdit}
         />
       </div>
     </div>
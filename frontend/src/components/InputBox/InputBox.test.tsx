@@ -6,6 +6,7 @@ import InputBox from './index';
 
 describe('InputBox Component', () => {
   const mockOnMessageSent = vi.fn();
+  const mockOnBatchSent = vi.fn();
   const mockOnError = vi.fn();
 
   beforeEach(() => {
@@ -126,6 +127,7 @@ describe('InputBox Component', () => {
     render(
       <InputBox 
         onMessageSent={mockOnMessageSent}
+        onBatchSent={mockOnBatchSent}
         selectedCells={selectedCells}
       />
     );
@@ -135,7 +137,7 @@ describe('InputBox Component', () => {
     fireEvent.keyDown(input, { key: 'Enter' });
 
     await waitFor(() => {
-      expect(mockOnMessageSent).toHaveBeenCalledWith('A1 New Value C3 New Value');
+      expect(mockOnBatchSent).toHaveBeenCalledWith(['A1 New Value', 'C3 New Value']);
     });
   });
 
@@ -144,6 +146,7 @@ describe('InputBox Component', () => {
     render(
       <InputBox 
         onMessageSent={mockOnMessageSent}
+        onBatchSent={mockOnBatchSent}
         selectedColumns={selectedColumns}
       />
     );
@@ -153,7 +156,7 @@ describe('InputBox Component', () => {
     fireEvent.keyDown(input, { key: 'Enter' });
 
     await waitFor(() => {
-      expect(mockOnMessageSent).toHaveBeenCalledWith('A1-100 Column Data B1-100 Column Data');
+      expect(mockOnBatchSent).toHaveBeenCalledWith(['A:A Column Data', 'B:B Column Data']);
     });
   });
 
@@ -162,6 +165,7 @@ describe('InputBox Component', () => {
     render(
       <InputBox 
         onMessageSent={mockOnMessageSent}
+        onBatchSent={mockOnBatchSent}
         selectedRows={selectedRows}
       />
     );
@@ -171,7 +175,24 @@ describe('InputBox Component', () => {
     fireEvent.keyDown(input, { key: 'Enter' });
 
     await waitFor(() => {
-      expect(mockOnMessageSent).toHaveBeenCalledWith('A1-Z1 Row Data A3-Z3 Row Data');
+      expect(mockOnBatchSent).toHaveBeenCalledWith(['1:1 Row Data', '3:3 Row Data']);
+    });
+  });
+
+  it('sends the commands one by one without a batch handler', async () => {
+    render(
+      <InputBox 
+        onMessageSent={mockOnMessageSent}
+        selectedCells={['A1', 'B2']}
+      />
+    );
+    
+    const input = screen.getByRole('textbox');
+    fireEvent.change(input, { target: { value: 'x' } });
+    fireEvent.keyDown(input, { key: 'Enter' });
+
+    await waitFor(() => {
+      expect(mockOnMessageSent.mock.calls).toEqual([['A1 x'], ['B2 x']]);
     });
   });
 
@@ -245,4 +266,42 @@ describe('InputBox Component', () => {
       expect(mockOnError).toHaveBeenCalledWith('Network error');
     });
   });
-}); 
\ No newline at end of file
+
+  it('calls onUndo and onRedo for Ctrl+Z and Ctrl+Y when the input is empty', () => {
+    const onUndo = vi.fn();
+    const onRedo = vi.fn();
+    render(<InputBox onMessageSent={mockOnMessageSent} onUndo={onUndo} onRedo={onRedo} />);
+    const input = screen.getByRole('textbox');
+
+    fireEvent.keyDown(input, { key: 'z', ctrlKey: true });
+    fireEvent.keyDown(input, { key: 'y', ctrlKey: true });
+    fireEvent.keyDown(input, { key: 'Z', metaKey: true, shiftKey: true });
+
+    expect(onUndo).toHaveBeenCalledTimes(1);
+    expect(onRedo).toHaveBeenCalledTimes(2);
+  });
+
+  it('leaves Ctrl+Z to the text field while typing', () => {
+    const onUndo = vi.fn();
+    // Stable selection props so the typed text is not cleared on re-render
+    const cells: string[] = [];
+    const columns: string[] = [];
+    const rows: number[] = [];
+    render(
+      <InputBox
+        onMessageSent={mockOnMessageSent}
+        onUndo={onUndo}
+        selectedCells={cells}
+        selectedColumns={columns}
+        selectedRows={rows}
+      />
+    );
+    const input = screen.getByRole('textbox');
+
+    fireEvent.change(input, { target: { value: 'A1 draft' } });
+    expect(input).toHaveValue('A1 draft');
+    fireEvent.keyDown(input, { key: 'z', ctrlKey: true });
+
+    expect(onUndo).not.toHaveBeenCalled();
+  });
+});
@@ -3,6 +3,8 @@ import './styles.css';
 
 export interface InputBoxProps {
   onMessageSent: (message: string) => void;
+  // Commands for a selection of several cells, columns or rows, to apply all together
+  onBatchSent?: (commands: string[]) => void | Promise<void>;
   onError?: (error: string) => void;
   isProcessing?: boolean;
   selectedCells?: string[];
@@ -13,20 +15,30 @@ export interface InputBoxProps {
   disabled?: boolean;
   showSelectionInfo?: boolean;
   showCommandExamples?: boolean;
+  onUndo?: () => void;
+  onRedo?: () => void;
 }
 
+// Shared defaults, so an InputBox without a selection doesn't see a new one on every render
+const NO_CELLS: string[] = [];
+const NO_COLUMNS: string[] = [];
+const NO_ROWS: number[] = [];
+
 const InputBox: React.FC<InputBoxProps> = ({
   onMessageSent,
+  onBatchSent,
   onError,
   isProcessing = false,
-  selectedCells = [],
-  selectedColumns = [],
-  selectedRows = [],
-  placeholder = "Enter command (e.g., A1 value, A1-C5 value, A1-100 value)...",
+  selectedCells = NO_CELLS,
+  selectedColumns = NO_COLUMNS,
+  selectedRows = NO_ROWS,
+  placeholder = "Enter command (e.g., A1 value, A1-C5 value, A:A value)...",
   className = '',
   disabled = false,
   showSelectionInfo = true,
-  showCommandExamples = true
+  showCommandExamples = true,
+  onUndo,
+  onRedo
 }) => {
   const [message, setMessage] = useState('');
   const [error, setError] = useState<string | null>(null);
@@ -60,24 +72,29 @@ const InputBox: React.FC<InputBoxProps> = ({
     try {
       setError(null);
       
-      // Handle different selection types
-      let commandToSend = message.trim();
+      // One command per selected cell, column or row
+      const value = message.trim();
+      let commands = [value];
       
       if (selectedCells.length > 0) {
         // Fill selected cells with the value
-        const cellCommands = selectedCells.map(cell => `${cell} ${message.trim()}`);
-        commandToSend = cellCommands.join(' ');
+        commands = selectedCells.map(cell => `${cell} ${value}`);
       } else if (selectedColumns.length > 0) {
-        // Fill entire columns with the value (A1-100, B1-100, etc.)
-        const columnCommands = selectedColumns.map(col => `${col}1-${col}100 ${message.trim()}`);
-        commandToSend = columnCommands.join(' ');
+        // Fill entire columns with the value (A:A, B:B, etc.); the server spans every row of the sheet
+        commands = selectedColumns.map(col => `${col}:${col} ${value}`);
       } else if (selectedRows.length > 0) {
-        // Fill entire rows with the value (A1-Z1, A2-Z2, etc.)
-        const rowCommands = selectedRows.map(row => `A${row}-Z${row} ${message.trim()}`);
-        commandToSend = rowCommands.join(' ');
+        // Fill entire rows with the value (1:1, 2:2, etc.); the server spans every column of the sheet
+        commands = selectedRows.map(row => `${row}:${row} ${value}`);
       }
       
-      await onMessageSent(commandToSend);
+      // Several commands go as one batch, so they are applied and undone together
+      if (commands.length > 1 && onBatchSent) {
+        await onBatchSent(commands);
+      } else {
+        for (const command of commands) {
+          await onMessageSent(command);
+        }
+      }
       setMessage('');
       
       // Refocus input after sending
@@ -95,6 +112,20 @@ const InputBox: React.FC<InputBoxProps> = ({
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
       handleSubmit(e);
+      return;
+    }
+
+    // Ctrl+Z / Ctrl+Y (Cmd on macOS) undo and redo spreadsheet edits.
+    // While a command is being typed they keep undoing the typing instead.
+    if ((e.ctrlKey || e.metaKey) && !message) {
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey && onUndo) {
+        e.preventDefault();
+        onUndo();
+      } else if ((key === 'y' || (key === 'z' && e.shiftKey)) && onRedo) {
+        e.preventDefault();
+        onRedo();
+      }
     }
   };
 
@@ -158,11 +189,20 @@ const InputBox: React.FC<InputBoxProps> = ({
       { command: 'A1 Hello World', type: 'cell-command' },
       { command: 'B5 42', type: 'cell-command' },
       { command: 'A1-C5 Fill Range', type: 'range-command' },
-      { command: 'A1-100 Fill Column', type: 'range-command' },
-      { command: 'A1-Z1 Fill Row', type: 'range-command' },
+      { command: 'A:A Fill Column', type: 'range-command' },
+      { command: '1:1 Fill Row', type: 'range-command' },
       { command: 'change column A to Name', type: 'header-command' },
       { command: 'change column B to Age', type: 'header-command' },
-      { command: 'change column C header name to Department', type: 'header-command' }
+      { command: 'change column C header name to Department', type: 'header-command' },
+      { command: 'format A1-C3 bold', type: 'format-command' },
+      { command: 'format B2 color #ff0000 background #ffff00', type: 'format-command' },
+      { command: 'insert row after 5', type: 'structure-command' },
+      { command: 'delete rows 3-7', type: 'structure-command' },
+      { command: 'insert column before C', type: 'structure-command' },
+      { command: 'delete column D', type: 'structure-command' },
+      { command: 'freeze rows 1 columns 1', type: 'structure-command' },
+      { command: 'undo', type: 'history-command' },
+      { command: 'redo', type: 'history-command' }
     ];
   };
 
@@ -0,0 +1,37 @@
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import { describe, it, expect, vi } from 'vitest';
+import LoginForm from './index';
+
+describe('LoginForm Component', () => {
+  const fill = (username: string, password: string) => {
+    fireEvent.change(screen.getByLabelText('Username'), { target: { value: username } });
+    fireEvent.change(screen.getByLabelText('Password'), { target: { value: password } });
+  };
+
+  it('signs in with the entered credentials', async () => {
+    const onLogin = vi.fn();
+    render(<LoginForm onLogin={onLogin} onRegister={vi.fn()} />);
+
+    fill(' ada ', 'secret');
+    fireEvent.click(screen.getByRole('button', { name: 'Sign in' }));
+
+    await waitFor(() => expect(onLogin).toHaveBeenCalledWith('ada', 'secret'));
+  });
+
+  it('creates accounts and checks the password length first', async () => {
+    const onRegister = vi.fn();
+    render(<LoginForm onLogin={vi.fn()} onRegister={onRegister} error="That username is already taken" />);
+    expect(screen.getByRole('alert')).toHaveTextContent('That username is already taken');
+
+    fireEvent.click(screen.getByText('No account yet? Create one'));
+    fill('ada', 'short');
+    fireEvent.click(screen.getByRole('button', { name: 'Create account' }));
+    expect(screen.getByRole('alert')).toHaveTextContent('at least 8 characters');
+    expect(onRegister).not.toHaveBeenCalled();
+
+    fill('ada', 'long enough');
+    fireEvent.click(screen.getByRole('button', { name: 'Create account' }));
+    await waitFor(() => expect(onRegister).toHaveBeenCalledWith('ada', 'long enough'));
+  });
+});
@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import { AUTH_CONFIG } from '../../utils/constants';
+import './styles.css';
+
+export interface LoginFormProps {
+  onLogin: (username: string, password: string) => Promise<void> | void;
+  onRegister: (username: string, password: string) => Promise<void> | void;
+  error?: string | null;
+  className?: string;
+}
+
+// Sign-in screen with a switch to create an account instead
+const LoginForm: React.FC<LoginFormProps> = ({
+  onLogin,
+  onRegister,
+  error,
+  className = ''
+}) => {
+  const [mode, setMode] = useState<'login' | 'register'>('login');
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [validationError, setValidationError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!username.trim() || !password) {
+      setValidationError('Enter a username and password');
+      return;
+    }
+    if (mode === 'register' && password.length < AUTH_CONFIG.MIN_PASSWORD_LENGTH) {
+      setValidationError(`Passwords need at least ${AUTH_CONFIG.MIN_PASSWORD_LENGTH} characters`);
+      return;
+    }
+
+    setValidationError(null);
+    setIsSubmitting(true);
+    try {
+      await (mode === 'login' ? onLogin : onRegister)(username.trim(), password);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const shownError = validationError ?? error;
+
+  return (
+    <div className={`login-form-container ${className}`}>
+      <form className="login-form" onSubmit={handleSubmit}>
+        <h2>{mode === 'login' ? 'Sign in' : 'Create an account'}</h2>
+        <label>
+          Username
+          <input
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            autoComplete="username"
+            disabled={isSubmitting}
+          />
+        </label>
+        <label>
+          Password
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            autoComplete={mode === 'login' ? 'current-password' : 'new-password'}
+            disabled={isSubmitting}
+          />
+        </label>
+        {shownError && <div className="login-error" role="alert">{shownError}</div>}
+        <button type="submit" className="login-submit" disabled={isSubmitting}>
+          {mode === 'login' ? 'Sign in' : 'Create account'}
+        </button>
+        <button
+          type="button"
+          className="login-switch"
+          onClick={() => {
+            setMode(mode === 'login' ? 'register' : 'login');
+            setValidationError(null);
+          }}
+          disabled={isSubmitting}
+        >
+          {mode === 'login' ? 'No account yet? Create one' : 'Already have an account? Sign in'}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default LoginForm;
@@ -0,0 +1,43 @@
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import { describe, it, expect, vi } from 'vitest';
+import SharePanel from './index';
+import type { SheetAccess } from '../../types';
+
+describe('SharePanel Component', () => {
+  const access: SheetAccess = {
+    owner: { id: 'u1', username: 'ada' },
+    defaultRole: null,
+    members: [{ id: 'u2', username: 'linus', role: 'viewer' }],
+    protectedRanges: [{ id: 'r1', range: 'A:A', editors: [] }],
+  };
+
+  it('shows the current sharing', () => {
+    render(<SharePanel sheetName="Payroll" access={access} onSave={vi.fn()} onClose={vi.fn()} error="Unknown user" />);
+
+    expect(screen.getByText('Owned by ada')).toBeInTheDocument();
+    expect(screen.getByLabelText('Role of linus')).toHaveValue('viewer');
+    expect(screen.getByText('owners only')).toBeInTheDocument();
+    expect(screen.getByRole('alert')).toHaveTextContent('Unknown user');
+  });
+
+  it('saves members, the default role and protected ranges by username', async () => {
+    const onSave = vi.fn();
+    render(<SharePanel sheetName="Payroll" access={access} onSave={onSave} onClose={vi.fn()} />);
+
+    fireEvent.change(screen.getByLabelText('Everyone else'), { target: { value: 'viewer' } });
+    fireEvent.change(screen.getByLabelText('Username'), { target: { value: 'grace' } });
+    fireEvent.change(screen.getByLabelText('New member role'), { target: { value: 'editor' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Add' }));
+    fireEvent.change(screen.getByLabelText('Range'), { target: { value: 'b2-d10' } });
+    fireEvent.change(screen.getByLabelText('Range editors'), { target: { value: 'grace, linus' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Protect' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Save' }));
+
+    await waitFor(() => expect(onSave).toHaveBeenCalledWith({
+      defaultRole: 'viewer',
+      members: [{ username: 'linus', role: 'viewer' }, { username: 'grace', role: 'editor' }],
+      protectedRanges: [{ range: 'A:A', editors: [] }, { range: 'B2-D10', editors: ['grace', 'linus'] }],
+    }));
+  });
+});
@@ -0,0 +1,181 @@
+import React, { useState, useEffect } from 'react';
+import type { SheetAccess, SheetAccessUpdate, SheetRole } from '../../types';
+import './styles.css';
+
+export interface SharePanelProps {
+  sheetName: string;
+  // Current sharing; null for a sheet nobody has shared yet
+  access: SheetAccess | null;
+  onSave: (update: SheetAccessUpdate) => Promise<void> | void;
+  onClose: () => void;
+  error?: string | null;
+  className?: string;
+}
+
+const MEMBER_ROLES: SheetRole[] = ['viewer', 'commenter', 'editor', 'owner'];
+
+// The whole sharing being edited, saved in one update
+interface Draft {
+  defaultRole: SheetRole | null;
+  members: Array<{ username: string; role: SheetRole }>;
+  protectedRanges: Array<{ range: string; editors: string[] }>;
+}
+
+const toDraft = (access: SheetAccess | null): Draft => ({
+  defaultRole: access?.defaultRole ?? null,
+  members: access?.members.map(({ username, role }) => ({ username, role })) ?? [],
+  protectedRanges: access?.protectedRanges.map(({ range, editors }) => ({
+    range,
+    editors: editors.map(editor => editor.username)
+  })) ?? []
+});
+
+// Owner's view of who a sheet is shared with: a default role, members and protected ranges
+const SharePanel: React.FC<SharePanelProps> = ({
+  sheetName,
+  access,
+  onSave,
+  onClose,
+  error,
+  className = ''
+}) => {
+  const [draft, setDraft] = useState<Draft>(() => toDraft(access));
+  const [newMember, setNewMember] = useState('');
+  const [newMemberRole, setNewMemberRole] = useState<SheetRole>('viewer');
+  const [newRange, setNewRange] = useState('');
+  const [newRangeEditors, setNewRangeEditors] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setDraft(toDraft(access));
+  }, [access]);
+
+  const addMember = () => {
+    const username = newMember.trim();
+    if (!username) return;
+    setDraft(current => ({
+      ...current,
+      members: [...current.members.filter(member => member.username !== username), { username, role: newMemberRole }]
+    }));
+    setNewMember('');
+  };
+
+  const addRange = () => {
+    const range = newRange.trim().toUpperCase();
+    if (!range) return;
+    const editors = newRangeEditors.split(',').map(name => name.trim()).filter(Boolean);
+    setDraft(current => ({ ...current, protectedRanges: [...current.protectedRanges, { range, editors }] }));
+    setNewRange('');
+    setNewRangeEditors('');
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await onSave(draft);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className={`share-panel ${className}`} role="dialog" aria-label={`Share ${sheetName}`}>
+      <div className="share-panel-header">
+        <h3>Share “{sheetName}”</h3>
+        {access && <span className="share-owner">Owned by {access.owner.username}</span>}
+      </div>
+
+      <label className="share-row">
+        Everyone else
+        <select
+          aria-label="Everyone else"
+          value={draft.defaultRole ?? ''}
+          onChange={(e) => setDraft({ ...draft, defaultRole: (e.target.value || null) as SheetRole | null })}
+        >
+          <option value="">No access</option>
+          <option value="viewer">Viewer</option>
+          <option value="commenter">Commenter</option>
+          <option value="editor">Editor</option>
+        </select>
+      </label>
+
+      <div className="share-section">
+        <h4>People</h4>
+        {draft.members.map(member => (
+          <div key={member.username} className="share-row">
+            <span className="share-username">{member.username}</span>
+            <select
+              aria-label={`Role of ${member.username}`}
+              value={member.role}
+              onChange={(e) => setDraft({
+                ...draft,
+                members: draft.members.map(entry => entry === member ? { ...entry, role: e.target.value as SheetRole } : entry)
+              })}
+            >
+              {MEMBER_ROLES.map(role => <option key={role} value={role}>{role}</option>)}
+            </select>
+            <button
+              type="button"
+              className="share-remove"
+              onClick={() => setDraft({ ...draft, members: draft.members.filter(entry => entry !== member) })}
+            >
+              Remove
+            </button>
+          </div>
+        ))}
+        <div className="share-row">
+          <input
+            aria-label="Username"
+            placeholder="Username"
+            value={newMember}
+            onChange={(e) => setNewMember(e.target.value)}
+          />
+          <select aria-label="New member role" value={newMemberRole} onChange={(e) => setNewMemberRole(e.target.value as SheetRole)}>
+            {MEMBER_ROLES.map(role => <option key={role} value={role}>{role}</option>)}
+          </select>
+          <button type="button" onClick={addMember}>Add</button>
+        </div>
+      </div>
+
+      <div className="share-section">
+        <h4>Protected ranges</h4>
+        {draft.protectedRanges.map((entry, index) => (
+          <div key={`${entry.range}-${index}`} className="share-row">
+            <span className="share-range">{entry.range}</span>
+            <span className="share-editors">{entry.editors.length > 0 ? entry.editors.join(', ') : 'owners only'}</span>
+            <button
+              type="button"
+              className="share-remove"
+              onClick={() => setDraft({ ...draft, protectedRanges: draft.protectedRanges.filter(other => other !== entry) })}
+            >
+              Remove
+            </button>
+          </div>
+        ))}
+        <div className="share-row">
+          <input
+            aria-label="Range"
+            placeholder="A:A, 2:5 or B2-D10"
+            value={newRange}
+            onChange={(e) => setNewRange(e.target.value)}
+          />
+          <input
+            aria-label="Range editors"
+            placeholder="Also editable by (usernames)"
+            value={newRangeEditors}
+            onChange={(e) => setNewRangeEditors(e.target.value)}
+          />
+          <button type="button" onClick={addRange}>Protect</button>
+        </div>
+      </div>
+
+      {error && <div className="share-error" role="alert">{error}</div>}
+      <div className="share-actions">
+        <button type="button" onClick={onClose} disabled={isSaving}>Close</button>
+        <button type="button" className="share-save" onClick={handleSave} disabled={isSaving}>Save</button>
+      </div>
+    </div>
+  );
+};
+
+export default SharePanel;
@@ -0,0 +1,146 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import SheetTabs from './index';
+import type { Workbook } from '../../types';
+
+describe('SheetTabs Component', () => {
+  const workbooks: Workbook[] = [
+    {
+      id: 'book1',
+      name: 'Budget',
+      createdAt: '2024-01-01T00:00:00.000Z',
+      updatedAt: '2024-01-01T00:00:00.000Z',
+      sheets: [
+        { id: 'sheet1', name: 'Sheet1' },
+        { id: 'sheet2', name: 'Q1 Sales' }
+      ]
+    },
+    {
+      id: 'book2',
+      name: 'Notes',
+      createdAt: '2024-01-01T00:00:00.000Z',
+      updatedAt: '2024-01-01T00:00:00.000Z',
+      sheets: [{ id: 'sheet3', name: 'Sheet1' }]
+    }
+  ];
+  const mockOnSelectSheet = vi.fn();
+  const mockOnRenameSheet = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('renders a tab per sheet of the active workbook', () => {
+    render(
+      <SheetTabs
+        workbooks={workbooks}
+        activeWorkbookId="book1"
+        activeSheetId="sheet2"
+        onSelectSheet={mockOnSelectSheet}
+      />
+    );
+    const tabs = screen.getAllByRole('tab');
+    expect(tabs.map(tab => tab.textContent)).toEqual(['Sheet1', 'Q1 Sales']);
+    expect(screen.getByRole('tab', { name: 'Q1 Sales' })).toHaveAttribute('aria-selected', 'true');
+  });
+
+  it('selects a sheet on click', () => {
+    render(
+      <SheetTabs
+        workbooks={workbooks}
+        activeWorkbookId="book1"
+        activeSheetId="sheet1"
+        onSelectSheet={mockOnSelectSheet}
+      />
+    );
+    fireEvent.click(screen.getByRole('tab', { name: 'Q1 Sales' }));
+    expect(mockOnSelectSheet).toHaveBeenCalledWith('sheet2');
+  });
+
+  it('renames a sheet after double-click and Enter', () => {
+    render(
+      <SheetTabs
+        workbooks={workbooks}
+        activeWorkbookId="book1"
+        activeSheetId="sheet1"
+        onSelectSheet={mockOnSelectSheet}
+        onRenameSheet={mockOnRenameSheet}
+      />
+    );
+    fireEvent.doubleClick(screen.getByRole('tab', { name: 'Sheet1' }));
+    const input = screen.getByLabelText('Sheet name');
+    fireEvent.change(input, { target: { value: 'Summary' } });
+    fireEvent.keyDown(input, { key: 'Enter' });
+    expect(mockOnRenameSheet).toHaveBeenCalledWith('sheet1', 'Summary');
+  });
+
+  it('cancels a rename with Escape', () => {
+    render(
+      <SheetTabs
+        workbooks={workbooks}
+        activeWorkbookId="book1"
+        activeSheetId="sheet1"
+        onSelectSheet={mockOnSelectSheet}
+        onRenameSheet={mockOnRenameSheet}
+      />
+    );
+    fireEvent.doubleClick(screen.getByRole('tab', { name: 'Sheet1' }));
+    const input = screen.getByLabelText('Sheet name');
+    fireEvent.change(input, { target: { value: 'Summary' } });
+    fireEvent.keyDown(input, { key: 'Escape' });
+    expect(mockOnRenameSheet).not.toHaveBeenCalled();
+    expect(screen.getByRole('tab', { name: 'Sheet1' })).toBeInTheDocument();
+  });
+
+  it('calls add, duplicate and delete handlers', () => {
+    const onAddSheet = vi.fn();
+    const onDuplicateSheet = vi.fn();
+    const onDeleteSheet = vi.fn();
+    render(
+      <SheetTabs
+        workbooks={workbooks}
+        activeWorkbookId="book1"
+        activeSheetId="sheet2"
+        onSelectSheet={mockOnSelectSheet}
+        onAddSheet={onAddSheet}
+        onDuplicateSheet={onDuplicateSheet}
+        onDeleteSheet={onDeleteSheet}
+      />
+    );
+    fireEvent.click(screen.getByLabelText('Add sheet'));
+    fireEvent.click(screen.getByText('Duplicate'));
+    fireEvent.click(screen.getByText('Delete'));
+    expect(onAddSheet).toHaveBeenCalled();
+    expect(onDuplicateSheet).toHaveBeenCalledWith('sheet2');
+    expect(onDeleteSheet).toHaveBeenCalledWith('sheet2');
+  });
+
+  it('disables delete when only one sheet is left', () => {
+    render(
+      <SheetTabs
+        workbooks={workbooks}
+        activeWorkbookId="book2"
+        activeSheetId="sheet3"
+        onSelectSheet={mockOnSelectSheet}
+        onDeleteSheet={vi.fn()}
+      />
+    );
+    expect(screen.getByText('Delete')).toBeDisabled();
+  });
+
+  it('switches workbooks from the picker', () => {
+    const onSelectWorkbook = vi.fn();
+    render(
+      <SheetTabs
+        workbooks={workbooks}
+        activeWorkbookId="book1"
+        activeSheetId="sheet1"
+        onSelectSheet={mockOnSelectSheet}
+        onSelectWorkbook={onSelectWorkbook}
+      />
+    );
+    fireEvent.change(screen.getByLabelText('Workbook'), { target: { value: 'book2' } });
+    expect(onSelectWorkbook).toHaveBeenCalledWith('book2');
+  });
+});
@@ -0,0 +1,181 @@
+import React, { useState, useEffect, useRef } from 'react';
+import type { Workbook } from '../../types';
+import './styles.css';
+
+export interface SheetTabsProps {
+  workbooks: Workbook[];
+  activeWorkbookId?: string;
+  activeSheetId?: string;
+  onSelectWorkbook?: (workbookId: string) => void;
+  onCreateWorkbook?: () => void;
+  onSelectSheet: (sheetId: string) => void;
+  onAddSheet?: () => void;
+  onRenameSheet?: (sheetId: string, name: string) => void;
+  onDuplicateSheet?: (sheetId: string) => void;
+  onDeleteSheet?: (sheetId: string) => void;
+  className?: string;
+  disabled?: boolean;
+}
+
+// Tab bar listing the sheets of the active workbook, with a workbook picker
+const SheetTabs: React.FC<SheetTabsProps> = ({
+  workbooks,
+  activeWorkbookId,
+  activeSheetId,
+  onSelectWorkbook,
+  onCreateWorkbook,
+  onSelectSheet,
+  onAddSheet,
+  onRenameSheet,
+  onDuplicateSheet,
+  onDeleteSheet,
+  className = '',
+  disabled = false
+}) => {
+  const [editingSheetId, setEditingSheetId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const renameInputRef = useRef<HTMLInputElement>(null);
+
+  const workbook = workbooks.find(entry => entry.id === activeWorkbookId) ?? workbooks[0];
+  const sheets = workbook?.sheets ?? [];
+
+  useEffect(() => {
+    if (editingSheetId && renameInputRef.current) {
+      renameInputRef.current.focus();
+      renameInputRef.current.select();
+    }
+  }, [editingSheetId]);
+
+  const startRename = (sheetId: string, name: string) => {
+    if (!onRenameSheet || disabled) return;
+    setEditingSheetId(sheetId);
+    setDraftName(name);
+  };
+
+  const finishRename = (commit: boolean) => {
+    if (!editingSheetId) return;
+    const sheet = sheets.find(entry => entry.id === editingSheetId);
+    const name = draftName.trim();
+    if (commit && sheet && name && name !== sheet.name) {
+      onRenameSheet?.(editingSheetId, name);
+    }
+    setEditingSheetId(null);
+  };
+
+  const handleRenameKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      finishRename(true);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      finishRename(false);
+    }
+  };
+
+  return (
+    <div className={`sheet-tabs-container ${className}`}>
+      {workbooks.length > 0 && (
+        <div className="workbook-picker">
+          <select
+            className="workbook-select"
+            aria-label="Workbook"
+            value={workbook?.id ?? ''}
+            onChange={(e) => onSelectWorkbook?.(e.target.value)}
+            disabled={disabled || !onSelectWorkbook}
+          >
+            {workbooks.map(entry => (
+              <option key={entry.id} value={entry.id}>{entry.name}</option>
+            ))}
+          </select>
+          {onCreateWorkbook && (
+            <button
+              type="button"
+              className="sheet-tab-action"
+              onClick={onCreateWorkbook}
+              disabled={disabled}
+              title="New workbook"
+            >
+              New workbook
+            </button>
+          )}
+        </div>
+      )}
+
+      <div className="sheet-tab-list" role="tablist" aria-label="Sheets">
+        {sheets.map(sheet => {
+          const isActive = sheet.id === activeSheetId;
+          if (sheet.id === editingSheetId) {
+            return (
+              <input
+                key={sheet.id}
+                ref={renameInputRef}
+                className="sheet-tab-rename"
+                aria-label="Sheet name"
+                value={draftName}
+                onChange={(e) => setDraftName(e.target.value)}
+                onKeyDown={handleRenameKeyDown}
+                onBlur={() => finishRename(true)}
+              />
+            );
+          }
+          return (
+            <button
+              key={sheet.id}
+              type="button"
+              role="tab"
+              aria-selected={isActive}
+              className={`sheet-tab ${isActive ? 'active' : ''}`}
+              onClick={() => onSelectSheet(sheet.id)}
+              onDoubleClick={() => startRename(sheet.id, sheet.name)}
+              disabled={disabled}
+              title={onRenameSheet ? 'Double-click to rename' : sheet.name}
+            >
+              {sheet.name}
+            </button>
+          );
+        })}
+
+        {onAddSheet && (
+          <button
+            type="button"
+            className="sheet-tab-add"
+            onClick={onAddSheet}
+            disabled={disabled}
+            aria-label="Add sheet"
+            title="Add sheet"
+          >
+            +
+          </button>
+        )}
+      </div>
+
+      {activeSheetId && (onDuplicateSheet || onDeleteSheet) && (
+        <div className="sheet-tab-actions">
+          {onDuplicateSheet && (
+            <button
+              type="button"
+              className="sheet-tab-action"
+              onClick={() => onDuplicateSheet(activeSheetId)}
+              disabled={disabled}
+            >
+              Duplicate
+            </button>
+          )}
+          {onDeleteSheet && (
+            <button
+              type="button"
+              className="sheet-tab-action danger"
+              onClick={() => onDeleteSheet(activeSheetId)}
+              disabled={disabled || sheets.length <= 1}
+              title={sheets.length <= 1 ? 'A workbook needs at least one sheet' : 'Delete sheet'}
+            >
+              Delete
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SheetTabs;
@@ -3,7 +3,7 @@ import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import '@testing-library/jest-dom';
 import { describe, it, expect, vi } from 'vitest';
 import Spreadsheet from './index';
-import type { SpreadsheetState } from '../../types';
+import type { Presence, SpreadsheetState } from '../../types';
 
 // Mock data for testing
 const mockSpreadsheetData: SpreadsheetState = {
@@ -75,6 +75,27 @@ describe('Spreadsheet Component', () => {
     });
   });
 
+  it('edits the formula of a formula cell and sends nothing when it is left unchanged', () => {
+    const onCellUpdate = vi.fn();
+    const data: SpreadsheetState = {
+      ...mockSpreadsheetData,
+      cells: [...mockSpreadsheetData.cells, { row: 3, col: 0, value: '42', formula: '=SUM(A1:A3)' }]
+    };
+    const { container } = render(<Spreadsheet data={data} onCellUpdate={onCellUpdate} />);
+
+    fireEvent.doubleClick(screen.getByText('42'));
+    const input = screen.getByDisplayValue('=SUM(A1:A3)');
+    fireEvent.blur(input);
+    expect(onCellUpdate).not.toHaveBeenCalled();
+
+    fireEvent.click(screen.getByText('42'));
+    fireEvent.keyDown(container.querySelector('.spreadsheet-wrapper')!, { key: 'F2' });
+    const editor = screen.getByDisplayValue('=SUM(A1:A3)');
+    fireEvent.change(editor, { target: { value: '=SUM(A1:A2)' } });
+    fireEvent.blur(editor);
+    expect(onCellUpdate).toHaveBeenCalledWith(3, 0, '=SUM(A1:A2)');
+  });
+
   it('calls onSelectionChange when cell is clicked', () => {
     const mockOnSelectionChange = vi.fn();
     render(
@@ -123,6 +144,298 @@ describe('Spreadsheet Component', () => {
     expect(mockOnSelectionChange).toHaveBeenCalledWith([], [], [1]);
   });
 
+  it('selects the rectangle a drag passes over and reports it as a range', () => {
+    const onSelectionChange = vi.fn();
+    render(<Spreadsheet data={mockSpreadsheetData} onSelectionChange={onSelectionChange} />);
+
+    fireEvent.mouseDown(screen.getByText('Test Cell C3'));
+    fireEvent.mouseEnter(screen.getByText('Test Cell B2'));
+    fireEvent.mouseEnter(screen.getByText('Test Cell A1'));
+    fireEvent.mouseUp(window);
+    fireEvent.mouseEnter(screen.getByText('Test Cell B2'));
+
+    expect(onSelectionChange).toHaveBeenLastCalledWith(['A1:C3'], [], []);
+    expect(document.querySelectorAll('.cell.selected').length).toBe(9);
+  });
+
+  it('extends with Shift+click and adds disjoint ranges with Ctrl/Cmd+click', () => {
+    const onSelectionChange = vi.fn();
+    render(<Spreadsheet data={mockSpreadsheetData} onSelectionChange={onSelectionChange} />);
+
+    fireEvent.click(screen.getByText('Test Cell A1'));
+    fireEvent.click(screen.getByText('Test Cell B2'), { shiftKey: true });
+    expect(onSelectionChange).toHaveBeenLastCalledWith(['A1:B2'], [], []);
+
+    fireEvent.click(screen.getByText('Test Cell C3'), { ctrlKey: true });
+    expect(onSelectionChange).toHaveBeenLastCalledWith(['A1:B2', 'C3'], [], []);
+
+    fireEvent.click(screen.getByText('Test Cell A1'), { metaKey: true, shiftKey: true });
+    expect(onSelectionChange).toHaveBeenLastCalledWith(['A1:B2', 'A1:C3'], [], []);
+    expect(document.querySelectorAll('.cell.selected').length).toBe(9);
+  });
+
+  it('selects spans of columns and rows with Shift+click on their headers', () => {
+    const onSelectionChange = vi.fn();
+    render(<Spreadsheet data={mockSpreadsheetData} onSelectionChange={onSelectionChange} />);
+
+    fireEvent.click(screen.getByText('D'));
+    fireEvent.click(screen.getByText('B'), { shiftKey: true });
+    expect(onSelectionChange).toHaveBeenLastCalledWith([], ['B', 'C', 'D'], []);
+
+    fireEvent.click(screen.getByText('2'));
+    fireEvent.click(screen.getByText('4'), { shiftKey: true });
+    fireEvent.click(screen.getByText('7'), { ctrlKey: true });
+    expect(onSelectionChange).toHaveBeenLastCalledWith([], [], [2, 3, 4, 7]);
+    expect(document.querySelectorAll('.row-header.selected').length).toBe(4);
+  });
+
+  it('moves the active cell with the arrow keys, Tab and Enter', () => {
+    const onSelectionChange = vi.fn();
+    const { container } = render(<Spreadsheet data={mockSpreadsheetData} onSelectionChange={onSelectionChange} />);
+    const grid = container.querySelector('.spreadsheet-wrapper')!;
+
+    fireEvent.click(screen.getByText('Test Cell A1'));
+    fireEvent.keyDown(grid, { key: 'ArrowDown' });
+    expect(onSelectionChange).toHaveBeenLastCalledWith(['A2'], [], []);
+    fireEvent.keyDown(grid, { key: 'Tab' });
+    expect(onSelectionChange).toHaveBeenLastCalledWith(['B2'], [], []);
+    fireEvent.keyDown(grid, { key: 'Enter' });
+    fireEvent.keyDown(grid, { key: 'Tab', shiftKey: true });
+    expect(onSelectionChange).toHaveBeenLastCalledWith(['A3'], [], []);
+    fireEvent.keyDown(grid, { key: 'ArrowLeft' });
+    expect(onSelectionChange).toHaveBeenLastCalledWith(['A3'], [], []);
+
+    fireEvent.keyDown(grid, { key: 'ArrowRight', shiftKey: true });
+    fireEvent.keyDown(grid, { key: 'ArrowUp', shiftKey: true });
+    expect(onSelectionChange).toHaveBeenLastCalledWith(['A2:B3'], [], []);
+    expect(screen.getByText('Test Cell B2').closest('.cell')).toHaveClass('selected');
+    expect(container.querySelector('.cell.active')).toBe(container.querySelectorAll('.spreadsheet-row')[2].querySelector('.cell'));
+  });
+
+  it('starts editing by typing or F2 and moves on when the edit is committed', () => {
+    const onCellUpdate = vi.fn();
+    const onSelectionChange = vi.fn();
+    const { container } = render(
+      <Spreadsheet data={mockSpreadsheetData} onCellUpdate={onCellUpdate} onSelectionChange={onSelectionChange} />
+    );
+    const grid = container.querySelector('.spreadsheet-wrapper')!;
+
+    fireEvent.click(screen.getByText('Test Cell B2'));
+    fireEvent.keyDown(grid, { key: 'x' });
+    const input = screen.getByDisplayValue('x');
+    fireEvent.change(input, { target: { value: 'xy' } });
+    fireEvent.keyDown(input, { key: 'ArrowRight' });
+    expect(onCellUpdate).toHaveBeenCalledWith(1, 1, 'xy');
+    expect(onSelectionChange).toHaveBeenLastCalledWith(['C2'], [], []);
+
+    fireEvent.keyDown(grid, { key: 'ArrowDown' });
+    fireEvent.keyDown(grid, { key: 'F2' });
+    const editor = screen.getByDisplayValue('Test Cell C3');
+    fireEvent.keyDown(editor, { key: 'ArrowLeft' });
+    expect(editor).toBeInTheDocument();
+    fireEvent.keyDown(editor, { key: 'Tab' });
+    // Committed without a change, so nothing is sent
+    expect(onCellUpdate).toHaveBeenCalledTimes(1);
+    expect(onSelectionChange).toHaveBeenLastCalledWith(['D3'], [], []);
+  });
+
+  it('clears the selection with Delete and Backspace', () => {
+    const onClearSelection = vi.fn();
+    const { container, rerender } = render(<Spreadsheet data={mockSpreadsheetData} onClearSelection={onClearSelection} />);
+    const grid = container.querySelector('.spreadsheet-wrapper')!;
+
+    fireEvent.click(screen.getByText('Test Cell A1'));
+    fireEvent.click(screen.getByText('Test Cell B2'), { shiftKey: true });
+    fireEvent.keyDown(grid, { key: 'Delete' });
+    expect(onClearSelection).toHaveBeenLastCalledWith(['A1:B2']);
+
+    fireEvent.click(screen.getByText('C'));
+    fireEvent.keyDown(grid, { key: 'Backspace' });
+    expect(onClearSelection).toHaveBeenLastCalledWith(['C:C']);
+
+    rerender(<Spreadsheet data={mockSpreadsheetData} onClearSelection={onClearSelection} readOnly />);
+    fireEvent.keyDown(grid, { key: 'Delete' });
+    fireEvent.keyDown(grid, { key: 'x' });
+    expect(onClearSelection).toHaveBeenCalledTimes(2);
+    expect(screen.queryByDisplayValue('x')).not.toBeInTheDocument();
+  });
+
+  it('jumps to data edges, pages and ends, keeping the active cell in view', () => {
+    const largeData: SpreadsheetState = {
+      rows: 100000,
+      columns: 200,
+      headers: [],
+      cells: [
+        { row: 0, col: 0, value: 'Top' },
+        { row: 1, col: 0, value: 'Block end' },
+        { row: 50000, col: 0, value: 'Far down' }
+      ]
+    };
+    const onSelectionChange = vi.fn();
+    const { container } = render(<Spreadsheet data={largeData} onSelectionChange={onSelectionChange} />);
+    const grid = container.querySelector('.spreadsheet-wrapper')!;
+    // jsdom does not scroll, so the scroll position is kept by hand
+    let scrollTop = 0;
+    Object.defineProperty(grid, 'scrollTop', { get: () => scrollTop, set: (value: number) => { scrollTop = value; }, configurable: true });
+
+    fireEvent.click(screen.getByText('Top'));
+    fireEvent.keyDown(grid, { key: 'ArrowDown', ctrlKey: true });
+    expect(onSelectionChange).toHaveBeenLastCalledWith(['A2'], [], []);
+    fireEvent.keyDown(grid, { key: 'ArrowDown', ctrlKey: true });
+    expect(onSelectionChange).toHaveBeenLastCalledWith(['A50001'], [], []);
+    expect(screen.getByText('Far down')).toBeInTheDocument();
+
+    fireEvent.keyDown(grid, { key: 'PageDown' });
+    expect(onSelectionChange).toHaveBeenLastCalledWith(['A50021'], [], []);
+    fireEvent.keyDown(grid, { key: 'End' });
+    expect(onSelectionChange).toHaveBeenLastCalledWith(['GR50021'], [], []);
+    fireEvent.keyDown(grid, { key: 'Home', ctrlKey: true });
+    expect(onSelectionChange).toHaveBeenLastCalledWith(['A1'], [], []);
+    expect(scrollTop).toBe(0);
+    expect(screen.getByText('Top')).toBeInTheDocument();
+  });
+
+  it('copies and cuts the selection as TSV and HTML while the grid has the focus', () => {
+    const onClearSelection = vi.fn();
+    const { container } = render(<Spreadsheet data={mockSpreadsheetData} onClearSelection={onClearSelection} />);
+    const grid = container.querySelector<HTMLElement>('.spreadsheet-wrapper')!;
+    const clipboard = () => {
+      const data: Record<string, string> = {};
+      return { data, setData: (type: string, value: string) => { data[type] = value; }, getData: (type: string) => data[type] ?? '' };
+    };
+
+    fireEvent.click(screen.getByText('Test Cell A1'));
+    fireEvent.click(screen.getByText('Test Cell B2'), { shiftKey: true });
+    const ignored = clipboard();
+    fireEvent.copy(grid, { clipboardData: ignored });
+    expect(ignored.data).toEqual({});
+
+    grid.focus();
+    const copied = clipboard();
+    fireEvent.copy(grid, { clipboardData: copied });
+    expect(copied.data['text/plain']).toBe('Test Cell A1\t\n\tTest Cell B2');
+    expect(copied.data['text/html']).toContain('data-copied-from="A1"');
+    expect(onClearSelection).not.toHaveBeenCalled();
+
+    const cut = clipboard();
+    fireEvent.cut(grid, { clipboardData: cut });
+    expect(cut.data['text/html']).not.toContain('data-copied-from');
+    expect(onClearSelection).toHaveBeenCalledWith(['A1:B2']);
+  });
+
+  it('copies only up to the filled part of a selection extended to the end of the sheet', () => {
+    const largeData: SpreadsheetState = {
+      rows: 1048576,
+      columns: 702,
+      headers: [],
+      cells: [
+        { row: 0, col: 0, value: 'Top' },
+        { row: 2, col: 1, value: 'Last' }
+      ]
+    };
+    const { container } = render(<Spreadsheet data={largeData} />);
+    const grid = container.querySelector<HTMLElement>('.spreadsheet-wrapper')!;
+    const data: Record<string, string> = {};
+    const copied = { setData: (type: string, value: string) => { data[type] = value; }, getData: () => '' };
+
+    fireEvent.click(screen.getByText('Top'));
+    fireEvent.keyDown(grid, { key: 'End', ctrlKey: true, shiftKey: true });
+    grid.focus();
+    fireEvent.copy(grid, { clipboardData: copied });
+
+    expect(data['text/plain']).toBe('Top\t\n\t\n\tLast');
+  });
+
+  it('pastes a block at the active cell and selects it', () => {
+    const onPaste = vi.fn();
+    const onSelectionChange = vi.fn();
+    const { container } = render(<Spreadsheet data={mockSpreadsheetData} onPaste={onPaste} onSelectionChange={onSelectionChange} />);
+    const grid = container.querySelector<HTMLElement>('.spreadsheet-wrapper')!;
+    const clipboard = (data: Record<string, string>) => ({ getData: (type: string) => data[type] ?? '' });
+
+    fireEvent.click(screen.getByText('Test Cell B2'));
+    grid.focus();
+    fireEvent.paste(grid, { clipboardData: clipboard({ 'text/plain': '1\t2\n3\t4\n' }) });
+    expect(onPaste).toHaveBeenLastCalledWith('B2:C3', { values: [['1', '2'], ['3', '4']] });
+    expect(onSelectionChange).toHaveBeenLastCalledWith(['B2:C3'], [], []);
+
+    const html = '<table data-copied-from="A1"><tr><td data-formula="=A1" data-format="null">x</td></tr></table>';
+    fireEvent.paste(grid, { clipboardData: clipboard({ 'text/html': html, 'text/plain': 'x' }) });
+    expect(onPaste).toHaveBeenLastCalledWith('B2', { values: [['=A1']], formats: [[null]], copiedFrom: 'A1' });
+  });
+
+  it('fills from the selection to where its fill handle is dragged', () => {
+    const onFill = vi.fn();
+    const onSelectionChange = vi.fn();
+    const { container } = render(<Spreadsheet data={mockSpreadsheetData} onFill={onFill} onSelectionChange={onSelectionChange} />);
+    const cellAt = (row: number, col: number) => container.querySelectorAll('.spreadsheet-row')[row].querySelectorAll('.cell')[col];
+
+    fireEvent.mouseDown(screen.getByText('Test Cell A1'));
+    fireEvent.mouseEnter(screen.getByText('Test Cell B2'));
+    fireEvent.mouseUp(window);
+    const handle = cellAt(1, 1).querySelector('.fill-handle')!;
+    expect(container.querySelectorAll('.fill-handle').length).toBe(1);
+
+    fireEvent.mouseDown(handle);
+    fireEvent.mouseEnter(cellAt(5, 2));
+    expect(container.querySelectorAll('.cell.fill-preview').length).toBe(12);
+    fireEvent.mouseUp(window);
+
+    expect(onFill).toHaveBeenCalledWith('A1:B2', 'down', 'A6');
+    expect(onSelectionChange).toHaveBeenLastCalledWith(['A1:B6'], [], []);
+    expect(container.querySelectorAll('.cell.fill-preview').length).toBe(0);
+    expect(cellAt(5, 1).querySelector('.fill-handle')).not.toBeNull();
+
+    // Released inside the range, nothing is filled
+    fireEvent.mouseDown(cellAt(5, 1).querySelector('.fill-handle')!);
+    fireEvent.mouseEnter(cellAt(3, 0));
+    fireEvent.mouseUp(window);
+    expect(onFill).toHaveBeenCalledTimes(1);
+  });
+
+  it('lays out the sheet\'s column widths and row heights', () => {
+    const { container } = render(
+      <Spreadsheet data={{ ...mockSpreadsheetData, columnWidths: { 1: 200 }, rowHeights: { 0: 50 } }} />
+    );
+
+    expect(screen.getByText('B')).toHaveStyle({ width: '200px' });
+    expect(screen.getByText('Test Cell B2').closest('.cell')).toHaveStyle({ width: '200px', height: '30px' });
+    expect(screen.getByText('Test Cell A1').closest('.cell')).toHaveStyle({ width: '120px', height: '50px' });
+    expect(container.querySelector('.spreadsheet')).toHaveStyle({ width: `${4 * 120 + 200 + 60}px`, height: `${9 * 30 + 50 + 40}px` });
+  });
+
+  it('resizes columns and rows by dragging header borders and fits them on double-click', () => {
+    // jsdom has no canvas, so text is measured at 0.6em per character
+    const getContext = vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue(null);
+    const onResize = vi.fn();
+    const onSelectionChange = vi.fn();
+    const { container } = render(
+      <Spreadsheet data={mockSpreadsheetData} onResize={onResize} onSelectionChange={onSelectionChange} />
+    );
+    const columnResizer = screen.getByText('B').querySelector('.column-resizer')!;
+
+    fireEvent.mouseDown(columnResizer, { clientX: 300 });
+    fireEvent.mouseMove(window, { clientX: 380 });
+    expect(screen.getByText('B')).toHaveStyle({ width: '200px' });
+    fireEvent.mouseUp(window);
+    fireEvent.click(columnResizer);
+    expect(onResize).toHaveBeenLastCalledWith('col', 1, 200);
+    expect(onSelectionChange).not.toHaveBeenCalled();
+
+    const rowResizer = container.querySelectorAll('.row-header')[2].querySelector('.row-resizer')!;
+    fireEvent.mouseDown(rowResizer, { clientY: 100 });
+    fireEvent.mouseMove(window, { clientY: 0 });
+    fireEvent.mouseUp(window);
+    expect(onResize).toHaveBeenLastCalledWith('row', 2, 16);
+
+    // 'Test Cell C3' is 12 characters of 8.4px in the 14px font, plus the padding
+    fireEvent.doubleClick(screen.getByText('C').querySelector('.column-resizer')!);
+    expect(onResize).toHaveBeenLastCalledWith('col', 2, Math.ceil(12 * 14 * 0.6) + 25);
+    fireEvent.doubleClick(screen.getByText('E').querySelector('.column-resizer')!);
+    expect(onResize).toHaveBeenLastCalledWith('col', 4, null);
+    getContext.mockRestore();
+  });
+
   it('applies custom className', () => {
     const { container } = render(
       <Spreadsheet 
@@ -184,4 +497,139 @@ describe('Spreadsheet Component', () => {
     // Should not call onCellUpdate
     expect(mockOnCellUpdate).not.toHaveBeenCalled();
   });
-}); 
\ No newline at end of file
+
+  it('renders only the rows and columns around the viewport', () => {
+    const largeData: SpreadsheetState = {
+      rows: 100000,
+      columns: 200,
+      headers: [],
+      cells: [
+        { row: 0, col: 0, value: 'Top left' },
+        { row: 50000, col: 150, value: 'Far away' }
+      ]
+    };
+
+    const { container } = render(<Spreadsheet data={largeData} />);
+    expect(screen.getByText('Showing 20 of 100000 rows')).toBeInTheDocument();
+    expect(container.querySelectorAll('.spreadsheet-row').length).toBe(25);
+    expect(screen.getByText('Top left')).toBeInTheDocument();
+    expect(screen.queryByText('Far away')).not.toBeInTheDocument();
+
+    // jsdom does not lay out, so the scroll position is set by hand
+    const wrapper = container.querySelector('.spreadsheet-wrapper')!;
+    Object.defineProperty(wrapper, 'scrollTop', { value: 50000 * 30, configurable: true });
+    Object.defineProperty(wrapper, 'scrollLeft', { value: 150 * 120, configurable: true });
+    fireEvent.scroll(wrapper);
+
+    expect(screen.getByText('Far away')).toBeInTheDocument();
+    expect(screen.getByText('50001')).toBeInTheDocument();
+    expect(screen.getByText('EU')).toBeInTheDocument();
+    expect(screen.queryByText('Top left')).not.toBeInTheDocument();
+    expect(container.querySelectorAll('.spreadsheet-row').length).toBe(30);
+  });
+
+  it('keeps frozen rows and columns rendered and stuck in place while the rest scrolls', () => {
+    const largeData: SpreadsheetState = {
+      rows: 1000,
+      columns: 100,
+      headers: [],
+      frozenRows: 2,
+      frozenColumns: 1,
+      cells: [
+        { row: 0, col: 3, value: 'Header row' },
+        { row: 500, col: 0, value: 'Row label' },
+        { row: 500, col: 3, value: 'Scrolled' }
+      ]
+    };
+
+    const { container } = render(<Spreadsheet data={largeData} />);
+    const wrapper = container.querySelector('.spreadsheet-wrapper')!;
+    Object.defineProperty(wrapper, 'scrollTop', { value: 490 * 30, configurable: true });
+    Object.defineProperty(wrapper, 'scrollLeft', { value: 0, configurable: true });
+    fireEvent.scroll(wrapper);
+
+    const frozenRows = container.querySelectorAll('.spreadsheet-row.frozen');
+    expect(frozenRows).toHaveLength(2);
+    expect(frozenRows[1]).toHaveStyle({ top: '70px' });
+    expect(frozenRows[1]).toHaveClass('frozen-row-edge');
+    expect(screen.getByText('Header row')).toBeInTheDocument();
+    expect(screen.getByText('Scrolled')).toBeInTheDocument();
+    // Rows under the frozen ones are not rendered twice
+    expect(screen.getAllByText('1')).toHaveLength(1);
+    expect(screen.getByText('Showing 20 of 1000 rows')).toBeInTheDocument();
+
+    Object.defineProperty(wrapper, 'scrollLeft', { value: 50 * 120, configurable: true });
+    fireEvent.scroll(wrapper);
+
+    expect(screen.queryByText('Header row')).not.toBeInTheDocument();
+    expect(screen.getByText('Row label').closest('.cell')).toHaveClass('frozen', 'frozen-column-edge');
+    expect(screen.getByText('Row label').closest('.cell')).toHaveStyle({ left: '60px' });
+    expect(screen.getByText('A').closest('.header-cell')).toHaveClass('frozen');
+  });
+
+  it('renders cell formats as styles', () => {
+    const formattedData: SpreadsheetState = {
+      ...mockSpreadsheetData,
+      cells: [
+        { row: 0, col: 0, value: 'Formatted', format: { bold: true, textAlign: 'right', backgroundColor: '#ffff00' } }
+      ]
+    };
+
+    render(<Spreadsheet data={formattedData} />);
+
+    const cell = screen.getByText('Formatted');
+    expect(cell).toHaveStyle({ fontWeight: 'bold', justifyContent: 'flex-end', backgroundColor: '#ffff00' });
+  });
+
+  it('outlines other users\' selections and edits with their names', () => {
+    const remoteUsers: Presence[] = [
+      {
+        clientId: 'c1', name: 'Ada', color: '#e53935', workbookId: 'w', sheetId: 's',
+        selection: { cells: ['B2', 'C4:D5'], columns: [], rows: [] }, editing: null, updatedAt: ''
+      },
+      {
+        clientId: 'c2', name: 'Linus', color: '#1e88e5', workbookId: 'w', sheetId: 's',
+        selection: { cells: [], columns: ['D'], rows: [] }, editing: { row: 0, col: 0 }, updatedAt: ''
+      }
+    ];
+
+    const { container } = render(<Spreadsheet data={mockSpreadsheetData} remoteUsers={remoteUsers} />);
+
+    const selected = screen.getByText('Test Cell B2').closest('.cell')!;
+    expect(selected).toHaveStyle({ outline: '2px solid #e53935' });
+    expect(selected).toHaveTextContent('Ada');
+
+    const rows = container.querySelectorAll('.spreadsheet-row');
+    expect(rows[4].querySelectorAll('.cell')[3]).toHaveStyle({ outline: '2px solid #e53935' });
+    expect(rows[2].querySelectorAll('.cell')[3]).not.toHaveStyle({ outline: '2px solid #e53935' });
+
+    const edited = screen.getByText('Test Cell A1').closest('.cell')!;
+    expect(edited).toHaveClass('remote-editing');
+    expect(edited).toHaveStyle({ outline: '2px solid #1e88e5' });
+    expect(edited).toHaveTextContent('✎ Linus');
+
+    const column = container.querySelectorAll('.header-cell')[3];
+    expect(column).toHaveStyle({ outline: '2px solid #1e88e5' });
+    expect(column).toHaveTextContent('Linus');
+  });
+
+  it('reports when a cell editor opens and closes', () => {
+    const onEditingChange = vi.fn();
+    render(<Spreadsheet data={mockSpreadsheetData} onEditingChange={onEditingChange} />);
+
+    fireEvent.doubleClick(screen.getByText('Test Cell B2'));
+    expect(onEditingChange).toHaveBeenLastCalledWith({ row: 1, col: 1 });
+
+    fireEvent.keyDown(screen.getByDisplayValue('Test Cell B2'), { key: 'Escape' });
+    expect(onEditingChange).toHaveBeenLastCalledWith(null);
+  });
+
+  it('does not open a cell editor when read-only', () => {
+    const onEditingChange = vi.fn();
+    render(<Spreadsheet data={mockSpreadsheetData} onEditingChange={onEditingChange} readOnly />);
+
+    fireEvent.doubleClick(screen.getByText('Test Cell B2'));
+    expect(screen.queryByDisplayValue('Test Cell B2')).not.toBeInTheDocument();
+    expect(onEditingChange).not.toHaveBeenCalled();
+  });
+});
@@ -1,13 +1,22 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
-import type { SpreadsheetState } from '../../types';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import type { Presence, RangeWriteRequest, SpreadsheetCell, SpreadsheetState } from '../../types';
+import { COLUMN_WIDTH_LIMITS, ROW_HEIGHT_LIMITS, clampSize, fitColumnWidth, fitRowHeight } from '../../utils/autoFit';
+import { getCellStyle } from '../../utils/cellFormat';
+import { formatHtmlTable, formatTsv, parseHtmlTable, parseTsv } from '../../utils/clipboard';
+import { columnIndexToLetter } from '../../utils/constants';
+import { cellId, containsCell, extendBounds, fillTarget, findDataEdge, formatRange, parseRange, rangeBounds, singleCell, spanBetween } from '../../utils/selection';
+import type { CellRange, FillDirection, RangeBounds } from '../../utils/selection';
+import { cellKey, createAxisLayout, getLayoutRange, indexCells } from '../../utils/virtualization';
 import './styles.css';
 
 // Default configuration that can be overridden
 export interface SpreadsheetConfig {
+  // Rows that fit the viewport, which sets its height
   INITIAL_VISIBLE_ROWS: number;
-  MAX_VISIBLE_ROWS: number;
-  SCROLL_EXPANSION_ROWS: number;
-  SCROLL_THRESHOLD: number;
+  // Rows and columns rendered beyond each edge of the viewport so fast scrolling shows no gaps
+  OVERSCAN_ROWS: number;
+  OVERSCAN_COLUMNS: number;
+  // Sizes of columns and rows the sheet has not resized
   CELL_WIDTH: number;
   CELL_HEIGHT: number;
   HEADER_HEIGHT: number;
@@ -16,9 +25,8 @@ export interface SpreadsheetConfig {
 
 const DEFAULT_CONFIG: SpreadsheetConfig = {
   INITIAL_VISIBLE_ROWS: 20,
-  MAX_VISIBLE_ROWS: 100,
-  SCROLL_EXPANSION_ROWS: 20,
-  SCROLL_THRESHOLD: 0.8,
+  OVERSCAN_ROWS: 5,
+  OVERSCAN_COLUMNS: 2,
   CELL_WIDTH: 120,
   CELL_HEIGHT: 30,
   HEADER_HEIGHT: 40,
@@ -30,154 +38,469 @@ export interface SpreadsheetProps {
   isLoading?: boolean;
   config?: Partial<SpreadsheetConfig>;
   onCellUpdate?: (row: number, col: number, value: string) => void;
+  // Cells come as single cells (`A1`) or ranges (`B2:D9`); columns as letters and rows 1-based
   onSelectionChange?: (selectedCells: string[], selectedColumns: string[], selectedRows: number[]) => void;
+  // Delete/Backspace on a selection, with ranges the ranges API takes (`B2:D9`, `C:C`, `3:3`)
+  onClearSelection?: (ranges: string[]) => void;
+  // Ctrl/Cmd+V: the block pasted at the active cell and the range it covers
+  onPaste?: (range: string, block: RangeWriteRequest) => void;
+  // Dragging the fill handle: the range, which way it was extended and the cell at the far end
+  onFill?: (range: string, direction: FillDirection, to: string) => void;
+  // Dragging the border of a column or row header, or double-clicking it to fit the content:
+  // the new width or height in pixels, null for the default
+  onResize?: (axis: 'col' | 'row', index: number, size: number | null) => void;
+  // Called with the cell whose editor opens, and with null once it closes
+  onEditingChange?: (cell: { row: number; col: number } | null) => void;
+  // Other users on this sheet, drawn as colored outlines with their names
+  remoteUsers?: Presence[];
+  // Cells can be selected but not edited, e.g. for viewers of a shared sheet
+  readOnly?: boolean;
   className?: string;
 }
 
+// What is selected: cell ranges, or whole columns or rows (0-based)
+interface GridSelection {
+  // Shift+click and dragging extend the last range
+  ranges: CellRange[];
+  columns: number[];
+  rows: number[];
+  // Column or row a Shift+click on a header extends from
+  headerAnchor: number | null;
+}
+
+// Other users grouped by the cells, columns and rows they mark
+interface RemoteMarks {
+  // Cells and ranges selected or typed into; ranges stay whole so large ones are not split into cells
+  ranges: Array<{ bounds: RangeBounds; user: Presence }>;
+  columns: Map<string, Presence[]>;
+  rows: Map<number, Presence[]>;
+  // The cell each user's name badge is shown on: where they type, or where their selection starts
+  badges: Map<string, Array<{ user: Presence; editing: boolean }>>;
+}
+
+// How the editor was opened: double-click selects the content and F2 puts the caret after it;
+// typing replaces it, and the arrow keys then commit and move on like Enter
+type EditEntry = 'select' | 'caret' | 'typing';
+
+const ARROW_STEPS = new Map<string, [number, number]>([
+  ['ArrowUp', [-1, 0]],
+  ['ArrowDown', [1, 0]],
+  ['ArrowLeft', [0, -1]],
+  ['ArrowRight', [0, 1]],
+]);
+
+// Dragging the fill handle of a range; `target` stays null while the pointer is inside it
+interface FillDrag {
+  source: RangeBounds;
+  target: { direction: FillDirection; to: number } | null;
+}
+
+// A column or row shown at a size of its own while it is dragged, until the sheet's sizes come back
+interface SizeOverride {
+  axis: 'col' | 'row';
+  index: number;
+  size: number | null;
+}
+
+// The sheet's sizes along one axis with an override applied
+const withOverride = (
+  sizes: Record<number, number> | undefined,
+  axis: SizeOverride['axis'],
+  override: SizeOverride | null
+): Record<number, number> | undefined => {
+  if (override?.axis !== axis) return sizes;
+  const next = { ...sizes };
+  if (override.size === null) {
+    delete next[override.index];
+  } else {
+    next[override.index] = override.size;
+  }
+  return next;
+};
+
+const NO_SELECTION: GridSelection = { ranges: [], columns: [], rows: [], headerAnchor: null };
+
+const NO_REMOTE_USERS: Presence[] = [];
+
+// Where keys and pastes act: the start of the last range, or the first selected column or row
+const activeCellOf = ({ ranges, columns, rows }: GridSelection): { row: number; col: number } =>
+  ranges[ranges.length - 1]?.anchor ?? { row: rows[0] ?? 0, col: columns[0] ?? 0 };
+
+const span = (indexes: number[]) => ({
+  first: indexes.reduce((min, index) => Math.min(min, index), Infinity),
+  last: indexes.reduce((max, index) => Math.max(max, index), -Infinity),
+});
+
+// What Ctrl/Cmd+C copies: the last range or the selected columns or rows, cut off after their
+// filled part so a selection extended to the end of the sheet does not copy a million empty rows
+const copyBounds = ({ ranges, columns, rows }: GridSelection, cells: SpreadsheetCell[]): RangeBounds | null => {
+  if (ranges.length > 0) {
+    const { top, left, bottom, right } = rangeBounds(ranges[ranges.length - 1]);
+    const filled = cells.filter(cell =>
+      (cell.value || cell.formula) && cell.row >= top && cell.row <= bottom && cell.col >= left && cell.col <= right);
+    return {
+      top,
+      left,
+      bottom: Math.max(top, span(filled.map(cell => cell.row)).last),
+      right: Math.max(left, span(filled.map(cell => cell.col)).last),
+    };
+  }
+  const filled = cells.filter(cell => (cell.value || cell.formula) && (columns.includes(cell.col) || rows.includes(cell.row)));
+  if (columns.length > 0) {
+    const { first, last } = span(columns);
+    return { top: 0, left: first, bottom: Math.max(0, span(filled.map(cell => cell.row)).last), right: last };
+  }
+  if (rows.length > 0) {
+    const { first, last } = span(rows);
+    return { top: first, left: 0, bottom: last, right: Math.max(0, span(filled.map(cell => cell.col)).last) };
+  }
+  return null;
+};
+
+const boundsToRange = ({ top, left, bottom, right }: RangeBounds): CellRange =>
+  ({ anchor: { row: top, col: left }, focus: { row: bottom, col: right } });
+
+const addMark = <K,>(map: Map<K, Presence[]>, key: K, user: Presence) => {
+  map.set(key, [...(map.get(key) ?? []), user]);
+};
+
 const Spreadsheet: React.FC<SpreadsheetProps> = ({ 
   data, 
   isLoading = false,
   config = {},
   onCellUpdate,
   onSelectionChange,
+  onClearSelection,
+  onPaste,
+  onFill,
+  onResize,
+  onEditingChange,
+  remoteUsers = NO_REMOTE_USERS,
+  readOnly = false,
   className = ''
 }) => {
   const finalConfig = { ...DEFAULT_CONFIG, ...config };
-  const [visibleRows, setVisibleRows] = useState(finalConfig.INITIAL_VISIBLE_ROWS);
-  const [isExpanding, setIsExpanding] = useState(false);
-  const [selectedCells, setSelectedCells] = useState<string[]>([]);
-  const [selectedColumns, setSelectedColumns] = useState<string[]>([]);
-  const [selectedRows, setSelectedRows] = useState<number[]>([]);
+  // Scroll position and size of the wrapper; sizes stay 0 until it has been laid out
+  const [viewport, setViewport] = useState({ scrollTop: 0, scrollLeft: 0, width: 0, height: 0 });
+  const [selection, setSelection] = useState<GridSelection>(NO_SELECTION);
   const [editingCell, setEditingCell] = useState<{ row: number; col: number } | null>(null);
   const [editValue, setEditValue] = useState('');
+  // The range a fill handle drag would fill, outlined until the mouse is released
+  const [fillPreview, setFillPreview] = useState<RangeBounds | null>(null);
+  const [sizeOverride, setSizeOverride] = useState<SizeOverride | null>(null);
   const spreadsheetRef = useRef<HTMLDivElement>(null);
-  const scrollTimeoutRef = useRef<NodeJS.Timeout>();
   const editInputRef = useRef<HTMLInputElement>(null);
+  // Latest selection for the mouse handlers, which may run several times before a render
+  const selectionRef = useRef<GridSelection>(NO_SELECTION);
+  const draggingRef = useRef(false);
+  // Set on mousedown so the click that follows does not select the cell again
+  const pressedRef = useRef(false);
+  const fillRef = useRef<FillDrag | null>(null);
+  const editEntryRef = useRef<EditEntry>('select');
+  // Set when the editor closes from the keyboard, so the grid takes the focus back
+  const refocusRef = useRef(false);
 
-  // Reset visible rows when data changes
-  useEffect(() => {
-    setVisibleRows(finalConfig.INITIAL_VISIBLE_ROWS);
-  }, [data.rows, finalConfig.INITIAL_VISIBLE_ROWS]);
+  const cellIndex = useMemo(() => indexCells(data.cells), [data.cells]);
 
-  const handleScroll = useCallback(() => {
-    if (!spreadsheetRef.current || isExpanding) return;
+  // Where each row and column starts; most have the configured size, resized ones their own
+  const rowLayout = useMemo(
+    () => createAxisLayout(data.rows, finalConfig.CELL_HEIGHT, withOverride(data.rowHeights, 'row', sizeOverride)),
+    [data.rows, data.rowHeights, finalConfig.CELL_HEIGHT, sizeOverride]
+  );
+  const columnLayout = useMemo(
+    () => createAxisLayout(data.columns, finalConfig.CELL_WIDTH, withOverride(data.columnWidths, 'col', sizeOverride)),
+    [data.columns, data.columnWidths, finalConfig.CELL_WIDTH, sizeOverride]
+  );
 
-    const { scrollTop, scrollHeight, clientHeight } = spreadsheetRef.current;
-    const scrollPercentage = scrollTop / (scrollHeight - clientHeight);
+  // A resize shows its size until the delta with the sheet's new sizes arrives
+  useEffect(() => {
+    setSizeOverride(null);
+  }, [data.columnWidths, data.rowHeights]);
 
-    if (scrollPercentage >= finalConfig.SCROLL_THRESHOLD && 
-        visibleRows < Math.min(data.rows, finalConfig.MAX_VISIBLE_ROWS)) {
-      
-      setIsExpanding(true);
-      
-      // Clear existing timeout
-      if (scrollTimeoutRef.current) {
-        clearTimeout(scrollTimeoutRef.current);
+  const remoteMarks = useMemo(() => {
+    const marks: RemoteMarks = { ranges: [], columns: new Map(), rows: new Map(), badges: new Map() };
+    remoteUsers.forEach(user => {
+      const ranges = user.selection.cells.map(parseRange).filter((bounds): bounds is RangeBounds => bounds !== null);
+      ranges.forEach(bounds => marks.ranges.push({ bounds, user }));
+      user.selection.columns.forEach(column => addMark(marks.columns, column, user));
+      user.selection.rows.forEach(row => addMark(marks.rows, row, user));
+      const badgeCell = user.editing
+        ? cellId(user.editing.row, user.editing.col)
+        : ranges[0] && cellId(ranges[0].top, ranges[0].left);
+      if (badgeCell) {
+        marks.badges.set(badgeCell, [...(marks.badges.get(badgeCell) ?? []), { user, editing: user.editing !== null }]);
+      }
+      if (user.editing) {
+        marks.ranges.push({ bounds: rangeBounds(singleCell(user.editing.row, user.editing.col)), user });
       }
+    });
+    return marks;
+  }, [remoteUsers]);
+
+  const updateViewport = useCallback(() => {
+    const wrapper = spreadsheetRef.current;
+    if (!wrapper) return;
+    const { scrollTop, scrollLeft, clientWidth, clientHeight } = wrapper;
+    setViewport(previous => (
+      previous.scrollTop === scrollTop && previous.scrollLeft === scrollLeft &&
+      previous.width === clientWidth && previous.height === clientHeight
+        ? previous
+        : { scrollTop, scrollLeft, width: clientWidth, height: clientHeight }
+    ));
+  }, []);
 
-      // Add more rows after a short delay
-      scrollTimeoutRef.current = setTimeout(() => {
-        const newVisibleRows = Math.min(
-          visibleRows + finalConfig.SCROLL_EXPANSION_ROWS,
-          Math.min(data.rows, finalConfig.MAX_VISIBLE_ROWS)
-        );
-        setVisibleRows(newVisibleRows);
-        setIsExpanding(false);
-      }, 300);
+  // Measure the wrapper once it is mounted and whenever it is resized
+  useEffect(() => {
+    updateViewport();
+    const wrapper = spreadsheetRef.current;
+    if (!wrapper || typeof ResizeObserver === 'undefined') return;
+    const observer = new ResizeObserver(updateViewport);
+    observer.observe(wrapper);
+    return () => observer.disconnect();
+  }, [updateViewport, isLoading]);
+
+  const select = useCallback((next: GridSelection) => {
+    selectionRef.current = next;
+    setSelection(next);
+    onSelectionChange?.(next.ranges.map(formatRange), next.columns.map(columnIndexToLetter), next.rows.map(row => row + 1));
+  }, [onSelectionChange]);
+
+  // Move the far corner of the last range, keeping where it started
+  const extendSelection = useCallback((row: number, col: number) => {
+    const { ranges } = selectionRef.current;
+    const last = ranges[ranges.length - 1];
+    select({ ...NO_SELECTION, ranges: [...ranges.slice(0, -1), { anchor: last.anchor, focus: { row, col } }] });
+  }, [select]);
+
+  // Shift+click extends the last range, Ctrl/Cmd+click adds another one
+  const selectCell = useCallback((row: number, col: number, e: React.MouseEvent) => {
+    const { ranges } = selectionRef.current;
+    if (e.shiftKey && ranges.length > 0) {
+      extendSelection(row, col);
+    } else if (e.ctrlKey || e.metaKey) {
+      select({ ...NO_SELECTION, ranges: [...ranges, singleCell(row, col)] });
+    } else {
+      select({ ...NO_SELECTION, ranges: [singleCell(row, col)] });
+    }
+  }, [select, extendSelection]);
+
+  // Dragging selects the rectangle between the pressed cell and the one under the pointer
+  const handleCellMouseDown = useCallback((row: number, col: number, e: React.MouseEvent) => {
+    if (e.button !== 0 || (editingCell?.row === row && editingCell?.col === col)) return;
+    draggingRef.current = true;
+    pressedRef.current = true;
+    selectCell(row, col, e);
+  }, [editingCell, selectCell]);
+
+  const handleCellMouseEnter = useCallback((row: number, col: number) => {
+    const fill = fillRef.current;
+    if (fill) {
+      fill.target = fillTarget(fill.source, row, col);
+      setFillPreview(fill.target && extendBounds(fill.source, fill.target));
+      return;
+    }
+    const { ranges } = selectionRef.current;
+    const focus = ranges[ranges.length - 1]?.focus;
+    if (!draggingRef.current || !focus || (focus.row === row && focus.col === col)) return;
+    extendSelection(row, col);
+  }, [extendSelection]);
+
+  // Clicks that did not start with a mousedown (e.g. from assistive technology) select like a press
+  const handleCellClick = useCallback((row: number, col: number, e: React.MouseEvent) => {
+    if (pressedRef.current) {
+      pressedRef.current = false;
+      return;
     }
-  }, [visibleRows, data.rows, isExpanding, finalConfig]);
+    selectCell(row, col, e);
+  }, [selectCell]);
+
+  // The handle on the corner of the selection fills the cells it is dragged over
+  const handleFillMouseDown = useCallback((e: React.MouseEvent) => {
+    const { ranges } = selectionRef.current;
+    if (e.button !== 0 || ranges.length !== 1) return;
+    e.preventDefault();
+    e.stopPropagation();
+    pressedRef.current = true;
+    fillRef.current = { source: rangeBounds(ranges[0]), target: null };
+  }, []);
 
-  // Cleanup timeout on unmount
+  // Releasing it fills up to the row or column the pointer reached and selects the filled range
+  const finishFill = useCallback(() => {
+    const fill = fillRef.current;
+    if (!fill) return;
+    fillRef.current = null;
+    setFillPreview(null);
+    if (!fill.target) return;
+    const { source, target } = fill;
+    const vertical = target.direction === 'down' || target.direction === 'up';
+    select({ ...NO_SELECTION, ranges: [boundsToRange(extendBounds(source, target))] });
+    onFill?.(formatRange(boundsToRange(source)), target.direction, vertical ? cellId(target.to, source.left) : cellId(source.top, target.to));
+  }, [onFill, select]);
+
+  // The drag may end outside the grid
   useEffect(() => {
-    return () => {
-      if (scrollTimeoutRef.current) {
-        clearTimeout(scrollTimeoutRef.current);
-      }
+    const stopDragging = () => {
+      draggingRef.current = false;
+      finishFill();
     };
-  }, []);
+    window.addEventListener('mouseup', stopDragging);
+    return () => window.removeEventListener('mouseup', stopDragging);
+  }, [finishFill]);
 
-  // Convert column index to letter
-  const columnIndexToLetter = (index: number): string => {
-    let result = '';
-    while (index >= 0) {
-      result = String.fromCharCode(65 + (index % 26)) + result;
-      index = Math.floor(index / 26) - 1;
+  // Headers select whole columns or rows: Shift+click takes the span from the last header
+  // clicked, Ctrl/Cmd+click adds or removes one
+  const selectHeader = useCallback((axis: 'columns' | 'rows', index: number, e: React.MouseEvent) => {
+    const current = selectionRef.current;
+    const selected = current[axis];
+    if (e.shiftKey && current.headerAnchor !== null && selected.length > 0) {
+      select({ ...NO_SELECTION, [axis]: spanBetween(current.headerAnchor, index), headerAnchor: current.headerAnchor });
+    } else if (e.ctrlKey || e.metaKey) {
+      const indexes = selected.includes(index)
+        ? selected.filter(other => other !== index)
+        : [...selected, index].sort((a, b) => a - b);
+      select({ ...NO_SELECTION, [axis]: indexes, headerAnchor: index });
+    } else {
+      select({ ...NO_SELECTION, [axis]: [index], headerAnchor: index });
     }
-    return result;
-  };
-
-  const handleCellClick = useCallback((row: number, col: number) => {
-    const cellId = `${columnIndexToLetter(col)}${row + 1}`;
-    setSelectedCells([cellId]);
-    setSelectedColumns([]);
-    setSelectedRows([]);
-    onSelectionChange?.([cellId], [], []);
-  }, [onSelectionChange]);
+  }, [select]);
 
-  const handleColumnHeaderClick = useCallback((col: number) => {
-    const columnLetter = columnIndexToLetter(col);
-    setSelectedColumns([columnLetter]);
-    setSelectedCells([]);
-    setSelectedRows([]);
-    onSelectionChange?.([], [columnLetter], []);
-  }, [onSelectionChange]);
+  const startEditing = useCallback((row: number, col: number, value: string, entry: EditEntry) => {
+    if (readOnly) return;
+    editEntryRef.current = entry;
+    setEditingCell({ row, col });
+    setEditValue(value);
+    onEditingChange?.({ row, col });
+  }, [onEditingChange, readOnly]);
 
-  const handleRowHeaderClick = useCallback((row: number) => {
-    setSelectedRows([row + 1]);
-    setSelectedCells([]);
-    setSelectedColumns([]);
-    onSelectionChange?.([], [], [row + 1]);
-  }, [onSelectionChange]);
+  // What the editor shows for a cell: its formula when it has one, otherwise its value
+  const editText = useCallback((row: number, col: number) => {
+    const cell = cellIndex.get(cellKey(row, col));
+    return cell?.formula ?? cell?.value ?? '';
+  }, [cellIndex]);
 
   const handleCellDoubleClick = useCallback((row: number, col: number) => {
-    const cell = data.cells.find(c => c.row === row && c.col === col);
-    setEditingCell({ row, col });
-    setEditValue(cell?.value || '');
-  }, [data.cells]);
+    startEditing(row, col, editText(row, col), 'select');
+  }, [editText, startEditing]);
 
   const handleEditComplete = useCallback(() => {
-    if (editingCell && onCellUpdate) {
+    // Leaving the editor without a change sends nothing, so no update or undo step is recorded
+    if (editingCell && onCellUpdate && editValue !== editText(editingCell.row, editingCell.col)) {
       // Pass the actual row index (0-based) to match the data structure
       onCellUpdate(editingCell.row, editingCell.col, editValue);
     }
     setEditingCell(null);
     setEditValue('');
-  }, [editingCell, editValue, onCellUpdate]);
+    onEditingChange?.(null);
+  }, [editingCell, editValue, editText, onCellUpdate, onEditingChange]);
 
   const handleEditCancel = useCallback(() => {
     setEditingCell(null);
     setEditValue('');
-  }, []);
-
-  const handleEditKeyDown = useCallback((e: React.KeyboardEvent) => {
-    if (e.key === 'Enter') {
-      handleEditComplete();
-    } else if (e.key === 'Escape') {
-      handleEditCancel();
-    }
-  }, [handleEditComplete, handleEditCancel]);
+    onEditingChange?.(null);
+  }, [onEditingChange]);
 
-  // Focus edit input when editing starts
+  // Focus edit input when editing starts, and the grid again when it was closed from the keyboard
   useEffect(() => {
-    if (editingCell && editInputRef.current) {
-      editInputRef.current.focus();
-      editInputRef.current.select();
+    const input = editInputRef.current;
+    if (editingCell && input) {
+      input.focus();
+      if (editEntryRef.current === 'select') {
+        input.select();
+      } else {
+        input.setSelectionRange(input.value.length, input.value.length);
+      }
+    } else if (!editingCell && refocusRef.current) {
+      refocusRef.current = false;
+      spreadsheetRef.current?.focus();
     }
   }, [editingCell]);
 
+  const clearSelection = useCallback(() => {
+    const { ranges, columns, rows } = selectionRef.current;
+    const targets = [
+      ...ranges.map(formatRange),
+      ...columns.map(col => `${columnIndexToLetter(col)}:${columnIndexToLetter(col)}`),
+      ...rows.map(row => `${row + 1}:${row + 1}`),
+    ];
+    if (!readOnly && targets.length > 0) {
+      onClearSelection?.(targets);
+    }
+  }, [onClearSelection, readOnly]);
+
+  // Copy and cut write the block as TSV and as an HTML table; paste reads either back and
+  // selects the range it covers. Browsers send these events to the text selection rather
+  // than the focused grid, so they are caught on the document.
+  const handleClipboard = useCallback((e: ClipboardEvent) => {
+    if (document.activeElement !== spreadsheetRef.current || !e.clipboardData) return;
+    const current = selectionRef.current;
+
+    if (e.type === 'paste') {
+      if (readOnly || !onPaste) return;
+      e.preventDefault();
+      const html = e.clipboardData.getData('text/html');
+      const text = e.clipboardData.getData('text/plain');
+      const block = (html && parseHtmlTable(html)) || (text ? { values: parseTsv(text) } : null);
+      if (!block || block.values.length === 0 || block.values[0].length === 0) return;
+      const { row, col } = activeCellOf(current);
+      const pasted = { anchor: { row, col }, focus: { row: row + block.values.length - 1, col: col + block.values[0].length - 1 } };
+      select({ ...NO_SELECTION, ranges: [pasted] });
+      onPaste(formatRange(pasted), block);
+      return;
+    }
+
+    const bounds = copyBounds(current, data.cells);
+    if (!bounds) return;
+    e.preventDefault();
+    const cells = spanBetween(bounds.top, bounds.bottom)
+      .map(row => spanBetween(bounds.left, bounds.right).map(col => cellIndex.get(cellKey(row, col))));
+    e.clipboardData.setData('text/plain', formatTsv(cells.map(row => row.map(cell => cell?.value ?? ''))));
+    // Only copies move their formulas along when pasted; cut cells keep their references
+    e.clipboardData.setData('text/html', formatHtmlTable(cells, e.type === 'copy' ? cellId(bounds.top, bounds.left) : undefined));
+    if (e.type === 'cut') {
+      clearSelection();
+    }
+  }, [cellIndex, clearSelection, data.cells, onPaste, readOnly, select]);
+
+  useEffect(() => {
+    const events = ['copy', 'cut', 'paste'] as const;
+    events.forEach(type => document.addEventListener(type, handleClipboard));
+    return () => events.forEach(type => document.removeEventListener(type, handleClipboard));
+  }, [handleClipboard]);
+
+  const selectedBounds = useMemo(() => selection.ranges.map(rangeBounds), [selection.ranges]);
+
   const isCellSelected = useCallback((row: number, col: number) => {
-    const cellId = `${columnIndexToLetter(col)}${row + 1}`;
-    return selectedCells.includes(cellId);
-  }, [selectedCells]);
+    return selectedBounds.some(bounds => containsCell(bounds, row, col));
+  }, [selectedBounds]);
 
   const isColumnSelected = useCallback((col: number) => {
-    const columnLetter = columnIndexToLetter(col);
-    return selectedColumns.includes(columnLetter);
-  }, [selectedColumns]);
+    return selection.columns.includes(col);
+  }, [selection.columns]);
 
   const isRowSelected = useCallback((row: number) => {
-    return selectedRows.includes(row + 1);
-  }, [selectedRows]);
+    return selection.rows.includes(row);
+  }, [selection.rows]);
+
+  const activeCell = selection.ranges[selection.ranges.length - 1]?.anchor;
+  // The fill handle sits on the bottom-right cell of a single selected range
+  const fillCorner = !readOnly && onFill && selectedBounds.length === 1 ? selectedBounds[0] : null;
+
+  // Outline in the color of the first other user marking this spot
+  const remoteOutline = (users: Presence[] | undefined): React.CSSProperties =>
+    users?.length ? { outline: `2px solid ${users[0].color}`, outlineOffset: '-2px' } : {};
+
+  const renderBadges = (users: Array<{ user: Presence; editing: boolean }> | undefined) => users?.map(({ user, editing }) => (
+    <span
+      key={user.clientId}
+      className={`presence-badge ${editing ? 'editing' : ''}`}
+      style={{ background: user.color }}
+      title={editing ? `${user.name} is editing` : user.name}
+    >
+      {editing ? `✎ ${user.name}` : user.name}
+    </span>
+  ));
+
+  const renderHeaderBadges = (users: Presence[] | undefined) => renderBadges(users?.map(user => ({ user, editing: false })));
 
   if (isLoading) {
     return (
@@ -192,7 +515,289 @@ const Spreadsheet: React.FC<SpreadsheetProps> = ({
 
   const totalRows = data.rows;
   const totalColumns = data.columns;
-  const displayRows = Math.min(visibleRows, totalRows);
+  const viewportHeight = finalConfig.CELL_HEIGHT * finalConfig.INITIAL_VISIBLE_ROWS + finalConfig.HEADER_HEIGHT;
+
+  // Frozen rows and columns are always mounted and stick below the column headers and after the row numbers
+  const frozenRows = Math.min(data.frozenRows ?? 0, totalRows);
+  const frozenColumns = Math.min(data.frozenColumns ?? 0, totalColumns);
+  const frozenHeight = rowLayout.offsetOf(frozenRows);
+  const frozenWidth = columnLayout.offsetOf(frozenColumns);
+
+  // Of the others only those in view (plus overscan) are mounted; before the wrapper
+  // has been laid out its configured height and the window width stand in for its size
+  const rowRange = getLayoutRange(
+    rowLayout,
+    viewport.scrollTop + frozenHeight,
+    (viewport.height || viewportHeight) - finalConfig.HEADER_HEIGHT - frozenHeight,
+    finalConfig.OVERSCAN_ROWS
+  );
+  const columnRange = getLayoutRange(
+    columnLayout,
+    viewport.scrollLeft + frozenWidth,
+    (viewport.width || window.innerWidth) - finalConfig.ROW_HEADER_WIDTH - frozenWidth,
+    finalConfig.OVERSCAN_COLUMNS
+  );
+  const indexesBetween = (start: number, end: number) => Array.from({ length: Math.max(0, end - start) }, (_, offset) => start + offset);
+  const rowIndexes = [...indexesBetween(0, frozenRows), ...indexesBetween(Math.max(rowRange.start, frozenRows), rowRange.end)];
+  const frozenColumnIndexes = indexesBetween(0, frozenColumns);
+  const columnIndexes = indexesBetween(Math.max(columnRange.start, frozenColumns), columnRange.end);
+  const displayRows = frozenRows + Math.max(0, rowRange.visibleEnd - Math.max(rowRange.visibleStart, frozenRows));
+  // Stand in for the rows above and the columns left of the window so the rendered ones keep their position
+  const rowSpacerHeight = rowLayout.offsetOf(Math.max(rowRange.start, frozenRows)) - frozenHeight;
+  const columnSpacer = (
+    <div className="column-spacer" style={{ width: columnLayout.offsetOf(Math.max(columnRange.start, frozenColumns)) - frozenWidth }} />
+  );
+  const pageRows = Math.max(1, Math.floor(((viewport.height || viewportHeight) - finalConfig.HEADER_HEIGHT - frozenHeight) / finalConfig.CELL_HEIGHT));
+
+  const frozenColumnClass = (col: number) =>
+    col < frozenColumns ? `frozen ${col === frozenColumns - 1 ? 'frozen-column-edge' : ''}` : '';
+  const frozenColumnStyle = (col: number): React.CSSProperties =>
+    col < frozenColumns ? { left: finalConfig.ROW_HEADER_WIDTH + columnLayout.offsetOf(col) } : {};
+
+  // Scroll just far enough that a cell is clear of the edges, the sticky headers and the frozen panes
+  const scrollIntoView = (row: number, col: number) => {
+    const wrapper = spreadsheetRef.current;
+    if (!wrapper) return;
+    const { HEADER_HEIGHT, ROW_HEADER_WIDTH } = finalConfig;
+    const height = wrapper.clientHeight || viewportHeight;
+    const width = wrapper.clientWidth || window.innerWidth;
+    if (row >= frozenRows) {
+      const top = rowLayout.offsetOf(row) - frozenHeight;
+      wrapper.scrollTop = Math.min(Math.max(wrapper.scrollTop, HEADER_HEIGHT + rowLayout.offsetOf(row + 1) - height), top);
+    }
+    if (col >= frozenColumns) {
+      const left = columnLayout.offsetOf(col) - frozenWidth;
+      wrapper.scrollLeft = Math.min(Math.max(wrapper.scrollLeft, ROW_HEADER_WIDTH + columnLayout.offsetOf(col + 1) - width), left);
+    }
+    updateViewport();
+  };
+
+  // Move the active cell, or with `extend` the far corner of the last range, staying on the sheet
+  const moveTo = (row: number, col: number, extend: boolean) => {
+    const target = {
+      row: Math.min(Math.max(row, 0), totalRows - 1),
+      col: Math.min(Math.max(col, 0), totalColumns - 1),
+    };
+    if (extend && selectionRef.current.ranges.length > 0) {
+      extendSelection(target.row, target.col);
+    } else {
+      select({ ...NO_SELECTION, ranges: [singleCell(target.row, target.col)] });
+    }
+    scrollIntoView(target.row, target.col);
+  };
+
+  // Dragging the border after a column header or below a row header resizes that column or row
+  const handleResizeStart = (axis: SizeOverride['axis'], index: number, e: React.MouseEvent) => {
+    if (readOnly || e.button !== 0) return;
+    e.preventDefault();
+    e.stopPropagation();
+    const isColumn = axis === 'col';
+    const startSize = (isColumn ? columnLayout : rowLayout).sizeOf(index);
+    const startPosition = isColumn ? e.clientX : e.clientY;
+    let size = startSize;
+    const move = (event: MouseEvent) => {
+      const moved = (isColumn ? event.clientX : event.clientY) - startPosition;
+      size = clampSize(startSize + moved, isColumn ? COLUMN_WIDTH_LIMITS : ROW_HEIGHT_LIMITS);
+      setSizeOverride({ axis, index, size });
+    };
+    const stop = () => {
+      window.removeEventListener('mousemove', move);
+      window.removeEventListener('mouseup', stop);
+      if (size === startSize) {
+        setSizeOverride(null);
+      } else {
+        onResize?.(axis, index, size);
+      }
+    };
+    window.addEventListener('mousemove', move);
+    window.addEventListener('mouseup', stop);
+  };
+
+  // Double-clicking the border fits the column to its widest value, or the row to its tallest
+  const handleAutoFit = (axis: SizeOverride['axis'], index: number) => {
+    if (readOnly) return;
+    const fontFamily = (spreadsheetRef.current && getComputedStyle(spreadsheetRef.current).fontFamily) || 'sans-serif';
+    const size = axis === 'col'
+      ? fitColumnWidth(data.cells.filter(cell => cell.col === index), data.headers[index] ?? columnIndexToLetter(index), fontFamily)
+      : fitRowHeight(data.cells.filter(cell => cell.row === index), columnLayout.sizeOf, finalConfig.CELL_HEIGHT, fontFamily);
+    setSizeOverride({ axis, index, size });
+    onResize?.(axis, index, size);
+  };
+
+  // The border handle of a header; clicks on it do not select the column or row
+  const renderResizer = (axis: SizeOverride['axis'], index: number) => onResize && !readOnly && (
+    <div
+      className={axis === 'col' ? 'column-resizer' : 'row-resizer'}
+      onMouseDown={(e) => handleResizeStart(axis, index, e)}
+      onClick={(e) => e.stopPropagation()}
+      onDoubleClick={() => handleAutoFit(axis, index)}
+    />
+  );
+
+  const hasValue = (row: number, col: number) => Boolean(cellIndex.get(cellKey(row, col))?.value);
+
+  const handleGridKeyDown = (e: React.KeyboardEvent) => {
+    // Keys typed into the cell editor are handled by the editor
+    if (e.target !== e.currentTarget || totalRows === 0 || totalColumns === 0) return;
+    const { ranges } = selectionRef.current;
+    const last = ranges[ranges.length - 1];
+    const active = activeCellOf(selectionRef.current);
+    // With Shift the far corner of the selection moves instead of the active cell
+    const from = e.shiftKey && last ? last.focus : active;
+    const jump = e.ctrlKey || e.metaKey;
+    const arrow = ARROW_STEPS.get(e.key);
+
+    if (arrow) {
+      const [rowStep, colStep] = arrow;
+      const row = jump && rowStep ? findDataEdge(index => hasValue(index, from.col), from.row, rowStep as 1 | -1, totalRows) : from.row + rowStep;
+      const col = jump && colStep ? findDataEdge(index => hasValue(from.row, index), from.col, colStep as 1 | -1, totalColumns) : from.col + colStep;
+      moveTo(row, col, e.shiftKey);
+    } else if (e.key === 'Tab') {
+      moveTo(active.row, active.col + (e.shiftKey ? -1 : 1), false);
+    } else if (e.key === 'Enter') {
+      moveTo(active.row + (e.shiftKey ? -1 : 1), active.col, false);
+    } else if (e.key === 'PageUp' || e.key === 'PageDown') {
+      moveTo(from.row + (e.key === 'PageUp' ? -pageRows : pageRows), from.col, e.shiftKey);
+    } else if (e.key === 'Home') {
+      moveTo(jump ? 0 : from.row, 0, e.shiftKey);
+    } else if (e.key === 'End') {
+      moveTo(jump ? totalRows - 1 : from.row, totalColumns - 1, e.shiftKey);
+    } else if (e.key === 'F2') {
+      startEditing(active.row, active.col, editText(active.row, active.col), 'caret');
+    } else if (e.key === 'Delete' || e.key === 'Backspace') {
+      clearSelection();
+    } else if (e.key.length === 1 && !jump && !e.altKey) {
+      // A printable key replaces the content, starting with itself
+      startEditing(active.row, active.col, e.key, 'typing');
+    } else {
+      return;
+    }
+    e.preventDefault();
+  };
+
+  // Enter and Tab commit and move on like they do on the grid; so do the arrow keys when typing replaced the content
+  const handleEditKeyDown = (e: React.KeyboardEvent) => {
+    if (!editingCell) return;
+    if (e.key === 'Escape') {
+      refocusRef.current = true;
+      handleEditCancel();
+      return;
+    }
+    let step: [number, number] | undefined;
+    if (e.key === 'Enter') {
+      step = [e.shiftKey ? -1 : 1, 0];
+    } else if (e.key === 'Tab') {
+      step = [0, e.shiftKey ? -1 : 1];
+    } else if (editEntryRef.current === 'typing') {
+      step = ARROW_STEPS.get(e.key);
+    }
+    if (!step) return;
+    e.preventDefault();
+    refocusRef.current = true;
+    handleEditComplete();
+    moveTo(editingCell.row + step[0], editingCell.col + step[1], false);
+  };
+
+  const renderHeaderCell = (index: number) => {
+    const remote = remoteMarks.columns.get(columnIndexToLetter(index));
+    return (
+      <div 
+        key={index} 
+        className={`header-cell ${isColumnSelected(index) ? 'selected' : ''} ${frozenColumnClass(index)}`}
+        style={{ width: columnLayout.sizeOf(index), ...frozenColumnStyle(index), ...remoteOutline(remote) }}
+        onClick={(e) => selectHeader('columns', index, e)}
+      >
+        {data.headers[index] ?? columnIndexToLetter(index)}
+        {renderHeaderBadges(remote)}
+        {renderResizer('col', index)}
+      </div>
+    );
+  };
+
+  const renderCell = (rowIndex: number, colIndex: number) => {
+    const cell = cellIndex.get(cellKey(rowIndex, colIndex));
+    const isSelected = isCellSelected(rowIndex, colIndex);
+    const isEditing = editingCell?.row === rowIndex && editingCell?.col === colIndex;
+    const isActive = activeCell?.row === rowIndex && activeCell?.col === colIndex;
+    const isFillPreview = fillPreview !== null && containsCell(fillPreview, rowIndex, colIndex);
+    const hasFillHandle = !isEditing && fillCorner?.bottom === rowIndex && fillCorner.right === colIndex;
+    const badges = remoteMarks.badges.get(cellId(rowIndex, colIndex));
+    const remote = remoteMarks.ranges
+      .filter(mark => containsCell(mark.bounds, rowIndex, colIndex))
+      .map(mark => mark.user);
+    
+    return (
+      <div
+        key={colIndex}
+        className={`cell ${isSelected ? 'selected' : ''} ${isActive ? 'active' : ''} ${isFillPreview ? 'fill-preview' : ''} ${badges?.some(badge => badge.editing) ? 'remote-editing' : ''} ${frozenColumnClass(colIndex)}`}
+        style={{
+          width: columnLayout.sizeOf(colIndex),
+          height: rowLayout.sizeOf(rowIndex),
+          ...frozenColumnStyle(colIndex),
+          ...getCellStyle(cell?.format),
+          ...remoteOutline(remote)
+        }}
+        onMouseDown={(e) => handleCellMouseDown(rowIndex, colIndex, e)}
+        onMouseEnter={() => handleCellMouseEnter(rowIndex, colIndex)}
+        onClick={(e) => handleCellClick(rowIndex, colIndex, e)}
+        onDoubleClick={() => handleCellDoubleClick(rowIndex, colIndex)}
+      >
+        {isEditing ? (
+          <input
+            ref={editInputRef}
+            type="text"
+            value={editValue}
+            onChange={(e) => setEditValue(e.target.value)}
+            onBlur={handleEditComplete}
+            onKeyDown={handleEditKeyDown}
+            style={{
+              width: '100%',
+              height: '100%',
+              border: 'none',
+              outline: 'none',
+              background: 'transparent',
+              fontSize: '14px'
+            }}
+          />
+        ) : (
+          cell?.value || ''
+        )}
+        {hasFillHandle && <div className="fill-handle" title="Drag to fill" onMouseDown={handleFillMouseDown} />}
+        {renderBadges(badges)}
+      </div>
+    );
+  };
+
+  const renderRow = (rowIndex: number) => {
+    const isFrozen = rowIndex < frozenRows;
+    return (
+      <div
+        key={rowIndex}
+        className={`spreadsheet-row ${isFrozen ? 'frozen' : ''} ${rowIndex === frozenRows - 1 ? 'frozen-row-edge' : ''}`}
+        style={{
+          height: rowLayout.sizeOf(rowIndex),
+          ...(isFrozen ? { top: finalConfig.HEADER_HEIGHT + rowLayout.offsetOf(rowIndex) } : {})
+        }}
+      >
+        <div 
+          className={`row-header ${isRowSelected(rowIndex) ? 'selected' : ''}`}
+          style={{
+            width: finalConfig.ROW_HEADER_WIDTH,
+            height: rowLayout.sizeOf(rowIndex),
+            ...remoteOutline(remoteMarks.rows.get(rowIndex + 1))
+          }}
+          onClick={(e) => selectHeader('rows', rowIndex, e)}
+        >
+          {rowIndex + 1}
+          {renderHeaderBadges(remoteMarks.rows.get(rowIndex + 1))}
+          {renderResizer('row', rowIndex)}
+        </div>
+        {frozenColumnIndexes.map(colIndex => renderCell(rowIndex, colIndex))}
+        {columnSpacer}
+        {columnIndexes.map(colIndex => renderCell(rowIndex, colIndex))}
+      </div>
+    );
+  };
 
   return (
     <div className={`spreadsheet-container ${className}`}>
@@ -200,96 +805,40 @@ const Spreadsheet: React.FC<SpreadsheetProps> = ({
         <h3>Spreadsheet</h3>
         <div className="row-counter">
           Showing {displayRows} of {totalRows} rows
-          {isExpanding && <span className="expanding-indicator"> (Expanding...)</span>}
         </div>
       </div>
       
       <div 
         className="spreadsheet-wrapper"
         ref={spreadsheetRef}
-        onScroll={handleScroll}
+        tabIndex={0}
+        onScroll={updateViewport}
+        onKeyDown={handleGridKeyDown}
         style={{
-          maxHeight: `${finalConfig.CELL_HEIGHT * finalConfig.INITIAL_VISIBLE_ROWS + finalConfig.HEADER_HEIGHT}px`,
+          maxHeight: `${viewportHeight}px`,
           overflow: 'auto'
         }}
       >
         <div 
           className="spreadsheet"
           style={{
-            width: `${totalColumns * finalConfig.CELL_WIDTH + finalConfig.ROW_HEADER_WIDTH}px`,
-            height: `${totalRows * finalConfig.CELL_HEIGHT + finalConfig.HEADER_HEIGHT}px`
+            width: `${columnLayout.total + finalConfig.ROW_HEADER_WIDTH}px`,
+            height: `${rowLayout.total + finalConfig.HEADER_HEIGHT}px`
           }}
         >
           {/* Column Headers */}
           <div className="spreadsheet-headers">
-            <div className="corner-cell"></div>
-            {data.headers.map((header, index) => (
-              <div 
-                key={index} 
-                className={`header-cell ${isColumnSelected(index) ? 'selected' : ''}`}
-                style={{ width: finalConfig.CELL_WIDTH }}
-                onClick={() => handleColumnHeaderClick(index)}
-              >
-                {header}
-              </div>
-            ))}
+            <div className="corner-cell" style={{ width: finalConfig.ROW_HEADER_WIDTH }}></div>
+            {frozenColumnIndexes.map(renderHeaderCell)}
+            {columnSpacer}
+            {columnIndexes.map(renderHeaderCell)}
           </div>
 
           {/* Row Headers and Data */}
           <div className="spreadsheet-body">
-            {Array.from({ length: totalRows }, (_, rowIndex) => (
-              <div key={rowIndex} className="spreadsheet-row">
-                <div 
-                  className={`row-header ${isRowSelected(rowIndex) ? 'selected' : ''}`}
-                  style={{ height: finalConfig.CELL_HEIGHT }}
-                  onClick={() => handleRowHeaderClick(rowIndex)}
-                >
-                  {rowIndex + 1}
-                </div>
-                {data.headers.map((_, colIndex) => {
-                  const cell = data.cells.find(
-                    c => c.row === rowIndex && c.col === colIndex
-                  );
-                  const isSelected = isCellSelected(rowIndex, colIndex);
-                  const isEditing = editingCell?.row === rowIndex && editingCell?.col === colIndex;
-                  
-                  return (
-                    <div
-                      key={colIndex}
-                      className={`cell ${isSelected ? 'selected' : ''}`}
-                      style={{
-                        width: finalConfig.CELL_WIDTH,
-                        height: finalConfig.CELL_HEIGHT,
-                        ...cell?.format
-                      }}
-                      onClick={() => handleCellClick(rowIndex, colIndex)}
-                      onDoubleClick={() => handleCellDoubleClick(rowIndex, colIndex)}
-                    >
-                      {isEditing ? (
-                        <input
-                          ref={editInputRef}
-                          type="text"
-                          value={editValue}
-                          onChange={(e) => setEditValue(e.target.value)}
-                          onBlur={handleEditComplete}
-                          onKeyDown={handleEditKeyDown}
-                          style={{
-                            width: '100%',
-                            height: '100%',
-                            border: 'none',
-                            outline: 'none',
-                            background: 'transparent',
-                            fontSize: '14px'
-                          }}
-                        />
-                      ) : (
-                        cell?.value || ''
-                      )}
-                    </div>
-                  );
-                })}
-              </div>
-            ))}
+            {rowIndexes.slice(0, frozenRows).map(renderRow)}
+            <div className="row-spacer" style={{ height: rowSpacerHeight }} />
+            {rowIndexes.slice(frozenRows).map(renderRow)}
           </div>
         </div>
       </div>
@@ -0,0 +1,74 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { AuthResponse, User } from '../types';
+import { apiService, authToken, setUnauthorizedHandler } from '../services/api';
+
+// Readable message for a failed sign-in; the server hides error details outside development
+const authErrorMessage = (err: any, action: 'login' | 'register'): string => {
+  switch (err?.response?.status) {
+    case 400:
+      return err.response.data?.error || 'Check the username and password';
+    case 401:
+      return 'Invalid username or password';
+    case 409:
+      return 'That username is already taken';
+    default:
+      return action === 'login' ? 'Failed to sign in' : 'Failed to create the account';
+  }
+};
+
+// The signed-in user, restored from the stored token on load
+export const useAuth = () => {
+  const [user, setUser] = useState<User | null>(null);
+  // True until the stored token has been checked
+  const [checking, setChecking] = useState(() => authToken.get() !== null);
+  const [error, setError] = useState<string | null>(null);
+
+  const logout = useCallback(() => {
+    authToken.set(null);
+    setUser(null);
+  }, []);
+
+  useEffect(() => {
+    // A token the server no longer accepts signs the user out
+    setUnauthorizedHandler(logout);
+
+    if (authToken.get()) {
+      apiService.getCurrentUser()
+        .then(setUser)
+        .catch(err => {
+          console.error('Stored session is no longer valid:', err);
+          authToken.set(null);
+        })
+        .finally(() => setChecking(false));
+    }
+
+    return () => setUnauthorizedHandler(null);
+  }, [logout]);
+
+  const start = useCallback(async (action: 'login' | 'register', request: () => Promise<AuthResponse>) => {
+    try {
+      const session = await request();
+      authToken.set(session.token);
+      setUser(session.user);
+      setError(null);
+    } catch (err) {
+      setError(authErrorMessage(err, action));
+      console.error(`Error during ${action}:`, err);
+    }
+  }, []);
+
+  const login = useCallback((username: string, password: string) =>
+    start('login', () => apiService.login(username, password)), [start]);
+
+  const register = useCallback((username: string, password: string) =>
+    start('register', () => apiService.register(username, password)), [start]);
+
+  return {
+    user,
+    checking,
+    error,
+    login,
+    register,
+    logout
+  };
+};
@@ -1,8 +1,22 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
-import type { SpreadsheetState, StateEvent } from '../types';
+import type { SpreadsheetState, StateEvent, SheetTarget, SheetDelta, ChangesResponse } from '../types';
 import { apiService } from '../services/api';
+import { applySheetDelta } from '../utils/sheetDelta';
 
-export const useSpreadsheet = () => {
+const bySeq = (a: SheetDelta, b: SheetDelta) => a.seq - b.seq;
+
+// Source of missed changes: GET /changes, or the WebSocket `resume` request after reconnecting
+type FetchChanges = (since: number, target: SheetTarget) => Promise<ChangesResponse>;
+
+/**
+ * Loads the state of one sheet and keeps it current with the deltas the
+ * server broadcasts; without a target the backend's default sheet is used.
+ * A delta that does not follow the applied version means some were missed,
+ * so they are fetched (or the whole state, when the server no longer has them).
+ */
+export const useSpreadsheet = (target?: SheetTarget) => {
+  const workbookId = target?.workbookId;
+  const sheetId = target?.sheetId;
   const [spreadsheetState, setSpreadsheetState] = useState<SpreadsheetState>({
     cells: [],
     rows: 10,
@@ -15,16 +29,52 @@ export const useSpreadsheet = () => {
   const isInitialLoad = useRef(true);
   const lastRequestTime = useRef(0);
   const requestTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const lastTargetKey = useRef<string | null>(null);
+  // Latest state for delta handlers, which run outside of rendering
+  const stateRef = useRef(spreadsheetState);
+  // Deltas waiting for the ones before them, or for a load in progress
+  const pendingDeltas = useRef<SheetDelta[]>([]);
+  const activeSyncs = useRef(0);
+
+  const replaceState = useCallback((state: SpreadsheetState) => {
+    stateRef.current = state;
+    setSpreadsheetState(state);
+  }, []);
+
+  // Apply the pending deltas that follow the current version; returns false while one is missing
+  const drainPendingDeltas = useCallback((): boolean => {
+    let state = stateRef.current;
+    const waiting: SheetDelta[] = [];
+    pendingDeltas.current.sort(bySeq).forEach(delta => {
+      const version = state.version ?? 0;
+      if (delta.seq === version + 1) {
+        state = applySheetDelta(state, delta);
+      } else if (delta.seq > version) {
+        waiting.push(delta);
+      }
+    });
+    pendingDeltas.current = waiting;
+    if (state !== stateRef.current) {
+      replaceState(state);
+    }
+    return waiting.length === 0;
+  }, [replaceState]);
 
   const loadSpreadsheetState = useCallback(async (showLoading = false) => {
     const now = Date.now();
     const timeSinceLastRequest = now - lastRequestTime.current;
+    const targetKey = workbookId && sheetId ? `${workbookId}/${sheetId}` : 'default';
     
-    // Throttle requests to prevent rate limiting (minimum 1 second between requests)
-    if (timeSinceLastRequest < 1000) {
+    // Throttle requests to prevent rate limiting (minimum 1 second between requests).
+    // Switching to another sheet always loads right away.
+    if (timeSinceLastRequest < 1000 && targetKey === lastTargetKey.current) {
       console.log('Request throttled, skipping...');
       return;
     }
+    if (targetKey !== lastTargetKey.current) {
+      pendingDeltas.current = [];
+    }
+    lastTargetKey.current = targetKey;
 
     console.log('Loading spreadsheet state...', { showLoading, isInitialLoad: isInitialLoad.current });
     
@@ -40,14 +90,20 @@ export const useSpreadsheet = () => {
     
     setError(null);
     lastRequestTime.current = now;
+    activeSyncs.current++;
     
     try {
-      const response = await apiService.getState();
+      const response = await apiService.getState(workbookId && sheetId ? { workbookId, sheetId } : undefined);
       console.log('API Response:', response);
+
+      // A slower response for a sheet the user already left
+      if (targetKey !== lastTargetKey.current) {
+        return;
+      }
       
       if (response.success) {
         console.log('Setting spreadsheet state:', response.state);
-        setSpreadsheetState(response.state);
+        replaceState(response.state);
         setIsInitialized(true);
       } else {
         console.error('API returned success: false');
@@ -69,10 +125,55 @@ export const useSpreadsheet = () => {
         console.error('Error loading spreadsheet state:', err);
       }
     } finally {
+      activeSyncs.current--;
       setLoading(false);
       isInitialLoad.current = false;
     }
-  }, []);
+    // Deltas that arrived during the load and are newer than it
+    if (targetKey === lastTargetKey.current && activeSyncs.current === 0) {
+      drainPendingDeltas();
+    }
+  }, [workbookId, sheetId, replaceState, drainPendingDeltas]);
+
+  // Catch up from the applied version: replay the missed deltas, or take the state if they are gone.
+  // Resolves to true once the state is current.
+  const syncChanges = useCallback(async (fetchChanges: FetchChanges = apiService.getChanges): Promise<boolean> => {
+    if (!workbookId || !sheetId || activeSyncs.current > 0) {
+      return false;
+    }
+    const targetKey = `${workbookId}/${sheetId}`;
+    activeSyncs.current++;
+
+    try {
+      const response = await fetchChanges(stateRef.current.version ?? 0, { workbookId, sheetId });
+      if (targetKey !== lastTargetKey.current) {
+        return false;
+      }
+      if (response.state) {
+        replaceState(response.state);
+      } else {
+        pendingDeltas.current.push(...(response.deltas ?? []));
+      }
+    } catch (err) {
+      console.error('Error loading missed changes:', err);
+      return false;
+    } finally {
+      activeSyncs.current--;
+    }
+    // A gap that is still open is retried with the next delta
+    return drainPendingDeltas();
+  }, [workbookId, sheetId, replaceState, drainPendingDeltas]);
+
+  // Handler for `sheet_delta` broadcasts; deltas of other sheets are ignored
+  const applyDelta = useCallback((delta: SheetDelta) => {
+    if (delta.workbookId !== workbookId || delta.sheetId !== sheetId) {
+      return;
+    }
+    pendingDeltas.current.push(delta);
+    if (activeSyncs.current === 0 && !drainPendingDeltas()) {
+      syncChanges();
+    }
+  }, [workbookId, sheetId, drainPendingDeltas, syncChanges]);
 
   const getCellValue = useCallback((row: number, col: number): string => {
     const cell = spreadsheetState.cells.find(c => c.row === row && c.col === col);
@@ -113,6 +214,8 @@ export const useSpreadsheet = () => {
     loading,
     error,
     loadSpreadsheetState,
+    applyDelta,
+    syncChanges,
     getCellValue,
     getCellFormat,
     isInitialized,
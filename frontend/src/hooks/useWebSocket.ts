@@ -1,55 +1,74 @@
 import { useEffect, useRef, useCallback, useState } from 'react';
 import { io, Socket } from 'socket.io-client';
 import { WEBSOCKET_CONFIG } from '../utils/constants';
+import { authToken } from '../services/api';
+import type { ChangesResponse, MessageResponse, Presence, PresenceUpdate, SheetDelta, SheetTarget, Workbook } from '../types';
 
 interface WebSocketEvent {
-  type: 'spreadsheet_update' | 'action_events_update' | 'state_events_update' | 'connected' | 'pong' | 'test_message';
+  type: 'spreadsheet_update' | 'sheet_delta' | 'workbooks_update' | 'presence_update' | 'connected' | 'pong' | 'test_message';
   timestamp: string;
+  workbookId?: string;
+  sheetId?: string;
+  workbooks?: Workbook[];
   userEvent?: any;
   actionEvent?: any;
   stateEvent?: any;
-  actionEvents?: any[];
-  stateEvents?: any[];
+  delta?: SheetDelta;
+  users?: Presence[];
   message?: string;
 }
 
+// `reconnecting` while socket.io retries with backoff after losing the connection
+export type ConnectionStatus = 'connecting' | 'connected' | 'reconnecting' | 'disconnected';
+
 // Global socket instance to prevent multiple connections
 let globalSocket: Socket | null = null;
 let connectionPromise: Promise<void> | null = null;
 let lastConnectionAttempt = 0;
+// Sent again after every reconnect, since the server forgets a client's presence with its socket
+let lastPresence: PresenceUpdate | null = null;
 
 export const useWebSocket = (
   onSpreadsheetUpdate?: (data: WebSocketEvent) => void,
-  onActionEventsUpdate?: (data: WebSocketEvent) => void,
-  onStateEventsUpdate?: (data: WebSocketEvent) => void,
-  onConnect?: () => void,
+  onSheetDelta?: (data: WebSocketEvent) => void,
+  onConnect?: (isReconnect: boolean) => void,
   onDisconnect?: () => void,
-  isIdle?: boolean // Add idle state parameter
+  isIdle?: boolean, // Add idle state parameter
+  onWorkbooksUpdate?: (data: WebSocketEvent) => void,
+  onPresenceUpdate?: (users: Presence[]) => void
 ) => {
   const [isConnected, setIsConnected] = useState(false);
+  // Socket id of this client, which is its clientId in presence updates
+  const [clientId, setClientId] = useState<string | null>(globalSocket?.id ?? null);
+  const [status, setStatus] = useState<ConnectionStatus>('connecting');
+  const [reconnectAttempt, setReconnectAttempt] = useState(0);
   const [connectionError, setConnectionError] = useState<string | null>(null);
   const eventHandlersRef = useRef({
     onSpreadsheetUpdate,
-    onActionEventsUpdate,
-    onStateEventsUpdate,
+    onSheetDelta,
     onConnect,
-    onDisconnect
+    onDisconnect,
+    onWorkbooksUpdate,
+    onPresenceUpdate
   });
 
   // Update event handlers when they change
   useEffect(() => {
     eventHandlersRef.current = {
       onSpreadsheetUpdate,
-      onActionEventsUpdate,
-      onStateEventsUpdate,
+      onSheetDelta,
       onConnect,
-      onDisconnect
+      onDisconnect,
+      onWorkbooksUpdate,
+      onPresenceUpdate
     };
-  }, [onSpreadsheetUpdate, onActionEventsUpdate, onStateEventsUpdate, onConnect, onDisconnect]);
+  }, [onSpreadsheetUpdate, onSheetDelta, onConnect, onDisconnect, onWorkbooksUpdate, onPresenceUpdate]);
 
   const connect = useCallback(async () => {
-    if (globalSocket?.connected) {
-      setIsConnected(true);
+    // A socket that is reconnecting on its own is still active
+    if (globalSocket?.active) {
+      setIsConnected(globalSocket.connected);
+      setStatus(globalSocket.connected ? 'connected' : 'reconnecting');
       setConnectionError(null);
       return;
     }
@@ -76,21 +95,36 @@ export const useWebSocket = (
           globalSocket = null;
         }
 
+        // socket.io backs off exponentially between attempts, randomized by the jitter factor.
+        // The token is read on every attempt, so reconnects use the current session
         const socket = io(WEBSOCKET_CONFIG.URL, {
           transports: ['websocket'],
+          auth: (callback) => callback({ token: authToken.get() }),
           autoConnect: true,
-          reconnection: false, // Disable auto-reconnection
+          reconnection: true,
+          reconnectionAttempts: WEBSOCKET_CONFIG.RECONNECTION_ATTEMPTS,
+          reconnectionDelay: WEBSOCKET_CONFIG.RECONNECTION_DELAY,
+          reconnectionDelayMax: WEBSOCKET_CONFIG.RECONNECTION_DELAY_MAX,
+          randomizationFactor: WEBSOCKET_CONFIG.RECONNECTION_JITTER,
           timeout: WEBSOCKET_CONFIG.TIMEOUT,
           forceNew: true
         });
 
         globalSocket = socket;
+        let hasConnected = false;
 
         socket.on('connect', () => {
           console.log('WebSocket connected:', socket.id);
           setIsConnected(true);
+          setStatus('connected');
+          setReconnectAttempt(0);
           setConnectionError(null);
-          eventHandlersRef.current.onConnect?.();
+          setClientId(socket.id ?? null);
+          if (lastPresence) {
+            socket.emit('presence_update', lastPresence);
+          }
+          eventHandlersRef.current.onConnect?.(hasConnected);
+          hasConnected = true;
           resolve();
         });
 
@@ -98,17 +132,39 @@ export const useWebSocket = (
           console.log('WebSocket disconnected:', reason);
           setIsConnected(false);
           eventHandlersRef.current.onDisconnect?.();
-          globalSocket = null;
-          connectionPromise = null;
+          if (reason === 'io client disconnect') {
+            setStatus('disconnected');
+            return;
+          }
+          setStatus('reconnecting');
+          // The server closed the connection on purpose; socket.io only retries by itself after network failures
+          if (reason === 'io server disconnect') {
+            socket.connect();
+          }
         });
 
         socket.on('connect_error', (error: any) => {
           console.error('WebSocket connection error:', error);
           setConnectionError(error.message);
           setIsConnected(false);
+          // Not active means socket.io will not retry (the server refused the connection)
+          if (!socket.active) {
+            setStatus('disconnected');
+          }
+          resolve();
+        });
+
+        socket.io.on('reconnect_attempt', (attempt: number) => {
+          console.log(`WebSocket reconnect attempt ${attempt}`);
+          setStatus('reconnecting');
+          setReconnectAttempt(attempt);
+        });
+
+        socket.io.on('reconnect_failed', () => {
+          console.error('WebSocket gave up reconnecting');
+          setStatus('disconnected');
           globalSocket = null;
           connectionPromise = null;
-          reject(error);
         });
 
         socket.on('spreadsheet_update', (data: WebSocketEvent) => {
@@ -121,23 +177,22 @@ export const useWebSocket = (
           }
         });
 
-        socket.on('action_events_update', (data: WebSocketEvent) => {
-          console.log('WebSocket action events update received:', data);
-          // Only process updates if not idle
-          if (!isIdle) {
-            eventHandlersRef.current.onActionEventsUpdate?.(data);
-          } else {
-            console.log('Ignoring action events update - user is idle');
-          }
+        // Deltas are applied even when idle: they cost no requests, and a skipped one would have to be fetched
+        socket.on('sheet_delta', (data: WebSocketEvent) => {
+          console.log('WebSocket sheet delta received:', data);
+          eventHandlersRef.current.onSheetDelta?.(data);
         });
 
-        socket.on('state_events_update', (data: WebSocketEvent) => {
-          console.log('WebSocket state events update received:', data);
-          // Only process updates if not idle
-          if (!isIdle) {
-            eventHandlersRef.current.onStateEventsUpdate?.(data);
-          } else {
-            console.log('Ignoring state events update - user is idle');
+        // Sheet list changes are applied even when idle so the tab bar never points at a deleted sheet
+        socket.on('workbooks_update', (data: WebSocketEvent) => {
+          console.log('WebSocket workbooks update received:', data);
+          eventHandlersRef.current.onWorkbooksUpdate?.(data);
+        });
+
+        // Everyone's presence, including this client's; also applied when idle so cursors don't go stale
+        socket.on('presence_update', (data: WebSocketEvent) => {
+          if (Array.isArray(data?.users)) {
+            eventHandlersRef.current.onPresenceUpdate?.(data.users);
           }
         });
 
@@ -156,6 +211,7 @@ export const useWebSocket = (
       } catch (error) {
         console.error('Error creating WebSocket connection:', error);
         setConnectionError('Failed to create WebSocket connection');
+        setStatus('disconnected');
         globalSocket = null;
         connectionPromise = null;
         reject(error);
@@ -175,15 +231,69 @@ export const useWebSocket = (
       globalSocket = null;
     }
     connectionPromise = null;
+    lastPresence = null;
+    // Allow the next session to connect right away
+    lastConnectionAttempt = 0;
     setIsConnected(false);
+    setStatus('disconnected');
+  }, []);
+
+  // Submit a command like POST /message; resolves with the server's acknowledgement, rejects with its error
+  const sendMessage = useCallback((
+    message: string,
+    options: { userId?: string; sessionId?: string; target?: SheetTarget } = {}
+  ): Promise<MessageResponse> => {
+    return new Promise((resolve, reject) => {
+      if (!globalSocket?.connected) {
+        reject(new Error('WebSocket is not connected'));
+        return;
+      }
+      const { userId, sessionId, target } = options;
+      globalSocket.timeout(WEBSOCKET_CONFIG.TIMEOUT).emit('send_message', { message, userId, sessionId, ...target }, (error: Error | null, response: MessageResponse) => {
+        if (error) {
+          reject(error);
+        } else if (!response?.success) {
+          reject(new Error(response?.error || 'Failed to process message'));
+        } else {
+          resolve(response);
+        }
+      });
+    });
   }, []);
 
-  const sendMessage = useCallback((message: string) => {
+  // Tell other clients where this one is; remembered so it can be sent again after a reconnect
+  const updatePresence = useCallback((presence: PresenceUpdate) => {
+    lastPresence = presence;
     if (globalSocket?.connected) {
-      globalSocket.emit('send_message', { message });
+      globalSocket.emit('presence_update', presence);
     }
   }, []);
 
+  const ping = useCallback(() => {
+    if (globalSocket?.connected) {
+      globalSocket.emit('ping');
+    }
+  }, []);
+
+  // Ask the server for what a sheet missed after `since`; answers like GET /changes
+  const resume = useCallback((since: number, target: SheetTarget): Promise<ChangesResponse> => {
+    return new Promise((resolve, reject) => {
+      if (!globalSocket?.connected) {
+        reject(new Error('WebSocket is not connected'));
+        return;
+      }
+      globalSocket.timeout(WEBSOCKET_CONFIG.TIMEOUT).emit('resume', { ...target, since }, (error: Error | null, response: ChangesResponse) => {
+        if (error) {
+          reject(error);
+        } else if (!response?.success) {
+          reject(new Error(response?.error || 'Failed to resume'));
+        } else {
+          resolve(response);
+        }
+      });
+    });
+  }, []);
+
   useEffect(() => {
     connect();
 
@@ -194,8 +304,14 @@ export const useWebSocket = (
 
   return {
     isConnected,
+    clientId,
+    status,
+    reconnectAttempt,
     connectionError,
     sendMessage,
+    updatePresence,
+    ping,
+    resume,
     connect,
     disconnect
   };
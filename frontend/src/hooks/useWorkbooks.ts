@@ -0,0 +1,133 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import type { SheetTarget, Workbook } from '../types';
+import { apiService } from '../services/api';
+
+// Workbook list plus the sheet currently shown, with actions for the sheet tab bar
+export const useWorkbooks = () => {
+  const [workbooks, setWorkbooks] = useState<Workbook[]>([]);
+  const [selection, setSelection] = useState<SheetTarget | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Replace the list and keep the selection valid, e.g. after another client deleted the active sheet
+  const applyWorkbooks = useCallback((next: Workbook[], select?: SheetTarget) => {
+    setWorkbooks(next);
+    setSelection(current => {
+      const wanted = select ?? current;
+      const workbook = next.find(entry => entry.id === wanted?.workbookId) ?? next[0];
+      if (!workbook || workbook.sheets.length === 0) {
+        return null;
+      }
+      const sheet = workbook.sheets.find(entry => entry.id === wanted?.sheetId) ?? workbook.sheets[0];
+      if (current?.workbookId === workbook.id && current.sheetId === sheet.id) {
+        return current;
+      }
+      return { workbookId: workbook.id, sheetId: sheet.id };
+    });
+  }, []);
+
+  // Swap in a workbook returned by a sheet operation
+  const replaceWorkbook = useCallback((workbook: Workbook, select?: SheetTarget) => {
+    const exists = workbooks.some(entry => entry.id === workbook.id);
+    const next = exists
+      ? workbooks.map(entry => (entry.id === workbook.id ? workbook : entry))
+      : [...workbooks, workbook];
+    applyWorkbooks(next, select);
+  }, [workbooks, applyWorkbooks]);
+
+  const loadWorkbooks = useCallback(async () => {
+    try {
+      const response = await apiService.getWorkbooks();
+      if (response.success) {
+        applyWorkbooks(response.workbooks);
+        setError(null);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load workbooks');
+      console.error('Error loading workbooks:', err);
+    }
+  }, [applyWorkbooks]);
+
+  // Wrap an API call so failures surface through `error` instead of rejecting
+  const run = useCallback(async (action: () => Promise<void>, failure: string) => {
+    try {
+      await action();
+      setError(null);
+    } catch (err: any) {
+      setError(err?.response?.data?.message || err?.response?.data?.error || failure);
+      console.error(failure, err);
+    }
+  }, []);
+
+  const selectWorkbook = useCallback((workbookId: string) => {
+    const workbook = workbooks.find(entry => entry.id === workbookId);
+    if (workbook) {
+      setSelection({ workbookId, sheetId: workbook.sheets[0].id });
+    }
+  }, [workbooks]);
+
+  const selectSheet = useCallback((sheetId: string) => {
+    setSelection(current => (current ? { ...current, sheetId } : current));
+  }, []);
+
+  const createWorkbook = useCallback((name?: string) => run(async () => {
+    const workbook = await apiService.createWorkbook(name);
+    replaceWorkbook(workbook, { workbookId: workbook.id, sheetId: workbook.sheets[0].id });
+  }, 'Failed to create workbook'), [run, replaceWorkbook]);
+
+  const addSheet = useCallback((name?: string) => run(async () => {
+    if (!selection) return;
+    const { workbook, sheet } = await apiService.createSheet(selection.workbookId, name);
+    replaceWorkbook(workbook, { workbookId: workbook.id, sheetId: sheet.id });
+  }, 'Failed to add sheet'), [run, selection, replaceWorkbook]);
+
+  const renameSheet = useCallback((sheetId: string, name: string) => run(async () => {
+    if (!selection) return;
+    const { workbook } = await apiService.renameSheet({ workbookId: selection.workbookId, sheetId }, name);
+    replaceWorkbook(workbook);
+  }, 'Failed to rename sheet'), [run, selection, replaceWorkbook]);
+
+  const duplicateSheet = useCallback((sheetId: string) => run(async () => {
+    if (!selection) return;
+    const { workbook, sheet } = await apiService.duplicateSheet({ workbookId: selection.workbookId, sheetId });
+    replaceWorkbook(workbook, { workbookId: workbook.id, sheetId: sheet.id });
+  }, 'Failed to duplicate sheet'), [run, selection, replaceWorkbook]);
+
+  const deleteSheet = useCallback((sheetId: string) => run(async () => {
+    if (!selection) return;
+    const workbook = await apiService.deleteSheet({ workbookId: selection.workbookId, sheetId });
+    replaceWorkbook(workbook);
+  }, 'Failed to delete sheet'), [run, selection, replaceWorkbook]);
+
+  // Each worksheet of the file becomes a sheet of a new workbook named after the file
+  const importWorkbook = useCallback((file: File) => run(async () => {
+    const workbook = await apiService.importXlsx(file, file.name.replace(/\.xlsx$/i, ''));
+    replaceWorkbook(workbook, { workbookId: workbook.id, sheetId: workbook.sheets[0].id });
+  }, 'Failed to import workbook'), [run, replaceWorkbook]);
+
+  // Initial load
+  useEffect(() => {
+    loadWorkbooks();
+  }, [loadWorkbooks]);
+
+  const activeWorkbook = useMemo(
+    () => workbooks.find(entry => entry.id === selection?.workbookId) ?? null,
+    [workbooks, selection]
+  );
+
+  return {
+    workbooks,
+    activeWorkbook,
+    activeTarget: selection ?? undefined,
+    error,
+    loadWorkbooks,
+    applyWorkbooks,
+    selectWorkbook,
+    selectSheet,
+    createWorkbook,
+    addSheet,
+    renameSheet,
+    duplicateSheet,
+    deleteSheet,
+    importWorkbook,
+  };
+};
@@ -1,6 +1,27 @@
 import axios from 'axios';
-import type { UserEvent, ActionResponse, StateResponse } from '../types';
-import { API_CONFIG } from '../utils/constants';
+import type { UserEvent, ActionResponse, StateResponse, ChangesResponse, SheetTarget, Workbook, WorkbooksResponse, SheetResponse, HistoryResponse, BatchResponse, RangeWriteRequest, RangeWriteResponse, AuthResponse, User, SheetAccess, SheetAccessUpdate } from '../types';
+import { API_CONFIG, AUTH_CONFIG } from '../utils/constants';
+
+const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+// Session token of the signed-in user, kept across reloads; sent with every request and socket handshake
+export const authToken = {
+  get: (): string | null => localStorage.getItem(AUTH_CONFIG.TOKEN_STORAGE_KEY),
+  set: (token: string | null): void => {
+    if (token) {
+      localStorage.setItem(AUTH_CONFIG.TOKEN_STORAGE_KEY, token);
+    } else {
+      localStorage.removeItem(AUTH_CONFIG.TOKEN_STORAGE_KEY);
+    }
+  },
+};
+
+// Called when the server rejects the token (expired, or signed before a restart without JWT_SECRET)
+let unauthorizedHandler: (() => void) | null = null;
+
+export const setUnauthorizedHandler = (handler: (() => void) | null): void => {
+  unauthorizedHandler = handler;
+};
 
 const api = axios.create({
   baseURL: API_CONFIG.BASE_URL,
@@ -10,10 +31,14 @@ const api = axios.create({
   timeout: API_CONFIG.TIMEOUT,
 });
 
-// Request interceptor for logging
+// Request interceptor for logging and the session token
 api.interceptors.request.use(
   (config) => {
     console.log(`API Request: ${config.method?.toUpperCase()} ${config.url}`);
+    const token = authToken.get();
+    if (token) {
+      config.headers.Authorization = `Bearer ${token}`;
+    }
     return config;
   },
   (error) => {
@@ -30,14 +55,42 @@ api.interceptors.response.use(
   },
   (error) => {
     console.error('API Response Error:', error.response?.data || error.message);
+    if (error.response?.status === 401 && authToken.get()) {
+      unauthorizedHandler?.();
+    }
     return Promise.reject(error);
   }
 );
 
+// Sheet-scoped routes; without a target the backend uses its default sheet
+const sheetPath = (target?: SheetTarget): string => {
+  return target
+    ? `/workbooks/${encodeURIComponent(target.workbookId)}/sheets/${encodeURIComponent(target.sheetId)}`
+    : '';
+};
+
 export const apiService = {
+  // POST /auth/register - Create an account; signs in as it
+  register: async (username: string, password: string): Promise<AuthResponse> => {
+    const response = await api.post('/auth/register', { username, password });
+    return response.data;
+  },
+
+  // POST /auth/login - Exchange a username and password for a token
+  login: async (username: string, password: string): Promise<AuthResponse> => {
+    const response = await api.post('/auth/login', { username, password });
+    return response.data;
+  },
+
+  // GET /auth/me - The user the stored token belongs to
+  getCurrentUser: async (): Promise<User> => {
+    const response = await api.get('/auth/me');
+    return response.data.user;
+  },
+
   // POST /message - Send user event
-  sendMessage: async (message: string, userId?: string, sessionId?: string): Promise<UserEvent> => {
-    const response = await api.post('/message', {
+  sendMessage: async (message: string, userId?: string, sessionId?: string, target?: SheetTarget): Promise<UserEvent> => {
+    const response = await api.post(`${sheetPath(target)}/message`, {
       message,
       userId,
       sessionId,
@@ -45,15 +98,114 @@ export const apiService = {
     return response.data.userEvent;
   },
 
+  // POST /batch - Apply several commands together; if one fails none is applied
+  sendBatch: async (commands: string[], sessionId?: string, target?: SheetTarget): Promise<BatchResponse> => {
+    const response = await api.post(`${sheetPath(target)}/batch`, { commands, sessionId });
+    return response.data;
+  },
+
+  // PUT /ranges/:range - Replace the values of a range, e.g. with a pasted block
+  writeRange: async (range: string, write: RangeWriteRequest, sessionId?: string, target?: SheetTarget): Promise<RangeWriteResponse> => {
+    const response = await api.put(`${sheetPath(target)}/ranges/${encodeURIComponent(range)}`, { ...write, sessionId });
+    return response.data;
+  },
+
+  // DELETE /ranges/:range - Remove the values, formulas and formats of a range (`B2:D9`, `C:C`, `3:3`)
+  clearRange: async (range: string, sessionId?: string, target?: SheetTarget): Promise<RangeWriteResponse> => {
+    const response = await api.delete(`${sheetPath(target)}/ranges/${encodeURIComponent(range)}`, { params: { sessionId } });
+    return response.data;
+  },
+
+  // POST /undo - Reverse the last edit of this user/session
+  undo: async (userId?: string, sessionId?: string, target?: SheetTarget): Promise<HistoryResponse> => {
+    const response = await api.post(`${sheetPath(target)}/undo`, { userId, sessionId });
+    return response.data;
+  },
+
+  // POST /redo - Re-apply the last undone edit of this user/session
+  redo: async (userId?: string, sessionId?: string, target?: SheetTarget): Promise<HistoryResponse> => {
+    const response = await api.post(`${sheetPath(target)}/redo`, { userId, sessionId });
+    return response.data;
+  },
+
   // GET /action - Get action events
-  getActions: async (): Promise<ActionResponse> => {
-    const response = await api.get('/action');
+  getActions: async (target?: SheetTarget): Promise<ActionResponse> => {
+    const response = await api.get(`${sheetPath(target)}/action`);
     return response.data;
   },
 
   // GET /state - Get state events and spreadsheet state
-  getState: async (): Promise<StateResponse> => {
-    const response = await api.get('/state');
+  getState: async (target?: SheetTarget): Promise<StateResponse> => {
+    const response = await api.get(`${sheetPath(target)}/state`);
+    return response.data;
+  },
+
+  // GET /changes - Deltas of a sheet after the `since` sequence number
+  getChanges: async (since: number, target?: SheetTarget): Promise<ChangesResponse> => {
+    const response = await api.get(`${sheetPath(target)}/changes`, { params: { since } });
+    return response.data;
+  },
+
+  // GET /workbooks - List workbooks and their sheets
+  getWorkbooks: async (): Promise<WorkbooksResponse> => {
+    const response = await api.get('/workbooks');
+    return response.data;
+  },
+
+  // POST /workbooks - Create a workbook with one empty sheet
+  createWorkbook: async (name?: string): Promise<Workbook> => {
+    const response = await api.post('/workbooks', { name });
+    return response.data.workbook;
+  },
+
+  // POST /workbooks/:workbookId/sheets - Add a sheet
+  createSheet: async (workbookId: string, name?: string): Promise<SheetResponse> => {
+    const response = await api.post(`/workbooks/${encodeURIComponent(workbookId)}/sheets`, { name });
+    return response.data;
+  },
+
+  // PATCH /workbooks/:workbookId/sheets/:sheetId - Rename a sheet
+  renameSheet: async (target: SheetTarget, name: string): Promise<SheetResponse> => {
+    const response = await api.patch(sheetPath(target), { name });
+    return response.data;
+  },
+
+  // POST /workbooks/:workbookId/sheets/:sheetId/duplicate - Copy a sheet
+  duplicateSheet: async (target: SheetTarget): Promise<SheetResponse> => {
+    const response = await api.post(`${sheetPath(target)}/duplicate`);
+    return response.data;
+  },
+
+  // DELETE /workbooks/:workbookId/sheets/:sheetId - Delete a sheet
+  deleteSheet: async (target: SheetTarget): Promise<Workbook> => {
+    const response = await api.delete(sheetPath(target));
+    return response.data.workbook;
+  },
+
+  // GET /workbooks/:workbookId/sheets/:sheetId/access - Who a sheet is shared with (owners only); null until it is shared
+  getSheetAccess: async (target: SheetTarget): Promise<SheetAccess | null> => {
+    const response = await api.get(`${sheetPath(target)}/access`);
+    return response.data.access;
+  },
+
+  // PUT /workbooks/:workbookId/sheets/:sheetId/access - Change the default role, members and protected ranges
+  updateSheetAccess: async (target: SheetTarget, update: SheetAccessUpdate): Promise<SheetAccess> => {
+    const response = await api.put(`${sheetPath(target)}/access`, update);
+    return response.data.access;
+  },
+
+  // POST /workbooks/import - Create a workbook from an .xlsx file
+  importXlsx: async (file: Blob, name?: string): Promise<Workbook> => {
+    const response = await api.post('/workbooks/import', file, {
+      headers: { 'Content-Type': XLSX_MIME_TYPE },
+      params: name ? { name } : undefined,
+    });
+    return response.data.workbook;
+  },
+
+  // GET /workbooks/:workbookId/export.xlsx - Download all sheets of a workbook as .xlsx
+  exportXlsx: async (workbookId: string): Promise<Blob> => {
+    const response = await api.get(`/workbooks/${encodeURIComponent(workbookId)}/export.xlsx`, { responseType: 'blob' });
     return response.data;
   },
 
@@ -10,7 +10,7 @@ export interface UserEvent {
 export interface ActionEvent {
   id: string;
   timestamp: Date;
-  action: 'UPDATE_CELL' | 'INSERT_ROW' | 'DELETE_ROW' | 'INSERT_COLUMN' | 'DELETE_COLUMN' | 'FORMAT_CELL' | 'HEADER_RENAME';
+  action: 'UPDATE_CELL' | 'INSERT_ROW' | 'DELETE_ROW' | 'INSERT_COLUMN' | 'DELETE_COLUMN' | 'FORMAT_CELL' | 'HEADER_RENAME' | 'RESIZE_COLUMN' | 'RESIZE_ROW' | 'FREEZE_PANES' | 'IMPORT_CSV' | 'UNDO' | 'REDO' | 'BATCH';
   target: {
     row?: number;
     col?: number;
@@ -23,21 +23,17 @@ export interface ActionEvent {
 export interface StateEvent {
   id: string;
   timestamp: Date;
-  type: 'CELL_UPDATE' | 'ROW_INSERT' | 'ROW_DELETE' | 'COLUMN_INSERT' | 'COLUMN_DELETE' | 'FORMAT_CHANGE' | 'HEADER_RENAME';
+  type: 'CELL_UPDATE' | 'ROW_INSERT' | 'ROW_DELETE' | 'COLUMN_INSERT' | 'COLUMN_DELETE' | 'FORMAT_CHANGE' | 'HEADER_RENAME' | 'DIMENSION_CHANGE' | 'FREEZE_CHANGE' | 'UNDO' | 'REDO' | 'BATCH';
   cellData?: {
     row: number;
     col: number;
     value: string;
     formula?: string;
-    format?: {
-      bold?: boolean;
-      italic?: boolean;
-      color?: string;
-      backgroundColor?: string;
-    };
+    format?: CellFormat;
   };
   rowData?: {
     rowIndex: number;
+    count?: number;
     cells: Array<{
       col: number;
       value: string;
@@ -46,8 +42,48 @@ export interface StateEvent {
   };
   columnData?: {
     colIndex: number;
+    count?: number;
     header: string;
   };
+  formatData?: {
+    startRow: number;
+    startCol: number;
+    endRow: number;
+    endCol: number;
+    format: Partial<CellFormat>;
+  };
+  // Columns or rows start-end (0-based) resized to `size` pixels, or back to the default when null
+  dimensionData?: {
+    axis: 'row' | 'col';
+    start: number;
+    end: number;
+    size: number | null;
+  };
+  // Top rows and left columns that now stay in view while the rest scrolls
+  freezeData?: {
+    rows: number;
+    columns: number;
+  };
+  // The state events of the commands of a batch, in order
+  batchData?: StateEvent[];
+}
+
+export interface CellFormat {
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  strikethrough?: boolean;
+  color?: string;
+  backgroundColor?: string;
+  fontSize?: number;
+  textAlign?: 'left' | 'center' | 'right';
+  wrap?: boolean;
+  borders?: {
+    top?: string;
+    right?: string;
+    bottom?: string;
+    left?: string;
+  };
 }
 
 export interface SpreadsheetCell {
@@ -55,12 +91,7 @@ export interface SpreadsheetCell {
   col: number;
   value: string;
   formula?: string;
-  format?: {
-    bold?: boolean;
-    italic?: boolean;
-    color?: string;
-    backgroundColor?: string;
-  };
+  format?: CellFormat;
 }
 
 export interface SpreadsheetState {
@@ -68,6 +99,124 @@ export interface SpreadsheetState {
   rows: number;
   columns: number;
   headers: string[];
+  // Widths and heights in pixels of resized columns and rows, by 0-based index; others use the grid's default
+  columnWidths?: Record<number, number>;
+  rowHeights?: Record<number, number>;
+  // Top rows and left columns that stay in view while the rest scrolls; none when left out
+  frozenRows?: number;
+  frozenColumns?: number;
+  // Sequence number of the last delta included in this state
+  version?: number;
+}
+
+// One step of a sheet delta; patches are applied in order
+export type SheetPatch =
+  | { type: 'cells'; cells: SpreadsheetCell[]; removed: Array<{ row: number; col: number }> }
+  | { type: 'structure'; change: { type: 'insert' | 'delete'; axis: 'row' | 'col'; index: number; count: number } };
+
+// Changes of one sheet, broadcast as `sheet_delta`; `seq` increases by one per delta
+export interface SheetDelta {
+  workbookId: string;
+  sheetId: string;
+  seq: number;
+  timestamp: string;
+  patches: SheetPatch[];
+  rows: number;
+  columns: number;
+  // Only present when column headers changed
+  headers?: string[];
+  // Both only present when column widths or row heights changed
+  columnWidths?: Record<number, number>;
+  rowHeights?: Record<number, number>;
+  // Both only present when the frozen rows or columns changed
+  frozenRows?: number;
+  frozenColumns?: number;
+}
+
+// What the signed-in user may do on a sheet, weakest first
+export type SheetRole = 'viewer' | 'commenter' | 'editor' | 'owner';
+
+export interface SheetInfo {
+  id: string;
+  name: string;
+  // The signed-in user's role; sheets they may not see are not listed
+  role?: SheetRole;
+}
+
+export interface Workbook {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  sheets: SheetInfo[];
+}
+
+// Workbook and sheet a request or update belongs to
+export interface SheetTarget {
+  workbookId: string;
+  sheetId: string;
+}
+
+// A local account as the API returns it
+export interface User {
+  id: string;
+  username: string;
+  createdAt: string;
+}
+
+export interface AuthResponse {
+  success: boolean;
+  user: User;
+  token: string;
+}
+
+export interface AccessUser {
+  id: string;
+  username: string;
+}
+
+// Who a sheet is shared with; `defaultRole` applies to everyone else, including anonymous users
+export interface SheetAccess {
+  owner: AccessUser;
+  defaultRole: SheetRole | null;
+  members: Array<AccessUser & { role: SheetRole }>;
+  // Cells only the owner and the listed editors may change
+  protectedRanges: Array<{ id: string; range: string; editors: AccessUser[] }>;
+}
+
+// Changes to a sheet's sharing, naming users by username; parts left out stay as they are
+export interface SheetAccessUpdate {
+  defaultRole?: SheetRole | null;
+  members?: Array<{ username: string; role: SheetRole }>;
+  protectedRanges?: Array<{ range: string; editors?: string[] }>;
+}
+
+// Cells (`B4`) or cell ranges (`B2:D9`), whole columns (`C`) and whole rows (1-based), as the grid reports its selection
+export interface PresenceSelection {
+  cells: string[];
+  columns: string[];
+  rows: number[];
+}
+
+// Another client on the server: its name, color, sheet, selection and the cell it is editing
+export interface Presence {
+  clientId: string;
+  name: string;
+  color: string;
+  workbookId?: string;
+  sheetId?: string;
+  selection: PresenceSelection;
+  editing: { row: number; col: number } | null;
+  updatedAt: string;
+}
+
+// What a client reports about itself; the server assigns its color
+export interface PresenceUpdate {
+  name: string;
+  workbookId?: string;
+  sheetId?: string;
+  selection: PresenceSelection;
+  editing: { row: number; col: number } | null;
 }
 
 // API Response types
@@ -89,4 +238,78 @@ export interface StateResponse {
   state: SpreadsheetState;
   stateEvents: StateEvent[];
   count: number;
-} 
\ No newline at end of file
+} 
+
+// Deltas after the requested version, or the whole state when the server no longer has them
+export interface ChangesResponse {
+  success: boolean;
+  error?: string;
+  version: number;
+  deltas?: SheetDelta[];
+  state?: SpreadsheetState;
+}
+
+export interface WorkbooksResponse {
+  success: boolean;
+  workbooks: Workbook[];
+  count: number;
+}
+
+export interface SheetResponse {
+  success: boolean;
+  workbook: Workbook;
+  sheet: SheetInfo;
+}
+
+// Acknowledgement of a command sent over the WebSocket; failures carry the HTTP status the route would use
+export interface MessageResponse {
+  success: boolean;
+  message?: string;
+  userEvent?: UserEvent;
+  parsedCommand?: any;
+  recalculatedCells?: number;
+  workbookId?: string;
+  sheetId?: string;
+  error?: string;
+  statusCode?: number;
+}
+
+// Commands applied together by /batch; a batch that fails changes nothing
+export interface BatchResponse {
+  success: boolean;
+  message: string;
+  userEvent: UserEvent;
+  actionEvent: ActionEvent;
+  recalculatedCells: number;
+  workbookId: string;
+  sheetId: string;
+}
+
+// Body of PUT /ranges/:range: values (or formulas) row by row from the top-left cell,
+// optionally each cell's format and the cell a pasted block was copied from
+export interface RangeWriteRequest {
+  values: string[][];
+  formats?: Array<Array<CellFormat | null>>;
+  copiedFrom?: string;
+}
+
+// Answer of the cell and range write endpoints
+export interface RangeWriteResponse {
+  success: boolean;
+  message: string;
+  actionEvent: ActionEvent;
+  range: string;
+  cellsUpdated: number;
+  recalculatedCells: number;
+  workbookId: string;
+  sheetId: string;
+}
+
+export interface HistoryResponse {
+  success: boolean;
+  message: string;
+  actionEvent: ActionEvent;
+  recalculatedCells: number;
+  workbookId: string;
+  sheetId: string;
+}
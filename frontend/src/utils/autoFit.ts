@@ -0,0 +1,67 @@
+import type { SpreadsheetCell } from '../types';
+
+// Room a grid cell needs around its text: padding and border (see .cell in the Spreadsheet styles)
+const CELL_PADDING_X = 25;
+const CELL_PADDING_Y = 13;
+const DEFAULT_FONT_SIZE = 14;
+const LINE_HEIGHT = 1.2;
+
+// Column widths and row heights the server accepts
+export const COLUMN_WIDTH_LIMITS = { min: 20, max: 1000 };
+export const ROW_HEIGHT_LIMITS = { min: 16, max: 500 };
+
+export type MeasureText = (text: string, font: string) => number;
+
+export const clampSize = (size: number, limits: { min: number; max: number }): number =>
+  Math.min(limits.max, Math.max(limits.min, Math.round(size)));
+
+let canvasContext: CanvasRenderingContext2D | null | undefined;
+
+// Width of text in a CSS font; without a canvas (e.g. in tests) glyphs are assumed 0.6em wide
+export const measureText: MeasureText = (text, font) => {
+  if (canvasContext === undefined) {
+    canvasContext = document.createElement('canvas').getContext('2d') ?? null;
+  }
+  if (!canvasContext) {
+    return text.length * Number(font.match(/(\d+)px/)?.[1] ?? DEFAULT_FONT_SIZE) * 0.6;
+  }
+  canvasContext.font = font;
+  return canvasContext.measureText(text).width;
+};
+
+const fontOf = (cell: SpreadsheetCell, fontFamily: string): string =>
+  `${cell.format?.italic ? 'italic ' : ''}${cell.format?.bold ? 'bold ' : ''}${cell.format?.fontSize ?? DEFAULT_FONT_SIZE}px ${fontFamily}`;
+
+// Width that shows every value of a column and its header in full; null (the default) for an empty column
+export const fitColumnWidth = (
+  cells: SpreadsheetCell[],
+  header: string,
+  fontFamily: string,
+  measure: MeasureText = measureText
+): number | null => {
+  const values = cells.filter(cell => cell.value);
+  if (values.length === 0) return null;
+  const widest = values.reduce(
+    (max, cell) => Math.max(max, measure(cell.value, fontOf(cell, fontFamily))),
+    measure(header, `600 12px ${fontFamily}`)
+  );
+  return clampSize(Math.ceil(widest) + CELL_PADDING_X, COLUMN_WIDTH_LIMITS);
+};
+
+// Height that fits the largest font of a row and every line of its wrapped cells; null when the default fits
+export const fitRowHeight = (
+  cells: SpreadsheetCell[],
+  columnWidth: (col: number) => number,
+  defaultHeight: number,
+  fontFamily: string,
+  measure: MeasureText = measureText
+): number | null => {
+  const tallest = cells.reduce((max, cell) => {
+    const lineHeight = (cell.format?.fontSize ?? DEFAULT_FONT_SIZE) * LINE_HEIGHT;
+    const textWidth = cell.format?.wrap && cell.value ? measure(cell.value, fontOf(cell, fontFamily)) : 0;
+    const lines = Math.max(1, Math.ceil(textWidth / Math.max(1, columnWidth(cell.col) - CELL_PADDING_X)));
+    return Math.max(max, lineHeight * lines);
+  }, 0);
+  const height = Math.ceil(tallest) + CELL_PADDING_Y;
+  return height <= defaultHeight ? null : clampSize(height, ROW_HEIGHT_LIMITS);
+};
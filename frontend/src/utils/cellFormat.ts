@@ -0,0 +1,50 @@
+import type { CSSProperties } from 'react';
+import type { CellFormat } from '../types';
+
+const JUSTIFY_CONTENT: Record<NonNullable<CellFormat['textAlign']>, CSSProperties['justifyContent']> = {
+  left: 'flex-start',
+  center: 'center',
+  right: 'flex-end',
+};
+
+// Convert a cell format from the backend into inline styles for a grid cell
+export const getCellStyle = (format?: CellFormat): CSSProperties => {
+  if (!format) {
+    return {};
+  }
+
+  const style: CSSProperties = {};
+
+  if (format.bold !== undefined) style.fontWeight = format.bold ? 'bold' : 'normal';
+  if (format.italic !== undefined) style.fontStyle = format.italic ? 'italic' : 'normal';
+  if (format.color) style.color = format.color;
+  if (format.backgroundColor) style.backgroundColor = format.backgroundColor;
+  if (format.fontSize) style.fontSize = `${format.fontSize}px`;
+
+  const decorations = [
+    format.underline ? 'underline' : '',
+    format.strikethrough ? 'line-through' : '',
+  ].filter(Boolean);
+  if (decorations.length > 0) style.textDecoration = decorations.join(' ');
+
+  if (format.textAlign) {
+    // Cells are flex containers, so alignment is applied on both axes of the content
+    style.justifyContent = JUSTIFY_CONTENT[format.textAlign];
+    style.textAlign = format.textAlign;
+  }
+
+  if (format.wrap) {
+    style.whiteSpace = 'normal';
+    style.wordBreak = 'break-word';
+    style.textOverflow = 'clip';
+  }
+
+  if (format.borders) {
+    if (format.borders.top) style.borderTop = format.borders.top;
+    if (format.borders.right) style.borderRight = format.borders.right;
+    if (format.borders.bottom) style.borderBottom = format.borders.bottom;
+    if (format.borders.left) style.borderLeft = format.borders.left;
+  }
+
+  return style;
+};
@@ -0,0 +1,132 @@
+import type { CellFormat, RangeWriteRequest, SpreadsheetCell } from '../types';
+import { getCellStyle } from './cellFormat';
+
+// Pad short rows so the block is a rectangle
+const toRectangle = (rows: string[][]): string[][] => {
+  const width = rows.reduce((max, row) => Math.max(max, row.length), 0);
+  return rows.map(row => [...row, ...Array<string>(width - row.length).fill('')]);
+};
+
+// Quote fields the way Excel and Google Sheets do when they hold tabs, line breaks or quotes
+const quoteTsvField = (value: string): string =>
+  /[\t\n\r"]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const formatTsv = (rows: string[][]): string =>
+  rows.map(row => row.map(quoteTsvField).join('\t')).join('\n');
+
+// Rows of tab-separated fields; quoted fields may contain tabs, line breaks and doubled quotes
+export const parseTsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === '\t') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  // Copied blocks usually end with a line break, which does not start another row
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return toRectangle(rows);
+};
+
+const escapeHtml = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const toCssText = (format: CellFormat | undefined): string =>
+  Object.entries(getCellStyle(format))
+    .filter(([property]) => property !== 'justifyContent')
+    .map(([property, value]) => `${property.replace(/[A-Z]/g, letter => `-${letter.toLowerCase()}`)}:${value}`)
+    .join(';');
+
+/**
+ * An HTML table of cells as other spreadsheets paste it, styled with the cell formats.
+ * The values, formulas and formats are also kept in data attributes so this grid can
+ * paste them back exactly; `copiedFrom` marks a copy (not a cut) whose formulas move along.
+ */
+export const formatHtmlTable = (cells: Array<Array<SpreadsheetCell | undefined>>, copiedFrom?: string): string => {
+  const rows = cells.map(row => {
+    const columns = row.map(cell => {
+      const attributes = [
+        `data-value="${escapeHtml(cell?.value ?? '')}"`,
+        cell?.formula ? `data-formula="${escapeHtml(cell.formula)}"` : '',
+        `data-format="${escapeHtml(JSON.stringify(cell?.format ?? null))}"`,
+        cell?.format ? `style="${escapeHtml(toCssText(cell.format))}"` : '',
+      ].filter(Boolean);
+      return `<td ${attributes.join(' ')}>${escapeHtml(cell?.value ?? '')}</td>`;
+    });
+    return `<tr>${columns.join('')}</tr>`;
+  });
+  const origin = copiedFrom ? ` data-copied-from="${escapeHtml(copiedFrom)}"` : '';
+  return `<table${origin}><tbody>${rows.join('')}</tbody></table>`;
+};
+
+/**
+ * Read the first table of pasted HTML into a block of cells. Tables copied from this
+ * grid keep their formulas and formats; from elsewhere only the text of each cell is used.
+ * Returns null when the HTML has no table.
+ */
+export const parseHtmlTable = (html: string): RangeWriteRequest | null => {
+  const table = new DOMParser().parseFromString(html, 'text/html').querySelector('table');
+  if (!table) return null;
+
+  const values: string[][] = [];
+  const formats: Array<Array<CellFormat | null>> = [];
+  let ownCells = true;
+  Array.from(table.querySelectorAll('tr')).forEach(tr => {
+    const rowValues: string[] = [];
+    const rowFormats: Array<CellFormat | null> = [];
+    Array.from(tr.querySelectorAll('td, th')).forEach(td => {
+      const format = td.getAttribute('data-format');
+      ownCells = ownCells && format !== null;
+      rowValues.push(
+        td.getAttribute('data-formula') ?? td.getAttribute('data-value') ?? (td.textContent ?? '').replace(/\u00a0/g, ' ').trim()
+      );
+      rowFormats.push(format ? JSON.parse(format) : null);
+      // Merged cells take up their whole span so the columns after them stay in place
+      for (let span = Number(td.getAttribute('colspan')) || 1; span > 1; span--) {
+        rowValues.push('');
+        rowFormats.push(null);
+      }
+    });
+    values.push(rowValues);
+    formats.push(rowFormats);
+  });
+  if (values.length === 0) return null;
+
+  const block: RangeWriteRequest = { values: toRectangle(values) };
+  if (ownCells) {
+    const width = block.values[0].length;
+    block.formats = formats.map(row => [...row, ...Array<null>(width - row.length).fill(null)]);
+    const copiedFrom = table.getAttribute('data-copied-from');
+    if (copiedFrom) {
+      block.copiedFrom = copiedFrom;
+    }
+  }
+  return block;
+};
@@ -8,7 +8,21 @@ export const API_CONFIG = {
 export const WEBSOCKET_CONFIG = {
   URL: import.meta.env.VITE_WEBSOCKET_URL || 'http://localhost:3001',
   TIMEOUT: 10000,
-  RECONNECTION_ATTEMPTS: 3,
+  // Reconnect forever, waiting 1s, 2s, 4s, ... up to 30s between attempts,
+  // each randomized by ±50% so clients don't all return at once after a redeploy
+  RECONNECTION_ATTEMPTS: Infinity,
+  RECONNECTION_DELAY: 1000,
+  RECONNECTION_DELAY_MAX: 30000,
+  RECONNECTION_JITTER: 0.5,
+  // How long "Resynced" stays visible after catching up
+  RESYNC_NOTICE_TIME: 3000,
+} as const;
+
+// Auth Configuration
+export const AUTH_CONFIG = {
+  // localStorage key of the session token
+  TOKEN_STORAGE_KEY: 'spreadsheet-auth-token',
+  MIN_PASSWORD_LENGTH: 8,
 } as const;
 
 // Spreadsheet Configuration
@@ -21,16 +35,14 @@ export const SPREADSHEET_CONFIG = {
   CELL_HEIGHT: 30,
   HEADER_HEIGHT: 40,
   ROW_HEADER_WIDTH: 60,
-  INITIAL_VISIBLE_ROWS: 20, // Frontend shows 20 rows initially
-  MAX_VISIBLE_ROWS: 100,    // Frontend can show up to 100 rows
-  SCROLL_EXPANSION_ROWS: 20, // Add 20 rows at a time
-  SCROLL_THRESHOLD: 0.8,    // 80% scroll to trigger expansion
+  INITIAL_VISIBLE_ROWS: 20, // Rows that fit the grid viewport
+  OVERSCAN_ROWS: 5,         // Rows rendered above and below the viewport
+  OVERSCAN_COLUMNS: 2,      // Columns rendered left and right of the viewport
 };
 
 export const IDLE_CONFIG = {
   IDLE_TIME: 30000, // 30 seconds
   EVENTS: ['mousedown', 'mousemove', 'keypress', 'scroll', 'touchstart', 'click'],
-  DEBOUNCE_DELAY: 300, // 300ms for WebSocket updates
   REQUEST_THROTTLE: 1000, // 1 second between API requests
 };
 
@@ -48,8 +60,12 @@ export const COMMAND_EXAMPLES = [
   'C3 Test Message',
   'Z50 = SUM(A1:A10)',
   'AA1 = 100',
-  'A1-100 42', // Fill column A with 42
-  'A1-Z1 Test', // Fill row 1 with Test
+  'A:A 42', // Fill column A with 42
+  '1:1 Test', // Fill row 1 with Test
+  'insert row after 5',
+  'delete column D',
+  'B1 = Sheet2!A1 * 2',
+  'undo',
 ];
 
 // Cell Format Defaults
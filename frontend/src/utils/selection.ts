@@ -0,0 +1,88 @@
+import { columnIndexToLetter, letterToColumnIndex } from './constants';
+
+// A rectangle of cells, 0-based: `anchor` is where the selection started and
+// `focus` the cell it was dragged or shift-clicked to, in any direction
+export interface CellRange {
+  anchor: { row: number; col: number };
+  focus: { row: number; col: number };
+}
+
+// The same rectangle by its edges, inclusive
+export interface RangeBounds {
+  top: number;
+  left: number;
+  bottom: number;
+  right: number;
+}
+
+export const cellId = (row: number, col: number): string => `${columnIndexToLetter(col)}${row + 1}`;
+
+export const singleCell = (row: number, col: number): CellRange => ({ anchor: { row, col }, focus: { row, col } });
+
+export const rangeBounds = ({ anchor, focus }: CellRange): RangeBounds => ({
+  top: Math.min(anchor.row, focus.row),
+  left: Math.min(anchor.col, focus.col),
+  bottom: Math.max(anchor.row, focus.row),
+  right: Math.max(anchor.col, focus.col),
+});
+
+// `A1` for a single cell, `B2:D9` (top-left to bottom-right) for anything larger
+export const formatRange = (range: CellRange): string => {
+  const { top, left, bottom, right } = rangeBounds(range);
+  const start = cellId(top, left);
+  return top === bottom && left === right ? start : `${start}:${cellId(bottom, right)}`;
+};
+
+// Bounds of a cell or range as `formatRange` writes it, or null for anything else
+export const parseRange = (value: string): RangeBounds | null => {
+  const match = value.toUpperCase().match(/^([A-Z]+)([1-9]\d*)(?::([A-Z]+)([1-9]\d*))?$/);
+  if (!match) return null;
+  const [, startCol, startRow, endCol = startCol, endRow = startRow] = match;
+  return rangeBounds({
+    anchor: { row: Number(startRow) - 1, col: letterToColumnIndex(startCol) },
+    focus: { row: Number(endRow) - 1, col: letterToColumnIndex(endCol) },
+  });
+};
+
+export const containsCell = (bounds: RangeBounds, row: number, col: number): boolean =>
+  row >= bounds.top && row <= bounds.bottom && col >= bounds.left && col <= bounds.right;
+
+// Every index from one end to the other, in ascending order
+export const spanBetween = (from: number, to: number): number[] => {
+  const start = Math.min(from, to);
+  return Array.from({ length: Math.abs(to - from) + 1 }, (_, offset) => start + offset);
+};
+
+// Where Ctrl+Arrow lands along one row or column, like desktop spreadsheets: from inside a
+// block of values to its last one, otherwise to the next value, or to the sheet's edge
+export const findDataEdge = (hasValue: (index: number) => boolean, from: number, step: 1 | -1, count: number): number => {
+  const inside = (index: number) => index >= 0 && index < count;
+  let index = from + step;
+  if (!inside(index)) return from;
+  if (hasValue(from) && hasValue(index)) {
+    while (inside(index + step) && hasValue(index + step)) index += step;
+    return index;
+  }
+  while (inside(index + step) && !hasValue(index)) index += step;
+  return index;
+};
+
+export type FillDirection = 'down' | 'up' | 'right' | 'left';
+
+// Where dragging a range's fill handle to a cell extends it: along the axis the pointer is
+// further outside of, up to its row or column; null while the pointer is inside the range
+export const fillTarget = (bounds: RangeBounds, row: number, col: number): { direction: FillDirection; to: number } | null => {
+  const rowsOutside = Math.max(bounds.top - row, row - bounds.bottom, 0);
+  const columnsOutside = Math.max(bounds.left - col, col - bounds.right, 0);
+  if (rowsOutside === 0 && columnsOutside === 0) return null;
+  if (rowsOutside >= columnsOutside) {
+    return { direction: row > bounds.bottom ? 'down' : 'up', to: row };
+  }
+  return { direction: col > bounds.right ? 'right' : 'left', to: col };
+};
+
+// The range and the cells a fill adds to it
+export const extendBounds = (bounds: RangeBounds, { direction, to }: { direction: FillDirection; to: number }): RangeBounds => {
+  const edge = { down: 'bottom', up: 'top', right: 'right', left: 'left' } as const;
+  return { ...bounds, [edge[direction]]: to };
+};
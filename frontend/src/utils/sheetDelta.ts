@@ -0,0 +1,49 @@
+import type { SheetDelta, SheetPatch, SpreadsheetState } from '../types';
+import { cellKey } from './virtualization';
+
+type StructureChange = Extract<SheetPatch, { type: 'structure' }>['change'];
+
+// Where a row/column index ends up after a structure change; null when it was deleted
+const shiftIndex = (index: number, change: StructureChange): number | null => {
+  if (index < change.index) {
+    return index;
+  }
+  if (change.type === 'insert') {
+    return index + change.count;
+  }
+  return index < change.index + change.count ? null : index - change.count;
+};
+
+// The state after a delta from the server, computed locally instead of reloading it
+export const applySheetDelta = (state: SpreadsheetState, delta: SheetDelta): SpreadsheetState => {
+  let cells = state.cells;
+
+  delta.patches.forEach(patch => {
+    if (patch.type === 'structure') {
+      const key = patch.change.axis === 'row' ? 'row' : 'col';
+      cells = cells.flatMap(cell => {
+        const shifted = shiftIndex(cell[key], patch.change);
+        if (shifted === null) {
+          return [];
+        }
+        return [shifted === cell[key] ? cell : { ...cell, [key]: shifted }];
+      });
+    } else {
+      const replaced = new Set([...patch.cells, ...patch.removed].map(({ row, col }) => cellKey(row, col)));
+      cells = [...cells.filter(cell => !replaced.has(cellKey(cell.row, cell.col))), ...patch.cells];
+    }
+  });
+
+  return {
+    ...state,
+    cells,
+    rows: delta.rows,
+    columns: delta.columns,
+    headers: delta.headers ?? state.headers,
+    columnWidths: delta.columnWidths ?? state.columnWidths,
+    rowHeights: delta.rowHeights ?? state.rowHeights,
+    frozenRows: delta.frozenRows ?? state.frozenRows,
+    frozenColumns: delta.frozenColumns ?? state.frozenColumns,
+    version: delta.seq,
+  };
+};
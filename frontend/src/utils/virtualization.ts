@@ -0,0 +1,86 @@
+import type { SpreadsheetCell } from '../types';
+
+// Items of a scrolled axis: `start`/`end` include the overscan and are rendered,
+// `visibleStart`/`visibleEnd` are what fits the viewport; the ends are exclusive
+export interface VisibleRange {
+  start: number;
+  end: number;
+  visibleStart: number;
+  visibleEnd: number;
+}
+
+// Sizes along one axis (rows or columns): most items have the default size, a few their own
+export interface AxisLayout {
+  count: number;
+  total: number;
+  sizeOf: (index: number) => number;
+  // Where an item starts; offsetOf(count) is the end of the last one
+  offsetOf: (index: number) => number;
+  // The last item starting at or before `position`, or `count` once it is past the end
+  indexAt: (position: number) => number;
+}
+
+export const createAxisLayout = (count: number, defaultSize: number, sizes: Record<number, number> = {}): AxisLayout => {
+  const custom = Object.entries(sizes)
+    .map(([index, size]) => [Number(index), size] as const)
+    .filter(([index]) => index < count)
+    .sort(([a], [b]) => a - b);
+  // extra[k]: how much longer than default the first k custom items are together
+  const extra = [0];
+  custom.forEach(([, size], k) => extra.push(extra[k] + size - defaultSize));
+  const lookup = new Map(custom);
+
+  // The first index in [0, count] for which `test` holds; `test` must stay true once it does
+  const search = (low: number, high: number, test: (index: number) => boolean): number => {
+    while (low < high) {
+      const middle = Math.floor((low + high) / 2);
+      if (test(middle)) high = middle;
+      else low = middle + 1;
+    }
+    return low;
+  };
+  const offsetOf = (index: number) =>
+    index * defaultSize + extra[search(0, custom.length, k => custom[k][0] >= index)];
+  const total = offsetOf(count);
+
+  return {
+    count,
+    total,
+    sizeOf: index => lookup.get(index) ?? defaultSize,
+    offsetOf,
+    indexAt: position => (position >= total ? count : search(0, count, index => offsetOf(index + 1) > position)),
+  };
+};
+
+// Window of items shown for a scroll offset and viewport size along an axis
+export const getLayoutRange = (layout: AxisLayout, offset: number, viewportSize: number, overscan: number): VisibleRange => {
+  const visibleStart = layout.indexAt(Math.max(0, offset));
+  const end = offset + viewportSize;
+  const last = layout.indexAt(end);
+  // Up to the item the viewport ends in, unless it ends exactly where that item starts
+  const visibleEnd = Math.max(visibleStart, Math.min(layout.count, layout.offsetOf(last) < end ? last + 1 : last));
+  return {
+    start: Math.max(0, visibleStart - overscan),
+    end: Math.min(layout.count, visibleEnd + overscan),
+    visibleStart,
+    visibleEnd,
+  };
+};
+
+// Window of equally sized items shown for a scroll offset and viewport size
+export const getVisibleRange = (
+  offset: number,
+  viewportSize: number,
+  itemSize: number,
+  itemCount: number,
+  overscan: number
+): VisibleRange => getLayoutRange(createAxisLayout(itemCount, itemSize), offset, viewportSize, overscan);
+
+export const cellKey = (row: number, col: number): string => `${row}:${col}`;
+
+// Cells by position, so rendering a window does not scan the whole sheet for every cell
+export const indexCells = (cells: SpreadsheetCell[]): Map<string, SpreadsheetCell> => {
+  const index = new Map<string, SpreadsheetCell>();
+  cells.forEach(cell => index.set(cellKey(cell.row, cell.col), cell));
+  return index;
+};